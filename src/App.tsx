@@ -14,6 +14,9 @@ import MessagesCenter from './components/messages/MessagesCenter';
 import TimeClock from './components/time-clock/TimeClock';
 import AnalyticsDashboard from './components/analytics/AnalyticsDashboard';
 import DocumentsLibrary from './components/documents/DocumentsLibrary';
+import UpdatePrompt from './components/shared/UpdatePrompt';
+import CustomerApprovalPage from './components/customer-approval/CustomerApprovalPage';
+import { tokenFromLocation } from './lib/customerApproval';
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -114,9 +117,16 @@ function AppContent() {
 }
 
 function App() {
+  // Customers open approval links without an account
+  const approvalToken = tokenFromLocation();
+  if (approvalToken) {
+    return <CustomerApprovalPage token={approvalToken} />;
+  }
+
   return (
     <AuthProvider>
       <AppContent />
+      <UpdatePrompt />
     </AuthProvider>
   );
 }
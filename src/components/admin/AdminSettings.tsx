@@ -1,11 +1,16 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
-import { Users, Building2, Package, Wrench, Trash2, Plus, X, FileText, Palette } from 'lucide-react';
+import { Users, Building2, Package, Wrench, Trash2, Plus, X, FileText, Palette, ClipboardList, History, Hash, ShieldCheck, DollarSign } from 'lucide-react';
 import CustomerManagement from './CustomerManagement';
 import EquipmentManagement from './EquipmentManagement';
 import CompanyBranding from './CompanyBranding';
 import CustomFormBuilder from './CustomFormBuilder';
+import ProcedureTemplateManager from './ProcedureTemplateManager';
+import AuditLogViewer from './AuditLogViewer';
+import DocumentNumbering from './DocumentNumbering';
+import ApprovalPolicies from './ApprovalPolicies';
+import QuotePricing from './QuotePricing';
 
 interface User {
   id: string;
@@ -39,7 +44,7 @@ interface Manufacturer {
 
 export default function AdminSettings() {
   const { profile } = useAuth();
-  const [activeTab, setActiveTab] = useState<'users' | 'customers' | 'manufacturers' | 'equipment' | 'branding' | 'forms'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'customers' | 'manufacturers' | 'equipment' | 'procedures' | 'branding' | 'forms' | 'audit' | 'numbering' | 'approvals' | 'pricing'>('users');
   const [users, setUsers] = useState<User[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [manufacturers, setManufacturers] = useState<Manufacturer[]>([]);
@@ -231,6 +236,56 @@ export default function AdminSettings() {
               <Wrench className="w-5 h-5" />
               Equipment
             </button>
+            <button
+              onClick={() => setActiveTab('procedures')}
+              className={`flex items-center gap-2 px-6 py-4 font-medium border-b-2 transition ${
+                activeTab === 'procedures'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              <ClipboardList className="w-5 h-5" />
+              Procedures
+            </button>
+            {(isAdmin || isManager) && (
+              <button
+                onClick={() => setActiveTab('audit')}
+                className={`flex items-center gap-2 px-6 py-4 font-medium border-b-2 transition ${
+                  activeTab === 'audit'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                <History className="w-5 h-5" />
+                Audit Log
+              </button>
+            )}
+            {(isAdmin || isManager) && (
+              <button
+                onClick={() => setActiveTab('approvals')}
+                className={`flex items-center gap-2 px-6 py-4 font-medium border-b-2 transition ${
+                  activeTab === 'approvals'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                <ShieldCheck className="w-5 h-5" />
+                Approvals
+              </button>
+            )}
+            {(isAdmin || isManager) && (
+              <button
+                onClick={() => setActiveTab('pricing')}
+                className={`flex items-center gap-2 px-6 py-4 font-medium border-b-2 transition ${
+                  activeTab === 'pricing'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                <DollarSign className="w-5 h-5" />
+                Quote Pricing
+              </button>
+            )}
             {isAdmin && (
               <>
                 <button
@@ -255,6 +310,17 @@ export default function AdminSettings() {
                   <FileText className="w-5 h-5" />
                   Custom Forms
                 </button>
+                <button
+                  onClick={() => setActiveTab('numbering')}
+                  className={`flex items-center gap-2 px-6 py-4 font-medium border-b-2 transition ${
+                    activeTab === 'numbering'
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-slate-600 hover:text-slate-900'
+                  }`}
+                >
+                  <Hash className="w-5 h-5" />
+                  Numbering
+                </button>
               </>
             )}
           </nav>
@@ -277,6 +343,7 @@ export default function AdminSettings() {
               {activeTab === 'customers' && <CustomerManagement />}
               {activeTab === 'branding' && isAdmin && <CompanyBranding />}
               {activeTab === 'forms' && isAdmin && <CustomFormBuilder />}
+              {activeTab === 'numbering' && isAdmin && <DocumentNumbering />}
               {activeTab === 'manufacturers' && (
                 <ManufacturersTab
                   manufacturers={manufacturers}
@@ -285,6 +352,10 @@ export default function AdminSettings() {
                 />
               )}
               {activeTab === 'equipment' && <EquipmentManagement />}
+              {activeTab === 'procedures' && <ProcedureTemplateManager />}
+              {activeTab === 'audit' && (isAdmin || isManager) && <AuditLogViewer />}
+              {activeTab === 'approvals' && (isAdmin || isManager) && <ApprovalPolicies />}
+              {activeTab === 'pricing' && (isAdmin || isManager) && <QuotePricing />}
             </>
           )}
         </div>
@@ -0,0 +1,440 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, CalendarClock, Pencil, Plus, ShieldCheck, Trash2, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase } from '../../lib/supabase';
+import { DelegationInput, PolicyInput, approvalChains, describeChain } from '../../lib/approvalChains';
+import type { ApprovalDelegation, ApprovalPolicy, ApproverRole, UserRole } from '../../types/database';
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+const CHAIN_OPTIONS: ApproverRole[][] = [['manager'], ['admin'], ['manager', 'admin']];
+
+const EMPTY_POLICY: PolicyInput = {
+  name: '',
+  min_estimated_cost: 0,
+  approver_roles: ['manager'],
+  emergency_preapproval: true,
+  is_active: true,
+};
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+export default function ApprovalPolicies() {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [users, setUsers] = useState<Array<{ id: string; full_name: string; role: UserRole }>>([]);
+  const [policyDraft, setPolicyDraft] = useState<PolicyInput | null>(null);
+  const [editingPolicyId, setEditingPolicyId] = useState<string | undefined>();
+  const [delegationDraft, setDelegationDraft] = useState<DelegationInput | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const [loadedPolicies, loadedDelegations, usersRes] = await Promise.all([
+        approvalChains.listPolicies(),
+        approvalChains.listDelegations(),
+        supabase.from('users').select('id, full_name, role').order('full_name'),
+      ]);
+      if (usersRes.error) throw usersRes.error;
+
+      setPolicies(loadedPolicies);
+      setDelegations(loadedDelegations);
+      setUsers(usersRes.data || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editPolicy = (policy?: ApprovalPolicy) => {
+    setEditingPolicyId(policy?.id);
+    setPolicyDraft(
+      policy
+        ? {
+            name: policy.name,
+            min_estimated_cost: policy.min_estimated_cost,
+            approver_roles: policy.approver_roles,
+            emergency_preapproval: policy.emergency_preapproval,
+            is_active: policy.is_active,
+          }
+        : EMPTY_POLICY
+    );
+  };
+
+  const handleSavePolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!policyDraft) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      await approvalChains.savePolicy(policyDraft, editingPolicyId);
+      setPolicyDraft(null);
+      setPolicies(await approvalChains.listPolicies());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePolicy = async (policy: ApprovalPolicy) => {
+    if (!confirm(`Delete the "${policy.name}" policy? Requests already made keep their chain.`)) return;
+
+    try {
+      await approvalChains.deletePolicy(policy.id);
+      setPolicies(policies.filter((p) => p.id !== policy.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSaveDelegation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!delegationDraft) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      await approvalChains.createDelegation(delegationDraft);
+      setDelegationDraft(null);
+      setDelegations(await approvalChains.listDelegations());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteDelegation = async (delegation: ApprovalDelegation) => {
+    if (!confirm('Remove this delegation?')) return;
+
+    try {
+      await approvalChains.deleteDelegation(delegation.id);
+      setDelegations(delegations.filter((d) => d.id !== delegation.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-sm text-slate-600 py-8">Loading...</p>;
+  }
+
+  const approvers = users.filter((u) => u.role === 'admin' || u.role === 'manager');
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <section className="space-y-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Approval Policies</h2>
+            <p className="text-sm text-slate-600">
+              A request follows the active policy with the highest cost threshold its estimated cost reaches.
+            </p>
+          </div>
+          {isAdmin && !policyDraft && (
+            <button
+              onClick={() => editPolicy()}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              New Policy
+            </button>
+          )}
+        </div>
+
+        {policyDraft && (
+          <form onSubmit={handleSavePolicy} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  required
+                  value={policyDraft.name}
+                  onChange={(e) => setPolicyDraft({ ...policyDraft, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Applies from ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={policyDraft.min_estimated_cost}
+                  onChange={(e) => setPolicyDraft({ ...policyDraft, min_estimated_cost: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Sign-off</label>
+                <select
+                  value={CHAIN_OPTIONS.findIndex((roles) => roles.join() === policyDraft.approver_roles.join())}
+                  onChange={(e) =>
+                    setPolicyDraft({ ...policyDraft, approver_roles: CHAIN_OPTIONS[Number(e.target.value)] })
+                  }
+                  className={inputClass}
+                >
+                  {CHAIN_OPTIONS.map((roles, idx) => (
+                    <option key={roles.join()} value={idx}>
+                      {describeChain(roles)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={policyDraft.emergency_preapproval}
+                  onChange={(e) => setPolicyDraft({ ...policyDraft, emergency_preapproval: e.target.checked })}
+                  className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                Pre-approve emergency work, review afterwards
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={policyDraft.is_active}
+                  onChange={(e) => setPolicyDraft({ ...policyDraft, is_active: e.target.checked })}
+                  className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                Active
+              </label>
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setPolicyDraft(null)}
+                className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                {saving ? 'Saving...' : 'Save Policy'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {policies.length === 0 ? (
+          <p className="text-sm text-slate-500">No policies: every request goes to a single manager.</p>
+        ) : (
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+            {policies.map((policy) => (
+              <div key={policy.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="flex items-start gap-3">
+                  <ShieldCheck className={`w-5 h-5 mt-0.5 ${policy.is_active ? 'text-blue-600' : 'text-slate-300'}`} />
+                  <div>
+                    <p className="text-sm font-medium text-slate-900">
+                      {policy.name}
+                      {!policy.is_active && <span className="ml-2 text-xs font-normal text-slate-500">Inactive</span>}
+                    </p>
+                    <p className="text-xs text-slate-600">
+                      From ${Number(policy.min_estimated_cost).toFixed(2)} · {describeChain(policy.approver_roles)}
+                      {policy.emergency_preapproval && ' · emergencies pre-approved'}
+                    </p>
+                  </div>
+                </div>
+                {isAdmin && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => editPolicy(policy)}
+                      className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeletePolicy(policy)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Delegations</h2>
+            <p className="text-sm text-slate-600">
+              While an approver is out, the person covering can sign off their steps.
+            </p>
+          </div>
+          {!delegationDraft && profile && (
+            <button
+              onClick={() =>
+                setDelegationDraft({
+                  delegator_id: profile.id,
+                  delegate_id: '',
+                  starts_on: today(),
+                  ends_on: today(),
+                  reason: null,
+                })
+              }
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              Delegate
+            </button>
+          )}
+        </div>
+
+        {delegationDraft && (
+          <form onSubmit={handleSaveDelegation} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Approver out</label>
+                <select
+                  value={delegationDraft.delegator_id}
+                  disabled={!isAdmin}
+                  onChange={(e) => setDelegationDraft({ ...delegationDraft, delegator_id: e.target.value })}
+                  className={inputClass}
+                >
+                  {approvers.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.full_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Covered by *</label>
+                <select
+                  required
+                  value={delegationDraft.delegate_id}
+                  onChange={(e) => setDelegationDraft({ ...delegationDraft, delegate_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select a person</option>
+                  {users
+                    .filter((u) => u.id !== delegationDraft.delegator_id)
+                    .map((u) => (
+                      <option key={u.id} value={u.id}>
+                        {u.full_name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">From</label>
+                <input
+                  type="date"
+                  required
+                  value={delegationDraft.starts_on}
+                  onChange={(e) => setDelegationDraft({ ...delegationDraft, starts_on: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Until</label>
+                <input
+                  type="date"
+                  required
+                  value={delegationDraft.ends_on}
+                  onChange={(e) => setDelegationDraft({ ...delegationDraft, ends_on: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={delegationDraft.reason || ''}
+                  onChange={(e) => setDelegationDraft({ ...delegationDraft, reason: e.target.value || null })}
+                  className={inputClass}
+                  placeholder="e.g. Vacation"
+                />
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setDelegationDraft(null)}
+                className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                {saving ? 'Saving...' : 'Save Delegation'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {delegations.length === 0 ? (
+          <p className="text-sm text-slate-500">No current or upcoming delegations.</p>
+        ) : (
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+            {delegations.map((delegation) => (
+              <div key={delegation.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="flex items-start gap-3">
+                  <CalendarClock className="w-5 h-5 mt-0.5 text-slate-500" />
+                  <div>
+                    <p className="text-sm font-medium text-slate-900">
+                      {delegation.delegate?.full_name} covering for {delegation.delegator?.full_name}
+                    </p>
+                    <p className="text-xs text-slate-600">
+                      {new Date(`${delegation.starts_on}T00:00:00`).toLocaleDateString()} –{' '}
+                      {new Date(`${delegation.ends_on}T00:00:00`).toLocaleDateString()}
+                      {delegation.reason && ` · ${delegation.reason}`}
+                    </p>
+                  </div>
+                </div>
+                {(isAdmin || delegation.delegator_id === profile?.id) && (
+                  <button
+                    onClick={() => handleDeleteDelegation(delegation)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
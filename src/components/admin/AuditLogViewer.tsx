@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Filter } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import {
+  AUDIT_FIELD_LABELS,
+  AUDIT_TABLE_LABELS,
+  AuditContext,
+  AuditFilters,
+  auditTrail,
+} from '../../lib/auditTrail';
+import type { AuditAction, AuditLogEntry } from '../../types/database';
+import AuditEntryList from '../shared/AuditEntryList';
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+export default function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [users, setUsers] = useState<Array<{ id: string; full_name: string }>>([]);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [context, setContext] = useState<AuditContext | null>(null);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  useEffect(() => {
+    loadEntries(0);
+  }, [filters]);
+
+  const loadUsers = async () => {
+    const { data } = await supabase.from('users').select('id, full_name').order('full_name');
+    setUsers(data || []);
+  };
+
+  const loadEntries = async (nextPage: number) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const result = await auditTrail.search(filters, nextPage);
+      const combined = nextPage === 0 ? result.entries : [...entries, ...result.entries];
+      setContext(await auditTrail.loadContext(combined));
+      setEntries(combined);
+      setHasMore(result.hasMore);
+      setPage(nextPage);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (changes: Partial<AuditFilters>) => {
+    setFilters({ ...filters, ...changes });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Audit Log</h2>
+        <p className="text-sm text-slate-600">
+          Every change to work orders, approvals, assignments and step results, with who made it and when.
+          Entries cannot be edited or removed.
+        </p>
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-3">
+          <Filter className="w-4 h-4" />
+          Filters
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <select
+            value={filters.tableName || ''}
+            onChange={(e) => updateFilter({ tableName: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">All records</option>
+            {Object.entries(AUDIT_TABLE_LABELS).map(([table, label]) => (
+              <option key={table} value={table}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.action || ''}
+            onChange={(e) => updateFilter({ action: (e.target.value || undefined) as AuditAction | undefined })}
+            className={inputClass}
+          >
+            <option value="">All actions</option>
+            <option value="insert">Created</option>
+            <option value="update">Updated</option>
+            <option value="delete">Deleted</option>
+          </select>
+          <select
+            value={filters.field || ''}
+            onChange={(e) => updateFilter({ field: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">Any field</option>
+            {Object.entries(AUDIT_FIELD_LABELS).map(([field, label]) => (
+              <option key={field} value={field}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.changedBy || ''}
+            onChange={(e) => updateFilter({ changedBy: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">Anyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.full_name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className={inputClass}
+            title="From"
+          />
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className={inputClass}
+            title="To"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {context && <AuditEntryList entries={entries} context={context} showWorkOrder />}
+
+      {loading ? (
+        <p className="text-center text-sm text-slate-600 py-4">Loading...</p>
+      ) : (
+        hasMore && (
+          <div className="text-center">
+            <button
+              onClick={() => loadEntries(page + 1)}
+              className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition text-sm"
+            >
+              Load more
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -31,7 +31,9 @@ export default function CompanyBranding() {
         zip_code: '',
         phone: '',
         email: '',
-        website: ''
+        website: '',
+        default_tax_rate: 0,
+        shop_supplies_percent: 0
       });
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -262,6 +264,38 @@ export default function CompanyBranding() {
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Default Quote Tax Rate (%)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={settings?.default_tax_rate ?? 0}
+            onChange={(e) => setSettings({ ...settings, default_tax_rate: parseFloat(e.target.value) || 0 })}
+            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="text-xs text-slate-500 mt-1">Applied to new quotes; each quote can still set its own rate.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Shop Supplies (% of labor)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={settings?.shop_supplies_percent ?? 0}
+            onChange={(e) => setSettings({ ...settings, shop_supplies_percent: parseFloat(e.target.value) || 0 })}
+            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="text-xs text-slate-500 mt-1">Added as a line when a quote is drafted from approval findings.</p>
+        </div>
+
         <div className="flex justify-end pt-4 border-t border-slate-200">
           <button
             onClick={handleSave}
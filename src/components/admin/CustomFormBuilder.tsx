@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { FileText, Plus, Edit, Trash2, X, Save, GripVertical, Type, Hash, Calendar, CheckSquare, AlignLeft } from 'lucide-react';
+import { isCalculatedField } from '../../lib/electricalCalculations';
+import { FileText, Plus, Edit, Trash2, X, Save, GripVertical, Type, Hash, Calendar, CheckSquare, AlignLeft, Calculator } from 'lucide-react';
 
 interface CustomForm {
   id: string;
@@ -23,6 +24,15 @@ interface FormField {
   name?: string;
 }
 
+// Filled in by the electrical calculation engine rather than typed by the tech,
+// when the form also has the readings it is calculated from
+function isFormFieldCalculated(field: FormField, fields: FormField[]): boolean {
+  return isCalculatedField(
+    field.name || field.label,
+    fields.map((f) => f.name || f.label)
+  );
+}
+
 interface PreMadeFormField {
   label: string;
   name: string;
@@ -52,11 +62,17 @@ const PRE_MADE_FORMS: Record<string, PreMadeFormField[]> = {
     { label: "Current Imbalance (%)", name: "current_imbalance_pct", type: "number", required: false, validation: { min: 0, max: 10 } },
     { label: "Frequency (Hz)", name: "measured_hz", type: "number", required: true, validation: { min: 45, max: 65 } },
     { label: "Power Factor", name: "power_factor", type: "number", required: false, validation: { min: 0, max: 1 } },
+    { label: "Winding Temperature at IR Test (°C)", name: "winding_temp_c", type: "number", required: false, validation: { min: -20, max: 150 } },
     { label: "Insulation Resistance to Ground (MΩ)", name: "ir_megohms", type: "number", required: true, validation: { min: 1, max: 1000 } },
+    { label: "IR Corrected to 40 °C (MΩ)", name: "ir_corrected_40c_megohms", type: "number", required: false, validation: { min: 5 } },
     { label: "IR Test Voltage (VDC)", name: "ir_test_voltage_vdc", type: "number", required: true, validation: { enum: [500, 1000] } },
+    { label: "IR 1-Minute Reading (MΩ)", name: "ir_1min_megohms", type: "number", required: false, validation: { min: 0 } },
+    { label: "IR 10-Minute Reading (MΩ)", name: "ir_10min_megohms", type: "number", required: false, validation: { min: 0 } },
+    { label: "Polarization Index", name: "polarization_index", type: "number", required: false, validation: { min: 2 } },
     { label: "Winding Resistance A-B (Ω)", name: "wres_ab_ohm", type: "number", required: false, validation: { min: 0, max: 100 } },
     { label: "Winding Resistance B-C (Ω)", name: "wres_bc_ohm", type: "number", required: false, validation: { min: 0, max: 100 } },
     { label: "Winding Resistance C-A (Ω)", name: "wres_ca_ohm", type: "number", required: false, validation: { min: 0, max: 100 } },
+    { label: "Winding Resistance Imbalance (%)", name: "wres_imbalance_pct", type: "number", required: false, validation: { min: 0, max: 5 } },
     { label: "Start Method", name: "start_method", type: "string", required: true, validation: { enum: ["DOL/Across-the-line", "Soft starter", "VFD"] } },
     { label: "VFD Output Frequency at Duty (Hz)", name: "vfd_output_hz", type: "number", required: false, validation: { min: 0, max: 120 } },
     { label: "Run Time During Test (min)", name: "runtime_min", type: "number", required: true, validation: { min: 1, max: 240 } },
@@ -416,6 +432,12 @@ export default function CustomFormBuilder() {
                     <div className="flex items-start gap-3">
                       <GripVertical className="w-5 h-5 text-slate-400 mt-2 cursor-move" />
                       <div className="flex-1 space-y-3">
+                        {isFormFieldCalculated(field, formData.form_fields) && (
+                          <div className="flex items-center gap-1 text-xs font-medium text-blue-700">
+                            <Calculator className="w-3 h-3" />
+                            Auto-calculated from the other readings
+                          </div>
+                        )}
                         <div className="grid grid-cols-2 gap-3">
                           <div>
                             <label className="block text-xs font-medium text-slate-600 mb-1">
@@ -576,7 +598,7 @@ export default function CustomFormBuilder() {
                 <div className="mt-4 flex flex-wrap gap-2">
                   {form.form_fields.slice(0, 5).map((field) => (
                     <div key={field.id} className="flex items-center gap-1 px-2 py-1 bg-slate-100 text-slate-700 text-xs rounded">
-                      {getFieldIcon(field.type)}
+                      {isFormFieldCalculated(field, form.form_fields) ? <Calculator className="w-4 h-4" /> : getFieldIcon(field.type)}
                       <span>{field.label}</span>
                       {field.required && <span className="text-red-500">*</span>}
                     </div>
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Hash, Save } from 'lucide-react';
+import {
+  DOCUMENT_NUMBER_LABELS,
+  DocumentNumberSettings,
+  documentNumbering,
+  previewNextNumber,
+  validateNumberSettings,
+} from '../../lib/documentNumbering';
+import type { DocumentNumberSequence, DocumentNumberType } from '../../types/database';
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+export default function DocumentNumbering() {
+  const [sequences, setSequences] = useState<DocumentNumberSequence[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<DocumentNumberType, DocumentNumberSettings>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<DocumentNumberType | null>(null);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    loadSequences();
+  }, []);
+
+  const loadSequences = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const loaded = await documentNumbering.list();
+      setSequences(loaded);
+      setDrafts(
+        Object.fromEntries(
+          loaded.map((s) => [s.document_type, { prefix: s.prefix, padding: s.padding, reset_yearly: s.reset_yearly }])
+        )
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (documentType: DocumentNumberType, changes: Partial<DocumentNumberSettings>) => {
+    const current = drafts[documentType];
+    if (!current) return;
+    setDrafts({ ...drafts, [documentType]: { ...current, ...changes } });
+  };
+
+  const handleSave = async (documentType: DocumentNumberType) => {
+    const draft = drafts[documentType];
+    if (!draft) return;
+
+    setSaving(documentType);
+    setError('');
+
+    try {
+      const saved = await documentNumbering.update(documentType, draft);
+      setSequences(sequences.map((s) => (s.document_type === documentType ? saved : s)));
+      setSuccessMessage(`${DOCUMENT_NUMBER_LABELS[documentType]} numbering saved`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-center text-sm text-slate-600 py-8">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Document Numbering</h2>
+        <p className="text-sm text-slate-600">
+          Numbers are assigned by the server in strict sequence when a document is created. Changes apply to the next
+          number issued; existing documents keep theirs.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-sm text-green-800">{successMessage}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {sequences.map((sequence) => {
+          const draft = drafts[sequence.document_type];
+          if (!draft) return null;
+          const problem = validateNumberSettings(draft);
+          const unchanged =
+            draft.prefix === sequence.prefix &&
+            draft.padding === sequence.padding &&
+            draft.reset_yearly === sequence.reset_yearly;
+
+          return (
+            <div key={sequence.document_type} className="border border-slate-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <Hash className="w-5 h-5 text-slate-500" />
+                  <h3 className="font-medium text-slate-900">{DOCUMENT_NUMBER_LABELS[sequence.document_type]}</h3>
+                </div>
+                <div className="text-sm text-slate-600">
+                  Next number:{' '}
+                  <span className="font-mono font-medium text-slate-900">
+                    {problem ? '—' : previewNextNumber(sequence, draft)}
+                  </span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Prefix</label>
+                  <input
+                    type="text"
+                    value={draft.prefix}
+                    onChange={(e) => updateDraft(sequence.document_type, { prefix: e.target.value.trim() })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Digits</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={draft.padding}
+                    onChange={(e) => updateDraft(sequence.document_type, { padding: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 py-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.reset_yearly}
+                    onChange={(e) => updateDraft(sequence.document_type, { reset_yearly: e.target.checked })}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Restart each year
+                </label>
+                <button
+                  onClick={() => handleSave(sequence.document_type)}
+                  disabled={!!problem || unchanged || saving === sequence.document_type}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  <Save className="w-4 h-4" />
+                  {saving === sequence.document_type ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+
+              {problem && <p className="mt-2 text-sm text-red-600">{problem}</p>}
+              <p className="mt-2 text-xs text-slate-500">
+                {sequence.last_value} issued
+                {sequence.reset_yearly ? ` in ${sequence.current_year}` : ''}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { X, Upload, AlertCircle, CheckCircle, FileText } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { ProcedureFamily } from '../../lib/procedureTemplates';
+import { ImportPlan, parseCsv, parseJson, planImport, runImport } from '../../lib/procedureTransfer';
+
+interface ProcedureImportDialogProps {
+  families: ProcedureFamily[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function ProcedureImportDialog({ families, onClose, onImported }: ProcedureImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Parsing and matching is the dry run: nothing is written until the import is confirmed
+  const handleFile = async (file: File) => {
+    setError('');
+    setPlan(null);
+    setFileName(file.name);
+
+    try {
+      const text = await file.text();
+      const parsed = file.name.toLowerCase().endsWith('.csv') ? parseCsv(text) : parseJson(text);
+
+      const { data: equipmentTypes, error: typesError } = await supabase.from('equipment_types').select('id, name');
+      if (typesError) throw typesError;
+
+      const matched = planImport(parsed.procedures, equipmentTypes || [], families);
+      setPlan({ items: matched.items, errors: [...parsed.errors, ...matched.errors] });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setImporting(true);
+    setError('');
+
+    try {
+      await runImport(plan);
+      onImported();
+      onClose();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const canImport = !!plan && plan.errors.length === 0 && plan.items.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Upload className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Import Procedures</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            Choose a JSON or CSV file exported from this page or written to the same format. Procedures are
+            imported as drafts; a procedure whose name and equipment type match an existing one becomes a new
+            draft of it, unless it already has an open draft. Review and publish drafts from the procedure list.
+          </p>
+
+          <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer hover:bg-slate-50 transition">
+            <FileText className="w-5 h-5 text-slate-400" />
+            <span className="text-sm text-slate-700">{fileName || 'Select a .json or .csv file'}</span>
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+          </label>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {plan && plan.errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm font-medium text-red-800 mb-2">
+                {plan.errors.length} problem{plan.errors.length === 1 ? '' : 's'} must be fixed before importing
+              </p>
+              <ul className="space-y-1 text-sm text-red-700 max-h-48 overflow-y-auto">
+                {plan.errors.map((problem, index) => (
+                  <li key={index}>
+                    <span className="font-mono text-xs text-red-600">{problem.row}</span> {problem.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan && plan.items.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-700 mb-2">Preview</h3>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+                {plan.items.map(({ procedure, family }) => (
+                  <div key={procedure.name} className="flex items-center justify-between px-4 py-3 text-sm">
+                    <div>
+                      <p className="font-medium text-slate-900">{procedure.name}</p>
+                      <p className="text-slate-500 capitalize">
+                        {procedure.procedure_type}
+                        {procedure.phase && ` · ${procedure.phase.replace(/_/g, ' ')}`}
+                        {` · ${procedure.equipment_type || 'All equipment'}`}
+                        {` · ${procedure.steps.length} step${procedure.steps.length === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded ${
+                        family ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'
+                      }`}
+                    >
+                      {family ? 'New draft of existing' : 'New procedure'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 bg-slate-50 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport || importing}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <CheckCircle className="w-4 h-4" />
+            {importing ? 'Importing...' : `Import ${plan?.items.length || 0} as Draft${plan?.items.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,996 @@
+import { useEffect, useState } from 'react';
+import {
+  X,
+  Save,
+  Send,
+  Trash2,
+  Plus,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  AlertCircle,
+  Lock,
+  Camera,
+  AlertTriangle,
+  GitBranch,
+} from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { normalizeMeasurementSpecs } from '../../lib/measurements';
+import { DraftStep, DraftTemplateFields, procedureTemplateService } from '../../lib/procedureTemplates';
+import type {
+  DecisionOutcome,
+  MeasurementSpec,
+  ProcedureTemplate,
+  ProcedureType,
+  SkipCondition,
+  StepResult,
+  StepType,
+  ToleranceLimit,
+  WorkOrderPhase,
+} from '../../types/database';
+
+interface ProcedureTemplateEditorProps {
+  templateId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const PROCEDURE_TYPES: ProcedureType[] = ['inspection', 'teardown', 'cleaning', 'rebuild', 'test'];
+const STEP_TYPES: StepType[] = ['action', 'inspection', 'measurement', 'decision'];
+const PHASES: WorkOrderPhase[] = [
+  'initial_testing',
+  'teardown',
+  'repair_scope',
+  'inspection',
+  'rebuild',
+  'final_testing',
+  'qc_review',
+];
+
+const emptyStep = (): DraftStep => ({
+  id: crypto.randomUUID(),
+  step_number: 0,
+  title: 'New Step',
+  description: null,
+  instructions: '',
+  step_type: 'action',
+  acceptance_criteria: {},
+  measurements_required: [],
+  photo_required: false,
+  estimated_time: null,
+  safety_notes: null,
+  reference_documents: [],
+  routing: null,
+});
+
+const emptySpec = (): MeasurementSpec => ({
+  parameter: '',
+  unit: null,
+  nominal: null,
+  min: null,
+  max: null,
+  instrument: null,
+});
+
+const emptyOutcome = (): DecisionOutcome => ({
+  id: crypto.randomUUID(),
+  label: '',
+  result: 'pass',
+  next_step_id: null,
+});
+
+const SKIP_OPERATORS: Array<{ value: SkipCondition['operator']; label: string }> = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+];
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function ProcedureTemplateEditor({ templateId, onClose, onChanged }: ProcedureTemplateEditorProps) {
+  const [template, setTemplate] = useState<ProcedureTemplate | null>(null);
+  const [fields, setFields] = useState<DraftTemplateFields | null>(null);
+  const [steps, setSteps] = useState<DraftStep[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<Array<{ id: string; name: string }>>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTemplate();
+  }, [templateId]);
+
+  const loadTemplate = async () => {
+    try {
+      const [loaded, typesRes] = await Promise.all([
+        procedureTemplateService.loadTemplate(templateId),
+        supabase.from('equipment_types').select('id, name').order('name'),
+      ]);
+
+      if (typesRes.error) throw typesRes.error;
+      setEquipmentTypes(typesRes.data || []);
+      setTemplate(loaded);
+      setFields({
+        name: loaded.name,
+        equipment_type_id: loaded.equipment_type_id,
+        procedure_type: loaded.procedure_type,
+        phase: loaded.phase,
+        estimated_duration: loaded.estimated_duration,
+        required_tools: loaded.required_tools || [],
+        safety_requirements: loaded.safety_requirements || [],
+      });
+      setSteps(
+        (loaded.steps || []).map((step) => ({
+          id: step.id,
+          step_number: step.step_number,
+          title: step.title,
+          description: step.description,
+          instructions: step.instructions,
+          step_type: step.step_type,
+          acceptance_criteria: step.acceptance_criteria || {},
+          measurements_required: normalizeMeasurementSpecs(step),
+          photo_required: step.photo_required,
+          estimated_time: step.estimated_time,
+          safety_notes: step.safety_notes,
+          reference_documents: step.reference_documents || [],
+          routing: step.routing || null,
+        }))
+      );
+      setDirty(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const readOnly = template?.status !== 'draft';
+
+  const updateFields = (updates: Partial<DraftTemplateFields>) => {
+    if (!fields) return;
+    setFields({ ...fields, ...updates });
+    setDirty(true);
+  };
+
+  const updateStep = (id: string, updates: Partial<DraftStep>) => {
+    setSteps(steps.map((step) => (step.id === id ? { ...step, ...updates } : step)));
+    setDirty(true);
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSteps(reordered);
+    setDirty(true);
+  };
+
+  const addStep = () => {
+    const step = emptyStep();
+    setSteps([...steps, step]);
+    setExpanded(step.id);
+    setDirty(true);
+  };
+
+  const removeStep = (id: string) => {
+    setSteps(steps.filter((step) => step.id !== id));
+    setDirty(true);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError('');
+
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const validate = (): string | null => {
+    if (!fields?.name.trim()) return 'Procedure name is required';
+    if (steps.length === 0) return 'Add at least one step';
+    const untitled = steps.findIndex((step) => !step.title.trim());
+    if (untitled >= 0) return `Step ${untitled + 1} needs a title`;
+    const noInstructions = steps.findIndex((step) => !step.instructions.trim());
+    if (noInstructions >= 0) return `Step ${noInstructions + 1} needs instructions`;
+
+    // Branches may only jump forward and conditions only look back, so a run
+    // through the procedure can never loop
+    const position = new Map(steps.map((step, index) => [step.id, index]));
+    for (const [index, step] of steps.entries()) {
+      const outcomes = step.step_type === 'decision' ? step.routing?.outcomes || [] : [];
+      if (outcomes.some((outcome) => !outcome.label.trim())) return `Step ${index + 1} has an outcome without a label`;
+      const backwards = outcomes.find(
+        (outcome) => outcome.next_step_id && (position.get(outcome.next_step_id) ?? -1) <= index
+      );
+      if (backwards) return `Step ${index + 1}: "${backwards.label}" must lead to a later step`;
+
+      const conditions = step.routing?.skip_if || [];
+      if (conditions.some((condition) => (position.get(condition.step_id) ?? index) >= index)) {
+        return `Step ${index + 1} has a skip condition that doesn't refer to an earlier step`;
+      }
+      if (conditions.some((condition) => condition.field === 'measurement' && !condition.parameter?.trim())) {
+        return `Step ${index + 1} has a measurement skip condition without a parameter`;
+      }
+    }
+    return null;
+  };
+
+  const cleanSteps = () =>
+    steps.map((step) => ({
+      ...step,
+      measurements_required: step.measurements_required.filter((spec) => spec.parameter.trim()),
+      routing: cleanRouting(step),
+    }));
+
+  const handleSave = () =>
+    runAction(async () => {
+      if (!fields) return;
+      await procedureTemplateService.saveDraft(templateId, fields, cleanSteps());
+      await loadTemplate();
+      onChanged();
+    });
+
+  const handlePublish = () => {
+    const problem = validate();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (!confirm('Publish this draft? Published versions cannot be edited. Sessions already in progress stay on the version they started with.')) {
+      return;
+    }
+
+    runAction(async () => {
+      if (!fields) return;
+      await procedureTemplateService.saveDraft(templateId, fields, cleanSteps());
+      await procedureTemplateService.publish(templateId);
+      onChanged();
+      onClose();
+    });
+  };
+
+  const handleDiscard = () => {
+    if (!confirm('Discard this draft? Unpublished changes will be lost.')) return;
+
+    runAction(async () => {
+      await procedureTemplateService.discardDraft(templateId);
+      onChanged();
+      onClose();
+    });
+  };
+
+  const handleClose = () => {
+    if (dirty && !confirm('You have unsaved changes. Close anyway?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[95vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-900">
+              {template ? template.name : 'Loading...'}
+            </h2>
+            {template && (
+              <p className="text-sm text-slate-500">
+                {template.status === 'draft'
+                  ? `Draft based on version ${template.version}`
+                  : `Version ${template.version} · ${template.status}`}
+              </p>
+            )}
+          </div>
+          <button onClick={handleClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {readOnly && template && (
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 flex items-center gap-2 text-sm text-slate-700">
+              <Lock className="w-4 h-4" />
+              Published versions are read-only. Create a new draft to make changes.
+            </div>
+          )}
+
+          {fields && (
+            <fieldset disabled={readOnly} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Procedure Name</label>
+                <input
+                  type="text"
+                  value={fields.name}
+                  onChange={(e) => updateFields({ name: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Equipment Type</label>
+                <select
+                  value={fields.equipment_type_id || ''}
+                  onChange={(e) => updateFields({ equipment_type_id: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-50"
+                >
+                  <option value="">All equipment</option>
+                  {equipmentTypes.map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Phase</label>
+                <select
+                  value={fields.phase || ''}
+                  onChange={(e) => updateFields({ phase: (e.target.value || null) as WorkOrderPhase | null })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-50"
+                >
+                  <option value="">No phase</option>
+                  {PHASES.map((phase) => (
+                    <option key={phase} value={phase}>
+                      {phase.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Procedure Type</label>
+                <select
+                  value={fields.procedure_type}
+                  onChange={(e) => updateFields({ procedure_type: e.target.value as ProcedureType })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-50 capitalize"
+                >
+                  {PROCEDURE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Estimated Duration</label>
+                <input
+                  type="text"
+                  value={fields.estimated_duration || ''}
+                  onChange={(e) => updateFields({ estimated_duration: e.target.value || null })}
+                  placeholder="e.g., 2 hours"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-50"
+                />
+              </div>
+            </fieldset>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-slate-900">Steps ({steps.length})</h3>
+              {!readOnly && (
+                <button
+                  onClick={addStep}
+                  className="flex items-center gap-1 text-sm px-3 py-1 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Step
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {steps.map((step, index) => (
+                <div key={step.id} className="border border-slate-200 rounded-lg">
+                  <div className="flex items-center gap-2 px-3 py-2">
+                    <button
+                      onClick={() => setExpanded(expanded === step.id ? null : step.id)}
+                      className="flex-1 flex items-center gap-2 text-left"
+                    >
+                      {expanded === step.id ? (
+                        <ChevronDown className="w-4 h-4 text-slate-400" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-slate-400" />
+                      )}
+                      <span className="text-sm text-slate-500 w-6">{index + 1}.</span>
+                      <span className="font-medium text-slate-900">{step.title || 'Untitled step'}</span>
+                      <span className="text-xs px-2 py-0.5 bg-slate-100 text-slate-600 rounded capitalize">
+                        {step.step_type}
+                      </span>
+                      {step.photo_required && <Camera className="w-4 h-4 text-slate-400" />}
+                      {step.safety_notes && <AlertTriangle className="w-4 h-4 text-amber-500" />}
+                      {cleanRouting(step) && <GitBranch className="w-4 h-4 text-purple-500" />}
+                      {step.measurements_required.length > 0 && (
+                        <span className="text-xs text-slate-500">
+                          {step.measurements_required.length} measurement
+                          {step.measurements_required.length === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </button>
+                    {!readOnly && (
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => moveStep(index, -1)}
+                          disabled={index === 0}
+                          title="Move up"
+                          className="p-1 text-slate-500 hover:bg-slate-100 rounded disabled:opacity-30"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveStep(index, 1)}
+                          disabled={index === steps.length - 1}
+                          title="Move down"
+                          className="p-1 text-slate-500 hover:bg-slate-100 rounded disabled:opacity-30"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => removeStep(step.id)}
+                          title="Remove step"
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {expanded === step.id && (
+                    <StepFields
+                      step={step}
+                      steps={steps}
+                      readOnly={readOnly}
+                      onChange={(updates) => updateStep(step.id, updates)}
+                    />
+                  )}
+                </div>
+              ))}
+              {steps.length === 0 && (
+                <p className="text-sm text-slate-500 text-center py-6">No steps yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {!readOnly && (
+          <div className="flex items-center justify-between gap-3 px-6 py-4 bg-slate-50 border-t border-slate-200">
+            <button
+              onClick={handleDiscard}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Discard Draft
+            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={handleSave}
+                disabled={saving || !dirty}
+                className="flex items-center gap-2 px-6 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                Save Draft
+              </button>
+              <button
+                onClick={handlePublish}
+                disabled={saving}
+                className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Send className="w-4 h-4" />
+                Publish
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Decision outcomes only apply to decision steps; empty routing is stored as null
+function cleanRouting(step: DraftStep): DraftStep['routing'] {
+  const outcomes = step.step_type === 'decision' ? step.routing?.outcomes || [] : [];
+  const skipIf = step.routing?.skip_if || [];
+  if (outcomes.length === 0 && skipIf.length === 0) return null;
+  return {
+    ...(outcomes.length > 0 && { outcomes }),
+    ...(skipIf.length > 0 && { skip_if: skipIf }),
+  };
+}
+
+interface StepFieldsProps {
+  step: DraftStep;
+  steps: DraftStep[];
+  readOnly: boolean;
+  onChange: (updates: Partial<DraftStep>) => void;
+}
+
+function StepFields({ step, steps, readOnly, onChange }: StepFieldsProps) {
+  const criteria = Object.entries(step.acceptance_criteria || {});
+  const index = steps.findIndex((s) => s.id === step.id);
+  const earlierSteps = steps.slice(0, index);
+  const laterSteps = steps.slice(index + 1);
+  const outcomes = step.routing?.outcomes || [];
+  const skipIf = step.routing?.skip_if || [];
+
+  const updateOutcome = (outcomeIndex: number, updates: Partial<DecisionOutcome>) => {
+    onChange({
+      routing: {
+        ...step.routing,
+        outcomes: outcomes.map((outcome, i) => (i === outcomeIndex ? { ...outcome, ...updates } : outcome)),
+      },
+    });
+  };
+
+  const updateCondition = (conditionIndex: number, updates: Partial<SkipCondition>) => {
+    onChange({
+      routing: {
+        ...step.routing,
+        skip_if: skipIf.map((condition, i) => (i === conditionIndex ? { ...condition, ...updates } : condition)),
+      },
+    });
+  };
+
+  const conditionValues = (condition: SkipCondition): string[] | null => {
+    if (condition.field === 'result') return ['pass', 'fail', 'na'];
+    if (condition.field === 'outcome') {
+      const source = steps.find((s) => s.id === condition.step_id);
+      return (source?.routing?.outcomes || []).map((outcome) => outcome.id);
+    }
+    return null;
+  };
+
+  const updateSpec = (index: number, updates: Partial<MeasurementSpec>) => {
+    onChange({
+      measurements_required: step.measurements_required.map((spec, i) => (i === index ? { ...spec, ...updates } : spec)),
+    });
+  };
+
+  const updateCriterion = (parameter: string, updates: Partial<ToleranceLimit> & { parameter?: string }) => {
+    const next: Record<string, ToleranceLimit> = {};
+    for (const [key, limit] of criteria) {
+      if (key !== parameter) {
+        next[key] = limit;
+        continue;
+      }
+      const { parameter: renamed, ...limitUpdates } = updates;
+      next[renamed ?? key] = { ...limit, ...limitUpdates };
+    }
+    onChange({ acceptance_criteria: next });
+  };
+
+  const removeCriterion = (parameter: string) => {
+    const rest = { ...step.acceptance_criteria };
+    delete rest[parameter];
+    onChange({ acceptance_criteria: rest });
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-50';
+
+  return (
+    <fieldset disabled={readOnly} className="border-t border-slate-200 p-4 space-y-4 bg-slate-50">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-slate-600 mb-1">Title</label>
+          <input type="text" value={step.title} onChange={(e) => onChange({ title: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Step Type</label>
+          <select
+            value={step.step_type}
+            onChange={(e) => onChange({ step_type: e.target.value as StepType })}
+            className={`${inputClass} capitalize`}
+          >
+            {STEP_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-600 mb-1">Instructions</label>
+        <textarea
+          value={step.instructions}
+          onChange={(e) => onChange({ instructions: e.target.value })}
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-600 mb-1">Safety Notes</label>
+        <textarea
+          value={step.safety_notes || ''}
+          onChange={(e) => onChange({ safety_notes: e.target.value || null })}
+          rows={2}
+          placeholder="Hazards, PPE, lockout requirements..."
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={step.photo_required}
+            onChange={(e) => onChange({ photo_required: e.target.checked })}
+            className="rounded border-slate-300"
+          />
+          Photo required
+        </label>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-slate-700">Estimated time</label>
+          <input
+            type="text"
+            value={step.estimated_time || ''}
+            onChange={(e) => onChange({ estimated_time: e.target.value || null })}
+            placeholder="e.g., 15 minutes"
+            className="w-40 px-3 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-50"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-xs font-medium text-slate-600">Measurements Required</label>
+          {!readOnly && (
+            <button
+              onClick={() => onChange({ measurements_required: [...step.measurements_required, emptySpec()] })}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-3 h-3" />
+              Add Measurement
+            </button>
+          )}
+        </div>
+        {step.measurements_required.length > 0 && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-xs text-slate-500">
+              <span className="col-span-3">Parameter</span>
+              <span className="col-span-1">Unit</span>
+              <span className="col-span-2">Nominal</span>
+              <span className="col-span-2">Min</span>
+              <span className="col-span-2">Max</span>
+              <span className="col-span-2">Instrument</span>
+            </div>
+            {step.measurements_required.map((spec, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  value={spec.parameter}
+                  onChange={(e) => updateSpec(index, { parameter: e.target.value })}
+                  className={`${inputClass} col-span-3`}
+                />
+                <input
+                  type="text"
+                  value={spec.unit || ''}
+                  onChange={(e) => updateSpec(index, { unit: e.target.value || null })}
+                  className={`${inputClass} col-span-1`}
+                />
+                <input
+                  type="number"
+                  value={spec.nominal ?? ''}
+                  onChange={(e) => updateSpec(index, { nominal: toNumber(e.target.value) })}
+                  className={`${inputClass} col-span-2`}
+                />
+                <input
+                  type="number"
+                  value={spec.min ?? ''}
+                  onChange={(e) => updateSpec(index, { min: toNumber(e.target.value) })}
+                  className={`${inputClass} col-span-2`}
+                />
+                <input
+                  type="number"
+                  value={spec.max ?? ''}
+                  onChange={(e) => updateSpec(index, { max: toNumber(e.target.value) })}
+                  className={`${inputClass} col-span-2`}
+                />
+                <div className="col-span-2 flex items-center gap-1">
+                  <input
+                    type="text"
+                    value={spec.instrument || ''}
+                    onChange={(e) => updateSpec(index, { instrument: e.target.value || null })}
+                    className={inputClass}
+                  />
+                  {!readOnly && (
+                    <button
+                      onClick={() =>
+                        onChange({ measurements_required: step.measurements_required.filter((_, i) => i !== index) })
+                      }
+                      className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {step.step_type === 'decision' && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs font-medium text-slate-600">Decision Outcomes</label>
+            {!readOnly && (
+              <button
+                onClick={() => onChange({ routing: { ...step.routing, outcomes: [...outcomes, emptyOutcome()] } })}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-3 h-3" />
+                Add Outcome
+              </button>
+            )}
+          </div>
+          {outcomes.length === 0 ? (
+            <p className="text-xs text-slate-500">No outcomes: the technician records pass/fail and continues to the next step.</p>
+          ) : (
+            <div className="space-y-2">
+              {outcomes.map((outcome, outcomeIndex) => (
+                <div key={outcome.id} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={outcome.label}
+                    onChange={(e) => updateOutcome(outcomeIndex, { label: e.target.value })}
+                    placeholder="e.g., Bearing damaged"
+                    className={`${inputClass} col-span-5`}
+                  />
+                  <select
+                    value={outcome.result}
+                    onChange={(e) => updateOutcome(outcomeIndex, { result: e.target.value as StepResult })}
+                    className={`${inputClass} col-span-2`}
+                  >
+                    <option value="pass">Pass</option>
+                    <option value="fail">Fail</option>
+                    <option value="na">N/A</option>
+                  </select>
+                  <div className="col-span-5 flex items-center gap-1">
+                    <select
+                      value={outcome.ends_procedure ? 'end' : outcome.next_step_id || ''}
+                      onChange={(e) =>
+                        updateOutcome(outcomeIndex, {
+                          ends_procedure: e.target.value === 'end',
+                          next_step_id: e.target.value && e.target.value !== 'end' ? e.target.value : null,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="">Continue to next step</option>
+                      {laterSteps.map((target) => (
+                        <option key={target.id} value={target.id}>
+                          Go to {steps.indexOf(target) + 1}. {target.title}
+                        </option>
+                      ))}
+                      <option value="end">End procedure</option>
+                    </select>
+                    {!readOnly && (
+                      <button
+                        onClick={() =>
+                          onChange({ routing: { ...step.routing, outcomes: outcomes.filter((_, i) => i !== outcomeIndex) } })
+                        }
+                        className="p-1 text-red-600 hover:bg-red-50 rounded"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {earlierSteps.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs font-medium text-slate-600">Skip This Step When</label>
+            {!readOnly && (
+              <button
+                onClick={() =>
+                  onChange({
+                    routing: {
+                      ...step.routing,
+                      skip_if: [
+                        ...skipIf,
+                        { step_id: earlierSteps[earlierSteps.length - 1].id, field: 'result', operator: 'equals', value: 'pass' },
+                      ],
+                    },
+                  })
+                }
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-3 h-3" />
+                Add Condition
+              </button>
+            )}
+          </div>
+          {skipIf.length > 0 && (
+            <div className="space-y-2">
+              {skipIf.map((condition, conditionIndex) => {
+                const choices = conditionValues(condition);
+                const source = steps.find((s) => s.id === condition.step_id);
+
+                return (
+                  <div key={conditionIndex} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={condition.step_id}
+                      onChange={(e) => updateCondition(conditionIndex, { step_id: e.target.value })}
+                      className={`${inputClass} col-span-3`}
+                    >
+                      {earlierSteps.map((earlier, i) => (
+                        <option key={earlier.id} value={earlier.id}>
+                          {i + 1}. {earlier.title}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={condition.field}
+                      onChange={(e) => {
+                        const field = e.target.value as SkipCondition['field'];
+                        updateCondition(conditionIndex, {
+                          field,
+                          parameter: field === 'measurement' ? source?.measurements_required[0]?.parameter || '' : null,
+                          operator: field === 'measurement' ? 'less_than' : 'equals',
+                          value: field === 'result' ? 'pass' : '',
+                        });
+                      }}
+                      className={`${inputClass} col-span-2`}
+                    >
+                      <option value="result">Result</option>
+                      <option value="outcome">Outcome</option>
+                      <option value="measurement">Measurement</option>
+                    </select>
+                    {condition.field === 'measurement' ? (
+                      <input
+                        type="text"
+                        list={`params-${step.id}-${conditionIndex}`}
+                        value={condition.parameter || ''}
+                        onChange={(e) => updateCondition(conditionIndex, { parameter: e.target.value })}
+                        placeholder="Parameter"
+                        className={`${inputClass} col-span-2`}
+                      />
+                    ) : (
+                      <span className="col-span-2" />
+                    )}
+                    <datalist id={`params-${step.id}-${conditionIndex}`}>
+                      {(source?.measurements_required || []).map((spec) => (
+                        <option key={spec.parameter} value={spec.parameter} />
+                      ))}
+                    </datalist>
+                    <select
+                      value={condition.operator}
+                      onChange={(e) =>
+                        updateCondition(conditionIndex, { operator: e.target.value as SkipCondition['operator'] })
+                      }
+                      className={`${inputClass} col-span-2`}
+                    >
+                      {SKIP_OPERATORS.filter(
+                        (op) => condition.field === 'measurement' || ['equals', 'not_equals'].includes(op.value)
+                      ).map((op) => (
+                        <option key={op.value} value={op.value}>
+                          {op.label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="col-span-3 flex items-center gap-1">
+                      {choices ? (
+                        <select
+                          value={String(condition.value)}
+                          onChange={(e) => updateCondition(conditionIndex, { value: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value="">Select...</option>
+                          {choices.map((choice) => (
+                            <option key={choice} value={choice}>
+                              {condition.field === 'outcome'
+                                ? source?.routing?.outcomes?.find((o) => o.id === choice)?.label || choice
+                                : choice}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="number"
+                          value={condition.value}
+                          onChange={(e) => updateCondition(conditionIndex, { value: toNumber(e.target.value) ?? '' })}
+                          className={inputClass}
+                        />
+                      )}
+                      {!readOnly && (
+                        <button
+                          onClick={() =>
+                            onChange({ routing: { ...step.routing, skip_if: skipIf.filter((_, i) => i !== conditionIndex) } })
+                          }
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-xs font-medium text-slate-600">Acceptance Criteria</label>
+          {!readOnly && (
+            <button
+              onClick={() =>
+                onChange({ acceptance_criteria: { ...step.acceptance_criteria, [`Parameter ${criteria.length + 1}`]: {} } })
+              }
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-3 h-3" />
+              Add Criterion
+            </button>
+          )}
+        </div>
+        {criteria.length > 0 && (
+          <div className="space-y-2">
+            {criteria.map(([parameter, limit]) => (
+              <div key={parameter} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  defaultValue={parameter}
+                  onBlur={(e) => e.target.value !== parameter && updateCriterion(parameter, { parameter: e.target.value })}
+                  placeholder="Parameter"
+                  className={`${inputClass} col-span-4`}
+                />
+                <input
+                  type="number"
+                  value={limit.min ?? ''}
+                  onChange={(e) => updateCriterion(parameter, { min: toNumber(e.target.value) })}
+                  placeholder="Min"
+                  className={`${inputClass} col-span-3`}
+                />
+                <input
+                  type="number"
+                  value={limit.max ?? ''}
+                  onChange={(e) => updateCriterion(parameter, { max: toNumber(e.target.value) })}
+                  placeholder="Max"
+                  className={`${inputClass} col-span-3`}
+                />
+                <div className="col-span-2 flex items-center gap-1">
+                  <input
+                    type="text"
+                    value={limit.unit || ''}
+                    onChange={(e) => updateCriterion(parameter, { unit: e.target.value || null })}
+                    placeholder="Unit"
+                    className={inputClass}
+                  />
+                  {!readOnly && (
+                    <button onClick={() => removeCriterion(parameter)} className="p-1 text-red-600 hover:bg-red-50 rounded">
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit, Eye, Archive, ClipboardList, History, AlertCircle, Upload, Download } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ProcedureFamily, procedureTemplateService } from '../../lib/procedureTemplates';
+import { exportCsv, exportJson } from '../../lib/procedureTransfer';
+import ProcedureTemplateEditor from './ProcedureTemplateEditor';
+import ProcedureImportDialog from './ProcedureImportDialog';
+
+export default function ProcedureTemplateManager() {
+  const { profile } = useAuth();
+  const [families, setFamilies] = useState<ProcedureFamily[]>([]);
+  const [sessionCounts, setSessionCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadFamilies();
+  }, []);
+
+  const loadFamilies = async () => {
+    try {
+      const loaded = await procedureTemplateService.listFamilies();
+      setFamilies(loaded);
+      setSessionCounts(
+        await procedureTemplateService.countSessions(loaded.flatMap((family) => family.versions.map((v) => v.id)))
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCreate = () =>
+    runAction(async () => {
+      const id = await procedureTemplateService.createTemplate(
+        {
+          name: 'New Procedure',
+          equipment_type_id: null,
+          procedure_type: 'inspection',
+          phase: null,
+          estimated_duration: null,
+          required_tools: [],
+          safety_requirements: [],
+        },
+        profile?.id || null
+      );
+      await loadFamilies();
+      setEditingId(id);
+    });
+
+  const handleEdit = (family: ProcedureFamily) =>
+    runAction(async () => {
+      const source = family.draft || family.current || family.versions[0];
+      if (!source) return;
+      const draftId = family.draft ? family.draft.id : await procedureTemplateService.createDraft(source.id);
+      await loadFamilies();
+      setEditingId(draftId);
+    });
+
+  // Exports the published version of each procedure, or its draft if it has never been published
+  const handleExport = (format: 'json' | 'csv') =>
+    runAction(async () => {
+      const ids = families.map((family) => (family.current || family.draft)?.id).filter((id): id is string => !!id);
+      const templates = await procedureTemplateService.loadTemplates(ids);
+      const content = format === 'json' ? exportJson(templates) : exportCsv(templates);
+
+      const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `procedures_${new Date().toISOString().split('T')[0]}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    });
+
+  const handleArchive = (family: ProcedureFamily) => {
+    if (!family.current) return;
+    const inFlight = sessionCounts[family.current.id] || 0;
+    const message =
+      `Archive version ${family.current.version} of "${family.name}"? New sessions won't be able to use it.` +
+      (inFlight > 0 ? ` ${inFlight} session(s) in progress will finish on this version.` : '');
+    if (!confirm(message)) return;
+
+    runAction(async () => {
+      await procedureTemplateService.archive(family.current!.id);
+      await loadFamilies();
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-slate-600">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Procedure Templates</h2>
+          <p className="text-sm text-slate-600">
+            Edit a draft, then publish it as a new version. Work sessions stay on the version they started with.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => handleExport('json')}
+            disabled={families.length === 0}
+            className="flex items-center gap-2 px-3 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={families.length === 0}
+            className="flex items-center gap-2 px-3 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-3 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={handleCreate}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+          >
+            <Plus className="w-4 h-4" />
+            New Procedure
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {families.length === 0 ? (
+        <div className="text-center py-12 border border-dashed border-slate-300 rounded-lg">
+          <ClipboardList className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+          <p className="text-slate-600">No procedures yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {families.map((family) => {
+            const template = family.current || family.draft || family.versions[0];
+            const inFlight = family.versions.reduce((sum, v) => sum + (sessionCounts[v.id] || 0), 0);
+
+            return (
+              <div key={family.family_id} className="border border-slate-200 rounded-lg">
+                <div className="flex items-center gap-4 p-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h3 className="font-semibold text-slate-900">{family.name}</h3>
+                      {family.current ? (
+                        <span className="text-xs px-2 py-0.5 bg-green-100 text-green-700 rounded">
+                          v{family.current.version} published
+                        </span>
+                      ) : (
+                        <span className="text-xs px-2 py-0.5 bg-slate-100 text-slate-600 rounded">Not published</span>
+                      )}
+                      {family.draft && (
+                        <span className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded">Draft</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-500 capitalize">
+                      {template?.procedure_type}
+                      {template?.phase && ` · ${template.phase.replace(/_/g, ' ')}`}
+                      {template?.equipment_type && ` · ${template.equipment_type.name}`}
+                      {inFlight > 0 && ` · ${inFlight} session${inFlight === 1 ? '' : 's'} in progress`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {family.versions.length > 0 && (
+                      <button
+                        onClick={() => setHistoryFor(historyFor === family.family_id ? null : family.family_id)}
+                        title="Version history"
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                    )}
+                    {family.current && (
+                      <button
+                        onClick={() => handleArchive(family)}
+                        title="Archive published version"
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                      >
+                        <Archive className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleEdit(family)}
+                      className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                    >
+                      <Edit className="w-4 h-4" />
+                      {family.draft ? 'Continue Draft' : 'New Draft'}
+                    </button>
+                  </div>
+                </div>
+
+                {historyFor === family.family_id && (
+                  <div className="border-t border-slate-200 bg-slate-50 px-4 py-2 divide-y divide-slate-200">
+                    {family.versions.map((version) => (
+                      <div key={version.id} className="flex items-center justify-between py-2 text-sm">
+                        <div>
+                          <span className="font-medium text-slate-900">Version {version.version}</span>
+                          <span className="ml-2 text-slate-500 capitalize">{version.status}</span>
+                          {version.published_at && (
+                            <span className="ml-2 text-slate-500">
+                              published {new Date(version.published_at).toLocaleDateString()}
+                            </span>
+                          )}
+                          {(sessionCounts[version.id] || 0) > 0 && (
+                            <span className="ml-2 text-blue-600">{sessionCounts[version.id]} in progress</span>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => setEditingId(version.id)}
+                          className="flex items-center gap-1 text-slate-600 hover:text-slate-900"
+                        >
+                          <Eye className="w-4 h-4" />
+                          View
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showImport && (
+        <ProcedureImportDialog families={families} onClose={() => setShowImport(false)} onImported={loadFamilies} />
+      )}
+
+      {editingId && (
+        <ProcedureTemplateEditor
+          templateId={editingId}
+          onClose={() => setEditingId(null)}
+          onChanged={loadFamilies}
+        />
+      )}
+    </div>
+  );
+}
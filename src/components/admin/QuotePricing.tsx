@@ -0,0 +1,451 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  LaborRateInput,
+  MarkupRuleInput,
+  PricingSetup,
+  RewindRateInput,
+  describeRewindRate,
+  quotePricing,
+} from '../../lib/quotePricing';
+import type { InventoryCategory, LaborRate, PartMarkupRule, RewindRate, WorkType } from '../../types/database';
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+const CATEGORIES: InventoryCategory[] = [
+  'bearings',
+  'seals',
+  'gaskets',
+  'windings',
+  'impellers',
+  'shafts',
+  'couplings',
+  'fasteners',
+  'lubricants',
+  'electrical',
+  'tools',
+  'consumables',
+  'other',
+];
+
+const WORK_TYPES: WorkType[] = ['repair', 'inspection', 'rebuild', 'pm'];
+
+const EMPTY_MARKUP: MarkupRuleInput = { name: '', category: null, min_unit_cost: 0, markup_percent: 30, is_active: true };
+const EMPTY_LABOR: LaborRateInput = { skill: '', work_type: null, hourly_rate: 0, is_active: true };
+const EMPTY_REWIND: RewindRateInput = { min_hp: 0, max_hp: 0, frame: null, price: 0, is_active: true };
+
+type Draft =
+  | { kind: 'markup'; id?: string; value: MarkupRuleInput }
+  | { kind: 'labor'; id?: string; value: LaborRateInput }
+  | { kind: 'rewind'; id?: string; value: RewindRateInput };
+
+function markupInput(rule: PartMarkupRule): MarkupRuleInput {
+  return {
+    name: rule.name,
+    category: rule.category,
+    min_unit_cost: Number(rule.min_unit_cost),
+    markup_percent: Number(rule.markup_percent),
+    is_active: rule.is_active,
+  };
+}
+
+function laborInput(rate: LaborRate): LaborRateInput {
+  return { skill: rate.skill, work_type: rate.work_type, hourly_rate: Number(rate.hourly_rate), is_active: rate.is_active };
+}
+
+function rewindInput(rate: RewindRate): RewindRateInput {
+  return {
+    min_hp: Number(rate.min_hp),
+    max_hp: Number(rate.max_hp),
+    frame: rate.frame,
+    price: Number(rate.price),
+    is_active: rate.is_active,
+  };
+}
+
+function RowActions({ onEdit, onDelete }: { onEdit: () => void; onDelete: () => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={onEdit} className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition">
+        <Pencil className="w-4 h-4" />
+      </button>
+      <button onClick={onDelete} className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition">
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export default function QuotePricing() {
+  const [setup, setSetup] = useState<PricingSetup | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setSetup(await quotePricing.loadSetup());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      if (draft.kind === 'markup') await quotePricing.saveMarkupRule(draft.value, draft.id);
+      if (draft.kind === 'labor') await quotePricing.saveLaborRate(draft.value, draft.id);
+      if (draft.kind === 'rewind') await quotePricing.saveRewindRate(draft.value, draft.id);
+      setDraft(null);
+      await loadData();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (remove: () => Promise<void>) => {
+    if (!confirm('Delete this rate? Quotes already priced keep their prices.')) return;
+
+    try {
+      await remove();
+      await loadData();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (!setup) {
+    return (
+      <div className="space-y-4">
+        {error && <p className="text-sm text-red-800">{error}</p>}
+        <p className="text-center text-sm text-slate-600 py-8">Loading...</p>
+      </div>
+    );
+  }
+
+  const formButtons = (
+    <div className="flex gap-3">
+      <button
+        type="button"
+        onClick={() => setDraft(null)}
+        className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm"
+      >
+        Cancel
+      </button>
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </div>
+  );
+
+  const activeToggle = (checked: boolean, onChange: (checked: boolean) => void) => (
+    <label className="flex items-center gap-2 text-sm text-slate-700">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+      />
+      Active
+    </label>
+  );
+
+  const sectionHeader = (title: string, description: string, onAdd: () => void) => (
+    <div className="flex items-start justify-between">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">{title}</h2>
+        <p className="text-sm text-slate-600">{description}</p>
+      </div>
+      {!draft && (
+        <button
+          onClick={onAdd}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <p className="text-sm text-slate-600">
+        Used to draft quotes from approval findings. Tax and shop supplies ({setup.shopSuppliesPercent}% of labor) are set
+        under Company Branding.
+      </p>
+
+      <section className="space-y-4">
+        {sectionHeader(
+          'Part Markup',
+          "A part uses its category's rules if there are any, otherwise the catch-alls. Each rule marks up the share of the unit cost from its threshold up to the next rule's.",
+          () => setDraft({ kind: 'markup', value: EMPTY_MARKUP })
+        )}
+
+        {draft?.kind === 'markup' && (
+          <form onSubmit={handleSave} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  required
+                  value={draft.value.name}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, name: e.target.value } })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+                <select
+                  value={draft.value.category || ''}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      value: { ...draft.value, category: (e.target.value || null) as InventoryCategory | null },
+                    })
+                  }
+                  className={`${inputClass} capitalize`}
+                >
+                  <option value="">Any category</option>
+                  {CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      {category}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">From unit cost ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value.min_unit_cost}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, min_unit_cost: Number(e.target.value) } })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Markup (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value.markup_percent}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, markup_percent: Number(e.target.value) } })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {activeToggle(draft.value.is_active, (is_active) => setDraft({ ...draft, value: { ...draft.value, is_active } }))}
+            {formButtons}
+          </form>
+        )}
+
+        <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+          {setup.markupRules.map((rule: PartMarkupRule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div>
+                <p className="text-sm font-medium text-slate-900">
+                  {rule.name}
+                  {!rule.is_active && <span className="ml-2 text-xs font-normal text-slate-500">Inactive</span>}
+                </p>
+                <p className="text-xs text-slate-600 capitalize">
+                  {rule.category || 'Any category'} · from ${Number(rule.min_unit_cost).toFixed(2)} · +
+                  {Number(rule.markup_percent)}%
+                </p>
+              </div>
+              <RowActions
+                onEdit={() => setDraft({ kind: 'markup', id: rule.id, value: markupInput(rule) })}
+                onDelete={() => handleDelete(() => quotePricing.deleteMarkupRule(rule.id))}
+              />
+            </div>
+          ))}
+          {setup.markupRules.length === 0 && (
+            <p className="px-4 py-3 text-sm text-slate-500">No rules: parts are quoted at cost.</p>
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        {sectionHeader(
+          'Labor Rates',
+          "Hourly rates by skill. A rate for one work type is offered first on that type's work orders.",
+          () => setDraft({ kind: 'labor', value: EMPTY_LABOR })
+        )}
+
+        {draft?.kind === 'labor' && (
+          <form onSubmit={handleSave} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Skill *</label>
+                <input
+                  type="text"
+                  required
+                  value={draft.value.skill}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, skill: e.target.value } })}
+                  placeholder="e.g. Winder"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Work Type</label>
+                <select
+                  value={draft.value.work_type || ''}
+                  onChange={(e) =>
+                    setDraft({ ...draft, value: { ...draft.value, work_type: (e.target.value || null) as WorkType | null } })
+                  }
+                  className={`${inputClass} capitalize`}
+                >
+                  <option value="">Any work type</option>
+                  {WORK_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Hourly Rate ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value.hourly_rate}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, hourly_rate: Number(e.target.value) } })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {activeToggle(draft.value.is_active, (is_active) => setDraft({ ...draft, value: { ...draft.value, is_active } }))}
+            {formButtons}
+          </form>
+        )}
+
+        <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+          {setup.laborRates.map((rate: LaborRate) => (
+            <div key={rate.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div>
+                <p className="text-sm font-medium text-slate-900">
+                  {rate.skill}
+                  {!rate.is_active && <span className="ml-2 text-xs font-normal text-slate-500">Inactive</span>}
+                </p>
+                <p className="text-xs text-slate-600 capitalize">
+                  {rate.work_type || 'Any work type'} · ${Number(rate.hourly_rate).toFixed(2)}/hr
+                </p>
+              </div>
+              <RowActions
+                onEdit={() => setDraft({ kind: 'labor', id: rate.id, value: laborInput(rate) })}
+                onDelete={() => handleDelete(() => quotePricing.deleteLaborRate(rate.id))}
+              />
+            </div>
+          ))}
+          {setup.laborRates.length === 0 && <p className="px-4 py-3 text-sm text-slate-500">No labor rates yet.</p>}
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        {sectionHeader(
+          'Flat-Rate Rewinds',
+          'Rewind prices by horsepower. A rate for a specific frame wins over one for any frame.',
+          () => setDraft({ kind: 'rewind', value: EMPTY_REWIND })
+        )}
+
+        {draft?.kind === 'rewind' && (
+          <form onSubmit={handleSave} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">From HP</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value.min_hp}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, min_hp: Number(e.target.value) } })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">To HP</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value.max_hp}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, max_hp: Number(e.target.value) } })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Frame</label>
+                <input
+                  type="text"
+                  value={draft.value.frame || ''}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, frame: e.target.value } })}
+                  placeholder="Any frame"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Price ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value.price}
+                  onChange={(e) => setDraft({ ...draft, value: { ...draft.value, price: Number(e.target.value) } })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {activeToggle(draft.value.is_active, (is_active) => setDraft({ ...draft, value: { ...draft.value, is_active } }))}
+            {formButtons}
+          </form>
+        )}
+
+        <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+          {setup.rewindRates.map((rate: RewindRate) => (
+            <div key={rate.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div>
+                <p className="text-sm font-medium text-slate-900">
+                  {describeRewindRate(rate)}
+                  {!rate.is_active && <span className="ml-2 text-xs font-normal text-slate-500">Inactive</span>}
+                </p>
+                <p className="text-xs text-slate-600">${Number(rate.price).toFixed(2)}</p>
+              </div>
+              <RowActions
+                onEdit={() => setDraft({ kind: 'rewind', id: rate.id, value: rewindInput(rate) })}
+                onDelete={() => handleDelete(() => quotePricing.deleteRewindRate(rate.id))}
+              />
+            </div>
+          ))}
+          {setup.rewindRates.length === 0 && <p className="px-4 py-3 text-sm text-slate-500">No rewind rates yet.</p>}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
-import { TrendingUp, DollarSign, Clock, Users, Package, Wrench, BarChart3 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatQuantity, isQuantity, toQuantity } from '../../lib/units';
+import { TrendingUp, DollarSign, Clock, Users, Package, Wrench, BarChart3, Zap } from 'lucide-react';
 
 interface AnalyticsData {
   workOrderStats: {
@@ -24,9 +26,14 @@ interface AnalyticsData {
     lowStockItems: number;
     inventoryValue: number;
   };
+  equipmentStats: {
+    unitsIdentified: number;
+    totalPowerKw: number;
+  };
 }
 
 export default function AnalyticsDashboard() {
+  const { displayUnits } = useAuth();
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState<'week' | 'month' | 'year'>('month');
@@ -70,6 +77,11 @@ export default function AnalyticsDashboard() {
         .select('id, full_name')
         .eq('role', 'technician');
 
+      const { data: sessions } = await supabase
+        .from('work_sessions')
+        .select('equipment_details')
+        .gte('started_at', startDate.toISOString());
+
       const workOrderStats = {
         total: workOrders?.length || 0,
         completed: workOrders?.filter(wo => wo.status === 'completed').length || 0,
@@ -96,11 +108,21 @@ export default function AnalyticsDashboard() {
         inventoryValue: parts?.reduce((sum, p) => sum + (p.quantity_in_stock * p.unit_price), 0) || 0,
       };
 
+      // Nameplate ratings are stored with a canonical kW value, whatever unit was entered
+      const ratings = (sessions || [])
+        .map((session) => session.equipment_details?.nameplate?.hp_kw)
+        .filter(isQuantity);
+      const equipmentStats = {
+        unitsIdentified: ratings.length,
+        totalPowerKw: ratings.reduce((sum, rating) => sum + rating.canonical_value, 0),
+      };
+
       setAnalytics({
         workOrderStats,
         revenueStats,
         technicianStats,
         inventoryStats,
+        equipmentStats,
       });
     } catch (error) {
       console.error('Error fetching analytics:', error);
@@ -318,6 +340,23 @@ export default function AnalyticsDashboard() {
                 </div>
               </div>
             </div>
+
+            <div className="flex items-center justify-between p-4 bg-slate-50 rounded-lg">
+              <div className="flex items-center gap-3">
+                <div className="bg-amber-100 p-2 rounded-lg">
+                  <Zap className="w-5 h-5 text-amber-600" />
+                </div>
+                <div>
+                  <p className="text-sm text-slate-600">Rated Power Serviced</p>
+                  <p className="text-lg font-semibold text-slate-900">
+                    {formatQuantity(toQuantity(analytics?.equipmentStats.totalPowerKw || 0, 'kW')!, displayUnits)}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {analytics?.equipmentStats.unitsIdentified || 0} units with nameplate ratings
+                  </p>
+                </div>
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,311 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Clock, DollarSign, MessageSquare, XCircle } from 'lucide-react';
+import {
+  CUSTOMER_DECISION_LABELS,
+  CustomerApprovalDetails,
+  customerApproval,
+} from '../../lib/customerApproval';
+import type { CustomerDecision } from '../../types/database';
+import SignaturePad from '../shared/SignaturePad';
+
+interface CustomerApprovalPageProps {
+  token: string;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+const DECISION_BUTTONS: Array<{ decision: CustomerDecision; label: string; icon: typeof CheckCircle; className: string }> = [
+  { decision: 'approved', label: 'Approve', icon: CheckCircle, className: 'border-green-600 bg-green-50 text-green-700' },
+  { decision: 'changes_requested', label: 'Request Changes', icon: MessageSquare, className: 'border-amber-600 bg-amber-50 text-amber-700' },
+  { decision: 'rejected', label: 'Decline', icon: XCircle, className: 'border-red-600 bg-red-50 text-red-700' },
+];
+
+export default function CustomerApprovalPage({ token }: CustomerApprovalPageProps) {
+  const [details, setDetails] = useState<CustomerApprovalDetails | null>(null);
+  const [decision, setDecision] = useState<CustomerDecision>('approved');
+  const [signerName, setSignerName] = useState('');
+  const [signerEmail, setSignerEmail] = useState('');
+  const [comments, setComments] = useState('');
+  const [showSignature, setShowSignature] = useState(false);
+  const [submitted, setSubmitted] = useState<CustomerDecision | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadDetails();
+  }, [token]);
+
+  const loadDetails = async () => {
+    try {
+      setDetails(await customerApproval.fetchDetails(token));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (signatureData?: string) => {
+    setShowSignature(false);
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await customerApproval.submitDecision(token, {
+        decision,
+        signerName,
+        signerEmail,
+        signatureData,
+        comments,
+      });
+      setSubmitted(decision);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (decision !== 'approved' && !comments.trim()) {
+      setError(decision === 'rejected' ? 'Tell us why you are declining' : 'Tell us what you would like changed');
+      return;
+    }
+    // Changes are a conversation, not a commitment, so they need no signature
+    if (decision === 'changes_requested') {
+      submit();
+    } else {
+      setShowSignature(true);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-slate-200 border-t-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow p-6 max-w-md w-full flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium text-slate-900">We couldn't open this approval</p>
+            <p className="text-sm text-slate-600 mt-1">{error || 'Please contact us for a new link.'}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const answered = submitted || details.customer_decision;
+  const total = details.estimated_cost ?? 0;
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-slate-500">Repair approval</p>
+          <h1 className="text-2xl font-semibold text-slate-900">Work Order {details.work_order_number}</h1>
+          {details.customer_name && <p className="text-slate-700 mt-1">{details.customer_name}</p>}
+          {details.equipment && <p className="text-sm text-slate-600">{details.equipment}</p>}
+          {!answered && (
+            <p className="text-xs text-slate-500 mt-3">
+              This link expires {new Date(details.expires_at).toLocaleString()}.
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          {details.reported_issue && (
+            <div>
+              <h2 className="font-semibold text-slate-900 mb-2">Reported Issue</h2>
+              <p className="text-slate-700 whitespace-pre-wrap">{details.reported_issue}</p>
+            </div>
+          )}
+
+          <div>
+            <h2 className="font-semibold text-slate-900 mb-2">Our Findings</h2>
+            <p className="text-slate-700 whitespace-pre-wrap">{details.findings_summary}</p>
+          </div>
+
+          {details.photos.length > 0 && (
+            <div>
+              <h2 className="font-semibold text-slate-900 mb-2">Photos</h2>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {details.photos.map((photo) => (
+                  <a key={photo.url} href={photo.url} target="_blank" rel="noreferrer" className="block">
+                    <img
+                      src={photo.url}
+                      alt={photo.caption || 'Inspection photo'}
+                      className="w-full h-32 object-cover rounded-lg border border-slate-200"
+                    />
+                    {photo.caption && <p className="text-xs text-slate-600 mt-1">{photo.caption}</p>}
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {details.required_parts.length > 0 && (
+            <div>
+              <h2 className="font-semibold text-slate-900 mb-2">Parts Required</h2>
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-slate-700">Part</th>
+                      <th className="px-4 py-2 text-center text-xs font-semibold text-slate-700">Qty</th>
+                      <th className="px-4 py-2 text-right text-xs font-semibold text-slate-700">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200">
+                    {details.required_parts.map((part, idx) => (
+                      <tr key={idx}>
+                        <td className="px-4 py-3 text-sm text-slate-700">
+                          <span className="font-medium text-slate-900">{part.part_number}</span> {part.description}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-center text-slate-700">{part.quantity}</td>
+                        <td className="px-4 py-3 text-sm text-right text-slate-900">
+                          ${(part.quantity * part.estimated_cost).toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-1">
+                <DollarSign className="w-4 h-4 text-blue-600" />
+                <p className="text-xs font-semibold text-blue-900">Estimated Parts Cost</p>
+              </div>
+              <p className="text-2xl font-bold text-blue-900">${Number(total).toFixed(2)}</p>
+            </div>
+            {details.estimated_hours !== null && (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                <div className="flex items-center gap-2 mb-1">
+                  <Clock className="w-4 h-4 text-green-600" />
+                  <p className="text-xs font-semibold text-green-900">Estimated Labor</p>
+                </div>
+                <p className="text-2xl font-bold text-green-900">{details.estimated_hours} hrs</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          {answered ? (
+            <div className="flex items-start gap-3">
+              <CheckCircle className="w-6 h-6 text-green-600 flex-shrink-0" />
+              <div>
+                <p className="font-semibold text-slate-900">{CUSTOMER_DECISION_LABELS[answered]}</p>
+                <p className="text-sm text-slate-600 mt-1">
+                  {submitted
+                    ? 'Thank you. We have your response and will be in touch.'
+                    : `Answered ${details.customer_decided_at ? new Date(details.customer_decided_at).toLocaleString() : ''}`}
+                </p>
+              </div>
+            </div>
+          ) : details.status !== 'pending' ? (
+            <p className="text-sm text-slate-700">This request has already been decided. Please contact us with any questions.</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <h2 className="font-semibold text-slate-900">Your Decision</h2>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-3">
+                {DECISION_BUTTONS.map(({ decision: option, label, icon: Icon, className }) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setDecision(option)}
+                    className={`flex items-center justify-center gap-2 p-3 rounded-lg border text-sm font-medium transition ${
+                      decision === option ? className : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Your Name *</label>
+                  <input
+                    type="text"
+                    required
+                    value={signerName}
+                    onChange={(e) => setSignerName(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Email</label>
+                  <input
+                    type="email"
+                    value={signerEmail}
+                    onChange={(e) => setSignerEmail(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Comments {decision !== 'approved' && '*'}
+                </label>
+                <textarea
+                  value={comments}
+                  onChange={(e) => setComments(e.target.value)}
+                  rows={3}
+                  placeholder={
+                    decision === 'changes_requested'
+                      ? 'What would you like us to change?'
+                      : decision === 'rejected'
+                      ? 'Why are you declining the repair?'
+                      : 'Any instructions for the repair (optional)'
+                  }
+                  className={`${inputClass} resize-none`}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Sending...' : decision === 'changes_requested' ? 'Send Request' : 'Sign and Submit'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {showSignature && (
+        <SignaturePad
+          signerName={signerName}
+          signerEmail={signerEmail || undefined}
+          onSave={(signatureData) => submit(signatureData)}
+          onCancel={() => setShowSignature(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -16,8 +16,11 @@ import {
   Clock,
   BarChart3,
   FileSpreadsheet,
-  FolderOpen
+  FolderOpen,
+  Ruler
 } from 'lucide-react';
+import OfflineIndicator from '../shared/OfflineIndicator';
+import DisplayUnitsSettings from '../shared/DisplayUnitsSettings';
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -28,6 +31,7 @@ interface DashboardLayoutProps {
 export default function DashboardLayout({ children, currentPage = 'dashboard', onNavigate }: DashboardLayoutProps) {
   const { profile, signOut } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [showDisplayUnits, setShowDisplayUnits] = useState(false);
 
   const isAdmin = profile?.role === 'admin';
   const isManager = profile?.role === 'manager';
@@ -133,6 +137,13 @@ export default function DashboardLayout({ children, currentPage = 'dashboard', o
                 <p className="text-xs text-slate-500 capitalize">{profile?.role || 'Technician'}</p>
               </div>
             </div>
+            <button
+              onClick={() => setShowDisplayUnits(true)}
+              className="w-full flex items-center gap-3 px-4 py-2 text-slate-700 hover:bg-slate-50 rounded-lg font-medium transition"
+            >
+              <Ruler className="w-5 h-5" />
+              <span>Display Units</span>
+            </button>
             <button
               onClick={handleSignOut}
               className="w-full flex items-center gap-3 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg font-medium transition"
@@ -154,6 +165,10 @@ export default function DashboardLayout({ children, currentPage = 'dashboard', o
       <main className="lg:ml-64 pt-16 lg:pt-0">
         {children}
       </main>
+
+      <OfflineIndicator />
+
+      {showDisplayUnits && <DisplayUnitsSettings onClose={() => setShowDisplayUnits(false)} />}
     </div>
   );
 }
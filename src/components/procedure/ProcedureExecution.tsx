@@ -1,9 +1,15 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../../lib/supabase';
+import { workSessionRepository } from '../../lib/workSessionRepository';
+import { evaluateMeasurements, readingInputs } from '../../lib/measurements';
+import { decisionOutcomes, resolveRoute } from '../../lib/procedureRouting';
+import { findAcknowledgment, requiresAcknowledgment } from '../../lib/safety';
 import { useAuth } from '../../contexts/AuthContext';
 import {
+  DecisionOutcome,
   ProcedureStep,
+  SafetyAcknowledgment,
   StepCompletion,
+  WorkOrder,
   WorkSession,
 } from '../../types/database';
 import {
@@ -12,11 +18,12 @@ import {
   Camera,
   MessageSquare,
   CheckCircle,
-  AlertCircle,
-  Clock,
   Bot,
 } from 'lucide-react';
 import DashboardLayout from '../layout/DashboardLayout';
+import MeasurementInputs from '../shared/MeasurementInputs';
+import SafetyAcknowledgmentPanel from '../shared/SafetyAcknowledgmentPanel';
+import StepTimer from '../shared/StepTimer';
 
 interface ProcedureExecutionProps {
   sessionId: string;
@@ -25,9 +32,11 @@ interface ProcedureExecutionProps {
 export default function ProcedureExecution({ sessionId }: ProcedureExecutionProps) {
   const { profile } = useAuth();
   const [session, setSession] = useState<WorkSession | null>(null);
+  const [workOrder, setWorkOrder] = useState<WorkOrder | null>(null);
   const [steps, setSteps] = useState<ProcedureStep[]>([]);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const [completion, setCompletion] = useState<StepCompletion | null>(null);
+  const [completions, setCompletions] = useState<StepCompletion[]>([]);
+  const [acknowledgments, setAcknowledgments] = useState<SafetyAcknowledgment[]>([]);
   const [measurements, setMeasurements] = useState<Record<string, string>>({});
   const [observations, setObservations] = useState('');
   const [loading, setLoading] = useState(true);
@@ -41,32 +50,26 @@ export default function ProcedureExecution({ sessionId }: ProcedureExecutionProp
     try {
       setLoading(true);
 
-      const { data: sessionData, error: sessionError } = await supabase
-        .from('work_sessions')
-        .select(`
-          *,
-          procedure_template:procedure_templates (
-            *,
-            steps:procedure_steps (*)
-          )
-        `)
-        .eq('id', sessionId)
-        .single();
-
-      if (sessionError) throw sessionError;
-
-      setSession(sessionData);
-      const procedureSteps = sessionData.procedure_template?.steps || [];
-      setSteps(procedureSteps.sort((a, b) => a.step_number - b.step_number));
-
-      if (sessionData.current_step_id) {
-        const currentIndex = procedureSteps.findIndex(
-          (s: ProcedureStep) => s.id === sessionData.current_step_id
+      const snapshot = await workSessionRepository.loadSession(sessionId);
+
+      setSession(snapshot.session);
+      setWorkOrder(await workSessionRepository.loadWorkOrder(snapshot.session.work_order_id));
+      setSteps(snapshot.steps);
+      setCompletions(snapshot.completions);
+      setAcknowledgments(snapshot.acknowledgments);
+
+      let stepIndex = currentStepIndex;
+      if (snapshot.session.current_step_id) {
+        const currentIndex = snapshot.steps.findIndex(
+          (s: ProcedureStep) => s.id === snapshot.session.current_step_id
         );
-        if (currentIndex >= 0) setCurrentStepIndex(currentIndex);
+        if (currentIndex >= 0) {
+          stepIndex = currentIndex;
+          setCurrentStepIndex(currentIndex);
+        }
       }
 
-      await fetchStepCompletion(procedureSteps[currentStepIndex]?.id);
+      showStepCompletion(snapshot.steps[stepIndex]?.id, snapshot.completions);
     } catch (error) {
       console.error('Error fetching session data:', error);
     } finally {
@@ -74,74 +77,82 @@ export default function ProcedureExecution({ sessionId }: ProcedureExecutionProp
     }
   };
 
-  const fetchStepCompletion = async (stepId: string) => {
-    if (!stepId) return;
-
-    const { data, error } = await supabase
-      .from('step_completions')
-      .select('*')
-      .eq('work_session_id', sessionId)
-      .eq('step_id', stepId)
-      .maybeSingle();
-
-    if (error) {
-      console.error('Error fetching step completion:', error);
-      return;
-    }
+  const showStepCompletion = (stepId: string, source: StepCompletion[] = completions) => {
+    const data = source.find((c) => c.step_id === stepId);
 
     if (data) {
-      setCompletion(data);
-      setMeasurements(data.measurements || {});
+      setMeasurements(readingInputs(data.measurements));
       setObservations(data.observations || '');
     } else {
-      setCompletion(null);
       setMeasurements({});
       setObservations('');
     }
   };
 
   const currentStep = steps[currentStepIndex];
-  const progress = ((currentStepIndex + 1) / steps.length) * 100;
+  const route = resolveRoute(steps, completions);
+  const progress = route.progress;
+  const outcomes = currentStep ? decisionOutcomes(currentStep) : [];
+  const takenIndex = route.taken.findIndex((s) => s.id === currentStep?.id);
+  const stepPosition = (takenIndex >= 0 ? takenIndex : route.taken.length + route.pendingSkips.length) + 1;
+  const pathLength = route.taken.length + route.pendingSkips.length + (route.current ? 1 : 0) + route.remaining.length;
 
-  const handleCompleteStep = async (result: 'pass' | 'fail' | 'na') => {
+  const needsAcknowledgment =
+    !!currentStep && requiresAcknowledgment(currentStep) && !findAcknowledgment(acknowledgments, currentStep.id);
+
+  const handleAcknowledge = async (items: string[]) => {
     if (!currentStep || !profile) return;
 
     try {
-      const completionData = {
-        work_session_id: sessionId,
-        step_id: currentStep.id,
-        status: 'completed',
-        result,
+      const acknowledgment = await workSessionRepository.acknowledgeSafety(sessionId, currentStep.id, items, profile.id);
+      setAcknowledgments([...acknowledgments, acknowledgment]);
+    } catch (error) {
+      console.error('Error recording safety acknowledgment:', error);
+      alert('Error recording acknowledgment. Please try again.');
+    }
+  };
+
+  const handleTimer = async (running: boolean) => {
+    if (!currentStep || !session) return;
+
+    try {
+      const stepTimers = await workSessionRepository.setStepTimer(sessionId, currentStep.id, running);
+      setSession({ ...session, step_timers: stepTimers });
+    } catch (error) {
+      console.error('Error updating step timer:', error);
+    }
+  };
+
+  const handleCompleteStep = async (result: 'pass' | 'fail' | 'na', outcome?: DecisionOutcome) => {
+    if (!currentStep || !profile) return;
+
+    try {
+      const evaluation = evaluateMeasurements(
+        currentStep,
         measurements,
+        workOrder?.equipment_unit?.equipment_model?.tolerances
+      );
+
+      const next = await workSessionRepository.advance({ sessionId, steps, completions }, currentStep.id, {
+        status: 'completed',
+        result: result === 'pass' ? evaluation.result || 'pass' : result,
+        measurements: evaluation.readings,
         observations,
         completed_by: profile.id,
-        completed_at: new Date().toISOString(),
-      };
-
-      if (completion) {
-        await supabase
-          .from('step_completions')
-          .update(completionData)
-          .eq('id', completion.id);
-      } else {
-        await supabase.from('step_completions').insert(completionData);
-      }
-
-      const nextIndex = currentStepIndex + 1;
-      const newProgress = (nextIndex / steps.length) * 100;
-
-      await supabase
-        .from('work_sessions')
-        .update({
-          current_step_id: steps[nextIndex]?.id || null,
-          progress_percentage: newProgress,
-          status: nextIndex >= steps.length ? 'completed' : 'in_progress',
-        })
-        .eq('id', sessionId);
-
-      if (nextIndex < steps.length) {
-        setCurrentStepIndex(nextIndex);
-        await fetchStepCompletion(steps[nextIndex].id);
+        outcome: outcome?.id || null,
+      });
+      const updated = await workSessionRepository.loadSession(sessionId);
+      const updatedCompletions = updated.completions;
+      setSession(updated.session);
+      setCompletions(updatedCompletions);
+
+      await workSessionRepository.updateSession(sessionId, {
+        status: next.current ? 'in_progress' : 'completed',
+      });
+
+      if (next.current) {
+        setCurrentStepIndex(steps.findIndex((s) => s.id === next.current!.id));
+        showStepCompletion(next.current.id, updatedCompletions);
       } else {
         alert('Procedure completed!');
       }
@@ -151,11 +162,13 @@ export default function ProcedureExecution({ sessionId }: ProcedureExecutionProp
     }
   };
 
+  // Steps back along the path actually taken, so skipped and bypassed steps are passed over
+  const previousStep = takenIndex >= 0 ? route.taken[takenIndex - 1] : route.taken[route.taken.length - 1];
+
   const handlePreviousStep = () => {
-    if (currentStepIndex > 0) {
-      const newIndex = currentStepIndex - 1;
-      setCurrentStepIndex(newIndex);
-      fetchStepCompletion(steps[newIndex].id);
+    if (previousStep) {
+      setCurrentStepIndex(steps.findIndex((s) => s.id === previousStep.id));
+      showStepCompletion(previousStep.id);
     }
   };
 
@@ -202,7 +215,7 @@ export default function ProcedureExecution({ sessionId }: ProcedureExecutionProp
             <div className="mb-2">
               <div className="flex items-center justify-between text-sm text-slate-600 mb-2">
                 <span>
-                  Step {currentStepIndex + 1} of {steps.length}
+                  Step {stepPosition} of {pathLength}
                 </span>
                 <span>{Math.round(progress)}% Complete</span>
               </div>
@@ -234,13 +247,13 @@ export default function ProcedureExecution({ sessionId }: ProcedureExecutionProp
               </div>
             </div>
 
-            {currentStep.safety_notes && (
-              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
-                <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
-                <div>
-                  <p className="font-medium text-amber-900 mb-1">Safety Note</p>
-                  <p className="text-sm text-amber-800">{currentStep.safety_notes}</p>
-                </div>
+            {requiresAcknowledgment(currentStep) && (
+              <div className="mb-6">
+                <SafetyAcknowledgmentPanel
+                  step={currentStep}
+                  acknowledgment={findAcknowledgment(acknowledgments, currentStep.id)}
+                  onAcknowledge={handleAcknowledge}
+                />
               </div>
             )}
 
@@ -251,38 +264,14 @@ export default function ProcedureExecution({ sessionId }: ProcedureExecutionProp
               </p>
             </div>
 
-            {currentStep.measurements_required &&
-              currentStep.measurements_required.length > 0 && (
-                <div className="mb-6">
-                  <h3 className="font-semibold text-slate-900 mb-3">Measurements</h3>
-                  <div className="space-y-3">
-                    {currentStep.measurements_required.map((measurement: any, index: number) => (
-                      <div key={index} className="flex items-center gap-4">
-                        <label className="flex-1 text-sm font-medium text-slate-700">
-                          {measurement.name || `Measurement ${index + 1}`}
-                        </label>
-                        <input
-                          type="text"
-                          value={measurements[measurement.name] || ''}
-                          onChange={(e) =>
-                            setMeasurements({
-                              ...measurements,
-                              [measurement.name]: e.target.value,
-                            })
-                          }
-                          placeholder={measurement.unit || 'Value'}
-                          className="w-40 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                        />
-                        {measurement.acceptable_range && (
-                          <span className="text-xs text-slate-500">
-                            {measurement.acceptable_range}
-                          </span>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+            <div className="mb-6">
+              <MeasurementInputs
+                step={currentStep}
+                tolerances={workOrder?.equipment_unit?.equipment_model?.tolerances}
+                values={measurements}
+                onChange={setMeasurements}
+              />
+            </div>
 
             <div className="mb-6">
               <h3 className="font-semibold text-slate-900 mb-3">Observations</h3>
@@ -309,40 +298,55 @@ export default function ProcedureExecution({ sessionId }: ProcedureExecutionProp
             <div className="flex items-center justify-between pt-6 border-t border-slate-200">
               <button
                 onClick={handlePreviousStep}
-                disabled={currentStepIndex === 0}
+                disabled={!previousStep}
                 className="flex items-center gap-2 px-6 py-3 text-slate-700 hover:bg-slate-50 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <ChevronLeft className="w-5 h-5" />
                 <span>Previous</span>
               </button>
 
-              <div className="flex gap-3">
-                <button
-                  onClick={() => handleCompleteStep('fail')}
-                  className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-medium"
-                >
-                  Mark as Failed
-                </button>
-                <button
-                  onClick={() => handleCompleteStep('pass')}
-                  className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-medium"
-                >
-                  <CheckCircle className="w-5 h-5" />
-                  <span>Complete Step</span>
-                </button>
-              </div>
+              {outcomes.length > 0 ? (
+                <div className="flex flex-wrap justify-end gap-3">
+                  {outcomes.map((outcome) => (
+                    <button
+                      key={outcome.id}
+                      onClick={() => handleCompleteStep(outcome.result, outcome)}
+                      disabled={needsAcknowledgment}
+                      className={`px-6 py-3 text-white rounded-lg transition font-medium ${
+                        outcome.result === 'fail' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                      {outcome.label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleCompleteStep('fail')}
+                    disabled={needsAcknowledgment}
+                    className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Mark as Failed
+                  </button>
+                  <button
+                    onClick={() => handleCompleteStep('pass')}
+                    disabled={needsAcknowledgment}
+                    className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <CheckCircle className="w-5 h-5" />
+                    <span>Complete Step</span>
+                  </button>
+                </div>
+              )}
             </div>
           </div>
 
-          <div className="bg-slate-100 rounded-lg p-6">
-            <div className="flex items-center gap-2 text-slate-600 mb-2">
-              <Clock className="w-5 h-5" />
-              <span className="text-sm font-medium">Estimated Time</span>
-            </div>
-            <p className="text-slate-900">
-              {currentStep.estimated_time || 'Not specified'}
-            </p>
-          </div>
+          <StepTimer
+            intervals={session?.step_timers?.[currentStep.id]}
+            estimatedTime={currentStep.estimated_time}
+            onToggle={handleTimer}
+          />
         </div>
       </div>
     </DashboardLayout>
@@ -1,34 +1,24 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../../lib/supabase';
-import { Search, Filter, Plus, FileText, DollarSign, CheckCircle, Clock } from 'lucide-react';
+import { Search, Filter, Plus, FileText, DollarSign, CheckCircle, Clock, ClipboardCheck } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
-
-interface Quote {
-  id: string;
-  quote_number: string;
-  customer_id: string;
-  customer: {
-    company_name: string;
-    contact_person: string;
-  };
-  description: string;
-  status: 'draft' | 'sent' | 'approved' | 'rejected' | 'expired';
-  total_amount: number;
-  valid_until: string;
-  created_at: string;
-  created_by: string;
-}
+import { QUOTE_STATUS_LABELS, canConvert, quotes as quoteService } from '../../lib/quotes';
+import type { Quote, QuoteStatus } from '../../types/database';
+import GenerateQuote from '../work-orders/GenerateQuote';
+import ConvertQuote from '../work-orders/ConvertQuote';
 
 export default function QuotesManagement() {
   const { profile } = useAuth();
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | 'all'>('all');
+  const [builder, setBuilder] = useState<{ quoteId?: string } | null>(null);
+  const [convertingId, setConvertingId] = useState<string | null>(null);
   const [stats, setStats] = useState({
     totalQuotes: 0,
     pending: 0,
-    approved: 0,
+    accepted: 0,
+    converted: 0,
     totalValue: 0,
   });
 
@@ -41,32 +31,17 @@ export default function QuotesManagement() {
   const fetchQuotes = async () => {
     try {
       setLoading(true);
-      let query = supabase
-        .from('quotes')
-        .select(`
-          *,
-          customer:customers (
-            company_name,
-            contact_person
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      if (statusFilter !== 'all') {
-        query = query.eq('status', statusFilter);
-      }
-
-      const { data, error } = await query;
-      if (error) throw error;
+      const data = await quoteService.list(statusFilter === 'all' ? undefined : statusFilter);
 
-      setQuotes(data || []);
+      setQuotes(data);
 
-      const totalQuotes = data?.length || 0;
-      const pending = data?.filter(q => q.status === 'sent').length || 0;
-      const approved = data?.filter(q => q.status === 'approved').length || 0;
-      const totalValue = data?.reduce((sum, q) => sum + q.total_amount, 0) || 0;
+      const totalQuotes = data.length;
+      const pending = data.filter(q => q.status === 'sent' || q.status === 'viewed').length;
+      const accepted = data.filter(q => q.status === 'accepted' || q.status === 'converted').length;
+      const converted = data.filter(q => q.status === 'converted').length;
+      const totalValue = data.reduce((sum, q) => sum + Number(q.total_amount), 0);
 
-      setStats({ totalQuotes, pending, approved, totalValue });
+      setStats({ totalQuotes, pending, accepted, converted, totalValue });
     } catch (error) {
       console.error('Error fetching quotes:', error);
     } finally {
@@ -79,19 +54,21 @@ export default function QuotesManagement() {
     return (
       quote.quote_number.toLowerCase().includes(searchLower) ||
       quote.customer?.company_name?.toLowerCase().includes(searchLower) ||
-      quote.description.toLowerCase().includes(searchLower)
+      quote.description?.toLowerCase().includes(searchLower)
     );
   });
 
-  const getStatusBadge = (status: string) => {
-    const badges = {
+  const getStatusBadge = (status: QuoteStatus) => {
+    const badges: Record<QuoteStatus, string> = {
       draft: 'bg-slate-100 text-slate-800',
       sent: 'bg-blue-100 text-blue-800',
-      approved: 'bg-green-100 text-green-800',
+      viewed: 'bg-indigo-100 text-indigo-800',
+      accepted: 'bg-green-100 text-green-800',
       rejected: 'bg-red-100 text-red-800',
       expired: 'bg-amber-100 text-amber-800',
+      converted: 'bg-emerald-100 text-emerald-800',
     };
-    return badges[status as keyof typeof badges] || badges.draft;
+    return badges[status];
   };
 
   return (
@@ -129,8 +106,12 @@ export default function QuotesManagement() {
         <div className="bg-white rounded-lg border border-slate-200 p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-slate-600 mb-1">Approved</p>
-              <p className="text-2xl font-semibold text-slate-900">{stats.approved}</p>
+              <p className="text-sm text-slate-600 mb-1">Accepted</p>
+              <p className="text-2xl font-semibold text-slate-900">{stats.accepted}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {stats.converted} converted
+                {stats.accepted > 0 && ` (${Math.round((stats.converted / stats.accepted) * 100)}%)`}
+              </p>
             </div>
             <div className="bg-green-100 p-3 rounded-lg">
               <CheckCircle className="w-6 h-6 text-green-600" />
@@ -170,20 +151,21 @@ export default function QuotesManagement() {
                 <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
                 <select
                   value={statusFilter}
-                  onChange={(e) => setStatusFilter(e.target.value)}
+                  onChange={(e) => setStatusFilter(e.target.value as QuoteStatus | 'all')}
                   className="pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none appearance-none bg-white"
                 >
                   <option value="all">All Status</option>
-                  <option value="draft">Draft</option>
-                  <option value="sent">Sent</option>
-                  <option value="approved">Approved</option>
-                  <option value="rejected">Rejected</option>
-                  <option value="expired">Expired</option>
+                  {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map((status) => (
+                    <option key={status} value={status}>
+                      {QUOTE_STATUS_LABELS[status]}
+                    </option>
+                  ))}
                 </select>
               </div>
 
               {canCreate && (
                 <button
+                  onClick={() => setBuilder({})}
                   className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
                 >
                   <Plus className="w-4 h-4" />
@@ -224,6 +206,9 @@ export default function QuotesManagement() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-slate-700 uppercase tracking-wider">
                     Status
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-700 uppercase tracking-wider">
+                    Work Order
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-slate-700 uppercase tracking-wider">
                     Valid Until
                   </th>
@@ -234,9 +219,14 @@ export default function QuotesManagement() {
               </thead>
               <tbody className="bg-white divide-y divide-slate-200">
                 {filteredQuotes.map((quote) => (
-                  <tr key={quote.id} className="hover:bg-slate-50 transition">
+                  <tr
+                    key={quote.id}
+                    onClick={() => setBuilder({ quoteId: quote.id })}
+                    className="hover:bg-slate-50 transition cursor-pointer"
+                  >
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-slate-900">{quote.quote_number}</div>
+                      {quote.version > 1 && <div className="text-xs text-slate-500">Version {quote.version}</div>}
                     </td>
                     <td className="px-6 py-4">
                       <div className="text-sm text-slate-900">{quote.customer?.company_name}</div>
@@ -246,7 +236,7 @@ export default function QuotesManagement() {
                       <div className="text-sm text-slate-900 max-w-xs truncate">{quote.description}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
-                      ${quote.total_amount.toLocaleString()}
+                      ${Number(quote.total_amount).toLocaleString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
@@ -254,11 +244,34 @@ export default function QuotesManagement() {
                           quote.status
                         )}`}
                       >
-                        {quote.status}
+                        {QUOTE_STATUS_LABELS[quote.status]}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {quote.converted_work_order ? (
+                        <>
+                          <div className="font-medium text-slate-900">{quote.converted_work_order.work_order_number}</div>
+                          <div className="text-xs text-slate-500 capitalize">
+                            {quote.converted_work_order.status.replace('_', ' ')}
+                          </div>
+                        </>
+                      ) : canCreate && canConvert(quote.status) ? (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setConvertingId(quote.id);
+                          }}
+                          className="flex items-center gap-1.5 px-3 py-1.5 border border-emerald-600 text-emerald-700 rounded-lg hover:bg-emerald-50 transition text-xs font-medium"
+                        >
+                          <ClipboardCheck className="w-3.5 h-3.5" />
+                          {quote.status === 'accepted' ? 'Convert' : 'Accept & Convert'}
+                        </button>
+                      ) : (
+                        <span className="text-slate-400">—</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
-                      {new Date(quote.valid_until).toLocaleDateString()}
+                      {quote.valid_until ? new Date(quote.valid_until).toLocaleDateString() : '—'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
                       {new Date(quote.created_at).toLocaleDateString()}
@@ -270,6 +283,25 @@ export default function QuotesManagement() {
           </div>
         )}
       </div>
+
+      {builder && (
+        <GenerateQuote
+          quoteId={builder.quoteId}
+          onClose={() => setBuilder(null)}
+          onSaved={fetchQuotes}
+        />
+      )}
+
+      {convertingId && (
+        <ConvertQuote
+          quoteId={convertingId}
+          onClose={() => setConvertingId(null)}
+          onConverted={() => {
+            setConvertingId(null);
+            fetchQuotes();
+          }}
+        />
+      )}
     </div>
   );
 }
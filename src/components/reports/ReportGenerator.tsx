@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
+import { annotatedPhotoHtml } from '../../lib/photoAnnotations';
+import { formatMeasurement } from '../../lib/measurements';
+import { equipmentDetailEntries } from '../../lib/units';
 import { X, CheckSquare, Square, FileText, Download, CheckCircle, Save } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 
@@ -21,7 +24,7 @@ interface PhaseSession {
     step_completions?: Array<{
       step_number: number;
       step_title: string;
-      measurements: Record<string, string>;
+      measurements: Record<string, unknown>;
       observations: string;
       result: string;
       completed_at: string;
@@ -30,6 +33,7 @@ interface PhaseSession {
       url: string;
       caption: string;
       captured_at: string;
+      annotations?: Record<string, unknown>;
     }>;
   };
   procedure_template_id: string;
@@ -45,7 +49,7 @@ const PHASE_LABELS: Record<string, string> = {
 };
 
 export default function ReportGenerator({ workOrderId, onClose }: ReportGeneratorProps) {
-  const { profile } = useAuth();
+  const { profile, displayUnits } = useAuth();
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -492,7 +496,7 @@ export default function ReportGenerator({ workOrderId, onClose }: ReportGenerato
           <div class="step-notes"><strong>Measurements:</strong><br/>`;
               for (const [key, value] of Object.entries(completion.measurements)) {
                 if (value) {
-                  htmlReport += `${key}: ${value}<br/>`;
+                  htmlReport += `${key}: ${formatMeasurement(value, displayUnits)}<br/>`;
                 }
               }
               htmlReport += `</div>`;
@@ -533,7 +537,7 @@ export default function ReportGenerator({ workOrderId, onClose }: ReportGenerato
           for (const photo of photos) {
             htmlReport += `
         <div class="photo-item">
-          <img src="${photo.url}" alt="${photo.caption || 'Session photo'}" />
+          ${annotatedPhotoHtml(photo.url, photo.caption || 'Session photo', photo.annotations, 'slice')}
           ${photo.caption ? `<div class="photo-caption">${photo.caption}</div>` : ''}
         </div>
 `;
@@ -549,7 +553,9 @@ export default function ReportGenerator({ workOrderId, onClose }: ReportGenerato
           htmlReport += `
     <div class="equipment-details">
       <h3>Equipment Details</h3>
-      <pre>${JSON.stringify(session.equipment_details, null, 2)}</pre>
+      ${equipmentDetailEntries(session.equipment_details, displayUnits)
+        .map(([label, value]) => `<p><strong>${label}:</strong> ${value}</p>`)
+        .join('')}
     </div>
 `;
         }
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Calendar, Clock, MapPin, User, Filter, Search } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { projectedOccurrences, recurringWorkOrders } from '../../lib/recurringWorkOrders';
+import type { WorkOrderTemplate } from '../../types/database';
+import WorkOrderTemplates from './WorkOrderTemplates';
+import { Calendar, Clock, MapPin, User, Filter, Search, Repeat } from 'lucide-react';
 
 interface WorkOrder {
   id: string;
@@ -9,6 +13,7 @@ interface WorkOrder {
   assigned_to: string | null;
   status: string;
   priority: string;
+  recurrence_rule_id: string | null;
   customer: {
     company_name: string;
     address: any;
@@ -25,7 +30,10 @@ interface Technician {
 }
 
 export default function SchedulingCalendar() {
+  const { profile } = useAuth();
   const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [templates, setTemplates] = useState<WorkOrderTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [technicians, setTechnicians] = useState<Technician[]>([]);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<'day' | 'week' | 'month'>('week');
@@ -40,6 +48,9 @@ export default function SchedulingCalendar() {
   const loadData = async () => {
     setLoading(true);
     try {
+      // Tops up recurring work orders that have come within their lead window
+      await recurringWorkOrders.generate().catch((error) => console.error('Error generating recurring work orders:', error));
+
       const { data: techData } = await supabase
         .from('users')
         .select('id, full_name, role')
@@ -57,13 +68,15 @@ export default function SchedulingCalendar() {
           assigned_to,
           status,
           priority,
+          recurrence_rule_id,
           customer:customers(company_name, address),
           equipment_unit:equipment_units(serial_number)
         `)
         .or(`and(scheduled_date.gte.${startDate},scheduled_date.lte.${endDate}),assigned_to.is.null`);
 
       setTechnicians(techData || []);
-      setWorkOrders(woData || []);
+      setWorkOrders((woData || []) as unknown as WorkOrder[]);
+      setTemplates(await recurringWorkOrders.listTemplates());
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -156,6 +169,17 @@ export default function SchedulingCalendar() {
     );
   };
 
+  // Recurring occurrences on a date that haven't been generated yet
+  const getProjectedForDate = (date: string) => {
+    return templates
+      .filter((template) => template.is_active)
+      .flatMap((template) =>
+        (template.recurrence_rules || [])
+          .filter((rule) => rule.is_active && projectedOccurrences(rule, date, date).length > 0)
+          .map((rule) => ({ template, rule }))
+      );
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'emergency': return 'bg-red-100 border-red-500 text-red-800';
@@ -221,6 +245,16 @@ export default function SchedulingCalendar() {
           >
             Today
           </button>
+
+          {(profile?.role === 'admin' || profile?.role === 'manager') && (
+            <button
+              onClick={() => setShowTemplates(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              <Repeat className="w-4 h-4" />
+              Recurring
+            </button>
+          )}
         </div>
       </div>
 
@@ -262,7 +296,10 @@ export default function SchedulingCalendar() {
                 onDragStart={() => handleDragStart(order.id)}
                 className={`p-3 border-l-4 rounded cursor-move ${getPriorityColor(order.priority)}`}
               >
-                <div className="text-sm font-medium">{order.work_order_number}</div>
+                <div className="flex items-center gap-1 text-sm font-medium">
+                  {order.work_order_number}
+                  {order.recurrence_rule_id && <Repeat className="w-3 h-3" />}
+                </div>
                 <div className="text-xs mt-1">{order.customer?.company_name}</div>
                 <div className="text-xs text-slate-600">{order.priority} priority</div>
               </div>
@@ -316,7 +353,10 @@ export default function SchedulingCalendar() {
                               onDragStart={() => handleDragStart(order.id)}
                               className={`p-2 border-l-4 rounded cursor-move text-sm ${getPriorityColor(order.priority)}`}
                             >
-                              <div className="font-medium">{order.work_order_number}</div>
+                              <div className="flex items-center gap-1 font-medium">
+                                {order.work_order_number}
+                                {order.recurrence_rule_id && <Repeat className="w-3 h-3" />}
+                              </div>
                               <div className="text-xs mt-1">{order.customer?.company_name}</div>
                               <div className="flex items-center gap-1 text-xs mt-1">
                                 <Clock className="w-3 h-3" />
@@ -330,6 +370,34 @@ export default function SchedulingCalendar() {
                   })}
                 </tr>
               ))}
+              <tr>
+                <td className="p-3 sticky left-0 bg-white border-r border-slate-200">
+                  <div className="flex items-center gap-2">
+                    <Repeat className="w-4 h-4 text-slate-400" />
+                    <span className="font-medium text-slate-800">Upcoming PM</span>
+                  </div>
+                </td>
+                {getDatesInRange().map((date, idx) => {
+                  const projected = getProjectedForDate(date.toISOString().split('T')[0]);
+
+                  return (
+                    <td key={idx} className="p-2 align-top">
+                      <div className="space-y-2">
+                        {projected.map(({ template, rule }) => (
+                          <div
+                            key={rule.id}
+                            className="p-2 border border-dashed border-slate-300 rounded text-sm text-slate-600"
+                            title="Generated automatically ahead of its due date"
+                          >
+                            <div className="font-medium">{template.name}</div>
+                            <div className="text-xs mt-1">S/N {template.equipment_unit?.serial_number}</div>
+                          </div>
+                        ))}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
             </tbody>
           </table>
         </div>
@@ -354,8 +422,14 @@ export default function SchedulingCalendar() {
             <div className="w-4 h-4 bg-blue-500 rounded"></div>
             <span className="text-sm">Low Priority</span>
           </div>
+          <div className="flex items-center gap-2">
+            <Repeat className="w-4 h-4 text-slate-500" />
+            <span className="text-sm">Recurring</span>
+          </div>
         </div>
       </div>
+
+      {showTemplates && <WorkOrderTemplates onClose={() => setShowTemplates(false)} onChanged={loadData} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,575 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, Plus, Trash2, Repeat } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import {
+  RECURRENCE_LABELS,
+  RuleInput,
+  TemplateInput,
+  firstMonthlyOccurrence,
+  recurringWorkOrders,
+  validateRule,
+} from '../../lib/recurringWorkOrders';
+import type { PriorityLevel, RecurrenceFrequency, RecurrenceRule, WorkOrderTemplate, WorkType } from '../../types/database';
+
+interface EquipmentOption {
+  id: string;
+  serial_number: string;
+  customer_id: string | null;
+  operational_hours: number;
+  equipment_model: { model_number: string } | null;
+}
+
+interface InventoryOption {
+  id: string;
+  part_number: string;
+  description: string;
+}
+
+type RuleDraft = RuleInput & { id?: string };
+
+interface WorkOrderTemplateFormProps {
+  template: WorkOrderTemplate | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+function newRule(frequency: RecurrenceFrequency, currentHours: number): RuleDraft {
+  return {
+    frequency,
+    interval_days: frequency === 'days' ? 90 : null,
+    day_of_month: frequency === 'monthly' ? 1 : null,
+    interval_hours: frequency === 'operating_hours' ? 2000 : null,
+    lead_days: 14,
+    lead_hours: frequency === 'operating_hours' ? 100 : 0,
+    next_due_date: frequency === 'operating_hours' ? null : frequency === 'monthly' ? firstMonthlyOccurrence(today(), 1) : today(),
+    next_due_hours: frequency === 'operating_hours' ? currentHours + 2000 : null,
+    is_active: true,
+  };
+}
+
+function toDraft(rule: RecurrenceRule): RuleDraft {
+  return {
+    id: rule.id,
+    frequency: rule.frequency,
+    interval_days: rule.interval_days,
+    day_of_month: rule.day_of_month,
+    interval_hours: rule.interval_hours,
+    lead_days: rule.lead_days,
+    lead_hours: rule.lead_hours,
+    next_due_date: rule.next_due_date,
+    next_due_hours: rule.next_due_hours,
+    is_active: rule.is_active,
+  };
+}
+
+export default function WorkOrderTemplateForm({ template, onClose, onSuccess }: WorkOrderTemplateFormProps) {
+  const [formData, setFormData] = useState<TemplateInput>({
+    name: template?.name || '',
+    description: template?.description || null,
+    equipment_unit_id: template?.equipment_unit_id || '',
+    customer_id: template?.customer_id || null,
+    assigned_to: template?.assigned_to || null,
+    work_type: template?.work_type || 'pm',
+    priority: template?.priority || 'low',
+    reported_issue: template?.reported_issue || null,
+    procedure_template_ids: template?.procedure_template_ids || [],
+    estimated_hours: template?.estimated_hours ?? null,
+    parts: template?.parts || [],
+    is_active: template?.is_active ?? true,
+  });
+  const [rules, setRules] = useState<RuleDraft[]>((template?.recurrence_rules || []).map(toDraft));
+  const [removedRuleIds, setRemovedRuleIds] = useState<string[]>([]);
+  const [equipment, setEquipment] = useState<EquipmentOption[]>([]);
+  const [technicians, setTechnicians] = useState<Array<{ id: string; full_name: string }>>([]);
+  const [procedures, setProcedures] = useState<Array<{ id: string; name: string; version: string }>>([]);
+  const [inventory, setInventory] = useState<InventoryOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  const loadOptions = async () => {
+    try {
+      const [equipmentRes, techsRes, proceduresRes, inventoryRes] = await Promise.all([
+        supabase
+          .from('equipment_units')
+          .select('id, serial_number, customer_id, operational_hours, equipment_model:equipment_models (model_number)')
+          .order('serial_number'),
+        supabase.from('users').select('id, full_name').order('full_name'),
+        supabase
+          .from('procedure_templates')
+          .select('id, name, version')
+          .eq('status', 'published')
+          .eq('is_active', true)
+          .order('name'),
+        supabase
+          .from('inventory_items')
+          .select('id, part_number, description')
+          .eq('is_active', true)
+          .order('part_number'),
+      ]);
+
+      if (equipmentRes.error) throw equipmentRes.error;
+      if (techsRes.error) throw techsRes.error;
+      if (proceduresRes.error) throw proceduresRes.error;
+      if (inventoryRes.error) throw inventoryRes.error;
+
+      setEquipment((equipmentRes.data || []) as unknown as EquipmentOption[]);
+      setTechnicians(techsRes.data || []);
+      setProcedures(proceduresRes.data || []);
+      setInventory(inventoryRes.data || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const selectedUnit = equipment.find((unit) => unit.id === formData.equipment_unit_id);
+
+  const selectEquipment = (id: string) => {
+    const unit = equipment.find((u) => u.id === id);
+    setFormData({ ...formData, equipment_unit_id: id, customer_id: unit?.customer_id || null });
+  };
+
+  const toggleProcedure = (id: string) => {
+    const ids = formData.procedure_template_ids;
+    setFormData({
+      ...formData,
+      procedure_template_ids: ids.includes(id) ? ids.filter((p) => p !== id) : [...ids, id],
+    });
+  };
+
+  const updatePart = (index: number, changes: Partial<TemplateInput['parts'][number]>) => {
+    setFormData({
+      ...formData,
+      parts: formData.parts.map((part, i) => (i === index ? { ...part, ...changes } : part)),
+    });
+  };
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const changeFrequency = (index: number, frequency: RecurrenceFrequency) => {
+    const replacement = newRule(frequency, selectedUnit?.operational_hours || 0);
+    setRules(rules.map((rule, i) => (i === index ? { ...replacement, id: rule.id } : rule)));
+  };
+
+  const removeRule = (index: number) => {
+    const rule = rules[index];
+    if (rule.id) setRemovedRuleIds([...removedRuleIds, rule.id]);
+    setRules(rules.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const problem = rules.map(validateRule).find(Boolean);
+      if (problem) throw new Error(problem);
+      if (formData.parts.some((part) => !part.inventory_item_id || part.quantity <= 0)) {
+        throw new Error('Choose a part and a quantity for every planned part');
+      }
+
+      const templateId = await recurringWorkOrders.saveTemplate(formData, template?.id);
+      for (const id of removedRuleIds) {
+        await recurringWorkOrders.deleteRule(id);
+      }
+      for (const { id, ...rule } of rules) {
+        await recurringWorkOrders.saveRule(templateId, rule, id);
+      }
+      await recurringWorkOrders.generate();
+
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-900">
+            {template ? 'Edit Work Order Template' : 'New Work Order Template'}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-2">Name *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. Quarterly bearing lubrication"
+              />
+            </div>
+
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-2">Equipment Unit *</label>
+              <select
+                required
+                value={formData.equipment_unit_id}
+                onChange={(e) => selectEquipment(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Select equipment</option>
+                {equipment.map((unit) => (
+                  <option key={unit.id} value={unit.id}>
+                    {unit.equipment_model?.model_number} - S/N: {unit.serial_number}
+                  </option>
+                ))}
+              </select>
+              {selectedUnit && (
+                <p className="mt-1 text-xs text-slate-500">
+                  Currently at {selectedUnit.operational_hours.toLocaleString()} operating hours
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Work Type</label>
+              <select
+                value={formData.work_type}
+                onChange={(e) => setFormData({ ...formData, work_type: e.target.value as WorkType })}
+                className={inputClass}
+              >
+                <option value="pm">Preventive Maintenance</option>
+                <option value="inspection">Inspection</option>
+                <option value="repair">Repair</option>
+                <option value="rebuild">Rebuild</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Priority</label>
+              <select
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value as PriorityLevel })}
+                className={inputClass}
+              >
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+                <option value="emergency">Emergency</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Assign to Technician</label>
+              <select
+                value={formData.assigned_to || ''}
+                onChange={(e) => setFormData({ ...formData, assigned_to: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Unassigned</option>
+                {technicians.map((tech) => (
+                  <option key={tech.id} value={tech.id}>
+                    {tech.full_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Estimated Hours</label>
+              <input
+                type="number"
+                min={0}
+                step="0.25"
+                value={formData.estimated_hours ?? ''}
+                onChange={(e) =>
+                  setFormData({ ...formData, estimated_hours: e.target.value === '' ? null : Number(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </div>
+
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-2">Work to Perform</label>
+              <textarea
+                value={formData.reported_issue || ''}
+                onChange={(e) => setFormData({ ...formData, reported_issue: e.target.value || null })}
+                rows={3}
+                className={`${inputClass} resize-none`}
+                placeholder="Copied to each generated work order"
+              />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">Procedures</h3>
+            {procedures.length === 0 ? (
+              <p className="text-sm text-slate-500">No published procedures</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border border-slate-200 rounded-lg p-3">
+                {procedures.map((procedure) => (
+                  <label key={procedure.id} className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.procedure_template_ids.includes(procedure.id)}
+                      onChange={() => toggleProcedure(procedure.id)}
+                      className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {procedure.name} (v{procedure.version})
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-slate-700">Planned Parts</h3>
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, parts: [...formData.parts, { inventory_item_id: '', quantity: 1 }] })}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-3 h-3" />
+                Add Part
+              </button>
+            </div>
+            {formData.parts.length === 0 ? (
+              <p className="text-sm text-slate-500">No parts planned</p>
+            ) : (
+              <div className="space-y-2">
+                {formData.parts.map((part, index) => (
+                  <div key={index} className="flex gap-2">
+                    <select
+                      value={part.inventory_item_id}
+                      onChange={(e) => updatePart(index, { inventory_item_id: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Select a part</option>
+                      {inventory.map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.part_number} - {item.description}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      value={part.quantity}
+                      onChange={(e) => updatePart(index, { quantity: Number(e.target.value) })}
+                      className="w-24 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, parts: formData.parts.filter((_, i) => i !== index) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-slate-700">Recurrence</h3>
+              <button
+                type="button"
+                onClick={() => setRules([...rules, newRule('days', selectedUnit?.operational_hours || 0)])}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-3 h-3" />
+                Add Rule
+              </button>
+            </div>
+            {rules.length === 0 ? (
+              <p className="text-sm text-slate-500">
+                Without a rule, no work orders are generated from this template
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {rules.map((rule, index) => (
+                  <div key={rule.id || index} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Repeat className="w-4 h-4 text-slate-500" />
+                      <select
+                        value={rule.frequency}
+                        onChange={(e) => changeFrequency(index, e.target.value as RecurrenceFrequency)}
+                        className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                      >
+                        {Object.entries(RECURRENCE_LABELS).map(([frequency, label]) => (
+                          <option key={frequency} value={frequency}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <label className="flex items-center gap-2 text-sm text-slate-700 ml-auto">
+                        <input
+                          type="checkbox"
+                          checked={rule.is_active}
+                          onChange={(e) => updateRule(index, { is_active: e.target.checked })}
+                          className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Active
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => removeRule(index)}
+                        className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-3 text-sm">
+                      {rule.frequency === 'days' && (
+                        <label className="block">
+                          <span className="text-slate-600">Every (days)</span>
+                          <input
+                            type="number"
+                            min={1}
+                            value={rule.interval_days ?? ''}
+                            onChange={(e) => updateRule(index, { interval_days: Number(e.target.value) || null })}
+                            className={inputClass}
+                          />
+                        </label>
+                      )}
+                      {rule.frequency === 'monthly' && (
+                        <label className="block">
+                          <span className="text-slate-600">Day of month</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={31}
+                            value={rule.day_of_month ?? ''}
+                            onChange={(e) => {
+                              const day = Number(e.target.value) || null;
+                              updateRule(index, {
+                                day_of_month: day,
+                                next_due_date: day ? firstMonthlyOccurrence(today(), day) : rule.next_due_date,
+                              });
+                            }}
+                            className={inputClass}
+                          />
+                        </label>
+                      )}
+                      {rule.frequency === 'operating_hours' ? (
+                        <>
+                          <label className="block">
+                            <span className="text-slate-600">Every (hours)</span>
+                            <input
+                              type="number"
+                              min={1}
+                              value={rule.interval_hours ?? ''}
+                              onChange={(e) => updateRule(index, { interval_hours: Number(e.target.value) || null })}
+                              className={inputClass}
+                            />
+                          </label>
+                          <label className="block">
+                            <span className="text-slate-600">Next due at (hours)</span>
+                            <input
+                              type="number"
+                              min={0}
+                              value={rule.next_due_hours ?? ''}
+                              onChange={(e) =>
+                                updateRule(index, {
+                                  next_due_hours: e.target.value === '' ? null : Number(e.target.value),
+                                })
+                              }
+                              className={inputClass}
+                            />
+                          </label>
+                          <label className="block">
+                            <span className="text-slate-600">Create ahead (hours)</span>
+                            <input
+                              type="number"
+                              min={0}
+                              value={rule.lead_hours}
+                              onChange={(e) => updateRule(index, { lead_hours: Number(e.target.value) || 0 })}
+                              className={inputClass}
+                            />
+                          </label>
+                        </>
+                      ) : (
+                        <>
+                          <label className="block">
+                            <span className="text-slate-600">Next due</span>
+                            <input
+                              type="date"
+                              value={rule.next_due_date || ''}
+                              onChange={(e) => updateRule(index, { next_due_date: e.target.value || null })}
+                              className={inputClass}
+                            />
+                          </label>
+                          <label className="block">
+                            <span className="text-slate-600">Create ahead (days)</span>
+                            <input
+                              type="number"
+                              min={0}
+                              value={rule.lead_days}
+                              onChange={(e) => updateRule(index, { lead_days: Number(e.target.value) || 0 })}
+                              className={inputClass}
+                            />
+                          </label>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={formData.is_active}
+              onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+              className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Template active
+          </label>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
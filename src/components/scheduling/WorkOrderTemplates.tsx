@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, Plus, Pencil, Trash2, Repeat, RefreshCw } from 'lucide-react';
+import { describeRule, recurringWorkOrders } from '../../lib/recurringWorkOrders';
+import type { RecurrenceRule, WorkOrderTemplate } from '../../types/database';
+import WorkOrderTemplateForm from './WorkOrderTemplateForm';
+
+interface WorkOrderTemplatesProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+function nextDue(rule: RecurrenceRule): string {
+  if (rule.frequency === 'operating_hours') return `at ${rule.next_due_hours?.toLocaleString()} hrs`;
+  return rule.next_due_date ? new Date(`${rule.next_due_date}T00:00:00`).toLocaleDateString() : '—';
+}
+
+export default function WorkOrderTemplates({ onClose, onChanged }: WorkOrderTemplatesProps) {
+  const [templates, setTemplates] = useState<WorkOrderTemplate[]>([]);
+  const [editing, setEditing] = useState<WorkOrderTemplate | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    setLoading(true);
+    try {
+      setTemplates(await recurringWorkOrders.listTemplates());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (template: WorkOrderTemplate | null) => {
+    setEditing(template);
+    setShowForm(true);
+  };
+
+  const handleSaved = async () => {
+    setShowForm(false);
+    await loadTemplates();
+    onChanged();
+  };
+
+  const handleDelete = async (template: WorkOrderTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Work orders already generated are kept.`)) return;
+
+    try {
+      await recurringWorkOrders.deleteTemplate(template.id);
+      await loadTemplates();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError('');
+    try {
+      const created = await recurringWorkOrders.generate();
+      setMessage(created === 1 ? '1 work order generated' : `${created} work orders generated`);
+      setTimeout(() => setMessage(''), 3000);
+      await loadTemplates();
+      onChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+        <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+          <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Repeat className="w-5 h-5 text-blue-600" />
+              <h2 className="text-xl font-semibold text-slate-900">Recurring Work Orders</h2>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleGenerate}
+                disabled={generating}
+                className="flex items-center gap-2 px-3 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition text-sm disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${generating ? 'animate-spin' : ''}`} />
+                Generate Now
+              </button>
+              <button
+                onClick={() => openForm(null)}
+                className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                New Template
+              </button>
+              <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                <p className="text-sm text-green-800">{message}</p>
+              </div>
+            )}
+
+            {loading ? (
+              <p className="text-center text-sm text-slate-600 py-8">Loading...</p>
+            ) : templates.length === 0 ? (
+              <p className="text-center text-sm text-slate-500 py-8">
+                No templates yet. Create one to generate preventive maintenance work orders automatically.
+              </p>
+            ) : (
+              templates.map((template) => (
+                <div
+                  key={template.id}
+                  className={`border border-slate-200 rounded-lg p-4 ${template.is_active ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h3 className="font-medium text-slate-900">
+                        {template.name}
+                        {!template.is_active && <span className="ml-2 text-xs text-slate-500">(inactive)</span>}
+                      </h3>
+                      <p className="text-sm text-slate-600">
+                        S/N {template.equipment_unit?.serial_number} · {template.work_type.toUpperCase()}
+                        {template.estimated_hours !== null && ` · ${template.estimated_hours} hrs`}
+                        {template.parts.length > 0 && ` · ${template.parts.length} planned parts`}
+                        {template.procedure_template_ids.length > 0 &&
+                          ` · ${template.procedure_template_ids.length} procedures`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => openForm(template)}
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {(template.recurrence_rules || []).length > 0 && (
+                    <ul className="mt-3 space-y-1">
+                      {(template.recurrence_rules || []).map((rule) => (
+                        <li key={rule.id} className="flex items-center gap-2 text-sm text-slate-700">
+                          <Repeat className="w-3 h-3 text-slate-400" />
+                          {describeRule(rule)}
+                          <span className="text-slate-500">· next due {nextDue(rule)}</span>
+                          {!rule.is_active && <span className="text-xs text-slate-500">(paused)</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showForm && (
+        <WorkOrderTemplateForm template={editing} onClose={() => setShowForm(false)} onSuccess={handleSaved} />
+      )}
+    </>
+  );
+}
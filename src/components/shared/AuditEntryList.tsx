@@ -0,0 +1,69 @@
+import { ArrowRight, Plus, Pencil, Trash2 } from 'lucide-react';
+import { AuditContext, auditChanges, describeAuditEntry } from '../../lib/auditTrail';
+import type { AuditAction, AuditLogEntry } from '../../types/database';
+
+interface AuditEntryListProps {
+  entries: AuditLogEntry[];
+  context: AuditContext;
+  showWorkOrder?: boolean;
+}
+
+const ACTION_STYLES: Record<AuditAction, { icon: typeof Plus; className: string }> = {
+  insert: { icon: Plus, className: 'bg-green-100 text-green-700' },
+  update: { icon: Pencil, className: 'bg-blue-100 text-blue-700' },
+  delete: { icon: Trash2, className: 'bg-red-100 text-red-700' },
+};
+
+export default function AuditEntryList({ entries, context, showWorkOrder }: AuditEntryListProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-500 text-center py-8">No recorded activity</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-slate-200 ml-3 space-y-6">
+      {entries.map((entry) => {
+        const { icon: Icon, className } = ACTION_STYLES[entry.action];
+        const changes = auditChanges(entry, context);
+
+        return (
+          <li key={entry.id} className="ml-6">
+            <span
+              className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${className}`}
+            >
+              <Icon className="w-3 h-3" />
+            </span>
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="text-sm font-medium text-slate-900">
+                {describeAuditEntry(entry, context)}
+                {showWorkOrder && entry.work_order_id && (
+                  <span className="ml-2 text-xs font-normal text-slate-500">
+                    {context.workOrders.get(entry.work_order_id) || 'Deleted work order'}
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-slate-500">
+                {entry.changed_by_name || 'System'} · {new Date(entry.changed_at).toLocaleString()}
+              </p>
+            </div>
+            {changes.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm">
+                {changes.map((change, index) => (
+                  <li key={`${change.field}-${index}`} className="flex flex-wrap items-center gap-2 text-slate-600">
+                    <span className="text-slate-500">{change.label}:</span>
+                    {entry.action !== 'insert' && (
+                      <>
+                        <span className="line-through text-slate-400">{change.before}</span>
+                        <ArrowRight className="w-3 h-3 text-slate-400" />
+                      </>
+                    )}
+                    <span className="font-medium text-slate-900">{change.after}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { X, Ruler, Save } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { DISPLAY_UNIT_CHOICES, DisplayUnits } from '../../lib/units';
+
+interface DisplayUnitsSettingsProps {
+  onClose: () => void;
+}
+
+export default function DisplayUnitsSettings({ onClose }: DisplayUnitsSettingsProps) {
+  const { displayUnits, updateDisplayUnits } = useAuth();
+  const [units, setUnits] = useState<DisplayUnits>(displayUnits);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+
+    try {
+      await updateDisplayUnits(units);
+      onClose();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Ruler className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Display Units</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            Readings are stored in the unit they were entered in. These settings only change how
+            converted values are shown to you.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {DISPLAY_UNIT_CHOICES.map(({ dimension, label, units: choices }) => (
+            <div key={dimension} className="flex items-center justify-between gap-4">
+              <label className="text-sm font-medium text-slate-700">{label}</label>
+              <select
+                value={units[dimension]}
+                onChange={(e) => setUnits({ ...units, [dimension]: e.target.value })}
+                className="w-32 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                {choices.map((unit) => (
+                  <option key={unit} value={unit}>
+                    {unit}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 bg-slate-50 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
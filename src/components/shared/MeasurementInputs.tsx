@@ -0,0 +1,152 @@
+import { CheckCircle, XCircle, Calculator } from 'lucide-react';
+import type { EquipmentModel, MeasurementResult, ProcedureStep } from '../../types/database';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  displayConversion,
+  formatLimits,
+  judgeReading,
+  normalizeMeasurementSpecs,
+  readValue,
+  resolveLimits,
+} from '../../lib/measurements';
+import {
+  calculationForOutput,
+  fillCalculatedFields,
+  runCalculations,
+} from '../../lib/electricalCalculations';
+
+interface MeasurementInputsProps {
+  step: Pick<ProcedureStep, 'measurements_required' | 'acceptance_criteria'>;
+  tolerances?: EquipmentModel['tolerances'] | null;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+function ResultBadge({ result }: { result: MeasurementResult | null }) {
+  if (result === 'pass') {
+    return (
+      <span className="flex items-center gap-1 text-xs font-medium text-green-700">
+        <CheckCircle className="w-4 h-4" />
+        Pass
+      </span>
+    );
+  }
+  if (result === 'fail') {
+    return (
+      <span className="flex items-center gap-1 text-xs font-medium text-red-700">
+        <XCircle className="w-4 h-4" />
+        Fail
+      </span>
+    );
+  }
+  return null;
+}
+
+export default function MeasurementInputs({ step, tolerances, values, onChange }: MeasurementInputsProps) {
+  const { displayUnits } = useAuth();
+  const specs = normalizeMeasurementSpecs(step);
+
+  if (specs.length === 0) return null;
+
+  const parameters = specs.map((spec) => spec.parameter);
+  const filled = fillCalculatedFields(values, parameters);
+
+  // Derived values the step doesn't have a field for are shown underneath
+  const specCalculations = new Set(parameters.map((parameter) => calculationForOutput(parameter, parameters)?.id));
+  const extraCalculations = runCalculations(values).filter((c) => !specCalculations.has(c.id));
+
+  const handleChange = (parameter: string, value: string) => {
+    onChange(fillCalculatedFields({ ...values, [parameter]: value }, parameters));
+  };
+
+  return (
+    <div>
+      <h3 className="font-semibold text-slate-900 mb-3">Measurements</h3>
+      <div className="space-y-3">
+        {specs.map((spec) => {
+          const limits = resolveLimits(spec, step.acceptance_criteria, tolerances, parameters);
+          const calculation = calculationForOutput(spec.parameter, parameters);
+          const raw = filled[spec.parameter] || '';
+          const reading = raw.trim() ? readValue(raw, limits.unit) : null;
+          const result = reading ? judgeReading(reading.value, limits) : null;
+          const converted = reading ? displayConversion(reading, displayUnits) : null;
+          const range = formatLimits(limits);
+
+          return (
+            <div key={spec.parameter} className="flex items-center gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-slate-700">{spec.parameter}</label>
+                <p className="text-xs text-slate-500">
+                  {range && <span>Spec {range}</span>}
+                  {range && spec.instrument && <span> · </span>}
+                  {spec.instrument && <span>{spec.instrument}</span>}
+                  {calculation && <span>{range ? ' · ' : ''}{calculation.basis}</span>}
+                </p>
+                {converted && <p className="text-xs text-blue-600">= {converted}</p>}
+                {reading && reading.value === null && reading.original_unit && (
+                  <p className="text-xs text-red-600">
+                    {reading.original_unit} can't be compared with a {limits.unit} spec
+                  </p>
+                )}
+              </div>
+              {calculation ? (
+                <div
+                  title="Calculated from the other readings"
+                  className={`w-40 flex items-center gap-2 px-3 py-2 border rounded-lg ${
+                    result === 'fail' ? 'border-red-400 bg-red-50' : 'border-slate-200 bg-slate-50'
+                  }`}
+                >
+                  <Calculator className="w-4 h-4 text-slate-400" />
+                  <span className="text-slate-900">{raw || '—'}</span>
+                  {raw && limits.unit && <span className="text-sm text-slate-500">{limits.unit}</span>}
+                </div>
+              ) : (
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder={limits.unit || 'Value'}
+                  value={raw}
+                  onChange={(e) => handleChange(spec.parameter, e.target.value)}
+                  className={`w-40 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none ${
+                    result === 'fail' ? 'border-red-400 bg-red-50' : 'border-slate-300'
+                  }`}
+                />
+              )}
+              <div className="w-16">
+                <ResultBadge result={result} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {extraCalculations.length > 0 && (
+        <div className="mt-4 bg-slate-50 border border-slate-200 rounded-lg p-4">
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-900 mb-2">
+            <Calculator className="w-4 h-4" />
+            Calculated
+          </h4>
+          <div className="space-y-2">
+            {extraCalculations.map((calculation) => (
+              <div key={calculation.id} className="flex items-center gap-3 text-sm">
+                <div className="flex-1">
+                  <p className="font-medium text-slate-700">{calculation.label}</p>
+                  <p className="text-xs text-slate-500">
+                    Spec {formatLimits({ ...calculation, nominal: null, unit: calculation.unit || null })} · {calculation.basis}
+                  </p>
+                </div>
+                <span className="text-slate-900">
+                  {calculation.value}
+                  {calculation.unit && ` ${calculation.unit}`}
+                </span>
+                <div className="w-16">
+                  <ResultBadge result={calculation.result} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,22 @@
 import React, { useEffect, useState } from 'react';
-import { Wifi, WifiOff, RefreshCw, HardDrive } from 'lucide-react';
+import { Wifi, WifiOff, RefreshCw, HardDrive, GitMerge, Activity } from 'lucide-react';
 import { syncManager } from '../../lib/syncManager';
+import SyncConflictReview from './SyncConflictReview';
+import SyncDiagnostics from './SyncDiagnostics';
 
 export default function OfflineIndicator() {
   const [status, setStatus] = useState({
     isOnline: navigator.onLine,
     pendingPhotos: 0,
     pendingSync: 0,
+    conflicts: 0,
+    failedSync: 0,
     storageUsed: 0,
     storageAvailable: 0,
   });
   const [isSyncing, setIsSyncing] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
 
   useEffect(() => {
     updateStatus();
@@ -56,7 +62,8 @@ export default function OfflineIndicator() {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
   };
 
-  const hasPendingData = status.pendingPhotos > 0 || status.pendingSync > 0;
+  const hasPendingData =
+    status.pendingPhotos > 0 || status.pendingSync > 0 || status.conflicts > 0 || status.failedSync > 0;
 
   return (
     <div className="fixed bottom-4 right-4 bg-white rounded-lg shadow-lg p-4 max-w-sm">
@@ -99,6 +106,31 @@ export default function OfflineIndicator() {
               <span className="font-medium">{status.pendingSync}</span>
             </div>
           )}
+
+          {status.failedSync > 0 && (
+            <div className="flex items-center justify-between text-red-700">
+              <span>Failed Changes:</span>
+              <button
+                onClick={() => setShowDiagnostics(true)}
+                className="font-medium hover:text-red-900"
+              >
+                Review {status.failedSync}
+              </button>
+            </div>
+          )}
+
+          {status.conflicts > 0 && (
+            <div className="flex items-center justify-between text-amber-700">
+              <span>Conflicts:</span>
+              <button
+                onClick={() => setShowConflicts(true)}
+                className="flex items-center gap-1 font-medium hover:text-amber-900"
+              >
+                <GitMerge className="w-4 h-4" />
+                Review {status.conflicts}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -111,6 +143,28 @@ export default function OfflineIndicator() {
           {formatBytes(status.storageUsed)} / {formatBytes(status.storageAvailable)}
         </span>
       </div>
+
+      <button
+        onClick={() => setShowDiagnostics(true)}
+        className="w-full flex items-center justify-center gap-1 mt-2 text-xs text-slate-500 hover:text-slate-700"
+      >
+        <Activity className="w-3 h-3" />
+        Sync Diagnostics
+      </button>
+
+      {showConflicts && (
+        <SyncConflictReview
+          onClose={() => setShowConflicts(false)}
+          onResolved={updateStatus}
+        />
+      )}
+
+      {showDiagnostics && (
+        <SyncDiagnostics
+          onClose={() => setShowDiagnostics(false)}
+          onChanged={updateStatus}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,219 @@
+import React, { useRef, useState } from 'react';
+import { X, Check, Undo2, Trash2, ArrowUpRight, Circle, Ruler, Type } from 'lucide-react';
+import {
+  ANNOTATION_COLORS,
+  AnnotationPoint,
+  AnnotationTool,
+  PhotoAnnotation,
+  PhotoAnnotations,
+  annotationSvg,
+} from '../../lib/photoAnnotations';
+
+interface PhotoAnnotatorProps {
+  imageUrl: string;
+  initial?: PhotoAnnotations | null;
+  onSave: (annotations: PhotoAnnotations) => void;
+  onCancel: () => void;
+}
+
+const TOOLS: Array<{ id: AnnotationTool; label: string; icon: typeof Circle }> = [
+  { id: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { id: 'circle', label: 'Circle', icon: Circle },
+  { id: 'measurement', label: 'Measure', icon: Ruler },
+  { id: 'text', label: 'Text', icon: Type },
+];
+
+export default function PhotoAnnotator({ imageUrl, initial, onSave, onCancel }: PhotoAnnotatorProps) {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    initial ? { width: initial.width, height: initial.height } : null
+  );
+  const [items, setItems] = useState<PhotoAnnotation[]>(initial?.items || []);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [start, setStart] = useState<AnnotationPoint | null>(null);
+  const [current, setCurrent] = useState<AnnotationPoint | null>(null);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    if (!size) {
+      setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+    }
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLDivElement>): AnnotationPoint | null => {
+    const surface = surfaceRef.current;
+    if (!surface || !size) return null;
+
+    const rect = surface.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * size.width,
+      y: ((e.clientY - rect.top) / rect.height) * size.height,
+    };
+  };
+
+  const buildItem = (from: AnnotationPoint, to: AnnotationPoint): PhotoAnnotation | null => {
+    const id = crypto.randomUUID();
+
+    switch (tool) {
+      case 'arrow':
+        return { id, type: 'arrow', from, to, color };
+      case 'circle':
+        return { id, type: 'circle', center: from, radius: Math.hypot(to.x - from.x, to.y - from.y), color };
+      case 'measurement':
+        return { id, type: 'measurement', from, to, label: '', color };
+      case 'text':
+        return null;
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toImagePoint(e);
+    if (!point) return;
+
+    if (tool === 'text') {
+      const text = prompt('Text');
+      if (text?.trim()) {
+        setItems([...items, { id: crypto.randomUUID(), type: 'text', at: point, text: text.trim(), color }]);
+      }
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart(point);
+    setCurrent(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!start) return;
+    setCurrent(toImagePoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!start) return;
+
+    const end = toImagePoint(e) || current;
+    setStart(null);
+    setCurrent(null);
+    if (!end || !size) return;
+
+    // Ignore taps that didn't drag far enough to mean anything
+    if (Math.hypot(end.x - start.x, end.y - start.y) < Math.max(size.width, size.height) / 100) return;
+
+    const item = buildItem(start, end);
+    if (!item) return;
+
+    if (item.type === 'measurement') {
+      const label = prompt('Measurement (e.g. 12.5 mm)');
+      if (!label?.trim()) return;
+      item.label = label.trim();
+    }
+
+    setItems([...items, item]);
+  };
+
+  const handleSave = () => {
+    if (!size) return;
+    onSave({ version: 1, width: size.width, height: size.height, items, updated_at: new Date().toISOString() });
+  };
+
+  const preview = start && current ? buildItem(start, current) : null;
+  const overlay =
+    size && (items.length > 0 || preview)
+      ? annotationSvg({ version: 1, ...size, items: preview ? [...items, preview] : items })
+      : '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[95vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-xl font-bold text-slate-900">Annotate Photo</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-slate-200">
+          {TOOLS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setTool(id)}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+                tool === id ? 'bg-blue-600 text-white' : 'text-slate-700 hover:bg-slate-100'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+          <div className="flex items-center gap-1 ml-2">
+            {ANNOTATION_COLORS.map((c) => (
+              <button
+                key={c}
+                onClick={() => setColor(c)}
+                title={c}
+                className={`w-7 h-7 rounded-full border-2 ${color === c ? 'border-slate-900' : 'border-slate-300'}`}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+          <div className="flex gap-1 ml-auto">
+            <button
+              onClick={() => setItems(items.slice(0, -1))}
+              disabled={items.length === 0}
+              title="Undo"
+              className="p-2 text-slate-700 hover:bg-slate-100 rounded-lg disabled:opacity-50"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setItems([])}
+              disabled={items.length === 0}
+              title="Clear"
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-auto flex justify-center">
+          <div
+            ref={surfaceRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setStart(null)}
+            className="relative inline-block cursor-crosshair touch-none select-none"
+            style={{ touchAction: 'none' }}
+          >
+            <img
+              src={imageUrl}
+              alt="Photo to annotate"
+              onLoad={handleImageLoad}
+              draggable={false}
+              className="block max-w-full max-h-[65vh]"
+            />
+            <div dangerouslySetInnerHTML={{ __html: overlay }} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 bg-slate-50 border-t border-slate-200">
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!size}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Check className="w-4 h-4" />
+            Save Annotations
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,18 @@
 import { useState, useRef } from 'react';
-import { supabase } from '../../lib/supabase';
+import { offlineStorage } from '../../lib/offlineStorage';
+import { syncManager } from '../../lib/syncManager';
+import { serviceWorkerManager } from '../../lib/serviceWorker';
+import { processPhoto, photoStoragePaths, ProcessedPhoto } from '../../lib/photoProcessing';
+import { PhotoAnnotations, annotationSvg } from '../../lib/photoAnnotations';
 import { useAuth } from '../../contexts/AuthContext';
-import { Camera, Upload, X, Image as ImageIcon } from 'lucide-react';
+import { Camera, Upload, X, Image as ImageIcon, PencilLine } from 'lucide-react';
+import PhotoAnnotator from './PhotoAnnotator';
 
 interface PhotoCaptureProps {
   workSessionId: string;
   stepCompletionId?: string;
   photoType?: 'before' | 'during' | 'after' | 'issue' | 'reference';
+  // Called once the photo has reached the server, not when it is saved offline
   onPhotoUploaded?: () => void;
 }
 
@@ -20,12 +26,16 @@ export default function PhotoCapture({
   const [uploading, setUploading] = useState(false);
   const [caption, setCaption] = useState('');
   const [showCaptionModal, setShowCaptionModal] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [processed, setProcessed] = useState<ProcessedPhoto | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [annotations, setAnnotations] = useState<PhotoAnnotations | null>(null);
+  const [showAnnotator, setShowAnnotator] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Cleared so picking the same file again still fires a change
+    e.target.value = '';
     if (!file) return;
 
     if (!file.type.startsWith('image/')) {
@@ -33,70 +43,83 @@ export default function PhotoCapture({
       return;
     }
 
-    setSelectedFile(file);
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
-    setShowCaptionModal(true);
+    // Process up front so the preview and annotations use the uploaded image's dimensions
+    try {
+      const result = await processPhoto(file);
+      setProcessed(result);
+      setPreviewUrl(URL.createObjectURL(result.image));
+      setShowCaptionModal(true);
+    } catch (error) {
+      console.error('Error processing photo:', error);
+      alert('Could not read this photo. Please try another.');
+    }
+  };
+
+  const clearPhoto = () => {
+    setShowCaptionModal(false);
+    setProcessed(null);
+    if (previewUrl) {
+      URL.revokeObjectURL(previewUrl);
+    }
+    setPreviewUrl(null);
+    setAnnotations(null);
+    setCaption('');
   };
 
   const handleUpload = async () => {
-    if (!selectedFile || !profile) return;
+    if (!processed || !profile) return;
 
     try {
       setUploading(true);
 
-      const fileExt = selectedFile.name.split('.').pop();
-      const fileName = `${workSessionId}/${Date.now()}.${fileExt}`;
+      const photoId = crypto.randomUUID();
+      const { storagePath, thumbnailPath } = photoStoragePaths(workSessionId, photoId);
+      const capturedAt = processed.metadata.exif.capturedAt;
 
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('photos')
-        .upload(fileName, selectedFile);
-
-      if (uploadError) throw uploadError;
-
-      const { data: photoData, error: photoError } = await supabase
-        .from('photos')
-        .insert({
+      await offlineStorage.savePhoto(
+        photoId,
+        processed.image,
+        {
           work_session_id: workSessionId,
-          step_completion_id: stepCompletionId,
-          storage_path: uploadData.path,
+          step_completion_id: stepCompletionId || null,
+          storage_path: storagePath,
+          thumbnail_path: thumbnailPath,
           photo_type: photoType,
           caption: caption || null,
           taken_by: profile.id,
-        })
-        .select()
-        .single();
-
-      if (photoError) throw photoError;
-
-      setShowCaptionModal(false);
-      setSelectedFile(null);
-      setPreviewUrl(null);
-      setCaption('');
-
-      if (onPhotoUploaded) {
-        onPhotoUploaded();
+          taken_at: capturedAt ? new Date(capturedAt).toISOString() : new Date().toISOString(),
+          details: processed.metadata,
+          annotations: annotations || {},
+        },
+        processed.thumbnail
+      );
+
+      if (navigator.onLine) {
+        syncManager
+          .syncAfterCurrent()
+          .then(async () => {
+            if (onPhotoUploaded && (await offlineStorage.isPhotoUploaded(photoId))) {
+              onPhotoUploaded();
+            }
+          })
+          .catch((error) => {
+            console.error('Error syncing photo:', error);
+          });
+      } else {
+        serviceWorkerManager.requestBackgroundSync('sync-photos');
       }
 
-      alert('Photo uploaded successfully!');
+      clearPhoto();
+
+      alert(navigator.onLine ? 'Photo saved and uploading.' : 'Photo saved. It will upload when you are back online.');
     } catch (error) {
-      console.error('Error uploading photo:', error);
-      alert('Error uploading photo. Please try again.');
+      console.error('Error saving photo:', error);
+      alert('Error saving photo. Please try again.');
     } finally {
       setUploading(false);
     }
   };
 
-  const handleCancel = () => {
-    setShowCaptionModal(false);
-    setSelectedFile(null);
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl);
-    }
-    setPreviewUrl(null);
-    setCaption('');
-  };
-
   return (
     <>
       <input
@@ -122,7 +145,7 @@ export default function PhotoCapture({
             <div className="p-6 border-b border-slate-200 flex items-center justify-between">
               <h2 className="text-xl font-semibold text-slate-900">Add Photo</h2>
               <button
-                onClick={handleCancel}
+                onClick={clearPhoto}
                 className="p-2 hover:bg-slate-100 rounded-lg transition"
               >
                 <X className="w-5 h-5" />
@@ -132,11 +155,23 @@ export default function PhotoCapture({
             <div className="p-6">
               {previewUrl && (
                 <div className="mb-6">
-                  <img
-                    src={previewUrl}
-                    alt="Preview"
-                    className="w-full rounded-lg border border-slate-200"
-                  />
+                  <div className="relative">
+                    <img
+                      src={previewUrl}
+                      alt="Preview"
+                      className="w-full rounded-lg border border-slate-200"
+                    />
+                    {annotations && annotations.items.length > 0 && (
+                      <div dangerouslySetInnerHTML={{ __html: annotationSvg(annotations) }} />
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setShowAnnotator(true)}
+                    className="mt-3 flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 transition text-sm"
+                  >
+                    <PencilLine className="w-4 h-4" />
+                    {annotations && annotations.items.length > 0 ? 'Edit Annotations' : 'Annotate'}
+                  </button>
                 </div>
               )}
 
@@ -155,7 +190,7 @@ export default function PhotoCapture({
 
               <div className="flex gap-3">
                 <button
-                  onClick={handleCancel}
+                  onClick={clearPhoto}
                   className="flex-1 px-6 py-3 border border-slate-300 rounded-lg hover:bg-slate-50 transition font-medium"
                 >
                   Cancel
@@ -165,13 +200,25 @@ export default function PhotoCapture({
                   disabled={uploading}
                   className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {uploading ? 'Uploading...' : 'Upload Photo'}
+                  {uploading ? 'Processing...' : 'Save Photo'}
                 </button>
               </div>
             </div>
           </div>
         </div>
       )}
+
+      {showAnnotator && previewUrl && (
+        <PhotoAnnotator
+          imageUrl={previewUrl}
+          initial={annotations}
+          onSave={(result) => {
+            setAnnotations(result);
+            setShowAnnotator(false);
+          }}
+          onCancel={() => setShowAnnotator(false)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, ShieldCheck } from 'lucide-react';
+import { STEP_ACKNOWLEDGMENTS } from '../../lib/safety';
+import type { ProcedureStep, SafetyAcknowledgment } from '../../types/database';
+
+interface SafetyAcknowledgmentPanelProps {
+  step: ProcedureStep;
+  acknowledgment: SafetyAcknowledgment | undefined;
+  onAcknowledge: (items: string[]) => Promise<void>;
+}
+
+export default function SafetyAcknowledgmentPanel({ step, acknowledgment, onAcknowledge }: SafetyAcknowledgmentPanelProps) {
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setChecked(new Set());
+  }, [step.id]);
+
+  const toggleItem = (index: number) => {
+    const next = new Set(checked);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setChecked(next);
+  };
+
+  const handleAcknowledge = async () => {
+    setSaving(true);
+    try {
+      await onAcknowledge(STEP_ACKNOWLEDGMENTS);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <h3 className="font-semibold text-amber-900 mb-1">Safety Note</h3>
+          <p className="text-sm text-amber-800">{step.safety_notes}</p>
+
+          {acknowledgment ? (
+            <p className="flex items-center gap-2 text-sm text-green-700 mt-3">
+              <ShieldCheck className="w-4 h-4" />
+              Acknowledged {new Date(acknowledgment.acknowledged_at).toLocaleString()}
+            </p>
+          ) : (
+            <div className="mt-3 space-y-2">
+              {STEP_ACKNOWLEDGMENTS.map((item, index) => (
+                <label key={item} className="flex items-start gap-2 text-sm text-amber-900">
+                  <input
+                    type="checkbox"
+                    checked={checked.has(index)}
+                    onChange={() => toggleItem(index)}
+                    className="mt-0.5 rounded border-amber-300"
+                  />
+                  {item}
+                </label>
+              ))}
+              <button
+                onClick={handleAcknowledge}
+                disabled={saving || checked.size < STEP_ACKNOWLEDGMENTS.length}
+                className="flex items-center gap-2 px-4 py-2 mt-1 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                {saving ? 'Recording...' : 'Acknowledge'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Clock, Pause, Play } from 'lucide-react';
+import { elapsedSeconds, formatDuration, isRunning, parseDuration } from '../../lib/timeTracking';
+import type { StepTimerInterval } from '../../types/database';
+
+interface StepTimerProps {
+  intervals: StepTimerInterval[] | undefined;
+  estimatedTime: string | null;
+  onToggle: (running: boolean) => Promise<void>;
+  disabled?: boolean;
+}
+
+export default function StepTimer({ intervals, estimatedTime, onToggle, disabled }: StepTimerProps) {
+  const [now, setNow] = useState(new Date());
+  const [saving, setSaving] = useState(false);
+  const running = isRunning(intervals);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const elapsed = elapsedSeconds(intervals, now);
+  const estimate = parseDuration(estimatedTime);
+  const over = estimate !== null && elapsed > estimate;
+
+  const handleToggle = async () => {
+    setSaving(true);
+    try {
+      await onToggle(!running);
+      setNow(new Date());
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 bg-slate-100 rounded-lg p-4">
+      <div className="flex items-center gap-3">
+        <Clock className={`w-5 h-5 ${running ? 'text-blue-600' : 'text-slate-500'}`} />
+        <div>
+          <p className={`text-lg font-semibold tabular-nums ${over ? 'text-amber-700' : 'text-slate-900'}`}>
+            {formatDuration(elapsed)}
+          </p>
+          <p className="text-xs text-slate-600">
+            {estimate !== null ? `Estimated ${formatDuration(estimate)}` : estimatedTime || 'No estimate'}
+            {over && ' · over estimate'}
+          </p>
+        </div>
+      </div>
+      <button
+        onClick={handleToggle}
+        disabled={disabled || saving}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed ${
+          running
+            ? 'border border-slate-300 text-slate-700 hover:bg-white'
+            : 'bg-blue-600 text-white hover:bg-blue-700'
+        }`}
+      >
+        {running ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        {running ? 'Pause' : intervals?.length ? 'Resume' : 'Start'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { X, GitMerge, AlertCircle } from 'lucide-react';
+import { offlineStorage, SyncConflict } from '../../lib/offlineStorage';
+import { syncManager } from '../../lib/syncManager';
+
+interface SyncConflictReviewProps {
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  step_completions: 'Step Completion',
+  work_sessions: 'Work Session',
+  work_orders: 'Work Order',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+export default function SyncConflictReview({ onClose, onResolved }: SyncConflictReviewProps) {
+  const [conflicts, setConflicts] = useState<Array<SyncConflict & { id: number }>>([]);
+  const [choices, setChoices] = useState<Record<number, Record<string, 'local' | 'server'>>>({});
+  const [resolving, setResolving] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = async () => {
+    const data = await offlineStorage.getSyncConflicts();
+    setConflicts(data.sort((a, b) => a.detectedAt - b.detectedAt));
+  };
+
+  const setChoice = (conflictId: number, field: string, choice: 'local' | 'server') => {
+    setChoices({
+      ...choices,
+      [conflictId]: { ...choices[conflictId], [field]: choice },
+    });
+  };
+
+  const handleResolve = async (conflict: SyncConflict & { id: number }, keepLocalFields: string[]) => {
+    setResolving(conflict.id);
+    setError('');
+
+    try {
+      await syncManager.resolveConflict(conflict.id, keepLocalFields);
+      await loadConflicts();
+      onResolved();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <GitMerge className="w-5 h-5 text-amber-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Review Sync Conflicts</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {conflicts.length === 0 && (
+            <p className="text-center text-slate-600 py-8">No conflicts to review.</p>
+          )}
+
+          {conflicts.map((conflict) => {
+            const conflictChoices = choices[conflict.id] || {};
+            const keepLocal = conflict.fields.filter((f) => conflictChoices[f] === 'local');
+
+            return (
+              <div key={conflict.id} className="border border-amber-200 rounded-lg">
+                <div className="px-4 py-3 bg-amber-50 border-b border-amber-200 rounded-t-lg">
+                  <p className="font-medium text-amber-900">
+                    {TABLE_LABELS[conflict.table] || conflict.table}
+                  </p>
+                  <p className="text-xs text-amber-800">
+                    Changed on the server while you were offline ·{' '}
+                    {new Date(conflict.detectedAt).toLocaleString()}
+                  </p>
+                </div>
+
+                <div className="p-4 space-y-3">
+                  {conflict.operation === 'delete' ? (
+                    <p className="text-sm text-slate-700">
+                      You deleted this record on this device, but it was edited on the server.
+                    </p>
+                  ) : !conflict.server ? (
+                    <p className="text-sm text-slate-700">
+                      You edited this record on this device, but it no longer exists on the server.
+                    </p>
+                  ) : (
+                    conflict.fields.map((field) => (
+                      <div key={field}>
+                        <p className="text-sm font-medium text-slate-700 mb-2">{field}</p>
+                        <div className="grid grid-cols-2 gap-3">
+                          {(['local', 'server'] as const).map((side) => (
+                            <label
+                              key={side}
+                              className={`block p-3 border rounded-lg cursor-pointer transition ${
+                                (conflictChoices[field] || 'server') === side
+                                  ? 'border-blue-500 bg-blue-50'
+                                  : 'border-slate-200 hover:bg-slate-50'
+                              }`}
+                            >
+                              <div className="flex items-center gap-2 mb-1">
+                                <input
+                                  type="radio"
+                                  name={`${conflict.id}-${field}`}
+                                  checked={(conflictChoices[field] || 'server') === side}
+                                  onChange={() => setChoice(conflict.id, field, side)}
+                                />
+                                <span className="text-xs font-semibold text-slate-600 uppercase">
+                                  {side === 'local' ? 'Your change' : 'Server'}
+                                </span>
+                              </div>
+                              <pre className="text-sm text-slate-900 whitespace-pre-wrap break-words font-sans">
+                                {formatValue(side === 'local' ? conflict.local[field] : conflict.server?.[field])}
+                              </pre>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))
+                  )}
+
+                  <div className="flex gap-3 pt-2">
+                    <button
+                      onClick={() => handleResolve(conflict, [])}
+                      disabled={resolving === conflict.id}
+                      className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+                    >
+                      Keep Server Version
+                    </button>
+                    <button
+                      onClick={() =>
+                        handleResolve(
+                          conflict,
+                          conflict.operation === 'delete' || !conflict.server ? conflict.fields : keepLocal
+                        )
+                      }
+                      disabled={resolving === conflict.id}
+                      className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                    >
+                      {conflict.operation === 'delete'
+                        ? 'Delete Anyway'
+                        : !conflict.server
+                        ? 'Recreate With My Changes'
+                        : 'Apply Selection'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { X, Activity, AlertCircle, RotateCcw, Trash2, Pencil, ChevronDown, ChevronRight } from 'lucide-react';
+import { offlineStorage, DeadLetter, SyncQueueItem } from '../../lib/offlineStorage';
+import { syncManager } from '../../lib/syncManager';
+
+interface SyncDiagnosticsProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function SyncDiagnostics({ onClose, onChanged }: SyncDiagnosticsProps) {
+  const [queue, setQueue] = useState<Array<SyncQueueItem & { id: number }>>([]);
+  const [deadLetters, setDeadLetters] = useState<Array<DeadLetter & { id: number }>>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+  const [busy, setBusy] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadDiagnostics();
+  }, []);
+
+  const loadDiagnostics = async () => {
+    setQueue(await offlineStorage.getSyncQueue());
+    setDeadLetters((await offlineStorage.getDeadLetters()).reverse());
+  };
+
+  const runAction = async (id: number, action: () => Promise<void>) => {
+    setBusy(id);
+    setError('');
+
+    try {
+      await action();
+      await loadDiagnostics();
+      onChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleStartEdit = (letter: DeadLetter & { id: number }) => {
+    setEditing(letter.id);
+    setExpanded(letter.id);
+    setEditText(JSON.stringify(letter.data, null, 2));
+  };
+
+  const handleRetry = (letter: DeadLetter & { id: number }) => {
+    let data: Record<string, unknown> | undefined;
+
+    if (editing === letter.id) {
+      try {
+        data = JSON.parse(editText);
+      } catch {
+        setError('Edited payload is not valid JSON');
+        return;
+      }
+    }
+
+    runAction(letter.id, async () => {
+      await syncManager.retryDeadLetter(letter.id, data);
+      setEditing(null);
+    });
+  };
+
+  const handleDiscard = (letter: DeadLetter & { id: number }) => {
+    if (!confirm(`Discard this ${letter.operation} on ${letter.table}? The change will be lost.`)) return;
+    runAction(letter.id, () => syncManager.discardDeadLetter(letter.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Activity className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Sync Diagnostics</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <h3 className="font-semibold text-slate-900 mb-3">Failed Operations ({deadLetters.length})</h3>
+            {deadLetters.length === 0 ? (
+              <p className="text-sm text-slate-500">No failed operations.</p>
+            ) : (
+              <div className="space-y-3">
+                {deadLetters.map((letter) => (
+                  <div key={letter.id} className="border border-red-200 rounded-lg">
+                    <div className="flex items-start gap-3 p-4">
+                      <button
+                        onClick={() => setExpanded(expanded === letter.id ? null : letter.id)}
+                        className="p-1 hover:bg-slate-100 rounded transition"
+                      >
+                        {expanded === letter.id ? (
+                          <ChevronDown className="w-4 h-4" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4" />
+                        )}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-slate-900">
+                          <span className="uppercase text-xs font-semibold text-slate-500 mr-2">
+                            {letter.operation}
+                          </span>
+                          {letter.table}
+                        </p>
+                        <p className="text-sm text-red-700 break-words">
+                          {letter.errorCode && <span className="font-mono mr-2">[{letter.errorCode}]</span>}
+                          {letter.errorMessage}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">
+                          Queued {new Date(letter.queuedAt).toLocaleString()} · Failed{' '}
+                          {new Date(letter.failedAt).toLocaleString()} · {letter.attempts.length} attempts
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => handleStartEdit(letter)}
+                          disabled={busy === letter.id}
+                          title="Edit payload"
+                          className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition disabled:opacity-50"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRetry(letter)}
+                          disabled={busy === letter.id}
+                          title="Retry"
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition disabled:opacity-50"
+                        >
+                          <RotateCcw className={`w-4 h-4 ${busy === letter.id ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button
+                          onClick={() => handleDiscard(letter)}
+                          disabled={busy === letter.id}
+                          title="Discard"
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {expanded === letter.id && (
+                      <div className="px-4 pb-4 space-y-3">
+                        <div>
+                          <p className="text-xs font-semibold text-slate-500 uppercase mb-1">Payload</p>
+                          {editing === letter.id ? (
+                            <textarea
+                              value={editText}
+                              onChange={(e) => setEditText(e.target.value)}
+                              rows={10}
+                              className="w-full px-3 py-2 font-mono text-xs border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                            />
+                          ) : (
+                            <pre className="text-xs bg-slate-50 border border-slate-200 rounded-lg p-3 overflow-x-auto">
+                              {JSON.stringify(letter.data, null, 2)}
+                            </pre>
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-xs font-semibold text-slate-500 uppercase mb-1">Attempt History</p>
+                          <ul className="text-xs text-slate-700 space-y-1">
+                            {letter.attempts.map((attempt, idx) => (
+                              <li key={idx}>
+                                {new Date(attempt.at).toLocaleString()} —{' '}
+                                {attempt.code && <span className="font-mono">[{attempt.code}] </span>}
+                                {attempt.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-slate-900 mb-3">Pending Operations ({queue.length})</h3>
+            {queue.length === 0 ? (
+              <p className="text-sm text-slate-500">Nothing waiting to sync.</p>
+            ) : (
+              <div className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+                {queue.map((item) => {
+                  const lastAttempt = item.attempts?.[item.attempts.length - 1];
+                  return (
+                    <div key={item.id} className="p-3 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-slate-900">
+                          <span className="uppercase text-xs font-semibold text-slate-500 mr-2">
+                            {item.operation}
+                          </span>
+                          {item.table}
+                        </span>
+                        <span className="text-xs text-slate-500">
+                          {new Date(item.timestamp).toLocaleString()}
+                        </span>
+                      </div>
+                      {item.retries > 0 && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          {item.retries} failed attempt{item.retries === 1 ? '' : 's'}
+                          {lastAttempt && ` — ${lastAttempt.message}`}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { serviceWorkerManager } from '../../lib/serviceWorker';
+
+export default function UpdatePrompt() {
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    return serviceWorkerManager.onUpdateAvailable(setUpdateAvailable);
+  }, []);
+
+  if (!updateAvailable || dismissed) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-slate-900 text-white rounded-lg shadow-lg px-4 py-3 flex items-center gap-4">
+      <RefreshCw className="w-5 h-5 text-blue-400 flex-shrink-0" />
+      <p className="text-sm">A new version of the app is available.</p>
+      <button
+        onClick={() => serviceWorkerManager.applyUpdate()}
+        className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition"
+      >
+        Reload
+      </button>
+      <button
+        onClick={() => setDismissed(true)}
+        className="p-1 text-slate-400 hover:text-white transition"
+        title="Later"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
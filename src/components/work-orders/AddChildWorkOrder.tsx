@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, Wrench, Truck } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { ChildWorkOrderInput, workOrderHierarchy } from '../../lib/workOrderHierarchy';
+import type { WorkOrder, WorkType } from '../../types/database';
+
+interface EquipmentOption {
+  id: string;
+  serial_number: string;
+  equipment_model: { model_number: string } | null;
+}
+
+interface AddChildWorkOrderProps {
+  parent: WorkOrder;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function AddChildWorkOrder({ parent, onClose, onSuccess }: AddChildWorkOrderProps) {
+  const [formData, setFormData] = useState<ChildWorkOrderInput>({
+    equipment_unit_id: null,
+    work_type: parent.work_type,
+    reported_issue: '',
+    estimated_hours: null,
+    outside_service: false,
+    vendor_id: null,
+    vendor_reference: null,
+    outside_service_cost: null,
+  });
+  const [equipment, setEquipment] = useState<EquipmentOption[]>([]);
+  const [vendors, setVendors] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  const loadOptions = async () => {
+    try {
+      let equipmentQuery = supabase
+        .from('equipment_units')
+        .select('id, serial_number, equipment_model:equipment_models (model_number)')
+        .order('serial_number');
+      if (parent.customer_id) equipmentQuery = equipmentQuery.eq('customer_id', parent.customer_id);
+
+      const [equipmentRes, vendorList] = await Promise.all([equipmentQuery, workOrderHierarchy.loadVendors()]);
+      if (equipmentRes.error) throw equipmentRes.error;
+
+      setEquipment((equipmentRes.data || []) as unknown as EquipmentOption[]);
+      setVendors(vendorList);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const setKind = (outsideService: boolean) => {
+    setFormData({
+      ...formData,
+      outside_service: outsideService,
+      work_type: outsideService ? 'repair' : parent.work_type,
+      vendor_id: outsideService ? formData.vendor_id : null,
+      vendor_reference: outsideService ? formData.vendor_reference : null,
+      outside_service_cost: outsideService ? formData.outside_service_cost : null,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      await workOrderHierarchy.createChild(parent, formData);
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-900">Add Child Work Order</h2>
+            <p className="text-sm text-slate-600">Part of {parent.work_order_number}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              type="button"
+              onClick={() => setKind(false)}
+              className={`flex items-center gap-2 p-3 rounded-lg border text-sm font-medium transition ${
+                !formData.outside_service
+                  ? 'border-blue-600 bg-blue-50 text-blue-700'
+                  : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              <Wrench className="w-4 h-4" />
+              Equipment unit
+            </button>
+            <button
+              type="button"
+              onClick={() => setKind(true)}
+              className={`flex items-center gap-2 p-3 rounded-lg border text-sm font-medium transition ${
+                formData.outside_service
+                  ? 'border-blue-600 bg-blue-50 text-blue-700'
+                  : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              <Truck className="w-4 h-4" />
+              Outside service
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              Equipment Unit {formData.outside_service ? '' : '*'}
+            </label>
+            <select
+              required={!formData.outside_service}
+              value={formData.equipment_unit_id || ''}
+              onChange={(e) => setFormData({ ...formData, equipment_unit_id: e.target.value || null })}
+              className={inputClass}
+            >
+              <option value="">{formData.outside_service ? 'Not tied to a unit' : 'Select equipment'}</option>
+              {equipment.map((unit) => (
+                <option key={unit.id} value={unit.id}>
+                  {unit.equipment_model?.model_number} - S/N: {unit.serial_number}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formData.outside_service ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Vendor *</label>
+                <select
+                  required
+                  value={formData.vendor_id || ''}
+                  onChange={(e) => setFormData({ ...formData, vendor_id: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Select a vendor</option>
+                  {vendors.map((vendor) => (
+                    <option key={vendor.id} value={vendor.id}>
+                      {vendor.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Vendor Reference</label>
+                  <input
+                    type="text"
+                    value={formData.vendor_reference || ''}
+                    onChange={(e) => setFormData({ ...formData, vendor_reference: e.target.value || null })}
+                    className={inputClass}
+                    placeholder="Quote or job number"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Cost</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={formData.outside_service_cost ?? ''}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        outside_service_cost: e.target.value === '' ? null : Number(e.target.value),
+                      })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Work Type</label>
+                <select
+                  value={formData.work_type}
+                  onChange={(e) => setFormData({ ...formData, work_type: e.target.value as WorkType })}
+                  className={inputClass}
+                >
+                  <option value="repair">Repair</option>
+                  <option value="rebuild">Rebuild</option>
+                  <option value="inspection">Inspection</option>
+                  <option value="pm">Preventive Maintenance</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Estimated Hours</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  value={formData.estimated_hours ?? ''}
+                  onChange={(e) =>
+                    setFormData({ ...formData, estimated_hours: e.target.value === '' ? null : Number(e.target.value) })
+                  }
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              {formData.outside_service ? 'Service Required *' : 'Work to Perform *'}
+            </label>
+            <textarea
+              required
+              value={formData.reported_issue}
+              onChange={(e) => setFormData({ ...formData, reported_issue: e.target.value })}
+              rows={3}
+              className={`${inputClass} resize-none`}
+              placeholder={formData.outside_service ? 'e.g. Machine shaft journal to 2.1250"' : ''}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Adding...' : 'Add Child'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { CheckCircle, Circle, MinusCircle, XCircle } from 'lucide-react';
+import { APPROVER_ROLE_LABELS } from '../../lib/approvalChains';
+import type { ApprovalStepStatus, WorkOrderApprovalStep } from '../../types/database';
+
+interface ApprovalChainStepsProps {
+  steps: WorkOrderApprovalStep[];
+  compact?: boolean;
+}
+
+const STEP_ICONS: Record<ApprovalStepStatus, { icon: typeof Circle; className: string }> = {
+  pending: { icon: Circle, className: 'text-slate-400' },
+  approved: { icon: CheckCircle, className: 'text-green-600' },
+  rejected: { icon: XCircle, className: 'text-red-600' },
+  skipped: { icon: MinusCircle, className: 'text-slate-300' },
+};
+
+export default function ApprovalChainSteps({ steps, compact = false }: ApprovalChainStepsProps) {
+  if (steps.length === 0) return null;
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-1 flex-wrap">
+        {steps.map((step, idx) => {
+          const { icon: Icon, className } = STEP_ICONS[step.status];
+          return (
+            <span key={step.id} className="flex items-center gap-1 text-xs text-slate-600">
+              {idx > 0 && <span className="text-slate-300">→</span>}
+              <Icon className={`w-3.5 h-3.5 ${className}`} />
+              {APPROVER_ROLE_LABELS[step.required_role]}
+            </span>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-2">
+      {steps.map((step) => {
+        const { icon: Icon, className } = STEP_ICONS[step.status];
+        return (
+          <li key={step.id} className="flex items-start gap-3 p-3 bg-slate-50 rounded-lg border border-slate-200">
+            <Icon className={`w-5 h-5 flex-shrink-0 mt-0.5 ${className}`} />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-slate-900">
+                {step.step_order}. {APPROVER_ROLE_LABELS[step.required_role]}
+                <span className="ml-2 text-xs font-normal text-slate-500 capitalize">{step.status}</span>
+              </p>
+              {step.decided_at && (
+                <p className="text-xs text-slate-600">
+                  {step.decider?.full_name}
+                  {step.delegator && ` for ${step.delegator.full_name}`} ·{' '}
+                  {new Date(step.decided_at).toLocaleString()}
+                </p>
+              )}
+              {step.notes && <p className="text-sm text-slate-700 mt-1">{step.notes}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react';
-import { X, CheckCircle, XCircle, AlertCircle, DollarSign, Clock } from 'lucide-react';
+import { X, CheckCircle, XCircle, AlertCircle, DollarSign, Clock, Zap, Link2, Calculator } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
-import type { WorkOrderApproval, User } from '../../types/database';
+import { phaseWorkflow } from '../../lib/phaseWorkflow';
+import { useAuth } from '../../contexts/AuthContext';
+import { approvalChains, chainState, currentStep, signedEarlierStep } from '../../lib/approvalChains';
+import { CUSTOMER_DECISION_LABELS, customerApproval } from '../../lib/customerApproval';
+import type { WorkOrderApproval, WorkOrderApprovalStep } from '../../types/database';
+import ApprovalChainSteps from './ApprovalChainSteps';
+import CustomerApprovalLink from './CustomerApprovalLink';
+import QuoteFromApproval from './QuoteFromApproval';
+import GenerateQuote from './GenerateQuote';
 
 interface ApprovalReviewProps {
   approvalId: string;
@@ -10,7 +18,13 @@ interface ApprovalReviewProps {
 }
 
 export default function ApprovalReview({ approvalId, onClose, onSuccess }: ApprovalReviewProps) {
+  const { profile } = useAuth();
   const [approval, setApproval] = useState<WorkOrderApproval | null>(null);
+  const [steps, setSteps] = useState<WorkOrderApprovalStep[]>([]);
+  const [customerSignature, setCustomerSignature] = useState<{ signer_name: string; signature_data: string } | null>(null);
+  const [showCustomerLink, setShowCustomerLink] = useState(false);
+  const [showPricing, setShowPricing] = useState(false);
+  const [quoteId, setQuoteId] = useState<string | null>(null);
   const [approvalNotes, setApprovalNotes] = useState('');
   const [rejectionReason, setRejectionReason] = useState('');
   const [loading, setLoading] = useState(true);
@@ -36,6 +50,13 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
 
       if (error) throw error;
       setApproval(data);
+
+      const chain = await approvalChains.loadSteps([approvalId]);
+      setSteps(chain.get(approvalId) || []);
+
+      if (data.customer_signature_id) {
+        setCustomerSignature(await customerApproval.loadSignature(data.customer_signature_id));
+      }
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -50,32 +71,35 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
     setError('');
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
+      let status = approval.status;
 
-      const { error: approvalError } = await supabase
-        .from('work_order_approvals')
-        .update({
-          status: 'approved',
-          approved_by: user.id,
-          approved_at: new Date().toISOString(),
-          approval_notes: approvalNotes,
-        })
-        .eq('id', approvalId);
-
-      if (approvalError) throw approvalError;
-
-      const { error: woError } = await supabase
-        .from('work_orders')
-        .update({
-          current_phase: approval.next_phase,
-          status: 'in_progress',
-        })
-        .eq('id', approval.work_order_id);
-
-      if (woError) throw woError;
+      if (steps.length > 0) {
+        status = await approvalChains.decide(approvalId, true, approvalNotes);
+      } else {
+        // Requested before approval policies existed: a single manager decides
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { error: approvalError } = await supabase
+          .from('work_order_approvals')
+          .update({
+            status: 'approved',
+            approved_by: user.id,
+            approved_at: new Date().toISOString(),
+            approval_notes: approvalNotes,
+          })
+          .eq('id', approvalId);
+
+        if (approvalError) throw approvalError;
+        status = 'approved';
+      }
+
+      // Pre-approved work already moved on when it was requested
+      if (status === 'approved' && !approval.pre_approved) {
+        await phaseWorkflow.transition(approval.work_order_id, approval.next_phase, { status: 'in_progress' });
+      }
 
       onSuccess();
     } catch (err: any) {
@@ -96,22 +120,26 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
     setError('');
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
+      if (steps.length > 0) {
+        await approvalChains.decide(approvalId, false, rejectionReason);
+      } else {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
 
-      const { error: approvalError } = await supabase
-        .from('work_order_approvals')
-        .update({
-          status: 'rejected',
-          approved_by: user.id,
-          approved_at: new Date().toISOString(),
-          rejection_reason: rejectionReason,
-        })
-        .eq('id', approvalId);
+        const { error: approvalError } = await supabase
+          .from('work_order_approvals')
+          .update({
+            status: 'rejected',
+            approved_by: user.id,
+            approved_at: new Date().toISOString(),
+            rejection_reason: rejectionReason,
+          })
+          .eq('id', approvalId);
 
-      if (approvalError) throw approvalError;
+        if (approvalError) throw approvalError;
+      }
 
       onSuccess();
     } catch (err: any) {
@@ -141,6 +169,11 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
     );
   }
 
+  const waitingStep = currentStep(steps);
+  const state = chainState(approval, steps);
+  const alreadySigned = !!waitingStep && signedEarlierStep(steps, profile?.id);
+  const canDecide = steps.length > 0 ? !!waitingStep && !alreadySigned : approval.status === 'pending';
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4 overflow-y-auto">
       <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full my-8">
@@ -175,6 +208,58 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
             </div>
           </div>
 
+          {approval.pre_approved && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 flex items-start gap-3">
+              <Zap className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-orange-900">
+                Pre-approved as emergency work so the job could go ahead. The approvers below review it after the
+                fact; rejecting flags it for follow-up but does not stop the work.
+              </p>
+            </div>
+          )}
+
+          {steps.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-slate-900">Approval Chain</h3>
+                <span className="text-sm text-slate-600">{state.label}</span>
+              </div>
+              <ApprovalChainSteps steps={steps} />
+            </div>
+          )}
+
+          {approval.customer_decision && (
+            <div
+              className={`p-4 rounded-lg border ${
+                approval.customer_decision === 'approved' ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {CUSTOMER_DECISION_LABELS[approval.customer_decision]}
+                  </p>
+                  {approval.customer_decided_at && (
+                    <p className="text-xs text-slate-600">
+                      {customerSignature?.signer_name && `${customerSignature.signer_name} · `}
+                      {new Date(approval.customer_decided_at).toLocaleString()}
+                    </p>
+                  )}
+                  {approval.customer_comments && (
+                    <p className="text-sm text-slate-700 mt-2">{approval.customer_comments}</p>
+                  )}
+                </div>
+                {customerSignature && (
+                  <img
+                    src={customerSignature.signature_data}
+                    alt="Customer signature"
+                    className="h-16 bg-white border border-slate-200 rounded"
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
           <div>
             <h3 className="font-semibold text-slate-900 mb-3">Findings Summary</h3>
             <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
@@ -253,7 +338,41 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
             )}
           </div>
 
-          {approval.status === 'pending' && (
+          {approval.status === 'pending' && !approval.customer_decision && (
+            <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-lg border border-slate-200">
+              <p className="text-sm text-slate-700">Let the customer review, sign and approve the scope online.</p>
+              <button
+                type="button"
+                onClick={() => setShowCustomerLink(true)}
+                className="flex items-center gap-2 px-3 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm flex-shrink-0"
+              >
+                <Link2 className="w-4 h-4" />
+                Send to Customer
+              </button>
+            </div>
+          )}
+
+          {approval.status !== 'rejected' && (
+            <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-lg border border-slate-200">
+              <p className="text-sm text-slate-700">Price these findings with the shop's rates as a draft quote.</p>
+              <button
+                type="button"
+                onClick={() => setShowPricing(true)}
+                className="flex items-center gap-2 px-3 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm flex-shrink-0"
+              >
+                <Calculator className="w-4 h-4" />
+                Draft Quote
+              </button>
+            </div>
+          )}
+
+          {alreadySigned && (
+            <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700">
+              You signed off an earlier step of this request; the next sign-off has to come from someone else.
+            </div>
+          )}
+
+          {canDecide && (
             <>
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-2">
@@ -298,13 +417,13 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
                   className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <CheckCircle className="w-5 h-5" />
-                  {submitting ? 'Approving...' : 'Approve'}
+                  {submitting ? 'Approving...' : waitingStep && steps.length > 1 ? 'Sign Off' : 'Approve'}
                 </button>
               </div>
             </>
           )}
 
-          {approval.status !== 'pending' && (
+          {!canDecide && approval.status !== 'pending' && (
             <div
               className={`p-4 rounded-lg border ${
                 approval.status === 'approved'
@@ -317,7 +436,13 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
                   approval.status === 'approved' ? 'text-green-900' : 'text-red-900'
                 }`}
               >
-                {approval.status === 'approved' ? 'APPROVED' : 'REJECTED'}
+                {approval.status === 'approved'
+                  ? approval.pre_approved
+                    ? 'PRE-APPROVED'
+                    : 'APPROVED'
+                  : approval.status === 'cancelled'
+                  ? 'WITHDRAWN FOR CHANGES'
+                  : 'REJECTED'}
               </p>
               {approval.approved_at && (
                 <p className="text-xs text-slate-600 mt-1">
@@ -334,6 +459,27 @@ export default function ApprovalReview({ approvalId, onClose, onSuccess }: Appro
           )}
         </div>
       </div>
+
+      {showCustomerLink && (
+        <CustomerApprovalLink
+          approvalId={approval.id}
+          workOrderId={approval.work_order_id}
+          onClose={() => setShowCustomerLink(false)}
+        />
+      )}
+
+      {showPricing && (
+        <QuoteFromApproval
+          approvalId={approval.id}
+          onClose={() => setShowPricing(false)}
+          onCreated={(id) => {
+            setShowPricing(false);
+            setQuoteId(id);
+          }}
+        />
+      )}
+
+      {quoteId && <GenerateQuote quoteId={quoteId} onClose={() => setQuoteId(null)} />}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { X, AlertCircle, UserPlus } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { phaseWorkflow } from '../../lib/phaseWorkflow';
 import type { User, WorkOrderPhase } from '../../types/database';
 
 interface AssignWorkOrderProps {
@@ -65,6 +66,9 @@ export default function AssignWorkOrder({
       } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
+      // Assigning the first phase of a new work order moves it out of pending assignment
+      await phaseWorkflow.transition(workOrderId, currentPhase);
+
       const { error: assignError } = await supabase
         .from('work_order_assignments')
         .insert([
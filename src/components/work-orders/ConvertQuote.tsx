@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, ClipboardCheck, Link2, Plus } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { QUOTE_ITEM_TYPE_LABELS, QuoteConversionInput, quotes } from '../../lib/quotes';
+import type { PriorityLevel, Quote, WorkType } from '../../types/database';
+
+interface EquipmentOption {
+  id: string;
+  serial_number: string;
+  equipment_model: { model_number: string } | null;
+}
+
+interface OpenWorkOrder {
+  id: string;
+  work_order_number: string;
+  work_type: WorkType;
+  status: string;
+  reported_issue: string | null;
+}
+
+interface ConvertQuoteProps {
+  quoteId: string;
+  onClose: () => void;
+  onConverted: (workOrderId: string) => void;
+}
+
+const WORK_TYPES: WorkType[] = ['repair', 'inspection', 'rebuild', 'pm'];
+const PRIORITIES: PriorityLevel[] = ['low', 'medium', 'high', 'emergency'];
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function ConvertQuote({ quoteId, onClose, onConverted }: ConvertQuoteProps) {
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [equipment, setEquipment] = useState<EquipmentOption[]>([]);
+  const [openWorkOrders, setOpenWorkOrders] = useState<OpenWorkOrder[]>([]);
+  const [linkExisting, setLinkExisting] = useState(false);
+  const [formData, setFormData] = useState<QuoteConversionInput>({
+    work_order_id: null,
+    work_type: 'repair',
+    priority: 'medium',
+    equipment_unit_id: null,
+    customer_po: '',
+  });
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [quoteId]);
+
+  const loadData = async () => {
+    try {
+      const loaded = await quotes.load(quoteId);
+      setQuote(loaded);
+
+      if (loaded.customer_id) {
+        const [equipmentRes, workOrdersRes] = await Promise.all([
+          supabase
+            .from('equipment_units')
+            .select('id, serial_number, equipment_model:equipment_models (model_number)')
+            .eq('customer_id', loaded.customer_id)
+            .order('serial_number'),
+          supabase
+            .from('work_orders')
+            .select('id, work_order_number, work_type, status, reported_issue')
+            .eq('customer_id', loaded.customer_id)
+            .not('status', 'in', '(completed,invoiced,cancelled)')
+            .order('created_at', { ascending: false }),
+        ]);
+        if (equipmentRes.error) throw equipmentRes.error;
+        if (workOrdersRes.error) throw workOrdersRes.error;
+
+        setEquipment((equipmentRes.data || []) as unknown as EquipmentOption[]);
+        setOpenWorkOrders(workOrdersRes.data || []);
+
+        // A quote priced from a work order goes back onto that work order
+        const source = (workOrdersRes.data || []).find((workOrder) => workOrder.id === loaded.work_order_id);
+        if (source) {
+          setLinkExisting(true);
+          setFormData((current) => ({ ...current, work_order_id: source.id }));
+        }
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const workOrderId = await quotes.convert(quote.id, {
+        ...formData,
+        work_order_id: linkExisting ? formData.work_order_id : null,
+      });
+      onConverted(workOrderId);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const accepting = quote?.status === 'sent' || quote?.status === 'viewed';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-900">
+              {accepting ? 'Accept & Convert Quote' : 'Convert Quote'}
+            </h2>
+            {quote && (
+              <p className="text-sm text-slate-600">
+                {quote.quote_number} · {quote.customer?.company_name || 'No customer'} · $
+                {Number(quote.total_amount).toFixed(2)}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-slate-200 border-t-blue-600"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {accepting && (
+              <p className="text-sm text-slate-600">
+                The quote will be marked accepted by the customer before the work order is set up.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                type="button"
+                onClick={() => setLinkExisting(false)}
+                className={`flex items-center gap-2 p-3 rounded-lg border text-sm font-medium transition ${
+                  !linkExisting
+                    ? 'border-blue-600 bg-blue-50 text-blue-700'
+                    : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                <Plus className="w-4 h-4" />
+                New work order
+              </button>
+              <button
+                type="button"
+                onClick={() => setLinkExisting(true)}
+                disabled={openWorkOrders.length === 0}
+                className={`flex items-center gap-2 p-3 rounded-lg border text-sm font-medium transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                  linkExisting
+                    ? 'border-blue-600 bg-blue-50 text-blue-700'
+                    : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                <Link2 className="w-4 h-4" />
+                Existing work order
+              </button>
+            </div>
+
+            {linkExisting ? (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Work Order *</label>
+                <select
+                  required
+                  value={formData.work_order_id || ''}
+                  onChange={(e) => setFormData({ ...formData, work_order_id: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Select an open work order</option>
+                  {openWorkOrders.map((workOrder) => (
+                    <option key={workOrder.id} value={workOrder.id}>
+                      {workOrder.work_order_number} · {workOrder.work_type}
+                      {workOrder.reported_issue ? ` · ${workOrder.reported_issue.slice(0, 60)}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Equipment Unit *</label>
+                  <select
+                    required
+                    value={formData.equipment_unit_id || ''}
+                    onChange={(e) => setFormData({ ...formData, equipment_unit_id: e.target.value || null })}
+                    className={inputClass}
+                  >
+                    <option value="">Select equipment</option>
+                    {equipment.map((unit) => (
+                      <option key={unit.id} value={unit.id}>
+                        {unit.equipment_model?.model_number} - S/N: {unit.serial_number}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Work Type</label>
+                    <select
+                      value={formData.work_type}
+                      onChange={(e) => setFormData({ ...formData, work_type: e.target.value as WorkType })}
+                      className={`${inputClass} capitalize`}
+                    >
+                      {WORK_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Priority</label>
+                    <select
+                      value={formData.priority}
+                      onChange={(e) => setFormData({ ...formData, priority: e.target.value as PriorityLevel })}
+                      className={`${inputClass} capitalize`}
+                    >
+                      {PRIORITIES.map((priority) => (
+                        <option key={priority} value={priority}>
+                          {priority}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Customer PO</label>
+              <input
+                type="text"
+                value={formData.customer_po}
+                onChange={(e) => setFormData({ ...formData, customer_po: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            {quote?.line_items && quote.line_items.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 mb-2">Approved Scope</h3>
+                <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+                  {quote.line_items.map((line) => (
+                    <div key={line.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                      <span className="text-slate-900">
+                        <span className="text-xs text-slate-500 mr-2">{QUOTE_ITEM_TYPE_LABELS[line.item_type]}</span>
+                        {line.description}
+                      </span>
+                      <span className="text-slate-600 flex-shrink-0">
+                        {Number(line.quantity)} × ${Number(line.unit_price).toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting || !quote}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ClipboardCheck className="w-4 h-4" />
+                {submitting ? 'Converting...' : accepting ? 'Accept & Convert' : 'Convert'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -121,26 +121,14 @@ export default function CreateWorkOrder({ onClose, onSuccess }: CreateWorkOrderP
     }
   };
 
-  const generateWorkOrderNumber = () => {
-    const date = new Date();
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const random = Math.floor(Math.random() * 10000)
-      .toString()
-      .padStart(4, '0');
-    return `WO-${year}${month}-${random}`;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
 
     try {
-      const workOrderNumber = generateWorkOrderNumber();
-
+      // work_order_number is assigned by the database from the numbering sequence
       const { error: insertError } = await supabase.from('work_orders').insert({
-        work_order_number: workOrderNumber,
         customer_id: formData.customer_id,
         equipment_unit_id: formData.equipment_unit_id,
         work_type: formData.work_type,
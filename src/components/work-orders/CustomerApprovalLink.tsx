@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Copy, Link2, Mail, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { ApprovalLinkState, customerApproval, linkState } from '../../lib/customerApproval';
+import type { ApprovalLink } from '../../types/database';
+
+interface CustomerApprovalLinkProps {
+  approvalId: string;
+  workOrderId: string;
+  onClose: () => void;
+}
+
+const LINK_STATE_BADGES: Record<ApprovalLinkState, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  viewed: 'bg-yellow-100 text-yellow-800',
+  answered: 'bg-green-100 text-green-800',
+  expired: 'bg-slate-100 text-slate-600',
+  revoked: 'bg-slate-100 text-slate-600',
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export default function CustomerApprovalLink({ approvalId, workOrderId, onClose }: CustomerApprovalLinkProps) {
+  const [email, setEmail] = useState('');
+  const [validDays, setValidDays] = useState(7);
+  const [workOrderNumber, setWorkOrderNumber] = useState('');
+  const [links, setLinks] = useState<ApprovalLink[]>([]);
+  const [newLink, setNewLink] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [approvalId]);
+
+  const loadData = async () => {
+    try {
+      const [loadedLinks, workOrderRes] = await Promise.all([
+        customerApproval.listLinks(approvalId),
+        supabase
+          .from('work_orders')
+          .select('work_order_number, customer:customers (contact_email)')
+          .eq('id', workOrderId)
+          .maybeSingle(),
+      ]);
+      if (workOrderRes.error) throw workOrderRes.error;
+
+      const workOrder = workOrderRes.data as unknown as {
+        work_order_number: string;
+        customer: { contact_email: string | null } | null;
+      } | null;
+      setLinks(loadedLinks);
+      setWorkOrderNumber(workOrder?.work_order_number || '');
+      setEmail(loadedLinks[0]?.customer_email || workOrder?.customer?.contact_email || '');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setCopied(false);
+
+    try {
+      setNewLink(await customerApproval.createLink(approvalId, email, validDays));
+      setLinks(await customerApproval.listLinks(approvalId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(newLink);
+      setCopied(true);
+    } catch {
+      setError('Copy the link by hand: the browser blocked clipboard access');
+    }
+  };
+
+  const handleRevoke = async (link: ApprovalLink) => {
+    if (!confirm('Revoke this link? The customer will no longer be able to use it.')) return;
+
+    try {
+      await customerApproval.revokeLink(link.id);
+      setLinks(await customerApproval.listLinks(approvalId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const mailto = `mailto:${encodeURIComponent(email)}?subject=${encodeURIComponent(
+    `Repair approval for work order ${workOrderNumber}`
+  )}&body=${encodeURIComponent(`Please review and approve the repair scope here:\n\n${newLink}`)}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Link2 className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Customer Approval Link</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            <p className="text-sm text-slate-600">
+              The customer can review the findings, photos, parts and cost, then approve, decline or ask for changes and
+              sign. Creating a new link revokes any earlier one.
+            </p>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-2">Customer Email</label>
+                <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Valid (days)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={validDays}
+                  onChange={(e) => setValidDays(Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Creating...' : 'Create Link'}
+            </button>
+          </form>
+
+          {newLink && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg space-y-3">
+              <p className="text-sm font-medium text-green-900">Link ready. It is only shown once.</p>
+              <input type="text" readOnly value={newLink} className={`${inputClass} text-xs font-mono bg-white`} />
+              <div className="flex gap-3">
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm"
+                >
+                  <Copy className="w-4 h-4" />
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+                {email && (
+                  <a
+                    href={mailto}
+                    className="flex items-center gap-2 px-3 py-1.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm"
+                  >
+                    <Mail className="w-4 h-4" />
+                    Email
+                  </a>
+                )}
+              </div>
+            </div>
+          )}
+
+          {links.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-700 mb-2">Links Sent</h3>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+                {links.map((link) => {
+                  const state = linkState(link);
+                  return (
+                    <div key={link.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                      <div className="min-w-0">
+                        <p className="text-sm text-slate-900 truncate">{link.customer_email || 'No email recorded'}</p>
+                        <p className="text-xs text-slate-500">
+                          Created {new Date(link.created_at).toLocaleDateString()} · expires{' '}
+                          {new Date(link.expires_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded capitalize ${LINK_STATE_BADGES[state]}`}>
+                          {state}
+                        </span>
+                        {(state === 'open' || state === 'viewed') && (
+                          <button onClick={() => handleRevoke(link)} className="text-xs text-red-600 hover:text-red-700">
+                            Revoke
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,84 +1,212 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { X, DollarSign, Plus, Trash2, Save } from 'lucide-react';
+import { AlertCircle, ClipboardCheck, DollarSign, History, Plus, Printer, RotateCcw, Save, Send, Trash2, X } from 'lucide-react';
+import {
+  QUOTE_ITEM_TYPE_LABELS,
+  QUOTE_STATUS_LABELS,
+  QuoteHeaderInput,
+  QuoteLineInput,
+  canConvert,
+  canRevise,
+  canTransition,
+  defaultValidUntil,
+  lineTotal,
+  quoteTotals,
+  quotes,
+} from '../../lib/quotes';
+import type { Quote, QuoteItemType, QuoteRevision, QuoteStatus } from '../../types/database';
+import ConvertQuote from './ConvertQuote';
 
 interface GenerateQuoteProps {
-  workOrder: any;
+  workOrder?: any;
+  quoteId?: string;
   onClose: () => void;
+  onSaved?: () => void;
 }
 
-interface QuoteItem {
-  description: string;
-  quantity: number;
-  unitPrice: number;
-  total: number;
+const STATUS_BADGES: Record<QuoteStatus, string> = {
+  draft: 'bg-slate-100 text-slate-800',
+  sent: 'bg-blue-100 text-blue-800',
+  viewed: 'bg-indigo-100 text-indigo-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  expired: 'bg-amber-100 text-amber-800',
+  converted: 'bg-emerald-100 text-emerald-800',
+};
+
+const OUTCOME_BUTTONS: Array<{ status: QuoteStatus; label: string; className: string }> = [
+  { status: 'viewed', label: 'Mark Viewed', className: 'bg-indigo-600 hover:bg-indigo-700' },
+  { status: 'accepted', label: 'Mark Accepted', className: 'bg-green-600 hover:bg-green-700' },
+  { status: 'rejected', label: 'Mark Rejected', className: 'bg-red-600 hover:bg-red-700' },
+  { status: 'expired', label: 'Mark Expired', className: 'bg-amber-600 hover:bg-amber-700' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:bg-slate-50 disabled:text-slate-500';
+
+const emptyLine = (): QuoteLineInput => ({
+  item_type: 'labor',
+  inventory_item_id: null,
+  description: '',
+  quantity: 1,
+  unit_price: 0,
+  discount_percent: 0,
+  notes: null,
+});
+
+function equipmentLabel(workOrder: any): string | null {
+  const model = workOrder?.equipment_unit?.equipment_model;
+  const label = [model?.manufacturer?.name, model?.model_number].filter(Boolean).join(' ');
+  return label || null;
 }
 
-export default function GenerateQuote({ workOrder, onClose }: GenerateQuoteProps) {
+export default function GenerateQuote({ workOrder, quoteId, onClose, onSaved }: GenerateQuoteProps) {
   const [companySettings, setCompanySettings] = useState<any>(null);
-  const [items, setItems] = useState<QuoteItem[]>([
-    { description: '', quantity: 1, unitPrice: 0, total: 0 }
-  ]);
-  const [notes, setNotes] = useState('');
-  const [validUntil, setValidUntil] = useState('');
+  const [customers, setCustomers] = useState<Array<{ id: string; company_name: string }>>([]);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [header, setHeader] = useState<QuoteHeaderInput>({
+    customer_id: workOrder?.customer_id || null,
+    work_order_id: workOrder?.id || null,
+    approval_id: null,
+    equipment_type: equipmentLabel(workOrder),
+    description: workOrder?.reported_issue || '',
+    valid_until: defaultValidUntil(),
+    tax_rate: 0,
+    discount_amount: 0,
+    terms: '',
+    notes: '',
+  });
+  const [items, setItems] = useState<QuoteLineInput[]>([emptyLine()]);
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [openRevision, setOpenRevision] = useState<string | null>(null);
+  const [showRevise, setShowRevise] = useState(false);
+  const [reviseReason, setReviseReason] = useState('');
+  const [showConvert, setShowConvert] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
 
   useEffect(() => {
-    loadCompanySettings();
-    const defaultDate = new Date();
-    defaultDate.setDate(defaultDate.getDate() + 30);
-    setValidUntil(defaultDate.toISOString().split('T')[0]);
-  }, []);
+    loadData();
+  }, [quoteId, workOrder?.id]);
 
-  const loadCompanySettings = async () => {
+  const loadData = async () => {
     try {
-      const { data, error } = await supabase
-        .from('company_settings')
-        .select('*')
-        .limit(1)
-        .maybeSingle();
-
-      if (error) throw error;
-      setCompanySettings(data);
-    } catch (error) {
-      console.error('Error loading company settings:', error);
+      const [settingsRes, customersRes] = await Promise.all([
+        supabase.from('company_settings').select('*').limit(1).maybeSingle(),
+        supabase.from('customers').select('id, company_name').order('company_name'),
+      ]);
+      if (settingsRes.error) throw settingsRes.error;
+      if (customersRes.error) throw customersRes.error;
+      setCompanySettings(settingsRes.data);
+      setCustomers(customersRes.data || []);
+
+      // From a work order, pick up its latest quote rather than starting over
+      const existingId = quoteId || (workOrder ? (await quotes.listForWorkOrder(workOrder.id))[0]?.id : undefined);
+      if (existingId) {
+        await loadQuote(existingId);
+      } else {
+        setHeader((current) => ({ ...current, tax_rate: Number(settingsRes.data?.default_tax_rate || 0) }));
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
     } finally {
       setLoading(false);
     }
   };
 
+  const loadQuote = async (id: string) => {
+    const [loaded, loadedRevisions] = await Promise.all([quotes.load(id), quotes.listRevisions(id)]);
+    setQuote(loaded);
+    setRevisions(loadedRevisions);
+    setHeader({
+      customer_id: loaded.customer_id,
+      work_order_id: loaded.work_order_id,
+      approval_id: loaded.approval_id,
+      equipment_type: loaded.equipment_type,
+      description: loaded.description || '',
+      valid_until: loaded.valid_until,
+      tax_rate: Number(loaded.tax_rate),
+      discount_amount: Number(loaded.discount_amount),
+      terms: loaded.terms || '',
+      notes: loaded.notes || '',
+    });
+    const lines = (loaded.line_items || []).map((line) => ({
+      item_type: line.item_type,
+      inventory_item_id: line.inventory_item_id,
+      description: line.description,
+      quantity: Number(line.quantity),
+      unit_price: Number(line.unit_price),
+      discount_percent: Number(line.discount_percent),
+      notes: line.notes,
+    }));
+    setItems(lines.length > 0 ? lines : [emptyLine()]);
+  };
+
+  const editable = !quote || quote.status === 'draft';
+  const totals = quoteTotals(items, header.tax_rate, header.discount_amount);
+  const customer = quote?.customer || workOrder?.customer || null;
+
   const addItem = () => {
-    setItems([...items, { description: '', quantity: 1, unitPrice: 0, total: 0 }]);
+    setItems([...items, emptyLine()]);
   };
 
   const removeItem = (index: number) => {
     setItems(items.filter((_, i) => i !== index));
   };
 
-  const updateItem = (index: number, field: keyof QuoteItem, value: any) => {
-    const newItems = [...items];
-    newItems[index][field] = value;
+  const updateItem = <K extends keyof QuoteLineInput>(index: number, field: K, value: QuoteLineInput[K]) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
 
-    if (field === 'quantity' || field === 'unitPrice') {
-      newItems[index].total = newItems[index].quantity * newItems[index].unitPrice;
-    }
+  const run = async (action: () => Promise<string | void>) => {
+    setSaving(true);
+    setError('');
 
-    setItems(newItems);
+    try {
+      const id = await action();
+      await loadQuote(id || quote!.id);
+      onSaved?.();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const calculateSubtotal = () => {
-    return items.reduce((sum, item) => sum + item.total, 0);
+  const save = async (): Promise<string> => {
+    const cleaned = { ...header, terms: header.terms || null, notes: header.notes || null };
+    if (quote) {
+      await quotes.saveDraft(quote.id, cleaned, items);
+      return quote.id;
+    }
+    return quotes.create(cleaned, items);
   };
 
-  const calculateTax = () => {
-    return calculateSubtotal() * 0.08; // 8% tax
-  };
+  const handleSaveDraft = () => run(save);
+
+  const handleSend = () =>
+    run(async () => {
+      const id = await save();
+      await quotes.transition(id, 'sent');
+      return id;
+    });
 
-  const calculateTotal = () => {
-    return calculateSubtotal() + calculateTax();
+  const handleOutcome = (status: QuoteStatus) => {
+    if (!confirm(`Mark quote ${quote!.quote_number} as ${QUOTE_STATUS_LABELS[status].toLowerCase()}?`)) return;
+    run(() => quotes.transition(quote!.id, status));
   };
 
-  const handleGenerateQuote = () => {
+  const handleRevise = () =>
+    run(async () => {
+      await quotes.revise(quote!.id, reviseReason);
+      setShowRevise(false);
+      setReviseReason('');
+    });
+
+  const handlePrint = () => {
+    const quoteLabel = quote ? `${quote.quote_number}${quote.version > 1 ? ` rev ${quote.version}` : ''}` : 'DRAFT';
     const quoteHTML = `
 <!DOCTYPE html>
 <html>
@@ -242,32 +370,32 @@ export default function GenerateQuote({ workOrder, onClose }: GenerateQuoteProps
     </div>
     <div>
       <div class="quote-title">QUOTE</div>
-      <div class="quote-number">Quote Date: ${new Date().toLocaleDateString()}</div>
-      <div class="quote-number">Valid Until: ${new Date(validUntil).toLocaleDateString()}</div>
-      <div class="quote-number">Work Order: ${workOrder.work_order_number}</div>
+      <div class="quote-number">Quote: ${quoteLabel}</div>
+      <div class="quote-number">Quote Date: ${new Date(quote?.updated_at || Date.now()).toLocaleDateString()}</div>
+      ${header.valid_until ? `<div class="quote-number">Valid Until: ${new Date(header.valid_until).toLocaleDateString()}</div>` : ''}
+      ${workOrder ? `<div class="quote-number">Work Order: ${workOrder.work_order_number}</div>` : ''}
     </div>
   </div>
 
   <div class="info-section">
     <div class="info-box">
       <h3>Customer Information</h3>
-      <p><strong>${workOrder.customer?.company_name || 'N/A'}</strong></p>
-      ${workOrder.customer?.contact_person ? `<p>${workOrder.customer.contact_person}</p>` : ''}
-      ${workOrder.customer?.phone ? `<p>Phone: ${workOrder.customer.phone}</p>` : ''}
-      ${workOrder.customer?.email ? `<p>Email: ${workOrder.customer.email}</p>` : ''}
+      <p><strong>${customer?.company_name || 'N/A'}</strong></p>
+      ${customer?.contact_person ? `<p>${customer.contact_person}</p>` : ''}
+      ${customer?.phone ? `<p>Phone: ${customer.phone}</p>` : ''}
+      ${customer?.email ? `<p>Email: ${customer.email}</p>` : ''}
     </div>
     <div class="info-box">
       <h3>Equipment Information</h3>
-      <p><strong>Manufacturer:</strong> ${workOrder.equipment_unit?.equipment_model?.manufacturer?.name || 'N/A'}</p>
-      <p><strong>Model:</strong> ${workOrder.equipment_unit?.equipment_model?.model_number || 'N/A'}</p>
-      <p><strong>Serial Number:</strong> ${workOrder.equipment_unit?.serial_number || 'N/A'}</p>
+      <p><strong>Equipment:</strong> ${header.equipment_type || 'N/A'}</p>
+      ${workOrder?.equipment_unit?.serial_number ? `<p><strong>Serial Number:</strong> ${workOrder.equipment_unit.serial_number}</p>` : ''}
     </div>
   </div>
 
-  ${workOrder.reported_issue ? `
+  ${header.description ? `
   <div class="info-box" style="margin-bottom: 20px;">
-    <h3>Reported Issue</h3>
-    <p>${workOrder.reported_issue}</p>
+    <h3>Scope</h3>
+    <p>${header.description}</p>
   </div>
   ` : ''}
 
@@ -283,10 +411,10 @@ export default function GenerateQuote({ workOrder, onClose }: GenerateQuoteProps
     <tbody>
       ${items.map(item => `
         <tr>
-          <td>${item.description}</td>
+          <td>${item.description}${item.discount_percent ? ` (${item.discount_percent}% off)` : ''}</td>
           <td class="text-right">${item.quantity}</td>
-          <td class="text-right">$${item.unitPrice.toFixed(2)}</td>
-          <td class="text-right">$${item.total.toFixed(2)}</td>
+          <td class="text-right">$${item.unit_price.toFixed(2)}</td>
+          <td class="text-right">$${lineTotal(item).toFixed(2)}</td>
         </tr>
       `).join('')}
     </tbody>
@@ -295,22 +423,35 @@ export default function GenerateQuote({ workOrder, onClose }: GenerateQuoteProps
   <div class="totals">
     <div class="totals-row subtotal">
       <span>Subtotal:</span>
-      <span>$${calculateSubtotal().toFixed(2)}</span>
+      <span>$${totals.subtotal.toFixed(2)}</span>
+    </div>
+    <div class="totals-row">
+      <span>Tax (${header.tax_rate}%):</span>
+      <span>$${totals.tax.toFixed(2)}</span>
     </div>
+    ${totals.discount ? `
     <div class="totals-row">
-      <span>Tax (8%):</span>
-      <span>$${calculateTax().toFixed(2)}</span>
+      <span>Discount:</span>
+      <span>-$${totals.discount.toFixed(2)}</span>
     </div>
+    ` : ''}
     <div class="totals-row total">
       <span>Total:</span>
-      <span>$${calculateTotal().toFixed(2)}</span>
+      <span>$${totals.total.toFixed(2)}</span>
     </div>
   </div>
 
-  ${notes ? `
+  ${header.terms ? `
+  <div class="notes">
+    <h3>Terms</h3>
+    <p>${header.terms}</p>
+  </div>
+  ` : ''}
+
+  ${header.notes ? `
   <div class="notes">
-    <h3>Notes & Terms</h3>
-    <p>${notes}</p>
+    <h3>Notes</h3>
+    <p>${header.notes}</p>
   </div>
   ` : ''}
 
@@ -326,13 +467,11 @@ export default function GenerateQuote({ workOrder, onClose }: GenerateQuoteProps
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `Quote-${workOrder.work_order_number}-${new Date().toISOString().split('T')[0]}.html`;
+    a.download = `Quote-${quote?.quote_number || workOrder?.work_order_number || 'draft'}-${new Date().toISOString().split('T')[0]}.html`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-
-    alert('Quote generated successfully!');
   };
 
   if (loading) {
@@ -352,91 +491,278 @@ export default function GenerateQuote({ workOrder, onClose }: GenerateQuoteProps
           <div className="flex items-center gap-3">
             <DollarSign className="w-6 h-6 text-blue-600" />
             <div>
-              <h2 className="text-xl font-semibold text-slate-900">Generate Quote</h2>
-              <p className="text-sm text-slate-600">{workOrder.work_order_number}</p>
+              <h2 className="text-xl font-semibold text-slate-900">
+                {quote ? `Quote ${quote.quote_number}` : 'New Quote'}
+              </h2>
+              <p className="text-sm text-slate-600">
+                {quote && `Version ${quote.version}`}
+                {quote && workOrder && ' · '}
+                {workOrder?.work_order_number}
+              </p>
             </div>
+            {quote && (
+              <span className={`px-2 py-1 text-xs font-medium rounded ${STATUS_BADGES[quote.status]}`}>
+                {QUOTE_STATUS_LABELS[quote.status]}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {revisions.length > 0 && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-100 rounded-lg transition"
+              >
+                <History className="w-4 h-4" />
+                History ({revisions.length})
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+              <X className="w-5 h-5" />
+            </button>
           </div>
-          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
-            <X className="w-5 h-5" />
-          </button>
         </div>
 
         <div className="p-6 space-y-6 max-h-[calc(100vh-200px)] overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {showHistory && (
+            <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+              {revisions.map((revision) => (
+                <div key={revision.id} className="px-4 py-3">
+                  <button
+                    onClick={() => setOpenRevision(openRevision === revision.id ? null : revision.id)}
+                    className="w-full flex items-center justify-between text-left"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-slate-900">
+                        Version {revision.version} · {QUOTE_STATUS_LABELS[revision.snapshot.status]} · $
+                        {Number(revision.snapshot.total_amount).toFixed(2)}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        Revised {new Date(revision.created_at).toLocaleString()}
+                        {revision.creator && ` by ${revision.creator.full_name}`}
+                        {revision.reason && ` · ${revision.reason}`}
+                      </p>
+                    </div>
+                    <span className="text-xs text-blue-600">{openRevision === revision.id ? 'Hide' : 'Show'}</span>
+                  </button>
+                  {openRevision === revision.id && (
+                    <table className="w-full mt-3 text-sm">
+                      <tbody className="divide-y divide-slate-100">
+                        {revision.snapshot.line_items.map((line) => (
+                          <tr key={line.id}>
+                            <td className="py-1.5 text-slate-700">{line.description}</td>
+                            <td className="py-1.5 text-right text-slate-600">
+                              {Number(line.quantity)} × ${Number(line.unit_price).toFixed(2)}
+                            </td>
+                            <td className="py-1.5 text-right font-medium text-slate-900">
+                              ${Number(line.line_total).toFixed(2)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!editable && (
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700">
+              {quote!.converted_work_order
+                ? `Converted into work order ${quote!.converted_work_order.work_order_number}; its lines are that work order's approved scope.`
+                : canRevise(quote!.status)
+                ? 'This quote has gone to the customer. Revise it to make changes; the current version is kept in the history.'
+                : 'This quote is locked.'}
+              {quote!.sent_at && (
+                <p className="mt-1 text-xs text-slate-500">
+                  {[
+                    ['Sent', quote!.sent_at],
+                    ['Viewed', quote!.viewed_at],
+                    ['Accepted', quote!.accepted_at],
+                    ['Rejected', quote!.rejected_at],
+                    ['Converted', quote!.converted_at],
+                  ]
+                    .filter(([, at]) => at)
+                    .map(([label, at]) => `${label} ${new Date(at!).toLocaleString()}`)
+                    .join(' · ')}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
               <h3 className="text-sm font-medium text-slate-700 mb-2">Customer</h3>
-              <p className="text-sm font-medium text-slate-900">{workOrder.customer?.company_name}</p>
-              {workOrder.customer?.contact_person && (
-                <p className="text-sm text-slate-600">{workOrder.customer.contact_person}</p>
+              {workOrder ? (
+                <>
+                  <p className="text-sm font-medium text-slate-900">{customer?.company_name}</p>
+                  {customer?.contact_person && <p className="text-sm text-slate-600">{customer.contact_person}</p>}
+                </>
+              ) : (
+                <select
+                  value={header.customer_id || ''}
+                  onChange={(e) => setHeader({ ...header, customer_id: e.target.value || null })}
+                  disabled={!editable}
+                  className={inputClass}
+                >
+                  <option value="">Select a customer</option>
+                  {customers.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.company_name}
+                    </option>
+                  ))}
+                </select>
               )}
             </div>
             <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
               <h3 className="text-sm font-medium text-slate-700 mb-2">Equipment</h3>
-              <p className="text-sm font-medium text-slate-900">
-                {workOrder.equipment_unit?.equipment_model?.manufacturer?.name}{' '}
-                {workOrder.equipment_unit?.equipment_model?.model_number}
-              </p>
-              <p className="text-sm text-slate-600">SN: {workOrder.equipment_unit?.serial_number}</p>
+              <input
+                type="text"
+                value={header.equipment_type || ''}
+                onChange={(e) => setHeader({ ...header, equipment_type: e.target.value || null })}
+                disabled={!editable}
+                placeholder="e.g. 50 HP TEFC motor"
+                className={inputClass}
+              />
+              {workOrder?.equipment_unit?.serial_number && (
+                <p className="text-sm text-slate-600 mt-1">SN: {workOrder.equipment_unit.serial_number}</p>
+              )}
             </div>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-slate-700 mb-2">
-              Valid Until
-            </label>
-            <input
-              type="date"
-              value={validUntil}
-              onChange={(e) => setValidUntil(e.target.value)}
-              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            <label className="block text-sm font-medium text-slate-700 mb-2">Scope</label>
+            <textarea
+              value={header.description || ''}
+              onChange={(e) => setHeader({ ...header, description: e.target.value })}
+              disabled={!editable}
+              rows={2}
+              className={inputClass}
             />
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Valid Until</label>
+              <input
+                type="date"
+                value={header.valid_until || ''}
+                onChange={(e) => setHeader({ ...header, valid_until: e.target.value || null })}
+                disabled={!editable}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Tax Rate (%)</label>
+              <input
+                type="number"
+                value={header.tax_rate}
+                onChange={(e) => setHeader({ ...header, tax_rate: parseFloat(e.target.value) || 0 })}
+                disabled={!editable}
+                min="0"
+                max="100"
+                step="0.01"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Discount ($)</label>
+              <input
+                type="number"
+                value={header.discount_amount}
+                onChange={(e) => setHeader({ ...header, discount_amount: parseFloat(e.target.value) || 0 })}
+                disabled={!editable}
+                min="0"
+                step="0.01"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
           <div>
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-sm font-medium text-slate-700">Line Items</h3>
-              <button
-                onClick={addItem}
-                className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition"
-              >
-                <Plus className="w-4 h-4" />
-                Add Item
-              </button>
+              {editable && (
+                <button
+                  onClick={addItem}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Item
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-12 gap-3 mb-1 text-xs font-medium text-slate-500">
+              <span className="col-span-2">Type</span>
+              <span className="col-span-4">Description</span>
+              <span className="col-span-1">Qty</span>
+              <span className="col-span-2">Unit Price</span>
+              <span className="col-span-1">Disc %</span>
+              <span className="col-span-1">Total</span>
             </div>
             <div className="space-y-3">
               {items.map((item, index) => (
                 <div key={index} className="grid grid-cols-12 gap-3 items-start">
+                  <select
+                    value={item.item_type}
+                    onChange={(e) => updateItem(index, 'item_type', e.target.value as QuoteItemType)}
+                    disabled={!editable}
+                    className={`col-span-2 ${inputClass}`}
+                  >
+                    {(Object.keys(QUOTE_ITEM_TYPE_LABELS) as QuoteItemType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {QUOTE_ITEM_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
                   <input
                     type="text"
                     placeholder="Description"
                     value={item.description}
                     onChange={(e) => updateItem(index, 'description', e.target.value)}
-                    className="col-span-5 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    disabled={!editable}
+                    className={`col-span-4 ${inputClass}`}
                   />
                   <input
                     type="number"
-                    placeholder="Qty"
                     value={item.quantity}
                     onChange={(e) => updateItem(index, 'quantity', parseFloat(e.target.value) || 0)}
-                    className="col-span-2 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    disabled={!editable}
+                    className={`col-span-1 ${inputClass}`}
                     min="0"
                     step="0.01"
                   />
                   <input
                     type="number"
-                    placeholder="Price"
-                    value={item.unitPrice}
-                    onChange={(e) => updateItem(index, 'unitPrice', parseFloat(e.target.value) || 0)}
-                    className="col-span-2 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    value={item.unit_price}
+                    onChange={(e) => updateItem(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                    disabled={!editable}
+                    className={`col-span-2 ${inputClass}`}
                     min="0"
                     step="0.01"
                   />
-                  <div className="col-span-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-900">
-                    ${item.total.toFixed(2)}
+                  <input
+                    type="number"
+                    value={item.discount_percent}
+                    onChange={(e) => updateItem(index, 'discount_percent', parseFloat(e.target.value) || 0)}
+                    disabled={!editable}
+                    className={`col-span-1 ${inputClass}`}
+                    min="0"
+                    max="100"
+                  />
+                  <div className="col-span-1 px-2 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-900">
+                    ${lineTotal(item).toFixed(2)}
                   </div>
                   <button
                     onClick={() => removeItem(index)}
-                    disabled={items.length === 1}
+                    disabled={!editable || items.length === 1}
                     className="col-span-1 p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Trash2 className="w-4 h-4" />
@@ -451,50 +777,159 @@ export default function GenerateQuote({ workOrder, onClose }: GenerateQuoteProps
               <div className="w-64 space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-slate-600">Subtotal:</span>
-                  <span className="font-medium text-slate-900">${calculateSubtotal().toFixed(2)}</span>
+                  <span className="font-medium text-slate-900">${totals.subtotal.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-slate-600">Tax (8%):</span>
-                  <span className="font-medium text-slate-900">${calculateTax().toFixed(2)}</span>
+                  <span className="text-slate-600">Tax ({header.tax_rate}%):</span>
+                  <span className="font-medium text-slate-900">${totals.tax.toFixed(2)}</span>
                 </div>
+                {totals.discount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Discount:</span>
+                    <span className="font-medium text-slate-900">-${totals.discount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between pt-2 border-t border-slate-200">
                   <span className="font-semibold text-slate-900">Total:</span>
-                  <span className="font-bold text-blue-600 text-lg">${calculateTotal().toFixed(2)}</span>
+                  <span className="font-bold text-blue-600 text-lg">${totals.total.toFixed(2)}</span>
                 </div>
               </div>
             </div>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-2">
-              Notes & Terms
-            </label>
-            <textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Enter any additional notes, terms, or conditions..."
-              rows={4}
-              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Terms</label>
+              <textarea
+                value={header.terms || ''}
+                onChange={(e) => setHeader({ ...header, terms: e.target.value })}
+                disabled={!editable}
+                placeholder="Payment terms, warranty, lead time..."
+                rows={4}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Notes</label>
+              <textarea
+                value={header.notes || ''}
+                onChange={(e) => setHeader({ ...header, notes: e.target.value })}
+                disabled={!editable}
+                placeholder="Anything else the customer should know..."
+                rows={4}
+                className={inputClass}
+              />
+            </div>
           </div>
+
+          {showRevise && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+              <label className="block text-sm font-medium text-amber-900">Why is this quote being revised?</label>
+              <input
+                type="text"
+                value={reviseReason}
+                onChange={(e) => setReviseReason(e.target.value)}
+                placeholder="e.g. Customer asked to drop the rewind"
+                className={inputClass}
+              />
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setShowRevise(false)}
+                  className="px-3 py-1.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-white transition text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRevise}
+                  disabled={saving}
+                  className="px-3 py-1.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition text-sm disabled:opacity-50"
+                >
+                  Start Version {quote!.version + 1}
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
-        <div className="flex gap-3 px-6 py-4 bg-slate-50 border-t border-slate-200 rounded-b-lg">
+        <div className="flex flex-wrap gap-3 px-6 py-4 bg-slate-50 border-t border-slate-200 rounded-b-lg">
           <button
             onClick={onClose}
-            className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition"
+            className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition"
           >
-            Cancel
+            Close
           </button>
           <button
-            onClick={handleGenerateQuote}
-            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+            onClick={handlePrint}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition"
           >
-            <Save className="w-4 h-4 inline mr-2" />
-            Generate Quote
+            <Printer className="w-4 h-4" />
+            Download
           </button>
+          <div className="flex flex-wrap gap-3 ml-auto">
+            {editable && (
+              <>
+                <button
+                  onClick={handleSaveDraft}
+                  disabled={saving}
+                  className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50 transition disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  Save Draft
+                </button>
+                <button
+                  onClick={handleSend}
+                  disabled={saving}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4" />
+                  Mark Sent
+                </button>
+              </>
+            )}
+            {quote &&
+              OUTCOME_BUTTONS.filter((button) => canTransition(quote.status, button.status)).map((button) => (
+                <button
+                  key={button.status}
+                  onClick={() => handleOutcome(button.status)}
+                  disabled={saving}
+                  className={`px-4 py-2 text-white rounded-lg transition disabled:opacity-50 ${button.className}`}
+                >
+                  {button.label}
+                </button>
+              ))}
+            {quote && canConvert(quote.status) && (
+              <button
+                onClick={() => setShowConvert(true)}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition disabled:opacity-50"
+              >
+                <ClipboardCheck className="w-4 h-4" />
+                {quote.status === 'accepted' ? 'Convert to Work Order' : 'Accept & Convert'}
+              </button>
+            )}
+            {quote && canRevise(quote.status) && !showRevise && (
+              <button
+                onClick={() => setShowRevise(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-amber-600 text-amber-700 rounded-lg hover:bg-amber-50 transition"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Revise
+              </button>
+            )}
+          </div>
         </div>
       </div>
+
+      {showConvert && quote && (
+        <ConvertQuote
+          quoteId={quote.id}
+          onClose={() => setShowConvert(false)}
+          onConverted={() => {
+            setShowConvert(false);
+            run(async () => undefined);
+          }}
+        />
+      )}
     </div>
   );
 }
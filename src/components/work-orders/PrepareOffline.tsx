@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { X, DownloadCloud, AlertCircle, CheckCircle, Trash2 } from 'lucide-react';
+import { offlineStorage, WorkOrderPacket } from '../../lib/offlineStorage';
+import {
+  syncManager,
+  OfflineDownloadEstimate,
+  OfflineDownloadProgress,
+} from '../../lib/syncManager';
+
+interface PrepareOfflineProps {
+  workOrderId: string;
+  workOrderNumber: string;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+
+export default function PrepareOffline({ workOrderId, workOrderNumber, onClose }: PrepareOfflineProps) {
+  const [estimate, setEstimate] = useState<OfflineDownloadEstimate | null>(null);
+  const [packet, setPacket] = useState<WorkOrderPacket | null>(null);
+  const [progress, setProgress] = useState<OfflineDownloadProgress | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadStatus();
+  }, [workOrderId]);
+
+  const loadStatus = async () => {
+    try {
+      setPacket((await offlineStorage.getWorkOrderPacket(workOrderId)) || null);
+      if (navigator.onLine) {
+        setEstimate(await syncManager.estimateWorkOrderDownload(workOrderId));
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    setError('');
+    setProgress(null);
+
+    try {
+      const result = await syncManager.downloadWorkOrderData(workOrderId, setProgress);
+      setPacket(result);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the offline copy of this work order from this device?')) return;
+    await offlineStorage.removeWorkOrderPacket(workOrderId);
+    setPacket(null);
+    setProgress(null);
+  };
+
+  const percent = progress ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <DownloadCloud className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Prepare for Offline</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <p className="text-sm text-slate-600">
+            Download everything needed to work on {workOrderNumber} without a connection: procedures,
+            assignments, approvals, custom forms, prior phase reports, equipment history, documents and
+            photos.
+          </p>
+
+          {estimate && (
+            <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-slate-600">Documents:</span>
+                <span className="text-slate-900">
+                  {estimate.documentCount} ({formatBytes(estimate.documentBytes)})
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-600">Photos:</span>
+                <span className="text-slate-900">{estimate.photoCount}</span>
+              </div>
+            </div>
+          )}
+
+          {packet && !downloading && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-start gap-3">
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-green-900">
+                <p className="font-medium">Available offline</p>
+                <p>
+                  Prepared {new Date(packet.preparedAt).toLocaleString()} · {packet.fileCount} files ·{' '}
+                  {formatBytes(packet.totalBytes)}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {downloading && progress && (
+            <div>
+              <div className="flex items-center justify-between text-sm text-slate-600 mb-2">
+                <span className="truncate">{progress.stage}</span>
+                <span>
+                  {percent}% · {formatBytes(progress.bytesDownloaded)}
+                </span>
+              </div>
+              <div className="w-full bg-slate-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            {packet && !downloading && (
+              <button
+                onClick={handleRemove}
+                className="flex items-center justify-center gap-2 px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove
+              </button>
+            )}
+            <button
+              onClick={handleDownload}
+              disabled={downloading || !navigator.onLine}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {downloading ? 'Downloading...' : packet ? 'Refresh Offline Copy' : 'Download'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, Calculator, X } from 'lucide-react';
+import {
+  ApprovalPricingContext,
+  PricingChoices,
+  PricingSetup,
+  laborRatesFor,
+  priceApproval,
+  quotePricing,
+} from '../../lib/quotePricing';
+import { QUOTE_ITEM_TYPE_LABELS, lineTotal, quoteTotals } from '../../lib/quotes';
+
+interface QuoteFromApprovalProps {
+  approvalId: string;
+  onClose: () => void;
+  onCreated: (quoteId: string) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm';
+
+export default function QuoteFromApproval({ approvalId, onClose, onCreated }: QuoteFromApprovalProps) {
+  const [setup, setSetup] = useState<PricingSetup | null>(null);
+  const [context, setContext] = useState<ApprovalPricingContext | null>(null);
+  const [choices, setChoices] = useState<PricingChoices>({
+    laborRateId: null,
+    horsepower: null,
+    frame: '',
+    includeRewind: false,
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [approvalId]);
+
+  const loadData = async () => {
+    try {
+      const [loadedSetup, loadedContext] = await Promise.all([
+        quotePricing.loadSetup(),
+        quotePricing.loadApprovalContext(approvalId),
+      ]);
+      setSetup(loadedSetup);
+      setContext(loadedContext);
+      setChoices({
+        laborRateId: laborRatesFor(loadedSetup.laborRates, loadedContext.workOrder.work_type)[0]?.id || null,
+        horsepower: loadedContext.horsepower,
+        frame: '',
+        includeRewind: /rewind/i.test(loadedContext.approval.findings_summary || ''),
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!setup || !context) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      onCreated(await quotePricing.createDraft(context, setup, priceApproval(context.approval, context.inventory, setup, choices)));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const priced = setup && context ? priceApproval(context.approval, context.inventory, setup, choices) : null;
+  const totals = priced && setup ? quoteTotals(priced.lines, setup.taxRate, 0) : null;
+  const laborOptions = setup && context ? laborRatesFor(setup.laborRates, context.workOrder.work_type) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full my-8">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Calculator className="w-5 h-5 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-slate-900">Draft Quote from Findings</h2>
+              {context && <p className="text-sm text-slate-600">{context.workOrder.work_order_number}</p>}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-slate-200 border-t-blue-600"></div>
+            </div>
+          ) : (
+            priced &&
+            totals && (
+              <>
+                {context?.existingQuoteId && (
+                  <div className="flex items-center justify-between gap-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                    <p className="text-sm text-amber-900">A quote has already been drafted from these findings.</p>
+                    <button
+                      onClick={() => onCreated(context.existingQuoteId!)}
+                      className="px-3 py-1.5 border border-amber-600 text-amber-700 rounded-lg hover:bg-white transition text-sm flex-shrink-0"
+                    >
+                      Open It
+                    </button>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Labor Rate</label>
+                    <select
+                      value={choices.laborRateId || ''}
+                      onChange={(e) => setChoices({ ...choices, laborRateId: e.target.value || null })}
+                      className={inputClass}
+                    >
+                      <option value="">No rate</option>
+                      {laborOptions.map((rate) => (
+                        <option key={rate.id} value={rate.id}>
+                          {rate.skill} · ${Number(rate.hourly_rate).toFixed(2)}/hr
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Horsepower</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={choices.horsepower ?? ''}
+                      onChange={(e) => setChoices({ ...choices, horsepower: e.target.value ? Number(e.target.value) : null })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Frame</label>
+                    <input
+                      type="text"
+                      value={choices.frame}
+                      onChange={(e) => setChoices({ ...choices, frame: e.target.value })}
+                      placeholder="e.g. 326T"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={choices.includeRewind}
+                    onChange={(e) => setChoices({ ...choices, includeRewind: e.target.checked })}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Include a flat-rate rewind
+                </label>
+
+                {priced.warnings.length > 0 && (
+                  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-1">
+                    {priced.warnings.map((warning) => (
+                      <p key={warning} className="flex items-start gap-2 text-sm text-amber-900">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {priced.lines.length === 0 ? (
+                  <p className="text-sm text-slate-500">The request lists no parts or labor to price.</p>
+                ) : (
+                  <div className="border border-slate-200 rounded-lg overflow-hidden">
+                    <table className="w-full">
+                      <thead className="bg-slate-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-slate-700">Item</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-slate-700">Qty</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-slate-700">Price</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-slate-700">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-200">
+                        {priced.lines.map((line, idx) => (
+                          <tr key={idx}>
+                            <td className="px-4 py-2 text-sm">
+                              <span className="text-xs text-slate-500 mr-2">{QUOTE_ITEM_TYPE_LABELS[line.item_type]}</span>
+                              <span className="text-slate-900">{line.description}</span>
+                              {line.notes && <p className="text-xs text-slate-500">{line.notes}</p>}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-right text-slate-700">{line.quantity}</td>
+                            <td className="px-4 py-2 text-sm text-right text-slate-700">${line.unit_price.toFixed(2)}</td>
+                            <td className="px-4 py-2 text-sm text-right font-medium text-slate-900">
+                              ${lineTotal(line).toFixed(2)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <div className="w-64 space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Subtotal:</span>
+                      <span className="font-medium text-slate-900">${totals.subtotal.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Tax ({setup!.taxRate}%):</span>
+                      <span className="font-medium text-slate-900">${totals.tax.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between pt-1 border-t border-slate-200">
+                      <span className="font-semibold text-slate-900">Total:</span>
+                      <span className="font-bold text-blue-600">${totals.total.toFixed(2)}</span>
+                    </div>
+                  </div>
+                </div>
+              </>
+            )
+          )}
+        </div>
+
+        <div className="flex gap-3 px-6 py-4 bg-slate-50 border-t border-slate-200 rounded-b-lg">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={saving || !priced || priced.lines.length === 0}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Creating...' : 'Create Draft Quote'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { X, CheckSquare, AlertCircle, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
-import type { WorkOrderPhase } from '../../types/database';
+import { phaseWorkflow } from '../../lib/phaseWorkflow';
+import { approvalChains, describeChain, policyFor } from '../../lib/approvalChains';
+import type { ApprovalPolicy, PriorityLevel, WorkOrderPhase } from '../../types/database';
 
 interface RequestApprovalProps {
   workOrderId: string;
-  workSessionId: string;
+  // The session still open for the phase, if approval is requested before its report
+  workSessionId?: string;
   currentPhase: WorkOrderPhase;
   nextPhase: WorkOrderPhase;
+  priority: PriorityLevel;
   onClose: () => void;
   onSuccess: () => void;
 }
@@ -24,6 +28,7 @@ export default function RequestApproval({
   workSessionId,
   currentPhase,
   nextPhase,
+  priority,
   onClose,
   onSuccess,
 }: RequestApprovalProps) {
@@ -32,6 +37,14 @@ export default function RequestApproval({
   const [estimatedHours, setEstimatedHours] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+
+  useEffect(() => {
+    approvalChains
+      .listPolicies()
+      .then(setPolicies)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
 
   const addPart = () => {
     setRequiredParts([
@@ -51,6 +64,8 @@ export default function RequestApproval({
   };
 
   const totalCost = requiredParts.reduce((sum, part) => sum + part.quantity * part.estimated_cost, 0);
+  const policy = policyFor(policies, totalCost);
+  const preApproved = !!policy?.emergency_preapproval && priority === 'emergency';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -63,8 +78,10 @@ export default function RequestApproval({
       } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error: approvalError } = await supabase.from('work_order_approvals').insert([
-        {
+      // The database picks the approval chain and pre-approves emergency work
+      const { data: approval, error: approvalError } = await supabase
+        .from('work_order_approvals')
+        .insert({
           work_order_id: workOrderId,
           phase_completed: currentPhase,
           next_phase: nextPhase,
@@ -74,24 +91,25 @@ export default function RequestApproval({
           required_parts: requiredParts,
           estimated_cost: totalCost,
           estimated_hours: estimatedHours ? parseFloat(estimatedHours) : null,
-        },
-      ]);
+        })
+        .select('pre_approved')
+        .single();
 
       if (approvalError) throw approvalError;
 
-      const { error: sessionError } = await supabase
-        .from('work_sessions')
-        .update({ status: 'completed', completed_at: new Date().toISOString() })
-        .eq('id', workSessionId);
-
-      if (sessionError) throw sessionError;
+      if (workSessionId) {
+        const { error: sessionError } = await supabase
+          .from('work_sessions')
+          .update({ status: 'completed', completed_at: new Date().toISOString() })
+          .eq('id', workSessionId);
 
-      const { error: woError } = await supabase
-        .from('work_orders')
-        .update({ current_phase: 'awaiting_approval' })
-        .eq('id', workOrderId);
+        if (sessionError) throw sessionError;
+      }
 
-      if (woError) throw woError;
+      await phaseWorkflow.transition(workOrderId, 'awaiting_approval');
+      if (approval.pre_approved) {
+        await phaseWorkflow.transition(workOrderId, nextPhase, { status: 'in_progress' });
+      }
 
       onSuccess();
     } catch (err: any) {
@@ -127,8 +145,23 @@ export default function RequestApproval({
               Submit your findings and parts requirements for manager approval before proceeding to
               the rebuild phase.
             </p>
+            {policy && (
+              <p className="text-sm text-blue-900 mt-2">
+                <span className="font-medium">Sign-off:</span> {describeChain(policy.approver_roles)}
+                {policy.min_estimated_cost > 0 && ` (${policy.name}, over $${policy.min_estimated_cost.toFixed(2)})`}
+              </p>
+            )}
           </div>
 
+          {preApproved && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+              <p className="text-sm text-orange-900">
+                This is emergency work: it will be approved as soon as you submit and the approvers will review it
+                afterwards.
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-2">
               Findings Summary *
@@ -278,7 +311,7 @@ export default function RequestApproval({
               disabled={loading}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Submitting...' : 'Submit for Approval'}
+              {loading ? 'Submitting...' : preApproved ? 'Submit and Continue' : 'Submit for Approval'}
             </button>
           </div>
         </form>
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { AuditContext, auditTrail } from '../../lib/auditTrail';
+import type { AuditLogEntry } from '../../types/database';
+import AuditEntryList from '../shared/AuditEntryList';
+
+interface WorkOrderActivityProps {
+  workOrderId: string;
+}
+
+export default function WorkOrderActivity({ workOrderId }: WorkOrderActivityProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [context, setContext] = useState<AuditContext | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadActivity();
+  }, [workOrderId]);
+
+  const loadActivity = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const loaded = await auditTrail.forWorkOrder(workOrderId);
+      setContext(await auditTrail.loadContext(loaded));
+      setEntries(loaded);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-12 text-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-slate-200 border-t-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 mb-4">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+      {context && <AuditEntryList entries={entries} context={context} />}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, ChevronRight, GitBranch, Plus, Truck } from 'lucide-react';
+import { OUTSIDE_SERVICE_STATUS_LABELS, workOrderHierarchy } from '../../lib/workOrderHierarchy';
+import type { WorkOrder, WorkOrderRollup, WorkOrderStatus } from '../../types/database';
+import AddChildWorkOrder from './AddChildWorkOrder';
+
+interface WorkOrderChildrenProps {
+  parent: WorkOrder;
+  canManage: boolean;
+  onOpen: (workOrderId: string) => void;
+  onChanged: () => void;
+}
+
+const STATUS_BADGES: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  on_hold: 'bg-slate-100 text-slate-800',
+  awaiting_parts: 'bg-slate-100 text-slate-800',
+  completed: 'bg-green-100 text-green-800',
+  invoiced: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export default function WorkOrderChildren({ parent, canManage, onOpen, onChanged }: WorkOrderChildrenProps) {
+  const [children, setChildren] = useState<WorkOrder[]>([]);
+  const [rollup, setRollup] = useState<WorkOrderRollup | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadChildren();
+  }, [parent.id]);
+
+  const loadChildren = async () => {
+    try {
+      const [loaded, rollups] = await Promise.all([
+        workOrderHierarchy.loadChildren(parent.id),
+        workOrderHierarchy.loadRollups([parent.id]),
+      ]);
+      setChildren(loaded);
+      setRollup(rollups.get(parent.id) || null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleStatusChange = async (child: WorkOrder, status: WorkOrderStatus) => {
+    setError('');
+    try {
+      await workOrderHierarchy.updateOutsideService(child.id, { status });
+      await loadChildren();
+      onChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (children.length === 0 && !canManage) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-slate-700 flex items-center gap-2">
+          <GitBranch className="w-4 h-4" />
+          Child Work Orders
+        </h3>
+        {canManage && (
+          <button
+            onClick={() => setShowAdd(true)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add Child
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3 mb-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {children.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Split multi-unit jobs into a work order per unit, or send work out to a vendor.
+        </p>
+      ) : (
+        <>
+          {rollup && (
+            <div className="grid grid-cols-4 gap-3 mb-3">
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-500">Job Status</p>
+                <span
+                  className={`inline-block mt-1 px-2 py-0.5 text-xs font-medium rounded ${
+                    STATUS_BADGES[rollup.rolled_up_status] || STATUS_BADGES.pending
+                  }`}
+                >
+                  {rollup.rolled_up_status.replace('_', ' ')}
+                </span>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-500">Children Closed</p>
+                <p className="text-sm font-medium text-slate-900">
+                  {rollup.closed_child_count} of {rollup.child_count}
+                </p>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-500">Hours</p>
+                <p className="text-sm font-medium text-slate-900">
+                  {Number(rollup.actual_hours).toFixed(1)} / {Number(rollup.estimated_hours).toFixed(1)} est
+                </p>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-500">Cost</p>
+                <p className="text-sm font-medium text-slate-900">${Number(rollup.total_cost).toFixed(2)}</p>
+                {rollup.outside_service_count > 0 && (
+                  <p className="text-xs text-slate-500">
+                    ${Number(rollup.outside_service_cost).toFixed(2)} outside
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+            {children.map((child) => (
+              <div key={child.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    {child.outside_service && <Truck className="w-4 h-4 text-slate-500" />}
+                    <span className="text-sm font-medium text-slate-900">{child.work_order_number}</span>
+                    {!child.outside_service && (
+                      <span
+                        className={`px-2 py-0.5 text-xs font-medium rounded ${
+                          STATUS_BADGES[child.status] || STATUS_BADGES.pending
+                        }`}
+                      >
+                        {child.status.replace('_', ' ')}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 truncate">
+                    {child.outside_service
+                      ? `${child.vendor?.name}${child.vendor_reference ? ` · ${child.vendor_reference}` : ''}`
+                      : `${child.equipment_unit?.equipment_model?.model_number || ''} S/N ${
+                          child.equipment_unit?.serial_number || '—'
+                        }`}
+                    {child.reported_issue && ` · ${child.reported_issue}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  {child.outside_service ? (
+                    <>
+                      {child.outside_service_cost !== null && (
+                        <span className="text-sm text-slate-700">${Number(child.outside_service_cost).toFixed(2)}</span>
+                      )}
+                      {canManage ? (
+                        <select
+                          value={child.status}
+                          onChange={(e) => handleStatusChange(child, e.target.value as WorkOrderStatus)}
+                          className="px-2 py-1 border border-slate-300 rounded-lg text-xs"
+                        >
+                          {Object.entries(OUTSIDE_SERVICE_STATUS_LABELS).map(([status, label]) => (
+                            <option key={status} value={status}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span
+                          className={`px-2 py-0.5 text-xs font-medium rounded ${
+                            STATUS_BADGES[child.status] || STATUS_BADGES.pending
+                          }`}
+                        >
+                          {OUTSIDE_SERVICE_STATUS_LABELS[child.status] || child.status}
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      {child.estimated_hours !== null && (
+                        <span className="text-xs text-slate-500">
+                          {Number(child.actual_hours || 0).toFixed(1)} / {child.estimated_hours} h
+                        </span>
+                      )}
+                      <button
+                        onClick={() => onOpen(child.id)}
+                        className="text-blue-600 hover:text-blue-700 transition"
+                      >
+                        <ChevronRight className="w-5 h-5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {showAdd && (
+        <AddChildWorkOrder
+          parent={parent}
+          onClose={() => setShowAdd(false)}
+          onSuccess={() => {
+            setShowAdd(false);
+            loadChildren();
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -20,17 +20,40 @@ import {
   XCircle,
   CheckCircle,
   DollarSign,
+  DownloadCloud,
+  Clock,
+  History,
+  Repeat,
+  GitBranch,
 } from 'lucide-react';
+import { offlineStorage } from '../../lib/offlineStorage';
+import { formatDuration, varianceText } from '../../lib/timeTracking';
+import { nextTransition, phaseWorkflow, previousPhase } from '../../lib/phaseWorkflow';
+import { WorkOrderPlan, recurringWorkOrders } from '../../lib/recurringWorkOrders';
+import { workOrderHierarchy } from '../../lib/workOrderHierarchy';
+import { ChainState, approvalChains, chainState } from '../../lib/approvalChains';
+import { QUOTE_ITEM_TYPE_LABELS } from '../../lib/quotes';
 import AssignWorkOrder from './AssignWorkOrder';
 import StartWorkSession from '../work-session/StartWorkSession';
 import WorkSessionView from '../work-session/WorkSessionView';
 import RequestApproval from './RequestApproval';
 import ApprovalReview from './ApprovalReview';
+import ApprovalChainSteps from './ApprovalChainSteps';
 import ViewPhaseReport from '../work-session/ViewPhaseReport';
 import ReportGenerator from '../reports/ReportGenerator';
 import ApproveWorkOrder from './ApproveWorkOrder';
 import GenerateQuote from './GenerateQuote';
-import type { WorkOrder, WorkOrderAssignment, WorkOrderApproval } from '../../types/database';
+import PrepareOffline from './PrepareOffline';
+import WorkOrderActivity from './WorkOrderActivity';
+import WorkOrderChildren from './WorkOrderChildren';
+import type {
+  PhaseTransition,
+  WorkOrder,
+  WorkOrderAssignment,
+  WorkOrderApproval,
+  WorkOrderLaborActual,
+  WorkOrderPhase,
+} from '../../types/database';
 
 interface WorkOrderDetailProps {
   workOrderId: string;
@@ -52,25 +75,11 @@ const PHASE_LABELS: Record<string, string> = {
   cancelled: 'Cancelled',
 };
 
-const NEXT_PHASE_MAP: Record<string, string> = {
-  initial_testing: 'teardown',
-  teardown: 'repair_scope',
-  repair_scope: 'rebuild',
-  inspection: 'awaiting_approval',
-  rebuild: 'final_testing',
-  final_testing: 'completed',
-  qc_review: 'completed',
-};
-
-const PREVIOUS_PHASE_MAP: Record<string, string> = {
-  teardown: 'initial_testing',
-  repair_scope: 'teardown',
-  rebuild: 'repair_scope',
-  final_testing: 'rebuild',
-};
-
-const getPreviousPhase = (phase: string): string | null => {
-  return PREVIOUS_PHASE_MAP[phase] || null;
+const CHAIN_TONE_BADGES: Record<ChainState['tone'], string> = {
+  waiting: 'bg-yellow-100 text-yellow-800',
+  review: 'bg-orange-100 text-orange-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
 };
 
 export default function WorkOrderDetail({
@@ -84,6 +93,12 @@ export default function WorkOrderDetail({
   const [approvals, setApprovals] = useState<WorkOrderApproval[]>([]);
   const [currentSession, setCurrentSession] = useState<any>(null);
   const [completedSessions, setCompletedSessions] = useState<any[]>([]);
+  const [laborActuals, setLaborActuals] = useState<WorkOrderLaborActual[]>([]);
+  const [transitions, setTransitions] = useState<PhaseTransition[]>([]);
+  const [plan, setPlan] = useState<WorkOrderPlan | null>(null);
+  const [parentNumber, setParentNumber] = useState<string | null>(null);
+  const [openWorkOrderId, setOpenWorkOrderId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'details' | 'activity'>('details');
   const [loading, setLoading] = useState(true);
   const [showAssign, setShowAssign] = useState(false);
   const [showStartSession, setShowStartSession] = useState(false);
@@ -99,6 +114,7 @@ export default function WorkOrderDetail({
   const [uploading, setUploading] = useState(false);
   const [showApproveWorkOrder, setShowApproveWorkOrder] = useState(false);
   const [showGenerateQuote, setShowGenerateQuote] = useState(false);
+  const [showPrepareOffline, setShowPrepareOffline] = useState(false);
 
   const isAdmin = profile?.role === 'admin';
   const isManager = profile?.role === 'manager';
@@ -109,7 +125,10 @@ export default function WorkOrderDetail({
   );
 
   const previousPhaseAssignment = workOrder?.current_phase ? assignments.find(
-    (a) => a.assigned_to === profile?.id && a.phase === getPreviousPhase(workOrder.current_phase) && a.status === 'completed'
+    (a) =>
+      a.assigned_to === profile?.id &&
+      a.phase === previousPhase(transitions, workOrder.work_type, workOrder.current_phase) &&
+      a.status === 'completed'
   ) : null;
 
   const currentPhaseAssignment = assignments.find(
@@ -125,8 +144,42 @@ export default function WorkOrderDetail({
     loadSavedReports();
   }, [workOrderId]);
 
+  const loadOfflineWorkOrder = async (): Promise<boolean> => {
+    const packet = await offlineStorage.getWorkOrderPacket(workOrderId);
+    const cachedWorkOrder = await offlineStorage.getWorkOrder(workOrderId);
+    if (!packet || !cachedWorkOrder) return false;
+
+    setWorkOrder(cachedWorkOrder);
+    setAssignments(packet.assignments);
+    setApprovals(packet.approvals);
+
+    const sessions = [];
+    for (const id of packet.sessionIds) {
+      const session = await offlineStorage.getWorkSession(id);
+      if (!session) continue;
+      const procedure = session.procedure_template_id
+        ? await offlineStorage.getProcedure(session.procedure_template_id)
+        : null;
+      sessions.push({
+        ...session,
+        procedure: procedure ? { name: procedure.name, phase: procedure.phase } : null,
+        phase_report: packet.phaseReports.filter((r) => r.work_session_id === session.id),
+      });
+    }
+
+    setCurrentSession(sessions.find((s) => s.status === 'in_progress') || null);
+    setCompletedSessions(
+      sessions
+        .filter((s) => s.status === 'completed')
+        .sort((a, b) => a.started_at.localeCompare(b.started_at))
+    );
+    return true;
+  };
+
   const loadWorkOrder = async () => {
     try {
+      if (!navigator.onLine && (await loadOfflineWorkOrder())) return;
+
       const { data: woData, error: woError } = await supabase
         .from('work_orders')
         .select(
@@ -139,7 +192,8 @@ export default function WorkOrderDetail({
               manufacturer:manufacturers (name)
             )
           ),
-          customer:customers (company_name, contact_person, phone, email)
+          customer:customers (company_name, contact_person, phone, email),
+          vendor:suppliers (name)
         `
         )
         .eq('id', workOrderId)
@@ -147,6 +201,11 @@ export default function WorkOrderDetail({
 
       if (woError) throw woError;
       setWorkOrder(woData);
+      setTransitions(await phaseWorkflow.load());
+      setPlan(woData?.template_id ? await recurringWorkOrders.loadPlan(woData.template_id) : null);
+      setParentNumber(
+        woData?.parent_work_order_id ? await workOrderHierarchy.loadParentNumber(woData.parent_work_order_id) : null
+      );
 
       const { data: assignData, error: assignError } = await supabase
         .from('work_order_assignments')
@@ -169,7 +228,8 @@ export default function WorkOrderDetail({
         .order('created_at', { ascending: false });
 
       if (approvalError) throw approvalError;
-      setApprovals(approvalData || []);
+      const approvalSteps = await approvalChains.loadSteps((approvalData || []).map((a) => a.id));
+      setApprovals((approvalData || []).map((a) => ({ ...a, steps: approvalSteps.get(a.id) || [] })));
 
       const { data: sessionData } = await supabase
         .from('work_sessions')
@@ -192,6 +252,13 @@ export default function WorkOrderDetail({
         .order('started_at', { ascending: true });
 
       setCompletedSessions(completedData || []);
+
+      const { data: laborData } = await supabase
+        .from('work_order_labor_actuals')
+        .select('*')
+        .eq('work_order_id', workOrderId);
+
+      setLaborActuals(laborData || []);
     } catch (error) {
       console.error('Error loading work order:', error);
     } finally {
@@ -225,6 +292,7 @@ export default function WorkOrderDetail({
     if (!workOrder || !profile) return;
 
     try {
+      // Completing the previous phase already moved the work order on
       const nextPhase = workOrder.current_phase;
 
       const {
@@ -232,13 +300,6 @@ export default function WorkOrderDetail({
       } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error: updateError } = await supabase
-        .from('work_orders')
-        .update({ current_phase: nextPhase })
-        .eq('id', workOrderId);
-
-      if (updateError) throw updateError;
-
       const { data: existingAssignment } = await supabase
         .from('work_order_assignments')
         .select('*')
@@ -277,6 +338,14 @@ export default function WorkOrderDetail({
 
   const loadDocuments = async () => {
     try {
+      if (!navigator.onLine) {
+        const packet = await offlineStorage.getWorkOrderPacket(workOrderId);
+        if (packet) {
+          setDocuments(packet.documents);
+          return;
+        }
+      }
+
       const { data, error } = await supabase
         .from('work_order_documents')
         .select('*')
@@ -371,6 +440,18 @@ export default function WorkOrderDetail({
     }
   };
 
+  const handleOpenDocument = async (event: React.MouseEvent, fileUrl: string) => {
+    if (navigator.onLine) return;
+
+    event.preventDefault();
+    const blob = await offlineStorage.getCachedFile(fileUrl);
+    if (!blob) {
+      alert('This document was not downloaded for offline use.');
+      return;
+    }
+    window.open(URL.createObjectURL(blob), '_blank');
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
@@ -423,21 +504,32 @@ export default function WorkOrderDetail({
     if (!confirm('Mark this work order as complete? This action cannot be undone.')) return;
 
     try {
-      const { error } = await supabase
-        .from('work_orders')
-        .update({
-          status: 'completed',
-          current_phase: 'completed',
-        })
-        .eq('id', workOrderId);
-
-      if (error) throw error;
+      await phaseWorkflow.transition(workOrderId, 'completed', { status: 'completed' });
 
       loadWorkOrder();
       onUpdate();
     } catch (error) {
       console.error('Error marking as complete:', error);
-      alert('Failed to mark as complete');
+      alert(error instanceof Error ? error.message : 'Failed to mark as complete');
+    }
+  };
+
+  const handleQcSignOff = async (toPhase: WorkOrderPhase) => {
+    if (!profile) return;
+    if (!confirm(`Sign off QC and move this work order to ${PHASE_LABELS[toPhase]}?`)) return;
+
+    try {
+      await phaseWorkflow.transition(workOrderId, toPhase, {
+        qc_signed_off_by: profile.id,
+        qc_signed_off_at: new Date().toISOString(),
+        ...(toPhase === 'completed' ? { status: 'completed' } : {}),
+      });
+
+      loadWorkOrder();
+      onUpdate();
+    } catch (error) {
+      console.error('Error signing off QC:', error);
+      alert(error instanceof Error ? error.message : 'Failed to sign off QC');
     }
   };
 
@@ -484,6 +576,32 @@ export default function WorkOrderDetail({
   };
 
   const pendingApproval = approvals.find((a) => a.status === 'pending');
+  const reviewDueApproval = approvals.find((a) => a.pre_approved && !a.reviewed_at);
+
+  const outgoing = nextTransition(transitions, workOrder.work_type, workOrder.current_phase);
+
+  // Assigning from pending assignment starts the first phase; later phases are
+  // assigned once the workflow has moved the work order into them
+  const assignPhase =
+    workOrder.current_phase === 'pending_assignment' ? outgoing?.to_phase : workOrder.current_phase;
+  const canAssign =
+    canManage &&
+    !!assignPhase &&
+    !['awaiting_approval', 'qc_review', 'completed', 'cancelled'].includes(workOrder.current_phase) &&
+    (workOrder.current_phase === 'pending_assignment' ||
+      !assignments.some((a) => a.phase === assignPhase && a.status !== 'cancelled'));
+
+  // Approval is requested on leaving a phase whose next move needs it, or again
+  // from awaiting approval after a rejection
+  const approvalFromPhase =
+    workOrder.current_phase === 'awaiting_approval'
+      ? previousPhase(transitions, workOrder.work_type, 'awaiting_approval')
+      : outgoing?.guards.includes('approval_requested')
+      ? workOrder.current_phase
+      : null;
+  const approvalNextPhase = nextTransition(transitions, workOrder.work_type, 'awaiting_approval')?.to_phase;
+  const canRequestApproval =
+    !!approvalFromPhase && !!approvalNextPhase && !pendingApproval && (canManage || !!currentPhaseAssignment);
 
   return (
     <>
@@ -502,12 +620,50 @@ export default function WorkOrderDetail({
                 </span>
               </div>
             </div>
-            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
-              <X className="w-5 h-5" />
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowPrepareOffline(true)}
+                className="flex items-center gap-2 px-3 py-1.5 border border-slate-300 text-slate-700 text-sm rounded-lg hover:bg-slate-50 transition"
+              >
+                <DownloadCloud className="w-4 h-4" />
+                Prepare for offline
+              </button>
+              <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
           </div>
 
-          <div className="p-6 space-y-6">
+          <div className="border-b border-slate-200 px-6">
+            <nav className="flex">
+              <button
+                onClick={() => setActiveTab('details')}
+                className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition ${
+                  activeTab === 'details'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                <ClipboardList className="w-4 h-4" />
+                Details
+              </button>
+              <button
+                onClick={() => setActiveTab('activity')}
+                className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition ${
+                  activeTab === 'activity'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                <History className="w-4 h-4" />
+                Activity
+              </button>
+            </nav>
+          </div>
+
+          {activeTab === 'activity' && <WorkOrderActivity workOrderId={workOrderId} />}
+
+          <div className={`p-6 space-y-6 ${activeTab === 'details' ? '' : 'hidden'}`}>
             <div className="grid grid-cols-2 gap-6">
               <div>
                 <h3 className="text-sm font-medium text-slate-700 mb-3">Customer Information</h3>
@@ -554,6 +710,57 @@ export default function WorkOrderDetail({
               </div>
             </div>
 
+            {workOrder.parent_work_order_id && (
+              <div className="flex items-center justify-between p-4 bg-slate-50 rounded-lg border border-slate-200">
+                <div className="flex items-center gap-2 text-sm text-slate-700">
+                  <GitBranch className="w-4 h-4" />
+                  Part of job <span className="font-medium text-slate-900">{parentNumber}</span>
+                </div>
+                <button
+                  onClick={() => setOpenWorkOrderId(workOrder.parent_work_order_id)}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  Open job
+                </button>
+              </div>
+            )}
+
+            {workOrder.outside_service && (
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 mb-2">Outside Service</h3>
+                <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <span className="text-slate-500">Vendor:</span>
+                    <span className="ml-2 text-slate-900">{workOrder.vendor?.name}</span>
+                  </div>
+                  <div>
+                    <span className="text-slate-500">Reference:</span>
+                    <span className="ml-2 text-slate-900">{workOrder.vendor_reference || '—'}</span>
+                  </div>
+                  <div>
+                    <span className="text-slate-500">Cost:</span>
+                    <span className="ml-2 text-slate-900">
+                      {workOrder.outside_service_cost !== null
+                        ? `$${Number(workOrder.outside_service_cost).toFixed(2)}`
+                        : '—'}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {!workOrder.parent_work_order_id && !workOrder.outside_service && (
+              <WorkOrderChildren
+                parent={workOrder}
+                canManage={canManage}
+                onOpen={setOpenWorkOrderId}
+                onChanged={() => {
+                  loadWorkOrder();
+                  onUpdate();
+                }}
+              />
+            )}
+
             {workOrder.reported_issue && (
               <div>
                 <h3 className="text-sm font-medium text-slate-700 mb-2">Reported Issue</h3>
@@ -563,6 +770,37 @@ export default function WorkOrderDetail({
               </div>
             )}
 
+            {plan && (
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 mb-2">Planned Work</h3>
+                <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-3 text-sm">
+                  <div className="flex items-center gap-2 text-slate-600">
+                    <Repeat className="w-4 h-4" />
+                    Generated from <span className="font-medium text-slate-900">{plan.templateName}</span>
+                  </div>
+                  {plan.procedures.length > 0 && (
+                    <div>
+                      <span className="text-slate-500">Procedures:</span>
+                      <span className="ml-2 text-slate-900">{plan.procedures.join(', ')}</span>
+                    </div>
+                  )}
+                  {plan.parts.length > 0 && (
+                    <div>
+                      <span className="text-slate-500">Parts:</span>
+                      <ul className="mt-1 space-y-1">
+                        {plan.parts.map((part, index) => (
+                          <li key={index} className="text-slate-900">
+                            {part.quantity} × {part.part_number}
+                            {part.description && <span className="text-slate-500"> - {part.description}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {workOrder.approval_status && (
               <div>
                 <h3 className="text-sm font-medium text-slate-700 mb-2">Approval Status</h3>
@@ -602,6 +840,35 @@ export default function WorkOrderDetail({
                       )}
                     </div>
                   )}
+                  {workOrder.approval_status === 'approved' && workOrder.approved_scope && (
+                    <div className="mt-3 pt-3 border-t border-green-200">
+                      <p className="text-xs font-medium text-slate-700 mb-2">
+                        Approved scope · Quote {workOrder.approved_scope.quote_number}
+                        {workOrder.approved_scope.version > 1 && ` rev ${workOrder.approved_scope.version}`}
+                      </p>
+                      <table className="w-full text-sm">
+                        <tbody className="divide-y divide-green-100">
+                          {workOrder.approved_scope.lines.map((line, idx) => (
+                            <tr key={idx}>
+                              <td className="py-1 text-slate-900">
+                                <span className="text-xs text-slate-500 mr-2">{QUOTE_ITEM_TYPE_LABELS[line.item_type]}</span>
+                                {line.description}
+                              </td>
+                              <td className="py-1 text-right text-slate-600 whitespace-nowrap">
+                                {Number(line.quantity)} × ${Number(line.unit_price).toFixed(2)}
+                              </td>
+                              <td className="py-1 text-right font-medium text-slate-900 whitespace-nowrap">
+                                ${Number(line.line_total).toFixed(2)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="mt-2 text-right text-sm font-semibold text-slate-900">
+                        Total ${Number(workOrder.approved_scope.total_amount).toFixed(2)}
+                      </p>
+                    </div>
+                  )}
                   {workOrder.approval_status === 'rejected' && workOrder.rejection_reason && (
                     <div className="text-sm">
                       <span className="text-slate-600">Reason:</span>
@@ -695,6 +962,59 @@ export default function WorkOrderDetail({
               </div>
             )}
 
+            {laborActuals.some((row) => row.actual_seconds > 0) && (
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 mb-3 flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Labor
+                </h3>
+                <div className="border border-slate-200 rounded-lg divide-y divide-slate-200 text-sm">
+                  {laborActuals.map((row) => (
+                    <div key={row.phase} className="flex items-center justify-between px-4 py-3">
+                      <div>
+                        <p className="font-medium text-slate-900">{PHASE_LABELS[row.phase] || row.phase}</p>
+                        <p className="text-xs text-slate-500">
+                          {row.steps_performed} step{row.steps_performed === 1 ? '' : 's'} ·{' '}
+                          {row.estimated_seconds > 0
+                            ? `estimated ${formatDuration(row.estimated_seconds)}`
+                            : 'no estimate'}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium text-slate-900">{formatDuration(row.actual_seconds)}</p>
+                        <p
+                          className={`text-xs ${
+                            row.estimated_seconds > 0 && row.actual_seconds > row.estimated_seconds
+                              ? 'text-amber-700'
+                              : 'text-slate-500'
+                          }`}
+                        >
+                          {varianceText(row.actual_seconds, row.estimated_seconds)}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between px-4 py-3 bg-slate-50">
+                    <p className="font-medium text-slate-900">Work Order Total</p>
+                    <div className="text-right">
+                      <p className="font-medium text-slate-900">
+                        {formatDuration(laborActuals.reduce((sum, row) => sum + row.actual_seconds, 0))}
+                      </p>
+                      {workOrder.estimated_hours !== null && (
+                        <p className="text-xs text-slate-500">
+                          {varianceText(
+                            laborActuals.reduce((sum, row) => sum + row.actual_seconds, 0),
+                            workOrder.estimated_hours * 3600
+                          )}{' '}
+                          vs {workOrder.estimated_hours} h quoted
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {savedReports.length > 0 && (
               <div>
                 <h3 className="text-sm font-medium text-slate-700 mb-3">Saved Reports</h3>
@@ -779,6 +1099,7 @@ export default function WorkOrderDetail({
                       <div className="flex gap-2">
                         <a
                           href={doc.file_url}
+                          onClick={(e) => handleOpenDocument(e, doc.file_url)}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="p-1.5 hover:bg-blue-50 rounded transition"
@@ -825,15 +1146,16 @@ export default function WorkOrderDetail({
                           </p>
                         </div>
                         <span className={`px-2 py-1 text-xs font-medium rounded ${
-                          approval.status === 'approved'
-                            ? 'bg-green-100 text-green-800'
-                            : approval.status === 'rejected'
-                            ? 'bg-red-100 text-red-800'
-                            : 'bg-yellow-100 text-yellow-800'
+                          CHAIN_TONE_BADGES[chainState(approval).tone]
                         }`}>
-                          {approval.status}
+                          {chainState(approval).label}
                         </span>
                       </div>
+                      {approval.steps && approval.steps.length > 0 && (
+                        <div className="mt-2">
+                          <ApprovalChainSteps steps={approval.steps} compact />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -841,7 +1163,7 @@ export default function WorkOrderDetail({
             )}
 
             <div className="flex gap-3 pt-4 border-t border-slate-200">
-              {canManage && workOrder.current_phase === 'pending_assignment' && (
+              {canAssign && (
                 <button
                   onClick={() => setShowAssign(true)}
                   className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
@@ -881,22 +1203,20 @@ export default function WorkOrderDetail({
                 </button>
               )}
 
-              {currentAssignment &&
-                currentSession &&
-                ['inspection', 'final_testing'].includes(workOrder.current_phase) && (
-                  <button
-                    onClick={() => setShowRequestApproval(true)}
-                    className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition"
-                  >
-                    <CheckSquare className="w-4 h-4" />
-                    Request Approval
-                  </button>
-                )}
+              {canRequestApproval && (
+                <button
+                  onClick={() => setShowRequestApproval(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition"
+                >
+                  <CheckSquare className="w-4 h-4" />
+                  Request Approval
+                </button>
+              )}
 
-              {canManage && pendingApproval && (
+              {canManage && (pendingApproval || reviewDueApproval) && (
                 <button
                   onClick={() => {
-                    setSelectedApprovalId(pendingApproval.id);
+                    setSelectedApprovalId((pendingApproval || reviewDueApproval)!.id);
                     setShowApprovalReview(true);
                   }}
                   className="flex items-center gap-2 px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition"
@@ -906,13 +1226,13 @@ export default function WorkOrderDetail({
                 </button>
               )}
 
-              {canManage && workOrder.current_phase === 'awaiting_approval' && !pendingApproval && (
+              {canManage && outgoing?.guards.includes('qc_signoff') && (
                 <button
-                  onClick={() => setShowAssign(true)}
-                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+                  onClick={() => handleQcSignOff(outgoing.to_phase)}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition"
                 >
-                  <UserPlus className="w-4 h-4" />
-                  Assign for Rebuild
+                  <CheckSquare className="w-4 h-4" />
+                  QC Sign-Off
                 </button>
               )}
 
@@ -945,15 +1265,18 @@ export default function WorkOrderDetail({
                 </>
               )}
 
-              {canManage && workOrder.status !== 'completed' && (
-                <button
-                  onClick={handleMarkComplete}
-                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition"
-                >
-                  <CheckCircle className="w-4 h-4" />
-                  Mark Complete
-                </button>
-              )}
+              {canManage &&
+                workOrder.status !== 'completed' &&
+                outgoing?.to_phase === 'completed' &&
+                !outgoing.guards.includes('qc_signoff') && (
+                  <button
+                    onClick={handleMarkComplete}
+                    className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                    Mark Complete
+                  </button>
+                )}
 
               <div className="flex gap-3 ml-auto">
                 <button
@@ -980,7 +1303,7 @@ export default function WorkOrderDetail({
       {showAssign && (
         <AssignWorkOrder
           workOrderId={workOrderId}
-          currentPhase={workOrder.current_phase === 'pending_assignment' ? 'initial_testing' : 'rebuild'}
+          currentPhase={assignPhase || workOrder.current_phase}
           onClose={() => setShowAssign(false)}
           onSuccess={() => {
             setShowAssign(false);
@@ -1015,12 +1338,13 @@ export default function WorkOrderDetail({
         />
       )}
 
-      {showRequestApproval && currentSession && (
+      {showRequestApproval && approvalFromPhase && approvalNextPhase && (
         <RequestApproval
           workOrderId={workOrderId}
-          workSessionId={currentSession.id}
-          currentPhase={workOrder.current_phase}
-          nextPhase={NEXT_PHASE_MAP[workOrder.current_phase] as any}
+          workSessionId={currentSession?.id}
+          currentPhase={approvalFromPhase}
+          nextPhase={approvalNextPhase}
+          priority={workOrder.priority}
           onClose={() => setShowRequestApproval(false)}
           onSuccess={() => {
             setShowRequestApproval(false);
@@ -1085,6 +1409,25 @@ export default function WorkOrderDetail({
           onClose={() => setShowGenerateQuote(false)}
         />
       )}
+
+      {showPrepareOffline && (
+        <PrepareOffline
+          workOrderId={workOrderId}
+          workOrderNumber={workOrder.work_order_number}
+          onClose={() => setShowPrepareOffline(false)}
+        />
+      )}
+
+      {openWorkOrderId && (
+        <WorkOrderDetail
+          workOrderId={openWorkOrderId}
+          onClose={() => setOpenWorkOrderId(null)}
+          onUpdate={() => {
+            loadWorkOrder();
+            onUpdate();
+          }}
+        />
+      )}
     </>
   );
 }
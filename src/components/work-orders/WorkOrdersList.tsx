@@ -1,7 +1,8 @@
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
-import { WorkOrder } from '../../types/database';
-import { Search, Filter, Plus, ChevronRight } from 'lucide-react';
+import { WorkOrder, WorkOrderRollup } from '../../types/database';
+import { Search, Filter, Plus, ChevronRight, ChevronDown, GitBranch, Truck } from 'lucide-react';
+import { workOrderHierarchy } from '../../lib/workOrderHierarchy';
 import { useAuth } from '../../contexts/AuthContext';
 import CreateWorkOrder from './CreateWorkOrder';
 import WorkOrderDetail from './WorkOrderDetail';
@@ -9,6 +10,8 @@ import WorkOrderDetail from './WorkOrderDetail';
 export default function WorkOrdersList() {
   const { profile } = useAuth();
   const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [rollups, setRollups] = useState<Map<string, WorkOrderRollup>>(new Map());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -36,6 +39,7 @@ export default function WorkOrdersList() {
             )
           ),
           customer:customers (company_name),
+          vendor:suppliers (name),
           assigned_technician:users!work_orders_assigned_to_fkey (full_name),
           work_sessions (progress_percentage, status)
         `)
@@ -49,6 +53,7 @@ export default function WorkOrdersList() {
 
       if (error) throw error;
       setWorkOrders(data || []);
+      setRollups(await workOrderHierarchy.loadRollups());
     } catch (error) {
       console.error('Error fetching work orders:', error);
     } finally {
@@ -65,6 +70,21 @@ export default function WorkOrdersList() {
     );
   });
 
+  // Children are listed under their parent job when it is in the list too
+  const topLevelWorkOrders = filteredWorkOrders.filter(
+    (wo) => !wo.parent_work_order_id || !filteredWorkOrders.some((parent) => parent.id === wo.parent_work_order_id)
+  );
+
+  const childrenOf = (parentId: string) =>
+    filteredWorkOrders.filter((wo) => wo.parent_work_order_id === parentId);
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
   const getStatusBadge = (status: string) => {
     const badges = {
       pending: 'bg-amber-100 text-amber-800',
@@ -76,6 +96,117 @@ export default function WorkOrdersList() {
     return badges[status as keyof typeof badges] || badges.pending;
   };
 
+  const renderRow = (wo: WorkOrder, isChild: boolean) => {
+    const rollup = rollups.get(wo.id);
+    const hasChildren = childrenOf(wo.id).length > 0;
+
+    return (
+      <tr key={wo.id} className={`hover:bg-slate-50 transition ${isChild ? 'bg-slate-50/50' : ''}`}>
+        <td className={`py-4 whitespace-nowrap ${isChild ? 'pl-12 pr-6' : 'px-6'}`}>
+          <div className="flex items-center gap-2">
+            {hasChildren && (
+              <button onClick={() => toggleExpanded(wo.id)} className="text-slate-500 hover:text-slate-700">
+                {expanded.has(wo.id) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+            )}
+            {wo.outside_service && <Truck className="w-4 h-4 text-slate-500" />}
+            <div>
+              <div className="text-sm font-medium text-slate-900">{wo.work_order_number}</div>
+              <div className="text-xs text-slate-500">
+                {rollup ? (
+                  <span className="flex items-center gap-1">
+                    <GitBranch className="w-3 h-3" />
+                    {rollup.child_count} child{rollup.child_count === 1 ? '' : 'ren'}
+                  </span>
+                ) : (
+                  new Date(wo.created_at).toLocaleDateString()
+                )}
+              </div>
+            </div>
+          </div>
+        </td>
+        <td className="px-6 py-4">
+          {wo.outside_service ? (
+            <div className="text-sm text-slate-900">{wo.vendor?.name}</div>
+          ) : (
+            <>
+              <div className="text-sm text-slate-900">{wo.equipment_unit?.equipment_model?.manufacturer?.name}</div>
+              <div className="text-xs text-slate-500">{wo.equipment_unit?.equipment_model?.model_number}</div>
+            </>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
+          {wo.customer?.company_name || 'N/A'}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 capitalize">
+          {wo.outside_service ? 'Outside service' : wo.work_type}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          <span className={`px-2 py-1 text-xs font-medium rounded ${getStatusBadge(wo.status)}`}>
+            {wo.status.replace('_', ' ')}
+          </span>
+          {rollup && (
+            <div className="text-xs text-slate-500 mt-1">job {rollup.rolled_up_status.replace('_', ' ')}</div>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 capitalize">{wo.priority}</td>
+        <td className="px-6 py-4 whitespace-nowrap">
+          {rollup ? (
+            <div className="flex items-center gap-2">
+              <div className="flex-1 bg-slate-200 rounded-full h-2 w-20">
+                <div
+                  className="bg-green-600 h-2 rounded-full"
+                  style={{ width: `${(rollup.closed_child_count / rollup.child_count) * 100}%` }}
+                />
+              </div>
+              <span className="text-xs text-slate-600">
+                {rollup.closed_child_count}/{rollup.child_count}
+              </span>
+            </div>
+          ) : wo.work_sessions?.[0] ? (
+            <div className="flex items-center gap-2">
+              <div className="flex-1 bg-slate-200 rounded-full h-2 w-20">
+                <div
+                  className="bg-blue-600 h-2 rounded-full"
+                  style={{
+                    width: `${wo.work_sessions[0].progress_percentage}%`,
+                  }}
+                />
+              </div>
+              <span className="text-xs text-slate-600">
+                {Math.round(wo.work_sessions[0].progress_percentage)}%
+              </span>
+            </div>
+          ) : (
+            <span className="text-xs text-slate-500">Not started</span>
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-xs text-slate-600">
+          {rollup ? (
+            <>
+              <div>
+                {Number(rollup.actual_hours).toFixed(1)} / {Number(rollup.estimated_hours).toFixed(1)} h
+              </div>
+              <div>${Number(rollup.total_cost).toFixed(2)}</div>
+            </>
+          ) : wo.outside_service ? (
+            wo.outside_service_cost !== null && `$${Number(wo.outside_service_cost).toFixed(2)}`
+          ) : (
+            wo.estimated_hours !== null && `${Number(wo.actual_hours || 0).toFixed(1)} / ${wo.estimated_hours} h`
+          )}
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap text-right">
+          <button
+            onClick={() => setSelectedWorkOrderId(wo.id)}
+            className="text-blue-600 hover:text-blue-700 transition"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </td>
+      </tr>
+    );
+  };
+
   return (
     <>
       <div className="p-6 max-w-7xl mx-auto">
@@ -163,76 +294,20 @@ export default function WorkOrdersList() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-slate-700 uppercase tracking-wider">
                       Progress
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-slate-700 uppercase tracking-wider">
+                      Hours / Cost
+                    </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-slate-700 uppercase tracking-wider">
                       Actions
                     </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-slate-200">
-                  {filteredWorkOrders.map((wo) => (
-                    <tr key={wo.id} className="hover:bg-slate-50 transition">
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-slate-900">
-                          {wo.work_order_number}
-                        </div>
-                        <div className="text-xs text-slate-500">
-                          {new Date(wo.created_at).toLocaleDateString()}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="text-sm text-slate-900">
-                          {wo.equipment_unit?.equipment_model?.manufacturer?.name}
-                        </div>
-                        <div className="text-xs text-slate-500">
-                          {wo.equipment_unit?.equipment_model?.model_number}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
-                        {wo.customer?.company_name || 'N/A'}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 capitalize">
-                        {wo.work_type}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span
-                          className={`px-2 py-1 text-xs font-medium rounded ${getStatusBadge(
-                            wo.status
-                          )}`}
-                        >
-                          {wo.status.replace('_', ' ')}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 capitalize">
-                        {wo.priority}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        {wo.work_sessions?.[0] ? (
-                          <div className="flex items-center gap-2">
-                            <div className="flex-1 bg-slate-200 rounded-full h-2 w-20">
-                              <div
-                                className="bg-blue-600 h-2 rounded-full"
-                                style={{
-                                  width: `${wo.work_sessions[0].progress_percentage}%`,
-                                }}
-                              />
-                            </div>
-                            <span className="text-xs text-slate-600">
-                              {Math.round(wo.work_sessions[0].progress_percentage)}%
-                            </span>
-                          </div>
-                        ) : (
-                          <span className="text-xs text-slate-500">Not started</span>
-                        )}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right">
-                        <button
-                          onClick={() => setSelectedWorkOrderId(wo.id)}
-                          className="text-blue-600 hover:text-blue-700 transition"
-                        >
-                          <ChevronRight className="w-5 h-5" />
-                        </button>
-                      </td>
-                    </tr>
+                  {topLevelWorkOrders.map((wo) => (
+                    <Fragment key={wo.id}>
+                      {renderRow(wo, false)}
+                      {expanded.has(wo.id) && childrenOf(wo.id).map((child) => renderRow(child, true))}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
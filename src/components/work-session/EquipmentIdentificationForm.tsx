@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { CheckCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { NAMEPLATE_UNITS, Quantity, formatQuantity, parseQuantities, parseNameplate } from '../../lib/units';
 
 interface EquipmentDetails {
   customer: string;
@@ -11,8 +13,11 @@ interface EquipmentDetails {
   bearing_type?: string;
   lubrication_type?: string;
   seal_arrangement?: string;
+  nameplate?: Record<string, Quantity>;
 }
 
+type DetailField = Exclude<keyof EquipmentDetails, 'nameplate'>;
+
 interface EquipmentIdentificationFormProps {
   initialData: EquipmentDetails;
   onComplete: (details: EquipmentDetails) => void;
@@ -24,6 +29,7 @@ export default function EquipmentIdentificationForm({
   onComplete,
   loading,
 }: EquipmentIdentificationFormProps) {
+  const { displayUnits } = useAuth();
   const [details, setDetails] = useState<EquipmentDetails>(initialData);
   const [currentField, setCurrentField] = useState<string>('verify');
 
@@ -55,13 +61,30 @@ export default function EquipmentIdentificationForm({
   const handleComplete = () => {
     const finalDetails = { ...details };
     fields.forEach((field) => {
-      if (!finalDetails[field.key as keyof EquipmentDetails]) {
-        finalDetails[field.key as keyof EquipmentDetails] = 'N/A';
+      if (!finalDetails[field.key as DetailField]) {
+        finalDetails[field.key as DetailField] = 'N/A';
       }
     });
+    finalDetails.nameplate = parseNameplate(finalDetails);
     onComplete(finalDetails);
   };
 
+  // Shows how free-text nameplate values were understood, e.g. "50 HP or 37 kW"
+  const parsedPreview = (key: string, value: string) => {
+    const defaultUnit = NAMEPLATE_UNITS[key];
+    if (!defaultUnit || !value || value === 'N/A') return null;
+
+    const quantities = parseQuantities(value, defaultUnit);
+    if (quantities.length === 0) return null;
+
+    return quantities
+      .map((quantity) => {
+        const converted = formatQuantity(quantity, displayUnits);
+        return converted.endsWith(` ${quantity.unit}`) ? converted : `${quantity.value} ${quantity.unit} (= ${converted})`;
+      })
+      .join(', ');
+  };
+
   if (currentField === 'verify') {
     return (
       <div className="space-y-6">
@@ -121,12 +144,14 @@ export default function EquipmentIdentificationForm({
             <p className="text-slate-900">{details.serial_number}</p>
           </div>
           {fields.map((field) => {
-            const value = details[field.key as keyof EquipmentDetails];
+            const value = details[field.key as DetailField];
             if (value) {
+              const parsed = parsedPreview(field.key, value);
               return (
                 <div key={field.key}>
                   <span className="text-sm font-medium text-slate-700">{field.label}:</span>
                   <p className="text-slate-900">{value}</p>
+                  {parsed && <p className="text-xs text-blue-600">Reads as {parsed}</p>}
                 </div>
               );
             }
@@ -149,7 +174,8 @@ export default function EquipmentIdentificationForm({
   if (!currentFieldConfig) return null;
 
   const currentIndex = fields.findIndex((f) => f.key === currentField);
-  const currentValue = details[currentField as keyof EquipmentDetails] || '';
+  const currentValue = details[currentField as DetailField] || '';
+  const currentParsed = parsedPreview(currentField, currentValue);
 
   return (
     <div className="space-y-6">
@@ -174,6 +200,7 @@ export default function EquipmentIdentificationForm({
             }
           }}
         />
+        {currentParsed && <p className="mt-2 text-sm text-blue-600">Reads as {currentParsed}</p>}
       </div>
 
       <div className="flex gap-3">
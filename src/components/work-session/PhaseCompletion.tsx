@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { CheckCircle, ArrowRight, X } from 'lucide-react';
+import { CheckCircle, ArrowRight, X, AlertCircle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { nextTransition, phaseWorkflow } from '../../lib/phaseWorkflow';
+import type { PhaseTransition, WorkOrderPhase } from '../../types/database';
 
 interface PhaseCompletionProps {
   workOrderId: string;
@@ -22,16 +24,6 @@ const PHASE_LABELS: Record<string, string> = {
   completed: 'Completed',
 };
 
-const NEXT_PHASE_MAP: Record<string, string> = {
-  initial_testing: 'teardown',
-  teardown: 'repair_scope',
-  repair_scope: 'rebuild',
-  inspection: 'awaiting_approval',
-  rebuild: 'final_testing',
-  final_testing: 'completed',
-  qc_review: 'completed',
-};
-
 export default function PhaseCompletion({
   workOrderId,
   currentPhase,
@@ -41,12 +33,14 @@ export default function PhaseCompletion({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [workOrder, setWorkOrder] = useState<any>(null);
+  const [transition, setTransition] = useState<PhaseTransition | null>(null);
+  const [unmetGuards, setUnmetGuards] = useState<string[]>([]);
 
   const isAdmin = profile?.role === 'admin';
   const isManager = profile?.role === 'manager';
   const canManage = isAdmin || isManager;
 
-  const nextPhase = NEXT_PHASE_MAP[currentPhase];
+  const nextPhase = transition?.to_phase;
 
   useEffect(() => {
     loadWorkOrder();
@@ -62,6 +56,11 @@ export default function PhaseCompletion({
 
       if (error) throw error;
       setWorkOrder(data);
+
+      const transitions = await phaseWorkflow.load();
+      const next = nextTransition(transitions, data.work_type, currentPhase as WorkOrderPhase);
+      setTransition(next);
+      setUnmetGuards(next ? await phaseWorkflow.unmetGuards(workOrderId, next.to_phase) : []);
     } catch (err: any) {
       setError(err.message);
     }
@@ -91,20 +90,14 @@ export default function PhaseCompletion({
 
       if (completeError) throw completeError;
 
-      if (nextPhase) {
-        const { error: updateError } = await supabase
-          .from('work_orders')
-          .update({ current_phase: nextPhase })
-          .eq('id', workOrderId);
-
-        if (updateError) throw updateError;
-      } else {
-        const { error: updateError } = await supabase
-          .from('work_orders')
-          .update({ current_phase: 'completed' })
-          .eq('id', workOrderId);
-
-        if (updateError) throw updateError;
+      // The work order only moves on once the workflow's guards are met; otherwise
+      // it waits in this phase for the outstanding approval or sign-off
+      if (nextPhase && unmetGuards.length === 0) {
+        await phaseWorkflow.transition(
+          workOrderId,
+          nextPhase,
+          nextPhase === 'completed' ? { status: 'completed' } : {}
+        );
       }
 
       onClose();
@@ -145,7 +138,28 @@ export default function PhaseCompletion({
           </div>
 
           <div className="space-y-4">
-            {nextPhase && (
+            {nextPhase && unmetGuards.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                <div className="flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="text-sm text-amber-900">
+                      <span className="font-semibold">Before {PHASE_LABELS[nextPhase]}:</span>
+                    </p>
+                    <ul className="mt-1 list-disc list-inside text-sm text-amber-800">
+                      {unmetGuards.map((guard) => (
+                        <li key={guard}>{guard}</li>
+                      ))}
+                    </ul>
+                    <p className="text-sm text-amber-800 mt-1">
+                      The work order stays in {PHASE_LABELS[currentPhase]} until these are done.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {nextPhase && unmetGuards.length === 0 && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <p className="text-sm text-blue-900">
                   <span className="font-semibold">Next Phase:</span> {PHASE_LABELS[nextPhase]}
@@ -156,7 +170,7 @@ export default function PhaseCompletion({
               </div>
             )}
 
-            {!nextPhase && (
+            {workOrder && !nextPhase && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                 <p className="text-sm text-green-900">
                   <span className="font-semibold">Work Order Complete!</span>
@@ -1,6 +1,12 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { CheckCircle, Edit3, Camera, AlertCircle, ArrowRight, X } from 'lucide-react';
+import { annotationSvg, hasAnnotations } from '../../lib/photoAnnotations';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatMeasurement } from '../../lib/measurements';
+import { equipmentDetailEntries } from '../../lib/units';
+import { SafetyReportEntry, safetyReportEntries } from '../../lib/safety';
+import { formatDuration, laborTotals, parseDuration, varianceText } from '../../lib/timeTracking';
+import { CheckCircle, Edit3, Camera, AlertCircle, ArrowRight, X, ShieldCheck, Clock } from 'lucide-react';
 import PhaseCompletion from './PhaseCompletion';
 
 interface PhaseReportReviewProps {
@@ -9,10 +15,12 @@ interface PhaseReportReviewProps {
 }
 
 export default function PhaseReportReview({ sessionId, onExit }: PhaseReportReviewProps) {
+  const { displayUnits } = useAuth();
   const [session, setSession] = useState<any>(null);
   const [steps, setSteps] = useState<any[]>([]);
   const [completions, setCompletions] = useState<any[]>([]);
   const [photos, setPhotos] = useState<any[]>([]);
+  const [safetyEntries, setSafetyEntries] = useState<SafetyReportEntry[]>([]);
   const [workOrder, setWorkOrder] = useState<any>(null);
   const [summary, setSummary] = useState('');
   const [technicianNotes, setTechnicianNotes] = useState('');
@@ -81,14 +89,33 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
       if (completionsError) throw completionsError;
       setCompletions(completionsData || []);
 
+      const { data: acknowledgmentsData, error: acknowledgmentsError } = await supabase
+        .from('safety_acknowledgments')
+        .select(
+          `
+          *,
+          acknowledged_by_user:users!safety_acknowledgments_acknowledged_by_fkey (full_name)
+        `
+        )
+        .eq('work_session_id', sessionId);
+
+      if (acknowledgmentsError) throw acknowledgmentsError;
+      setSafetyEntries(safetyReportEntries(acknowledgmentsData || [], stepsData || []));
+
       const { data: photosData, error: photosError } = await supabase
-        .from('work_session_photos')
+        .from('photos')
         .select('*')
         .eq('work_session_id', sessionId)
-        .order('captured_at');
+        .order('taken_at');
 
       if (!photosError && photosData) {
-        setPhotos(photosData);
+        setPhotos(
+          photosData.map((photo) => ({
+            ...photo,
+            photo_url: supabase.storage.from('photos').getPublicUrl(photo.storage_path).data.publicUrl,
+            captured_at: photo.taken_at,
+          }))
+        );
       }
 
       const completedSteps = completionsData?.filter((c) => c.status === 'completed') || [];
@@ -121,6 +148,7 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
           measurements: comp.measurements,
           observations: comp.observations,
           result: comp.result,
+          time_spent: comp.time_spent,
           completed_at: comp.completed_at,
         };
       });
@@ -129,6 +157,7 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
         url: photo.photo_url,
         caption: photo.caption,
         captured_at: photo.captured_at,
+        annotations: photo.annotations || {},
       }));
 
       const { data: report, error: reportError } = await supabase
@@ -141,6 +170,7 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
             equipment_details: session.equipment_details || {},
             step_completions: stepCompletionsData,
             photos: photoData,
+            safety_acknowledgments: safetyEntries,
             summary,
             technician_notes: technicianNotes,
             status: 'submitted',
@@ -167,6 +197,8 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
     }
   };
 
+  const labor = laborTotals(completions, steps);
+
   if (loading && !session) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -237,21 +269,80 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
           <div className="bg-white rounded-lg shadow-sm p-6">
             <h2 className="font-semibold text-slate-900 mb-4">Equipment Details</h2>
             <div className="grid grid-cols-2 gap-4 text-sm">
-              {Object.entries(session.equipment_details).map(([key, value]: [string, any]) => {
-                if (value && value !== 'N/A') {
-                  return (
-                    <div key={key}>
-                      <span className="text-slate-500 capitalize">{key.replace(/_/g, ' ')}:</span>
-                      <p className="font-medium text-slate-900">{value}</p>
-                    </div>
-                  );
-                }
-                return null;
-              })}
+              {equipmentDetailEntries(session.equipment_details, displayUnits).map(([label, value]) => (
+                <div key={label}>
+                  <span className="text-slate-500 capitalize">{label}:</span>
+                  <p className="font-medium text-slate-900">{value}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {safetyEntries.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="font-semibold text-slate-900 mb-4 flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Safety Acknowledgments
+            </h2>
+            <div className="space-y-3">
+              {safetyEntries.map((entry, index) => (
+                <div key={index} className="border border-slate-200 rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-slate-900">{entry.label}</span>
+                    <span className="text-slate-500">
+                      {entry.acknowledged_by} · {new Date(entry.acknowledged_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <ul className="mt-1 list-disc list-inside text-slate-600">
+                    {entry.items.map((item) => (
+                      <li key={item}>{item}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
             </div>
           </div>
         )}
 
+        {labor.actualSeconds > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="font-semibold text-slate-900 mb-4 flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              Labor Time
+            </h2>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <span className="text-slate-500">Actual:</span>
+                <p className="font-medium text-slate-900">{formatDuration(labor.actualSeconds)}</p>
+              </div>
+              <div>
+                <span className="text-slate-500">Estimated:</span>
+                <p className="font-medium text-slate-900">
+                  {labor.estimatedSeconds > 0 ? formatDuration(labor.estimatedSeconds) : 'Not specified'}
+                </p>
+              </div>
+              <div>
+                <span className="text-slate-500">Variance:</span>
+                <p
+                  className={`font-medium ${
+                    labor.estimatedSeconds > 0 && labor.actualSeconds > labor.estimatedSeconds
+                      ? 'text-amber-700'
+                      : 'text-slate-900'
+                  }`}
+                >
+                  {varianceText(labor.actualSeconds, labor.estimatedSeconds)}
+                </p>
+              </div>
+            </div>
+            {labor.unestimatedSteps > 0 && (
+              <p className="text-xs text-slate-500 mt-3">
+                {labor.unestimatedSteps} step{labor.unestimatedSteps === 1 ? ' has' : 's have'} no time estimate
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="bg-white rounded-lg shadow-sm p-6">
           <h2 className="font-semibold text-slate-900 mb-4">Steps Completed</h2>
           <div className="space-y-4">
@@ -264,9 +355,16 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
                   <div className="flex items-start gap-3">
                     <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
                     <div className="flex-1">
-                      <h3 className="font-medium text-slate-900">
-                        {step.step_number}. {step.title}
-                      </h3>
+                      <div className="flex items-center justify-between">
+                        <h3 className="font-medium text-slate-900">
+                          {step.step_number}. {step.title}
+                        </h3>
+                        {parseDuration(completion.time_spent) !== null && (
+                          <span className="text-xs text-slate-500 tabular-nums">
+                            {formatDuration(parseDuration(completion.time_spent)!)}
+                          </span>
+                        )}
+                      </div>
                       {completion.observations && completion.observations !== 'Not Applicable' && (
                         <p className="text-sm text-slate-600 mt-1">
                           <span className="font-medium">Observations:</span> {completion.observations}
@@ -278,7 +376,7 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
                           <div className="grid grid-cols-2 gap-2 mt-1">
                             {Object.entries(completion.measurements).map(([key, value]: [string, any]) => (
                               <div key={key} className="text-sm text-slate-600">
-                                {key}: <span className="font-medium text-slate-900">{value}</span>
+                                {key}: <span className="font-medium text-slate-900">{formatMeasurement(value, displayUnits)}</span>
                               </div>
                             ))}
                           </div>
@@ -301,11 +399,16 @@ export default function PhaseReportReview({ sessionId, onExit }: PhaseReportRevi
             <div className="grid grid-cols-2 gap-4">
               {photos.map((photo) => (
                 <div key={photo.id} className="border border-slate-200 rounded-lg overflow-hidden">
-                  <img
-                    src={photo.photo_url}
-                    alt={photo.caption || 'Work photo'}
-                    className="w-full h-48 object-cover"
-                  />
+                  <div className="relative">
+                    <img
+                      src={photo.photo_url}
+                      alt={photo.caption || 'Work photo'}
+                      className="w-full h-48 object-cover"
+                    />
+                    {hasAnnotations(photo.annotations) && (
+                      <div dangerouslySetInnerHTML={{ __html: annotationSvg(photo.annotations, 'slice') }} />
+                    )}
+                  </div>
                   {photo.caption && (
                     <div className="p-2 bg-slate-50">
                       <p className="text-sm text-slate-600">{photo.caption}</p>
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { X, Play, AlertCircle } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { X, Play, AlertCircle, Lock } from 'lucide-react';
+import { workSessionRepository } from '../../lib/workSessionRepository';
+import { lotoChecklist } from '../../lib/safety';
+import { useAuth } from '../../contexts/AuthContext';
 import type { ProcedureTemplate, WorkOrderPhase } from '../../types/database';
 
 interface StartWorkSessionProps {
@@ -18,8 +20,10 @@ export default function StartWorkSession({
   onClose,
   onSuccess,
 }: StartWorkSessionProps) {
+  const { user } = useAuth();
   const [procedures, setProcedures] = useState<ProcedureTemplate[]>([]);
   const [selectedProcedure, setSelectedProcedure] = useState('');
+  const [checked, setChecked] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -29,17 +33,10 @@ export default function StartWorkSession({
 
   const loadProcedures = async () => {
     try {
-      const { data, error } = await supabase
-        .from('procedure_templates')
-        .select('*')
-        .eq('phase', phase)
-        .eq('is_active', true)
-        .order('name');
+      const data = await workSessionRepository.loadProcedures(phase);
+      setProcedures(data);
 
-      if (error) throw error;
-      setProcedures(data || []);
-
-      if (data && data.length === 1) {
+      if (data.length === 1) {
         setSelectedProcedure(data[0].id);
       }
     } catch (err: any) {
@@ -47,45 +44,40 @@ export default function StartWorkSession({
     }
   };
 
+  const procedure = procedures.find((p) => p.id === selectedProcedure);
+  const checklist = procedure ? lotoChecklist(procedure) : [];
+  const checklistComplete = checklist.length > 0 && checklist.every((_, index) => checked.has(index));
+
+  const selectProcedure = (id: string) => {
+    setSelectedProcedure(id);
+    setChecked(new Set());
+  };
+
+  const toggleItem = (index: number) => {
+    const next = new Set(checked);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setChecked(next);
+  };
+
   const handleStart = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
+      if (!checklistComplete) throw new Error('Confirm every lockout/tagout item before starting');
 
-      const { data: sessionData, error: sessionError } = await supabase
-        .from('work_sessions')
-        .insert([
-          {
-            work_order_id: workOrderId,
-            procedure_template_id: selectedProcedure,
-            technician_id: user.id,
-            status: 'in_progress',
-            progress_percentage: 0,
-            started_at: new Date().toISOString(),
-          },
-        ])
-        .select()
-        .single();
-
-      if (sessionError) throw sessionError;
-
-      const { error: assignmentError } = await supabase
-        .from('work_order_assignments')
-        .update({
-          status: 'in_progress',
-          started_at: new Date().toISOString(),
-        })
-        .eq('id', assignmentId);
-
-      if (assignmentError) throw assignmentError;
-
-      onSuccess(sessionData.id);
+      const newSessionId = await workSessionRepository.createSession({
+        workOrderId,
+        procedureTemplateId: selectedProcedure,
+        technicianId: user.id,
+        assignmentId,
+        lotoItems: checklist,
+      });
+
+      onSuccess(newSessionId);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -106,7 +98,7 @@ export default function StartWorkSession({
           </button>
         </div>
 
-        <form onSubmit={handleStart} className="p-6 space-y-4">
+        <form onSubmit={handleStart} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
               <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
@@ -135,7 +127,7 @@ export default function StartWorkSession({
               <select
                 required
                 value={selectedProcedure}
-                onChange={(e) => setSelectedProcedure(e.target.value)}
+                onChange={(e) => selectProcedure(e.target.value)}
                 className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
               >
                 {procedures.length > 1 && <option value="">Choose a procedure</option>}
@@ -158,6 +150,31 @@ export default function StartWorkSession({
             </div>
           )}
 
+          {checklist.length > 0 && (
+            <div className="border border-amber-200 bg-amber-50 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <Lock className="w-4 h-4 text-amber-700" />
+                <h3 className="text-sm font-semibold text-amber-900">Lockout/Tagout Checklist *</h3>
+              </div>
+              <div className="space-y-2">
+                {checklist.map((item, index) => (
+                  <label key={index} className="flex items-start gap-2 text-sm text-amber-900">
+                    <input
+                      type="checkbox"
+                      checked={checked.has(index)}
+                      onChange={() => toggleItem(index)}
+                      className="mt-0.5 rounded border-amber-300"
+                    />
+                    {item}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-amber-700 mt-3">
+                Your confirmation is recorded with your name and the time.
+              </p>
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -168,7 +185,7 @@ export default function StartWorkSession({
             </button>
             <button
               type="submit"
-              disabled={loading || !selectedProcedure}
+              disabled={loading || !selectedProcedure || !checklistComplete}
               className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Starting...' : 'Start Work'}
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { X, FileText, CheckCircle, Camera } from 'lucide-react';
+import { annotationSvg, hasAnnotations } from '../../lib/photoAnnotations';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatMeasurement } from '../../lib/measurements';
+import { equipmentDetailEntries } from '../../lib/units';
+import type { SafetyReportEntry } from '../../lib/safety';
+import { X, FileText, CheckCircle, Camera, ShieldCheck } from 'lucide-react';
 
 interface ViewPhaseReportProps {
   sessionId: string;
@@ -8,6 +13,7 @@ interface ViewPhaseReportProps {
 }
 
 export default function ViewPhaseReport({ sessionId, onClose }: ViewPhaseReportProps) {
+  const { displayUnits } = useAuth();
   const [report, setReport] = useState<any>(null);
   const [steps, setSteps] = useState<any[]>([]);
   const [completions, setCompletions] = useState<any[]>([]);
@@ -181,7 +187,7 @@ export default function ViewPhaseReport({ sessionId, onClose }: ViewPhaseReportP
                               {Object.entries(completion.measurements).map(([key, value]) => (
                                 value && (
                                   <p key={key} className="text-xs text-slate-600">
-                                    <span className="font-medium">{key}:</span> {value as string}
+                                    <span className="font-medium">{key}:</span> {formatMeasurement(value, displayUnits)}
                                   </p>
                                 )
                               ))}
@@ -206,6 +212,30 @@ export default function ViewPhaseReport({ sessionId, onClose }: ViewPhaseReportP
             </div>
           </div>
 
+          {report.phase_report?.safety_acknowledgments?.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-700 mb-3">Safety Acknowledgments</h3>
+              <div className="space-y-2">
+                {report.phase_report.safety_acknowledgments.map((entry: SafetyReportEntry, index: number) => (
+                  <div key={index} className="p-3 rounded-lg border border-slate-200 bg-slate-50 text-sm">
+                    <div className="flex items-center gap-2">
+                      <ShieldCheck className="w-4 h-4 text-green-600" />
+                      <span className="font-medium text-slate-900">{entry.label}</span>
+                    </div>
+                    <ul className="mt-1 ml-6 list-disc list-inside text-xs text-slate-600">
+                      {entry.items.map((item) => (
+                        <li key={item}>{item}</li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-slate-500 mt-1 ml-6">
+                      {entry.acknowledged_by} · {new Date(entry.acknowledged_at).toLocaleString()}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {photos.length > 0 && (
             <div>
               <h3 className="text-sm font-medium text-slate-700 mb-3">Photos ({photos.length})</h3>
@@ -217,6 +247,9 @@ export default function ViewPhaseReport({ sessionId, onClose }: ViewPhaseReportP
                       alt={photo.caption || 'Session photo'}
                       className="w-full h-full object-cover"
                     />
+                    {hasAnnotations(photo.annotations) && (
+                      <div dangerouslySetInnerHTML={{ __html: annotationSvg(photo.annotations, 'slice') }} />
+                    )}
                     {photo.caption && (
                       <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-60 text-white text-xs p-2">
                         {photo.caption}
@@ -233,10 +266,10 @@ export default function ViewPhaseReport({ sessionId, onClose }: ViewPhaseReportP
               <h3 className="text-sm font-medium text-slate-700 mb-2">Equipment Details</h3>
               <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
                 <div className="grid grid-cols-2 gap-3 text-sm">
-                  {Object.entries(report.phase_report.equipment_details).map(([key, value]) => (
-                    <div key={key}>
-                      <span className="text-slate-500 font-medium">{key.replace(/_/g, ' ')}:</span>
-                      <span className="ml-2 text-slate-900">{value as string}</span>
+                  {equipmentDetailEntries(report.phase_report.equipment_details, displayUnits).map(([label, value]) => (
+                    <div key={label}>
+                      <span className="text-slate-500 font-medium">{label}:</span>
+                      <span className="ml-2 text-slate-900">{value}</span>
                     </div>
                   ))}
                 </div>
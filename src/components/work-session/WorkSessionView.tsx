@@ -1,14 +1,23 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, CheckCircle, Circle, AlertCircle, Camera, MessageSquare } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { ArrowLeft, CheckCircle, Circle, AlertCircle, Camera, MessageSquare, SkipForward, GitBranch } from 'lucide-react';
+import { StepCompletionInput, workSessionRepository } from '../../lib/workSessionRepository';
+import { useAuth } from '../../contexts/AuthContext';
 import type {
+  DecisionOutcome,
+  SafetyAcknowledgment,
   WorkSession,
   ProcedureStep,
   StepCompletion,
-  WorkOrderPhase,
 } from '../../types/database';
 import AIAssistant from '../shared/AIAssistant';
 import PhotoCapture from '../shared/PhotoCapture';
+import MeasurementInputs from '../shared/MeasurementInputs';
+import SafetyAcknowledgmentPanel from '../shared/SafetyAcknowledgmentPanel';
+import StepTimer from '../shared/StepTimer';
+import { evaluateMeasurements } from '../../lib/measurements';
+import { decisionOutcomes, resolveRoute } from '../../lib/procedureRouting';
+import { findAcknowledgment, requiresAcknowledgment } from '../../lib/safety';
+import { formatDuration, parseDuration } from '../../lib/timeTracking';
 import EquipmentIdentificationForm from './EquipmentIdentificationForm';
 import PhaseReportReview from './PhaseReportReview';
 
@@ -18,10 +27,11 @@ interface WorkSessionViewProps {
 }
 
 export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewProps) {
+  const { user } = useAuth();
   const [session, setSession] = useState<WorkSession | null>(null);
   const [steps, setSteps] = useState<ProcedureStep[]>([]);
   const [completions, setCompletions] = useState<StepCompletion[]>([]);
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [acknowledgments, setAcknowledgments] = useState<SafetyAcknowledgment[]>([]);
   const [showAI, setShowAI] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
   const [measurements, setMeasurements] = useState<Record<string, string>>({});
@@ -37,61 +47,17 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
 
   const loadSession = async () => {
     try {
-      const { data: sessionData, error: sessionError } = await supabase
-        .from('work_sessions')
-        .select(
-          `
-          *,
-          procedure_template:procedure_templates(*)
-        `
-        )
-        .eq('id', sessionId)
-        .single();
-
-      if (sessionError) throw sessionError;
-      setSession(sessionData);
-
-      const { data: woData, error: woError } = await supabase
-        .from('work_orders')
-        .select(
-          `
-          *,
-          equipment_unit:equipment_units (
-            serial_number,
-            equipment_model:equipment_models (
-              model_number,
-              manufacturer:manufacturers (name)
-            )
-          ),
-          customer:customers (company_name)
-        `
-        )
-        .eq('id', sessionData.work_order_id)
-        .maybeSingle();
+      const snapshot = await workSessionRepository.loadSession(sessionId);
+      setSession(snapshot.session);
 
-      if (!woError && woData) {
+      const woData = await workSessionRepository.loadWorkOrder(snapshot.session.work_order_id);
+      if (woData) {
         setWorkOrderData(woData);
       }
 
-      const { data: stepsData, error: stepsError } = await supabase
-        .from('procedure_steps')
-        .select('*')
-        .eq('procedure_template_id', sessionData.procedure_template_id)
-        .order('step_number');
-
-      if (stepsError) throw stepsError;
-      setSteps(stepsData || []);
-
-      const { data: completionsData, error: completionsError } = await supabase
-        .from('step_completions')
-        .select('*')
-        .eq('work_session_id', sessionId);
-
-      if (completionsError) throw completionsError;
-      setCompletions(completionsData || []);
-
-      const completedCount = completionsData?.filter((c) => c.status === 'completed').length || 0;
-      setCurrentStepIndex(completedCount);
+      setSteps(snapshot.steps);
+      setCompletions(snapshot.completions);
+      setAcknowledgments(snapshot.acknowledgments);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -99,54 +65,56 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
     }
   };
 
+  const route = resolveRoute(steps, completions);
+  const currentStep = route.current;
+
+  const advance = (step: ProcedureStep, input: StepCompletionInput) =>
+    workSessionRepository.advance({ sessionId, steps, completions }, step.id, input);
+
+  const needsAcknowledgment =
+    !!currentStep && requiresAcknowledgment(currentStep) && !findAcknowledgment(acknowledgments, currentStep.id);
+
+  const handleAcknowledge = async (items: string[]) => {
+    if (!user || !currentStep) return;
+
+    try {
+      const acknowledgment = await workSessionRepository.acknowledgeSafety(sessionId, currentStep.id, items, user.id);
+      setAcknowledgments([...acknowledgments, acknowledgment]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleTimer = async (running: boolean) => {
+    if (!session || !currentStep) return;
+
+    try {
+      const stepTimers = await workSessionRepository.setStepTimer(sessionId, currentStep.id, running);
+      setSession({ ...session, step_timers: stepTimers });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   const handleEquipmentComplete = async (equipmentDetails: any) => {
-    if (!session || currentStepIndex >= steps.length) return;
+    if (!session || !currentStep) return;
 
     setLoading(true);
     setError('');
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const currentStep = steps[currentStepIndex];
-
-      const { error: updateSessionError } = await supabase
-        .from('work_sessions')
-        .update({ equipment_details: equipmentDetails })
-        .eq('id', sessionId);
-
-      if (updateSessionError) throw updateSessionError;
-
-      const { error: insertError } = await supabase.from('step_completions').insert([
-        {
-          work_session_id: sessionId,
-          step_id: currentStep.id,
-          status: 'completed',
-          result: 'pass',
-          measurements: equipmentDetails,
-          observations: 'Equipment identification completed',
-          completed_by: user.id,
-          completed_at: new Date().toISOString(),
-        },
-      ]);
-
-      if (insertError) throw insertError;
-
-      const newProgress = Math.round(((currentStepIndex + 1) / steps.length) * 100);
-      const { error: updateError } = await supabase
-        .from('work_sessions')
-        .update({
-          progress_percentage: newProgress,
-          current_step_id: currentStepIndex + 1 < steps.length ? steps[currentStepIndex + 1].id : null,
-        })
-        .eq('id', sessionId);
-
-      if (updateError) throw updateError;
-
-      setCurrentStepIndex(currentStepIndex + 1);
+      await workSessionRepository.updateSession(sessionId, { equipment_details: equipmentDetails });
+
+      await advance(currentStep, {
+        status: 'completed',
+        result: 'pass',
+        measurements: equipmentDetails,
+        observations: 'Equipment identification completed',
+        completed_by: user.id,
+      });
+
       loadSession();
     } catch (err: any) {
       setError(err.message);
@@ -155,49 +123,45 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
     }
   };
 
-  const handleCompleteStep = async () => {
-    if (!session || currentStepIndex >= steps.length) return;
+  const handleCompleteStep = async (outcome?: DecisionOutcome) => {
+    if (!session || !currentStep) return;
 
     setLoading(true);
     setError('');
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const currentStep = steps[currentStepIndex];
-
-      const { error: insertError } = await supabase.from('step_completions').insert([
-        {
-          work_session_id: sessionId,
-          step_id: currentStep.id,
-          status: 'completed',
-          result: 'pass',
-          measurements,
-          observations,
-          completed_by: user.id,
-          completed_at: new Date().toISOString(),
-        },
-      ]);
-
-      if (insertError) throw insertError;
-
-      const newProgress = Math.round(((currentStepIndex + 1) / steps.length) * 100);
-      const { error: updateError } = await supabase
-        .from('work_sessions')
-        .update({
-          progress_percentage: newProgress,
-          current_step_id: currentStepIndex + 1 < steps.length ? steps[currentStepIndex + 1].id : null,
-        })
-        .eq('id', sessionId);
-
-      if (updateError) throw updateError;
+      const evaluation = evaluateMeasurements(
+        currentStep,
+        measurements,
+        workOrderData?.equipment_unit?.equipment_model?.tolerances
+      );
+
+      if (
+        evaluation.outOfSpec.length > 0 &&
+        !confirm(
+          `${evaluation.outOfSpec.map((r) => r.parameter).join(', ')} out of tolerance. ` +
+            'The step will be marked failed and out-of-spec findings recorded. Continue?'
+        )
+      ) {
+        return;
+      }
+
+      // Out-of-spec readings fail the step whichever way the decision went
+      const result = evaluation.result === 'fail' ? 'fail' : outcome?.result || evaluation.result || 'pass';
+
+      await advance(currentStep, {
+        status: 'completed',
+        result,
+        measurements: evaluation.readings,
+        observations,
+        completed_by: user.id,
+        outcome: outcome?.id || null,
+      });
 
       setMeasurements({});
       setObservations('');
-      setCurrentStepIndex(currentStepIndex + 1);
       loadSession();
     } catch (err: any) {
       setError(err.message);
@@ -228,9 +192,12 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
     );
   }
 
-  const currentStep = steps[currentStepIndex];
-  const progress = steps.length > 0 ? Math.round((currentStepIndex / steps.length) * 100) : 0;
-  const isComplete = currentStepIndex >= steps.length;
+  const outcomes = currentStep ? decisionOutcomes(currentStep) : [];
+  const progress = steps.length > 0 ? route.progress : 0;
+  const isComplete = steps.length > 0 && !currentStep;
+  // Counted along the path being taken, which branches can shorten or lengthen
+  const stepPosition = route.taken.length + route.pendingSkips.length + 1;
+  const pathLength = stepPosition + route.remaining.length;
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -255,7 +222,7 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
 
           <div className="flex items-center gap-3 mb-2">
             <span className="text-sm font-medium text-slate-600">
-              Step {currentStepIndex + 1} of {steps.length}
+              {isComplete ? `${route.taken.length} steps` : `Step ${stepPosition} of ${pathLength}`}
             </span>
             <div className="flex-1 bg-slate-200 rounded-full h-2">
               <div
@@ -293,6 +260,12 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
             </div>
 
             <div className="p-6 space-y-6">
+              <StepTimer
+                intervals={session?.step_timers?.[currentStep.id]}
+                estimatedTime={currentStep.estimated_time}
+                onToggle={handleTimer}
+              />
+
               {currentStep.title === 'Equipment Identification' && workOrderData ? (
                 <EquipmentIdentificationForm
                   initialData={{
@@ -305,16 +278,12 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
                 />
               ) : (
                 <>
-                  {currentStep.safety_notes && (
-                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
-                      <div className="flex items-start gap-3">
-                        <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
-                        <div>
-                          <h3 className="font-semibold text-amber-900 mb-1">Safety Note</h3>
-                          <p className="text-sm text-amber-800">{currentStep.safety_notes}</p>
-                        </div>
-                      </div>
-                    </div>
+                  {requiresAcknowledgment(currentStep) && (
+                    <SafetyAcknowledgmentPanel
+                      step={currentStep}
+                      acknowledgment={findAcknowledgment(acknowledgments, currentStep.id)}
+                      onAcknowledge={handleAcknowledge}
+                    />
                   )}
 
                   <div>
@@ -322,29 +291,12 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
                     <p className="text-slate-700 whitespace-pre-wrap">{currentStep.instructions}</p>
                   </div>
 
-              {currentStep.measurements_required && currentStep.measurements_required.length > 0 && (
-                <div>
-                  <h3 className="font-semibold text-slate-900 mb-3">Measurements</h3>
-                  <div className="space-y-3">
-                    {currentStep.measurements_required.map((measurement: any, idx: number) => (
-                      <div key={idx} className="flex items-center gap-3">
-                        <label className="flex-1 text-sm font-medium text-slate-700">
-                          {measurement.name}
-                        </label>
-                        <input
-                          type="text"
-                          placeholder={measurement.unit || 'Value'}
-                          value={measurements[measurement.name] || ''}
-                          onChange={(e) =>
-                            setMeasurements({ ...measurements, [measurement.name]: e.target.value })
-                          }
-                          className="w-40 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                        />
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+              <MeasurementInputs
+                step={currentStep}
+                tolerances={workOrderData?.equipment_unit?.equipment_model?.tolerances}
+                values={measurements}
+                onChange={setMeasurements}
+              />
 
               <div>
                 <h3 className="font-semibold text-slate-900 mb-3">Observations</h3>
@@ -379,6 +331,38 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
                 </div>
               )}
 
+                  {outcomes.length > 0 && (
+                    <div className="pt-4">
+                      <h3 className="font-semibold text-slate-900 mb-3">Decision</h3>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {outcomes.map((outcome) => {
+                          const target = steps.find((s) => s.id === outcome.next_step_id);
+                          return (
+                            <button
+                              key={outcome.id}
+                              onClick={() => handleCompleteStep(outcome)}
+                              disabled={loading || needsAcknowledgment}
+                              className={`px-4 py-3 rounded-lg border-2 text-left transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                                outcome.result === 'fail'
+                                  ? 'border-red-200 hover:bg-red-50'
+                                  : 'border-blue-200 hover:bg-blue-50'
+                              }`}
+                            >
+                              <p className="font-medium text-slate-900">{outcome.label}</p>
+                              <p className="text-xs text-slate-500 mt-1">
+                                {outcome.ends_procedure
+                                  ? 'Ends the procedure'
+                                  : target
+                                  ? `Continues at step ${target.step_number}: ${target.title}`
+                                  : 'Continues to the next step'}
+                              </p>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="flex gap-3 pt-4">
                     <button
                       onClick={() => setShowAI(true)}
@@ -386,23 +370,27 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
                     >
                       Need Help?
                     </button>
-                    <button
-                      onClick={async () => {
-                        setObservations('Not Applicable');
-                        await handleCompleteStep();
-                      }}
-                      disabled={loading}
-                      className="px-6 py-3 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      Not Applicable
-                    </button>
-                    <button
-                      onClick={handleCompleteStep}
-                      disabled={loading}
-                      className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      {loading ? 'Completing...' : 'Complete Step'}
-                    </button>
+                    {outcomes.length === 0 && (
+                      <>
+                        <button
+                          onClick={async () => {
+                            setObservations('Not Applicable');
+                            await handleCompleteStep();
+                          }}
+                          disabled={loading || needsAcknowledgment}
+                          className="px-6 py-3 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Not Applicable
+                        </button>
+                        <button
+                          onClick={() => handleCompleteStep()}
+                          disabled={loading || needsAcknowledgment}
+                          className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {loading ? 'Completing...' : 'Complete Step'}
+                        </button>
+                      </>
+                    )}
                   </div>
                 </>
               )}
@@ -413,10 +401,14 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
         <div className="mt-6 bg-white rounded-lg shadow-sm p-6">
           <h3 className="font-semibold text-slate-900 mb-4">All Steps</h3>
           <div className="space-y-2">
-            {steps.map((step, idx) => {
+            {steps.map((step) => {
               const completion = completions.find((c) => c.step_id === step.id);
-              const isCompleted = completion?.status === 'completed';
-              const isCurrent = idx === currentStepIndex;
+              const isCompleted = completion?.status === 'completed' || completion?.status === 'failed';
+              const isSkipped = completion?.status === 'skipped';
+              const isBypassed = !completion && route.bypassed.has(step.id);
+              const isCurrent = step.id === currentStep?.id;
+              const chosen = decisionOutcomes(step).find((o) => o.id === completion?.outcome);
+              const timeSpent = isCompleted ? parseDuration(completion?.time_spent) : null;
 
               return (
                 <div
@@ -426,11 +418,15 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
                       ? 'border-blue-200 bg-blue-50'
                       : isCompleted
                       ? 'border-green-200 bg-green-50'
+                      : isSkipped || isBypassed
+                      ? 'border-slate-200 bg-slate-50 opacity-60'
                       : 'border-slate-200'
                   }`}
                 >
                   {isCompleted ? (
                     <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                  ) : isSkipped || isBypassed ? (
+                    <SkipForward className="w-5 h-5 text-slate-400 flex-shrink-0" />
                   ) : (
                     <Circle className="w-5 h-5 text-slate-400 flex-shrink-0" />
                   )}
@@ -442,7 +438,20 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
                     >
                       {step.step_number}. {step.title}
                     </p>
+                    {chosen && (
+                      <p className="text-xs text-slate-600 flex items-center gap-1 mt-0.5">
+                        <GitBranch className="w-3 h-3" />
+                        {chosen.label}
+                      </p>
+                    )}
+                    {isSkipped && completion?.observations && (
+                      <p className="text-xs text-slate-500 mt-0.5">{completion.observations}</p>
+                    )}
+                    {isBypassed && <p className="text-xs text-slate-500 mt-0.5">Not on this path</p>}
                   </div>
+                  {timeSpent !== null && (
+                    <span className="text-xs text-slate-500 tabular-nums">{formatDuration(timeSpent)}</span>
+                  )}
                   {isCurrent && (
                     <span className="text-xs font-semibold text-blue-600 bg-blue-100 px-2 py-1 rounded">
                       Current
@@ -460,8 +469,8 @@ export default function WorkSessionView({ sessionId, onExit }: WorkSessionViewPr
           workSessionId={sessionId}
           currentStep={currentStep}
           context={{
-            step_number: currentStepIndex + 1,
-            total_steps: steps.length,
+            step_number: stepPosition,
+            total_steps: pathLength,
             measurements,
             observations,
           }}
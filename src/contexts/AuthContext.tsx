@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { DEFAULT_DISPLAY_UNITS, DisplayUnits } from '../lib/units';
 
 interface UserProfile {
   id: string;
@@ -9,6 +10,7 @@ interface UserProfile {
   certification_level: string | null;
   employee_id: string | null;
   phone: string | null;
+  display_units: Partial<DisplayUnits> | null;
 }
 
 interface AuthContextType {
@@ -16,6 +18,8 @@ interface AuthContextType {
   profile: UserProfile | null;
   session: Session | null;
   loading: boolean;
+  displayUnits: DisplayUnits;
+  updateDisplayUnits: (units: Partial<DisplayUnits>) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, fullName: string) => Promise<void>;
   signOut: () => Promise<void>;
@@ -99,13 +103,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateDisplayUnits = async (units: Partial<DisplayUnits>) => {
+    if (!profile) return;
+
+    const { error } = await supabase
+      .from('users')
+      .update({ display_units: units })
+      .eq('id', profile.id);
+
+    if (error) throw error;
+    setProfile({ ...profile, display_units: units });
+  };
+
+  const displayUnits = { ...DEFAULT_DISPLAY_UNITS, ...profile?.display_units };
+
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
   };
 
   return (
-    <AuthContext.Provider value={{ user, profile, session, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, profile, session, loading, displayUnits, updateDisplayUnits, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,193 @@
+import { supabase } from './supabase';
+import type {
+  ApprovalDelegation,
+  ApprovalPolicy,
+  ApprovalStatus,
+  ApproverRole,
+  WorkOrderApproval,
+  WorkOrderApprovalStep,
+} from '../types/database';
+
+export const APPROVER_ROLE_LABELS: Record<ApproverRole, string> = {
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+export type PolicyInput = Omit<ApprovalPolicy, 'id' | 'created_at' | 'updated_at'>;
+export type DelegationInput = Omit<ApprovalDelegation, 'id' | 'created_at' | 'delegator' | 'delegate'>;
+
+// Where a request stands, in the words shown on the work order
+export interface ChainState {
+  label: string;
+  tone: 'waiting' | 'approved' | 'rejected' | 'review';
+  waitingOn: ApproverRole | null;
+}
+
+// Mirrors prepare_approval_request(): the active policy with the highest
+// threshold the cost reaches, so requesters can see who will sign off
+export function policyFor(policies: ApprovalPolicy[], estimatedCost: number): ApprovalPolicy | null {
+  return (
+    policies
+      .filter((policy) => policy.is_active && policy.min_estimated_cost <= estimatedCost)
+      .sort((a, b) => b.min_estimated_cost - a.min_estimated_cost)[0] || null
+  );
+}
+
+export function describeChain(roles: ApproverRole[]): string {
+  return roles.map((role) => APPROVER_ROLE_LABELS[role]).join(' → ');
+}
+
+export function currentStep(steps: WorkOrderApprovalStep[]): WorkOrderApprovalStep | null {
+  return [...steps].sort((a, b) => a.step_order - b.step_order).find((step) => step.status === 'pending') || null;
+}
+
+// Mirrors decide_approval_step(): nobody signs two steps of the same request
+export function signedEarlierStep(steps: WorkOrderApprovalStep[], userId: string | undefined): boolean {
+  return (
+    !!userId &&
+    steps.some(
+      (step) =>
+        (step.status === 'approved' || step.status === 'rejected') &&
+        (step.decided_by === userId || step.on_behalf_of === userId)
+    )
+  );
+}
+
+export function chainState(approval: WorkOrderApproval, steps: WorkOrderApprovalStep[] = approval.steps || []): ChainState {
+  const waiting = currentStep(steps);
+  const rejected = steps.some((step) => step.status === 'rejected');
+
+  if (approval.pre_approved) {
+    if (waiting) {
+      return { label: `Pre-approved · ${APPROVER_ROLE_LABELS[waiting.required_role]} review due`, tone: 'review', waitingOn: waiting.required_role };
+    }
+    return rejected
+      ? { label: 'Pre-approved · flagged on review', tone: 'rejected', waitingOn: null }
+      : { label: 'Pre-approved · reviewed', tone: 'approved', waitingOn: null };
+  }
+
+  if (approval.status === 'pending' && waiting) {
+    const position = steps.length > 1 ? ` (${waiting.step_order} of ${steps.length})` : '';
+    return { label: `Waiting on ${APPROVER_ROLE_LABELS[waiting.required_role]}${position}`, tone: 'waiting', waitingOn: waiting.required_role };
+  }
+
+  const labels: Record<ApprovalStatus, string> = {
+    pending: 'Waiting on a manager',
+    approved: 'Approved',
+    rejected: 'Rejected',
+    cancelled: approval.customer_decision === 'changes_requested' ? 'Customer requested changes' : 'Cancelled',
+  };
+  const tones: Record<ApprovalStatus, ChainState['tone']> = {
+    pending: 'waiting',
+    approved: 'approved',
+    rejected: 'rejected',
+    cancelled: 'rejected',
+  };
+  return { label: labels[approval.status], tone: tones[approval.status], waitingOn: null };
+}
+
+export function validatePolicy(policy: PolicyInput): string | null {
+  if (!policy.name.trim()) return 'Give the policy a name';
+  if (!(policy.min_estimated_cost >= 0)) return 'The cost threshold cannot be negative';
+  if (policy.approver_roles.length === 0) return 'Add at least one approver';
+  return null;
+}
+
+class ApprovalChainService {
+  async listPolicies(): Promise<ApprovalPolicy[]> {
+    const { data, error } = await supabase
+      .from('approval_policies')
+      .select('*')
+      .order('min_estimated_cost');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async savePolicy(policy: PolicyInput, id?: string): Promise<void> {
+    const problem = validatePolicy(policy);
+    if (problem) throw new Error(problem);
+
+    const { error } = id
+      ? await supabase
+          .from('approval_policies')
+          .update({ ...policy, updated_at: new Date().toISOString() })
+          .eq('id', id)
+      : await supabase.from('approval_policies').insert(policy);
+
+    if (error) throw error;
+  }
+
+  async deletePolicy(id: string): Promise<void> {
+    const { error } = await supabase.from('approval_policies').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async loadSteps(approvalIds: string[]): Promise<Map<string, WorkOrderApprovalStep[]>> {
+    const steps = new Map<string, WorkOrderApprovalStep[]>();
+    if (approvalIds.length === 0) return steps;
+
+    const { data, error } = await supabase
+      .from('work_order_approval_steps')
+      .select(
+        `
+        *,
+        decider:users!work_order_approval_steps_decided_by_fkey (full_name),
+        delegator:users!work_order_approval_steps_on_behalf_of_fkey (full_name)
+      `
+      )
+      .in('approval_id', approvalIds)
+      .order('step_order');
+
+    if (error) throw error;
+    for (const step of (data || []) as WorkOrderApprovalStep[]) {
+      steps.set(step.approval_id, [...(steps.get(step.approval_id) || []), step]);
+    }
+    return steps;
+  }
+
+  // Signs off or rejects the step waiting on the caller; returns the request's
+  // status afterwards
+  async decide(approvalId: string, approve: boolean, notes: string): Promise<ApprovalStatus> {
+    const { data, error } = await supabase.rpc('decide_approval_step', {
+      p_approval_id: approvalId,
+      p_approve: approve,
+      p_notes: notes || null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listDelegations(): Promise<ApprovalDelegation[]> {
+    const { data, error } = await supabase
+      .from('approval_delegations')
+      .select(
+        `
+        *,
+        delegator:users!approval_delegations_delegator_id_fkey (full_name),
+        delegate:users!approval_delegations_delegate_id_fkey (full_name)
+      `
+      )
+      .gte('ends_on', new Date().toISOString().split('T')[0])
+      .order('starts_on');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createDelegation(delegation: DelegationInput): Promise<void> {
+    if (delegation.delegator_id === delegation.delegate_id) throw new Error('Choose someone else to cover');
+    if (delegation.ends_on < delegation.starts_on) throw new Error('The end date is before the start date');
+
+    const { error } = await supabase.from('approval_delegations').insert(delegation);
+    if (error) throw error;
+  }
+
+  async deleteDelegation(id: string): Promise<void> {
+    const { error } = await supabase.from('approval_delegations').delete().eq('id', id);
+    if (error) throw error;
+  }
+}
+
+export const approvalChains = new ApprovalChainService();
@@ -0,0 +1,209 @@
+import { supabase } from './supabase';
+import { formatMeasurement } from './measurements';
+import type { AuditAction, AuditLogEntry } from '../types/database';
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  work_orders: 'Work order',
+  work_order_approvals: 'Approval',
+  work_order_assignments: 'Assignment',
+  work_order_approval_steps: 'Approval sign-off',
+  step_completions: 'Step',
+};
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  current_phase: 'Phase',
+  assigned_to: 'Assigned to',
+  priority: 'Priority',
+  scheduled_date: 'Scheduled date',
+  approval_status: 'Approval status',
+  rejection_reason: 'Rejection reason',
+  qc_signed_off_by: 'QC signed off by',
+  qc_signed_off_at: 'QC signed off at',
+  phase_completed: 'Phase completed',
+  next_phase: 'Next phase',
+  approved_by: 'Decided by',
+  approval_notes: 'Approval notes',
+  estimated_cost: 'Estimated cost',
+  estimated_hours: 'Estimated hours',
+  pre_approved: 'Pre-approved',
+  reviewed_at: 'Reviewed at',
+  decided_by: 'Signed off by',
+  on_behalf_of: 'On behalf of',
+  notes: 'Notes',
+  phase: 'Phase',
+  result: 'Result',
+  outcome: 'Decision',
+  measurements: 'Measurements',
+  observations: 'Observations',
+  issues_found: 'Issues found',
+};
+
+const USER_FIELDS = ['assigned_to', 'approved_by', 'qc_signed_off_by', 'decided_by', 'on_behalf_of'];
+const PHASE_FIELDS = ['current_phase', 'phase_completed', 'next_phase', 'phase'];
+const TIMESTAMP_FIELDS = ['qc_signed_off_at', 'reviewed_at'];
+
+const ACTION_VERBS: Record<AuditAction, string> = {
+  insert: 'created',
+  update: 'updated',
+  delete: 'deleted',
+};
+
+// Names the rows an entry refers to by id, loaded alongside a page of entries
+export interface AuditContext {
+  users: Map<string, string>;
+  steps: Map<string, string>;
+  workOrders: Map<string, string>;
+}
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface AuditFilters {
+  tableName?: string;
+  action?: AuditAction;
+  changedBy?: string;
+  field?: string;
+  from?: string;
+  to?: string;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+function formatValue(field: string, value: unknown, context: AuditContext): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (USER_FIELDS.includes(field)) return context.users.get(String(value)) || 'Unknown user';
+  if (PHASE_FIELDS.includes(field)) return String(value).replace(/_/g, ' ');
+  if (TIMESTAMP_FIELDS.includes(field)) return new Date(String(value)).toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).replace(/_/g, ' ');
+}
+
+// Measurements are compared reading by reading so one corrected value doesn't
+// show as the whole set changing
+function measurementChanges(before: unknown, after: unknown): AuditChange[] {
+  const asReadings = (value: unknown) =>
+    value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const old = asReadings(before);
+  const next = asReadings(after);
+
+  return [...new Set([...Object.keys(old), ...Object.keys(next)])]
+    .filter((parameter) => JSON.stringify(old[parameter]) !== JSON.stringify(next[parameter]))
+    .map((parameter) => ({
+      field: 'measurements',
+      label: parameter,
+      before: formatMeasurement(old[parameter]) || '—',
+      after: formatMeasurement(next[parameter]) || '—',
+    }));
+}
+
+export function auditChanges(entry: AuditLogEntry, context: AuditContext): AuditChange[] {
+  return entry.changed_fields.flatMap((field) => {
+    const before = entry.old_values?.[field];
+    const after = entry.new_values?.[field];
+    if (field === 'measurements') return measurementChanges(before, after);
+
+    return [
+      {
+        field,
+        label: AUDIT_FIELD_LABELS[field] || field,
+        before: formatValue(field, before, context),
+        after: formatValue(field, after, context),
+      },
+    ];
+  });
+}
+
+export function describeAuditEntry(entry: AuditLogEntry, context: AuditContext): string {
+  const subject =
+    entry.table_name === 'step_completions'
+      ? context.steps.get(entry.record_id) || 'Step'
+      : AUDIT_TABLE_LABELS[entry.table_name] || entry.table_name;
+  return `${subject} ${ACTION_VERBS[entry.action]}`;
+}
+
+class AuditTrailService {
+  async forWorkOrder(workOrderId: string): Promise<AuditLogEntry[]> {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('work_order_id', workOrderId)
+      .order('changed_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async search(filters: AuditFilters, page: number): Promise<{ entries: AuditLogEntry[]; hasMore: boolean }> {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('changed_at', { ascending: false })
+      .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE);
+
+    if (filters.tableName) query = query.eq('table_name', filters.tableName);
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.changedBy) query = query.eq('changed_by', filters.changedBy);
+    if (filters.field) query = query.contains('changed_fields', [filters.field]);
+    if (filters.from) query = query.gte('changed_at', new Date(filters.from).toISOString());
+    if (filters.to) {
+      const end = new Date(filters.to);
+      end.setDate(end.getDate() + 1);
+      query = query.lt('changed_at', end.toISOString());
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // One extra row is fetched to tell whether another page exists
+    const entries = data || [];
+    return { entries: entries.slice(0, AUDIT_PAGE_SIZE), hasMore: entries.length > AUDIT_PAGE_SIZE };
+  }
+
+  async loadContext(entries: AuditLogEntry[]): Promise<AuditContext> {
+    const userIds = new Set<string>();
+    for (const entry of entries) {
+      for (const field of USER_FIELDS) {
+        for (const value of [entry.old_values?.[field], entry.new_values?.[field]]) {
+          if (typeof value === 'string') userIds.add(value);
+        }
+      }
+    }
+    const stepCompletionIds = entries.filter((e) => e.table_name === 'step_completions').map((e) => e.record_id);
+    const workOrderIds = [...new Set(entries.map((e) => e.work_order_id).filter((id): id is string => !!id))];
+
+    const context: AuditContext = { users: new Map(), steps: new Map(), workOrders: new Map() };
+
+    if (userIds.size > 0) {
+      const { data, error } = await supabase.from('users').select('id, full_name').in('id', [...userIds]);
+      if (error) throw error;
+      for (const user of data || []) context.users.set(user.id, user.full_name);
+    }
+
+    if (stepCompletionIds.length > 0) {
+      const { data, error } = await supabase
+        .from('step_completions')
+        .select('id, step:procedure_steps (step_number, title)')
+        .in('id', [...new Set(stepCompletionIds)]);
+      if (error) throw error;
+      for (const completion of data || []) {
+        const step = completion.step as unknown as { step_number: number; title: string } | null;
+        if (step) context.steps.set(completion.id, `Step ${step.step_number}. ${step.title}`);
+      }
+    }
+
+    if (workOrderIds.length > 0) {
+      const { data, error } = await supabase.from('work_orders').select('id, work_order_number').in('id', workOrderIds);
+      if (error) throw error;
+      for (const workOrder of data || []) context.workOrders.set(workOrder.id, workOrder.work_order_number);
+    }
+
+    return context;
+  }
+}
+
+export const auditTrail = new AuditTrailService();
@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import type { ApprovalLink, ApprovalStatus, CustomerDecision } from '../types/database';
+
+export const CUSTOMER_DECISION_LABELS: Record<CustomerDecision, string> = {
+  approved: 'Approved by customer',
+  rejected: 'Declined by customer',
+  changes_requested: 'Customer requested changes',
+};
+
+// What the public approval page shows, as returned by the customer-approval
+// edge function
+export interface CustomerApprovalDetails {
+  work_order_number: string;
+  customer_name: string | null;
+  equipment: string | null;
+  reported_issue: string | null;
+  findings_summary: string | null;
+  required_parts: Array<{ part_number: string; description: string; quantity: number; estimated_cost: number }>;
+  estimated_cost: number | null;
+  estimated_hours: number | null;
+  requested_at: string;
+  expires_at: string;
+  status: ApprovalStatus;
+  customer_decision: CustomerDecision | null;
+  customer_decided_at: string | null;
+  photos: Array<{ url: string; caption: string | null }>;
+}
+
+export interface CustomerDecisionInput {
+  decision: CustomerDecision;
+  signerName: string;
+  signerEmail?: string;
+  signatureData?: string;
+  comments?: string;
+}
+
+export type ApprovalLinkState = 'open' | 'viewed' | 'answered' | 'expired' | 'revoked';
+
+// Links put the token after a hash so it never reaches a web server's logs
+const LINK_PREFIX = '#approve=';
+
+export function approvalLinkUrl(token: string): string {
+  return `${window.location.origin}/${LINK_PREFIX}${token}`;
+}
+
+export function tokenFromLocation(hash: string = window.location.hash): string | null {
+  return hash.startsWith(LINK_PREFIX) ? hash.slice(LINK_PREFIX.length) || null : null;
+}
+
+export function linkState(link: ApprovalLink, now: Date = new Date()): ApprovalLinkState {
+  if (link.revoked_at) return 'revoked';
+  if (link.used_at) return 'answered';
+  if (new Date(link.expires_at) < now) return 'expired';
+  return link.viewed_at ? 'viewed' : 'open';
+}
+
+const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/customer-approval`;
+
+async function callFunction<T>(init: RequestInit, query = ''): Promise<T> {
+  const response = await fetch(`${functionUrl}${query}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || 'The approval service is unavailable');
+  return body as T;
+}
+
+class CustomerApprovalService {
+  async createLink(approvalId: string, customerEmail: string, validDays: number): Promise<string> {
+    const { data, error } = await supabase.rpc('create_approval_link', {
+      p_approval_id: approvalId,
+      p_customer_email: customerEmail || null,
+      p_valid_days: validDays,
+    });
+
+    if (error) throw error;
+    return approvalLinkUrl(data);
+  }
+
+  async listLinks(approvalId: string): Promise<ApprovalLink[]> {
+    const { data, error } = await supabase
+      .from('approval_links')
+      .select('id, approval_id, customer_email, expires_at, viewed_at, used_at, revoked_at, created_by, created_at')
+      .eq('approval_id', approvalId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async revokeLink(id: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_approval_link', { p_link_id: id });
+    if (error) throw error;
+  }
+
+  async loadSignature(signatureId: string): Promise<{ signer_name: string; signature_data: string; signed_at: string } | null> {
+    const { data, error } = await supabase
+      .from('signatures')
+      .select('signer_name, signature_data, signed_at')
+      .eq('id', signatureId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Public: used by the customer's browser without a session
+  async fetchDetails(token: string): Promise<CustomerApprovalDetails> {
+    return callFunction<CustomerApprovalDetails>({ method: 'GET' }, `?token=${encodeURIComponent(token)}`);
+  }
+
+  async submitDecision(token: string, input: CustomerDecisionInput): Promise<ApprovalStatus | CustomerDecision> {
+    const result = await callFunction<{ status: ApprovalStatus | CustomerDecision }>({
+      method: 'POST',
+      body: JSON.stringify({ token, ...input }),
+    });
+    return result.status;
+  }
+}
+
+export const customerApproval = new CustomerApprovalService();
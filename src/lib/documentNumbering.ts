@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+import type { DocumentNumberSequence, DocumentNumberType } from '../types/database';
+
+export const DOCUMENT_NUMBER_LABELS: Record<DocumentNumberType, string> = {
+  work_order: 'Work orders',
+  quote: 'Quotes',
+  purchase_order: 'Purchase orders',
+};
+
+export type DocumentNumberSettings = Pick<DocumentNumberSequence, 'prefix' | 'padding' | 'reset_yearly'>;
+
+// Mirrors next_document_number() so admins can see the effect of a change
+// before saving it; the number itself is always assigned by the database
+export function previewNextNumber(sequence: DocumentNumberSequence, settings: DocumentNumberSettings = sequence): string {
+  const year = new Date().getFullYear();
+  const next = settings.reset_yearly && sequence.current_year !== year ? 1 : sequence.last_value + 1;
+  const digits = String(next).padStart(settings.padding, '0');
+  return settings.reset_yearly ? `${settings.prefix}-${year}-${digits}` : `${settings.prefix}-${digits}`;
+}
+
+export function validateNumberSettings(settings: DocumentNumberSettings): string | null {
+  if (!/^[A-Za-z0-9]+$/.test(settings.prefix)) return 'Prefix must be letters and digits only';
+  if (!Number.isInteger(settings.padding) || settings.padding < 1 || settings.padding > 10) {
+    return 'Digits must be between 1 and 10';
+  }
+  return null;
+}
+
+class DocumentNumberingService {
+  async list(): Promise<DocumentNumberSequence[]> {
+    const { data, error } = await supabase
+      .from('document_number_sequences')
+      .select('*')
+      .order('document_type');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async update(documentType: DocumentNumberType, settings: DocumentNumberSettings): Promise<DocumentNumberSequence> {
+    const problem = validateNumberSettings(settings);
+    if (problem) throw new Error(problem);
+
+    const { data, error } = await supabase
+      .from('document_number_sequences')
+      .update({ ...settings, updated_at: new Date().toISOString() })
+      .eq('document_type', documentType)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const documentNumbering = new DocumentNumberingService();
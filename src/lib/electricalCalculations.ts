@@ -0,0 +1,280 @@
+import type { MeasurementResult } from '../types/database';
+import { convert, parseQuantity } from './units';
+
+export type CalculationId =
+  | 'voltage_imbalance'
+  | 'current_imbalance'
+  | 'ir_corrected_40c'
+  | 'polarization_index'
+  | 'winding_resistance_imbalance';
+
+// A value the engine reads or writes. `key` matches the field names used by the
+// motor test forms; `aliases` are the parameter names procedure steps use.
+// Readings entered in another unit ("2 GΩ", "77 °F") are converted to `unit`.
+interface CalculationField {
+  key: string;
+  unit: string | null;
+  aliases: string[];
+}
+
+interface CalculationDefinition {
+  id: CalculationId;
+  label: string;
+  inputs: CalculationField[];
+  // Inputs that may be left blank
+  optional?: string[];
+  output: CalculationField;
+  unit: string;
+  // Default acceptance limits, used when the step doesn't set its own
+  min: number | null;
+  max: number | null;
+  basis: string;
+  compute: (inputs: Record<string, number>) => number | null;
+}
+
+export interface CalculatedValue {
+  id: CalculationId;
+  label: string;
+  key: string;
+  value: number;
+  unit: string;
+  min: number | null;
+  max: number | null;
+  basis: string;
+  result: MeasurementResult;
+}
+
+const field = (key: string, unit: string | null, ...aliases: string[]): CalculationField => ({ key, unit, aliases });
+
+// NEMA MG 1: maximum deviation from the average, as a percentage of the average
+export function percentImbalance(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (average === 0) return null;
+  const deviation = Math.max(...values.map((value) => Math.abs(value - average)));
+  return (deviation / average) * 100;
+}
+
+// Spread between the highest and lowest value, as a percentage of the average
+export function percentSpread(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (average === 0) return null;
+  return ((Math.max(...values) - Math.min(...values)) / average) * 100;
+}
+
+// IEEE 43: insulation resistance halves for every 10 °C rise in winding temperature
+export function correctTo40C(megohms: number, windingTempC: number): number {
+  return megohms * Math.pow(0.5, (40 - windingTempC) / 10);
+}
+
+export function polarizationIndex(oneMinute: number, tenMinute: number): number | null {
+  return oneMinute > 0 ? tenMinute / oneMinute : null;
+}
+
+const CALCULATIONS: CalculationDefinition[] = [
+  {
+    id: 'voltage_imbalance',
+    label: 'Voltage Imbalance',
+    inputs: [
+      field('voltage_ab_v', 'V', 'voltage ab', 'supply voltage ab', 'voltage a-b', 'voltage l1-l2'),
+      field('voltage_bc_v', 'V', 'voltage bc', 'supply voltage bc', 'voltage b-c', 'voltage l2-l3'),
+      field('voltage_ca_v', 'V', 'voltage ca', 'supply voltage ca', 'voltage c-a', 'voltage l3-l1'),
+    ],
+    output: field('voltage_imbalance_pct', null, 'voltage imbalance', 'voltage unbalance'),
+    unit: '%',
+    min: null,
+    max: 1,
+    basis: 'NEMA MG 1 (derating required above 1%)',
+    compute: (v) => percentImbalance([v.voltage_ab_v, v.voltage_bc_v, v.voltage_ca_v]),
+  },
+  {
+    id: 'current_imbalance',
+    label: 'Current Imbalance',
+    inputs: [
+      field('current_a_a', 'A', 'current a', 'line current a', 'current l1', 'amps l1'),
+      field('current_b_a', 'A', 'current b', 'line current b', 'current l2', 'amps l2'),
+      field('current_c_a', 'A', 'current c', 'line current c', 'current l3', 'amps l3'),
+    ],
+    output: field('current_imbalance_pct', null, 'current imbalance', 'current unbalance'),
+    unit: '%',
+    min: null,
+    max: 10,
+    basis: 'NEMA MG 1 method, 10% limit',
+    compute: (v) => percentImbalance([v.current_a_a, v.current_b_a, v.current_c_a]),
+  },
+  {
+    id: 'ir_corrected_40c',
+    label: 'IR Corrected to 40 °C',
+    inputs: [
+      field('ir_megohms', 'MΩ', 'ir reading', 'insulation resistance', 'insulation resistance to ground', 'megger reading'),
+      // The seeded megger step records the winding temperature as "Temperature"
+      field('winding_temp_c', '°C', 'winding temperature', 'winding temp', 'temperature'),
+      field('ambient_temp_c', '°C', 'ambient temperature', 'ambient temp'),
+    ],
+    // Ambient is only used when the winding temperature wasn't recorded
+    optional: ['winding_temp_c', 'ambient_temp_c'],
+    output: field('ir_corrected_40c_megohms', 'MΩ', 'ir corrected', 'ir at 40c', 'corrected insulation resistance'),
+    unit: 'MΩ',
+    min: 5,
+    max: null,
+    basis: 'IEEE 43 (5 MΩ minimum for windings below 1 kV)',
+    compute: (v) => {
+      const temperature = v.winding_temp_c ?? v.ambient_temp_c;
+      return temperature === undefined ? null : correctTo40C(v.ir_megohms, temperature);
+    },
+  },
+  {
+    id: 'polarization_index',
+    label: 'Polarization Index',
+    inputs: [
+      field('ir_1min_megohms', 'MΩ', 'ir 1 min', 'ir 1 minute', 'ir at 1 min', '1 minute ir', '1-minute reading'),
+      field('ir_10min_megohms', 'MΩ', 'ir 10 min', 'ir 10 minute', 'ir at 10 min', '10 minute ir', '10-minute reading'),
+    ],
+    output: field('polarization_index', null, 'pi', 'pi ratio', 'polarization index'),
+    unit: '',
+    min: 2,
+    max: null,
+    basis: 'IEEE 43 (class B and above)',
+    compute: (v) => polarizationIndex(v.ir_1min_megohms, v.ir_10min_megohms),
+  },
+  {
+    id: 'winding_resistance_imbalance',
+    label: 'Winding Resistance Imbalance',
+    inputs: [
+      field('wres_ab_ohm', 'Ω', 'winding resistance ab', 'winding resistance a-b', 'resistance t1-t2', 'phase a resistance'),
+      field('wres_bc_ohm', 'Ω', 'winding resistance bc', 'winding resistance b-c', 'resistance t2-t3', 'phase b resistance'),
+      field('wres_ca_ohm', 'Ω', 'winding resistance ca', 'winding resistance c-a', 'resistance t3-t1', 'phase c resistance'),
+    ],
+    // "Variation" is generic (air gap steps use it too), so it only counts as
+    // this output next to the phase resistances; see calculationForOutput()
+    output: field('wres_imbalance_pct', null, 'winding resistance imbalance', 'resistance imbalance', 'variation'),
+    unit: '%',
+    min: null,
+    max: 5,
+    basis: 'Highest minus lowest over average, 5% limit',
+    compute: (v) => percentSpread([v.wres_ab_ohm, v.wres_bc_ohm, v.wres_ca_ohm]),
+  },
+];
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+
+const byName = new Map<string, string>();
+const inputUnits = new Map<string, string | null>();
+for (const calculation of CALCULATIONS) {
+  for (const { key, unit, aliases } of [...calculation.inputs, calculation.output]) {
+    [key, ...aliases].forEach((name) => byName.set(slug(name), key));
+    inputUnits.set(key, unit);
+  }
+}
+
+const toNumber = (raw: unknown, unit: string | null | undefined): number | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+
+  const quantity = parseQuantity(raw, unit);
+  if (quantity) return (unit ? convert(quantity.value, quantity.unit, unit) : null) ?? quantity.value;
+
+  const value = parseFloat(raw.replace(/,/g, ''));
+  return Number.isFinite(value) ? value : null;
+};
+
+// Maps a form field name or step parameter ("Supply Voltage AB (V)") to the
+// engine's key ("voltage_ab_v")
+export function calculationKeyFor(name: string): string | null {
+  return byName.get(slug(name)) || null;
+}
+
+// With `siblings` (the other fields of the same step or form), a name only
+// counts as a calculated output when the calculation's inputs are there too
+export function calculationForOutput(
+  name: string,
+  siblings?: string[]
+): Omit<CalculatedValue, 'value' | 'result' | 'key'> | null {
+  const key = calculationKeyFor(name);
+  const calculation = CALCULATIONS.find((c) => c.output.key === key);
+  if (!calculation) return null;
+
+  if (siblings) {
+    const available = new Set(siblings.map(calculationKeyFor));
+    const missing = calculation.inputs.some(
+      (input) => !available.has(input.key) && !calculation.optional?.includes(input.key)
+    );
+    if (missing) return null;
+  }
+
+  const { id, label, unit, min, max, basis } = calculation;
+  return { id, label, unit, min, max, basis };
+}
+
+export function isCalculatedField(name: string, siblings?: string[]): boolean {
+  return calculationForOutput(name, siblings) !== null;
+}
+
+const round = (value: number) => Number(value.toFixed(value >= 100 ? 1 : 2));
+
+// Runs every calculation whose inputs are present. `values` may be keyed by
+// either engine keys or the names used in the form or step.
+export function runCalculations(values: Record<string, unknown>): CalculatedValue[] {
+  const inputs: Record<string, number> = {};
+  for (const [name, raw] of Object.entries(values)) {
+    const key = calculationKeyFor(name);
+    const value = key ? toNumber(raw, inputUnits.get(key)) : null;
+    if (key && value !== null) inputs[key] = value;
+  }
+
+  const results: CalculatedValue[] = [];
+
+  for (const calculation of CALCULATIONS) {
+    const missing = calculation.inputs.some(
+      (input) => inputs[input.key] === undefined && !calculation.optional?.includes(input.key)
+    );
+    if (missing) continue;
+
+    const value = calculation.compute(inputs);
+    if (value === null || !Number.isFinite(value)) continue;
+
+    const { min, max } = calculation;
+    const fails = (min !== null && value < min) || (max !== null && value > max);
+
+    results.push({
+      id: calculation.id,
+      label: calculation.label,
+      key: calculation.output.key,
+      value: round(value),
+      unit: calculation.unit,
+      min,
+      max,
+      basis: calculation.basis,
+      result: fails ? 'fail' : 'pass',
+    });
+  }
+
+  return results;
+}
+
+// Writes calculated values into any of `names` that are derived fields,
+// returning the updated values. Other fields are left untouched.
+export function fillCalculatedFields(values: Record<string, string>, names: string[]): Record<string, string> {
+  const calculated = runCalculations(values);
+  const filled = { ...values };
+
+  for (const name of names) {
+    if (!isCalculatedField(name, names)) continue;
+
+    const key = calculationKeyFor(name);
+    const result = calculated.find((c) => c.key === key);
+    if (result) {
+      filled[name] = String(result.value);
+    } else {
+      delete filled[name];
+    }
+  }
+
+  return filled;
+}
@@ -0,0 +1,246 @@
+import type {
+  EquipmentModel,
+  MeasurementReading,
+  MeasurementResult,
+  MeasurementSpec,
+  ProcedureStep,
+  SeverityLevel,
+  ToleranceLimit,
+} from '../types/database';
+import { calculationForOutput, fillCalculatedFields, isCalculatedField, runCalculations } from './electricalCalculations';
+import {
+  DisplayUnits,
+  convert,
+  displayUnitFor,
+  formatQuantity,
+  isQuantity,
+  normalizeUnit,
+  parseQuantity,
+  toQuantity,
+} from './units';
+
+export interface MeasurementEvaluation {
+  readings: Record<string, MeasurementReading>;
+  result: MeasurementResult | null;
+  outOfSpec: MeasurementReading[];
+}
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// Accepts both the typed shape and the legacy { name, target } rows that
+// may still be sitting in offline caches.
+export function normalizeMeasurementSpecs(step: Pick<ProcedureStep, 'measurements_required'>): MeasurementSpec[] {
+  return (step.measurements_required || [])
+    .map((raw) => {
+      const spec = raw as Partial<MeasurementSpec> & { name?: string; target?: number };
+      return {
+        parameter: spec.parameter || spec.name || '',
+        unit: spec.unit ?? null,
+        nominal: toNumber(spec.nominal ?? spec.target),
+        min: toNumber(spec.min),
+        max: toNumber(spec.max),
+        instrument: spec.instrument ?? null,
+      };
+    })
+    .filter((spec) => spec.parameter);
+}
+
+// Equipment-specific tolerances are the most specific source, then the step's
+// acceptance criteria, then the limits written into the step itself.
+export function resolveLimits(
+  spec: MeasurementSpec,
+  acceptanceCriteria: Record<string, ToleranceLimit> | null | undefined,
+  tolerances: EquipmentModel['tolerances'] | null | undefined,
+  parameters?: string[]
+): Pick<MeasurementReading, 'nominal' | 'min' | 'max' | 'unit'> {
+  const limits = { nominal: spec.nominal, min: spec.min, max: spec.max, unit: normalizeUnit(spec.unit) };
+
+  for (const override of [acceptanceCriteria?.[spec.parameter], tolerances?.[spec.parameter]]) {
+    if (!override) continue;
+    if (!limits.unit && override.unit) limits.unit = normalizeUnit(override.unit);
+
+    // Limits written in another unit are converted into the spec's unit; one
+    // that can't be (a voltage against a resistance) is dropped, not misread
+    const inSpecUnit = (value: number | null | undefined) => {
+      const number = toNumber(value);
+      if (number === null || !override.unit || !limits.unit) return number;
+      if (normalizeUnit(override.unit) === limits.unit) return number;
+      return convert(number, override.unit, limits.unit);
+    };
+
+    if (override.nominal != null) limits.nominal = inSpecUnit(override.nominal);
+    if (override.min != null) limits.min = inSpecUnit(override.min);
+    if (override.max != null) limits.max = inSpecUnit(override.max);
+  }
+
+  // Calculated values (imbalance, PI, ...) fall back to their standard's limits
+  const calculation = calculationForOutput(spec.parameter, parameters);
+  if (calculation && limits.min === null && limits.max === null) {
+    limits.min = calculation.min;
+    limits.max = calculation.max;
+    limits.unit = limits.unit || calculation.unit || null;
+  }
+
+  return limits;
+}
+
+export function parseReading(raw: string): number | null {
+  const match = raw.replace(/,/g, '').match(/-?\d*\.?\d+(e-?\d+)?/i);
+  return match ? Number(match[0]) : null;
+}
+
+// Reads a value that may carry its own unit ("0.5 mm" against an inch spec)
+// and expresses it in the spec's unit. A unit that doesn't convert ("500 V"
+// against a MΩ spec) leaves the value empty so it is never judged.
+export function readValue(
+  raw: string,
+  specUnit: string | null
+): Pick<MeasurementReading, 'value' | 'original_unit' | 'canonical_value' | 'canonical_unit'> {
+  const quantity = parseQuantity(raw, specUnit);
+  if (!quantity) {
+    return { value: parseReading(raw), original_unit: null, canonical_value: null, canonical_unit: null };
+  }
+
+  return {
+    value: specUnit ? convert(quantity.value, quantity.unit, specUnit) : quantity.value,
+    original_unit: quantity.unit,
+    canonical_value: quantity.canonical_value,
+    canonical_unit: quantity.canonical_unit,
+  };
+}
+
+export function judgeReading(
+  value: number | null,
+  limits: Pick<MeasurementReading, 'min' | 'max'>
+): MeasurementResult | null {
+  if (value === null || (limits.min === null && limits.max === null)) return null;
+  if (limits.min !== null && value < limits.min) return 'fail';
+  if (limits.max !== null && value > limits.max) return 'fail';
+  return 'pass';
+}
+
+export function evaluateMeasurements(
+  step: Pick<ProcedureStep, 'measurements_required' | 'acceptance_criteria'>,
+  values: Record<string, string>,
+  tolerances?: EquipmentModel['tolerances'] | null
+): MeasurementEvaluation {
+  const now = new Date().toISOString();
+  const readings: Record<string, MeasurementReading> = {};
+  const specs = normalizeMeasurementSpecs(step);
+  const parameters = specs.map((spec) => spec.parameter);
+  const filled = fillCalculatedFields(values, parameters);
+
+  for (const spec of specs) {
+    const raw = (filled[spec.parameter] || '').trim();
+    if (!raw) continue;
+
+    const limits = resolveLimits(spec, step.acceptance_criteria, tolerances, parameters);
+    const reading = readValue(raw, limits.unit);
+
+    readings[spec.parameter] = {
+      parameter: spec.parameter,
+      ...reading,
+      raw,
+      ...limits,
+      instrument: spec.instrument,
+      result: judgeReading(reading.value, limits),
+      recorded_at: now,
+      calculated: isCalculatedField(spec.parameter, parameters),
+    };
+  }
+
+  // Values the step didn't ask for but can be derived from its readings are
+  // recorded too, judged against their standard's limits
+  const specKeys = new Set(parameters.map((parameter) => calculationForOutput(parameter, parameters)?.id));
+  for (const calculated of runCalculations(values)) {
+    if (specKeys.has(calculated.id) || readings[calculated.label]) continue;
+
+    readings[calculated.label] = {
+      parameter: calculated.label,
+      value: calculated.value,
+      raw: String(calculated.value),
+      unit: calculated.unit || null,
+      original_unit: null,
+      canonical_value: null,
+      canonical_unit: null,
+      nominal: null,
+      min: calculated.min,
+      max: calculated.max,
+      instrument: null,
+      result: calculated.result,
+      recorded_at: now,
+      calculated: true,
+    };
+  }
+
+  const judged = Object.values(readings).filter((r) => r.result !== null);
+  const outOfSpec = judged.filter((r) => r.result === 'fail');
+
+  return {
+    readings,
+    result: judged.length === 0 ? null : outOfSpec.length > 0 ? 'fail' : 'pass',
+    outOfSpec,
+  };
+}
+
+// Turns stored readings back into the raw strings the inputs edit. Calculated
+// values are left out; they are derived again from the inputs.
+export function readingInputs(measurements: Record<string, MeasurementReading | string> | null | undefined) {
+  const inputs: Record<string, string> = {};
+  for (const [key, value] of Object.entries(measurements || {})) {
+    if (typeof value !== 'string' && value?.calculated) continue;
+    inputs[key] = typeof value === 'string' ? value : value?.raw ?? '';
+  }
+  return inputs;
+}
+
+export function isMeasurementReading(value: unknown): value is MeasurementReading {
+  return typeof value === 'object' && value !== null && 'parameter' in value && 'raw' in value;
+}
+
+export function formatLimits(limits: Pick<MeasurementReading, 'min' | 'max' | 'nominal' | 'unit'>): string {
+  const unit = limits.unit ? ` ${limits.unit}` : '';
+  if (limits.min !== null && limits.max !== null) return `${limits.min}–${limits.max}${unit}`;
+  if (limits.min !== null) return `≥ ${limits.min}${unit}`;
+  if (limits.max !== null) return `≤ ${limits.max}${unit}`;
+  if (limits.nominal !== null) return `nominal ${limits.nominal}${unit}`;
+  return '';
+}
+
+// Shows the reading as entered, plus its value in the user's display unit when
+// that differs.
+export function formatMeasurement(value: unknown, displayUnits?: Partial<DisplayUnits> | null): string {
+  if (isQuantity(value)) return formatQuantity(value, displayUnits);
+  if (!isMeasurementReading(value)) return value == null ? '' : String(value);
+
+  // Only append the unit when the technician didn't type one
+  const enteredUnit = value.original_unit || value.unit;
+  const unit = enteredUnit && !parseQuantity(value.raw) ? ` ${enteredUnit}` : '';
+  const converted = displayConversion(value, displayUnits);
+  const limits = formatLimits(value);
+  const verdict = value.result ? ` ${value.result.toUpperCase()}` : '';
+  return `${value.raw}${unit}${converted ? ` (= ${converted})` : ''}${limits ? ` (spec ${limits})` : ''}${verdict}`;
+}
+
+export function displayConversion(
+  reading: Pick<MeasurementReading, 'canonical_value' | 'canonical_unit' | 'original_unit'>,
+  displayUnits?: Partial<DisplayUnits> | null
+): string | null {
+  if (reading.canonical_value == null || !reading.canonical_unit) return null;
+
+  const quantity = toQuantity(reading.canonical_value, reading.canonical_unit);
+  if (!quantity) return null;
+  if (normalizeUnit(displayUnitFor(quantity.dimension, displayUnits)) === reading.original_unit) return null;
+
+  return formatQuantity(quantity, displayUnits);
+}
+
+export function outOfSpecSeverity(reading: MeasurementReading): SeverityLevel {
+  if (reading.value === null) return 'moderate';
+
+  const limit = reading.min !== null && reading.value < reading.min ? reading.min : reading.max;
+  if (limit === null || limit === 0) return 'major';
+
+  return Math.abs(reading.value - limit) / Math.abs(limit) > 0.1 ? 'major' : 'moderate';
+}
@@ -1,4 +1,102 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type {
+  Photo,
+  PhaseReport,
+  ProcedureTemplate,
+  SafetyAcknowledgment,
+  StepCompletion,
+  WorkOrder,
+  WorkOrderApproval,
+  WorkOrderAssignment,
+  WorkOrderDocument,
+} from '../types/database';
+import type { ResumableUploadState } from './resumableUpload';
+
+export type SyncOperation = 'insert' | 'update' | 'delete';
+
+export interface SyncAttempt {
+  at: number;
+  code: string | null;
+  message: string;
+}
+
+export interface SyncQueueItem {
+  id?: number;
+  table: string;
+  operation: SyncOperation;
+  data: any;
+  timestamp: number;
+  retries: number;
+  baseRecord?: Record<string, unknown> | null;
+  attempts?: SyncAttempt[];
+}
+
+export interface DeadLetter {
+  id?: number;
+  table: string;
+  operation: SyncOperation;
+  data: Record<string, unknown>;
+  baseRecord: Record<string, unknown> | null;
+  queuedAt: number;
+  failedAt: number;
+  errorCode: string | null;
+  errorMessage: string;
+  attempts: SyncAttempt[];
+}
+
+export interface SyncConflict {
+  id?: number;
+  table: string;
+  operation: SyncOperation;
+  recordId: string;
+  local: Record<string, unknown>;
+  server: Record<string, unknown> | null;
+  base: Record<string, unknown> | null;
+  fields: string[];
+  detectedAt: number;
+}
+
+export interface WorkOrderPacket {
+  workOrderId: string;
+  assignments: WorkOrderAssignment[];
+  approvals: WorkOrderApproval[];
+  stepCompletions: StepCompletion[];
+  photos: Photo[];
+  phaseReports: PhaseReport[];
+  documents: WorkOrderDocument[];
+  customForms: Record<string, unknown>[];
+  equipmentHistory: WorkOrder[];
+  procedureIds: string[];
+  sessionIds: string[];
+  fileCount: number;
+  totalBytes: number;
+  preparedAt: number;
+}
+
+export interface SyncCredentials {
+  id: 'current';
+  supabaseUrl: string;
+  anonKey: string;
+  accessToken: string;
+  expiresAt: number;
+}
+
+export interface PendingPhoto {
+  id: string;
+  blob: Blob;
+  thumbnail?: Blob | null;
+  metadata: any;
+  uploaded: boolean;
+  upload?: ResumableUploadState | null;
+}
+
+export interface CachedFile {
+  id: string;
+  workOrderId: string;
+  blob: Blob;
+  size: number;
+  cachedAt: number;
+}
 
 interface OfflineDB extends DBSchema {
   workOrders: {
@@ -14,44 +112,72 @@ interface OfflineDB extends DBSchema {
     value: {
       id: string;
       data: any;
+      serverData?: Record<string, unknown> | null;
       lastSynced: number;
     };
   };
-  procedures: {
+  stepCompletions: {
     key: string;
     value: {
       id: string;
-      data: any;
+      workSessionId: string;
+      data: StepCompletion;
+      serverData: Record<string, unknown> | null;
       lastSynced: number;
     };
+    indexes: { 'by-session': string };
   };
-  photos: {
+  safetyAcknowledgments: {
+    key: string;
+    value: SafetyAcknowledgment;
+    indexes: { 'by-session': string };
+  };
+  procedures: {
     key: string;
     value: {
       id: string;
-      blob: Blob;
-      metadata: any;
-      uploaded: boolean;
+      data: any;
+      lastSynced: number;
     };
   };
+  photos: {
+    key: string;
+    value: PendingPhoto;
+  };
   syncQueue: {
     key: number;
-    value: {
-      id?: number;
-      table: string;
-      operation: 'insert' | 'update' | 'delete';
-      data: any;
-      timestamp: number;
-      retries: number;
-    };
+    value: SyncQueueItem;
     indexes: { 'by-timestamp': number };
   };
+  syncConflicts: {
+    key: number;
+    value: SyncConflict;
+    indexes: { 'by-record': string };
+  };
+  deadLetters: {
+    key: number;
+    value: DeadLetter;
+    indexes: { 'by-failed-at': number };
+  };
+  workOrderPackets: {
+    key: string;
+    value: WorkOrderPacket;
+  };
+  cachedFiles: {
+    key: string;
+    value: CachedFile;
+    indexes: { 'by-work-order': string };
+  };
+  syncCredentials: {
+    key: string;
+    value: SyncCredentials;
+  };
 }
 
 class OfflineStorage {
   private db: IDBPDatabase<OfflineDB> | null = null;
   private readonly DB_NAME = 'FieldOpsOffline';
-  private readonly DB_VERSION = 1;
+  private readonly DB_VERSION = 7;
 
   async init(): Promise<void> {
     if (this.db) return;
@@ -66,6 +192,16 @@ class OfflineStorage {
           db.createObjectStore('workSessions', { keyPath: 'id' });
         }
 
+        if (!db.objectStoreNames.contains('stepCompletions')) {
+          const completionStore = db.createObjectStore('stepCompletions', { keyPath: 'id' });
+          completionStore.createIndex('by-session', 'workSessionId');
+        }
+
+        if (!db.objectStoreNames.contains('safetyAcknowledgments')) {
+          const ackStore = db.createObjectStore('safetyAcknowledgments', { keyPath: 'id' });
+          ackStore.createIndex('by-session', 'work_session_id');
+        }
+
         if (!db.objectStoreNames.contains('procedures')) {
           db.createObjectStore('procedures', { keyPath: 'id' });
         }
@@ -81,6 +217,35 @@ class OfflineStorage {
           });
           syncStore.createIndex('by-timestamp', 'timestamp');
         }
+
+        if (!db.objectStoreNames.contains('syncConflicts')) {
+          const conflictStore = db.createObjectStore('syncConflicts', {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+          conflictStore.createIndex('by-record', 'recordId');
+        }
+
+        if (!db.objectStoreNames.contains('deadLetters')) {
+          const deadLetterStore = db.createObjectStore('deadLetters', {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+          deadLetterStore.createIndex('by-failed-at', 'failedAt');
+        }
+
+        if (!db.objectStoreNames.contains('workOrderPackets')) {
+          db.createObjectStore('workOrderPackets', { keyPath: 'workOrderId' });
+        }
+
+        if (!db.objectStoreNames.contains('cachedFiles')) {
+          const fileStore = db.createObjectStore('cachedFiles', { keyPath: 'id' });
+          fileStore.createIndex('by-work-order', 'workOrderId');
+        }
+
+        if (!db.objectStoreNames.contains('syncCredentials')) {
+          db.createObjectStore('syncCredentials', { keyPath: 'id' });
+        }
       },
     });
   }
@@ -106,11 +271,16 @@ class OfflineStorage {
     return records.map(r => r.data);
   }
 
-  async saveWorkSession(id: string, data: any): Promise<void> {
+  async saveWorkSession(
+    id: string,
+    data: any,
+    serverData: Record<string, unknown> | null = data
+  ): Promise<void> {
     await this.init();
     await this.db!.put('workSessions', {
       id,
       data,
+      serverData,
       lastSynced: Date.now(),
     });
   }
@@ -121,6 +291,64 @@ class OfflineStorage {
     return record?.data;
   }
 
+  async getWorkSessionServerCopy(id: string): Promise<Record<string, unknown> | null> {
+    await this.init();
+    const record = await this.db!.get('workSessions', id);
+    return record?.serverData ?? null;
+  }
+
+  async saveStepCompletion(
+    id: string,
+    data: StepCompletion,
+    serverData: Record<string, unknown> | null = { ...data }
+  ): Promise<void> {
+    await this.init();
+    await this.db!.put('stepCompletions', {
+      id,
+      workSessionId: data.work_session_id,
+      data,
+      serverData,
+      lastSynced: Date.now(),
+    });
+  }
+
+  async getStepCompletionServerCopy(id: string): Promise<Record<string, unknown> | null> {
+    await this.init();
+    const record = await this.db!.get('stepCompletions', id);
+    return record?.serverData ?? null;
+  }
+
+  async getStepCompletionsForSession(workSessionId: string): Promise<StepCompletion[]> {
+    await this.init();
+    const records = await this.db!.getAllFromIndex('stepCompletions', 'by-session', workSessionId);
+    return records.map(r => r.data);
+  }
+
+  async saveSafetyAcknowledgment(acknowledgment: SafetyAcknowledgment): Promise<void> {
+    await this.init();
+    await this.db!.put('safetyAcknowledgments', acknowledgment);
+  }
+
+  async getSafetyAcknowledgmentsForSession(workSessionId: string): Promise<SafetyAcknowledgment[]> {
+    await this.init();
+    return this.db!.getAllFromIndex('safetyAcknowledgments', 'by-session', workSessionId);
+  }
+
+  async recordServerCopy(table: string, record: Record<string, unknown>): Promise<void> {
+    await this.init();
+    const storeName = table === 'work_sessions'
+      ? 'workSessions'
+      : table === 'step_completions'
+      ? 'stepCompletions'
+      : null;
+    if (!storeName) return;
+
+    const existing = await this.db!.get(storeName, record.id as string);
+    if (existing) {
+      await this.db!.put(storeName, { ...existing, serverData: record });
+    }
+  }
+
   async saveProcedure(id: string, data: any): Promise<void> {
     await this.init();
     await this.db!.put('procedures', {
@@ -136,13 +364,59 @@ class OfflineStorage {
     return record?.data;
   }
 
-  async savePhoto(id: string, blob: Blob, metadata: any): Promise<void> {
+  async getAllProcedures(): Promise<ProcedureTemplate[]> {
+    await this.init();
+    const records = await this.db!.getAll('procedures');
+    return records.map(r => r.data);
+  }
+
+  async saveWorkOrderPacket(packet: WorkOrderPacket): Promise<void> {
+    await this.init();
+    await this.db!.put('workOrderPackets', packet);
+  }
+
+  async getWorkOrderPacket(workOrderId: string): Promise<WorkOrderPacket | undefined> {
+    await this.init();
+    return await this.db!.get('workOrderPackets', workOrderId);
+  }
+
+  async removeWorkOrderPacket(workOrderId: string): Promise<void> {
+    await this.init();
+    const files = await this.db!.getAllKeysFromIndex('cachedFiles', 'by-work-order', workOrderId);
+    const tx = this.db!.transaction(['workOrderPackets', 'cachedFiles'], 'readwrite');
+    for (const key of files) {
+      await tx.objectStore('cachedFiles').delete(key);
+    }
+    await tx.objectStore('workOrderPackets').delete(workOrderId);
+    await tx.done;
+  }
+
+  async saveCachedFile(id: string, workOrderId: string, blob: Blob): Promise<void> {
+    await this.init();
+    await this.db!.put('cachedFiles', {
+      id,
+      workOrderId,
+      blob,
+      size: blob.size,
+      cachedAt: Date.now(),
+    });
+  }
+
+  async getCachedFile(id: string): Promise<Blob | undefined> {
+    await this.init();
+    const record = await this.db!.get('cachedFiles', id);
+    return record?.blob;
+  }
+
+  async savePhoto(id: string, blob: Blob, metadata: any, thumbnail: Blob | null = null): Promise<void> {
     await this.init();
     await this.db!.put('photos', {
       id,
       blob,
+      thumbnail,
       metadata,
       uploaded: false,
+      upload: null,
     });
   }
 
@@ -153,12 +427,25 @@ class OfflineStorage {
     return { blob: record.blob, metadata: record.metadata };
   }
 
-  async getUnuploadedPhotos(): Promise<Array<{ id: string; blob: Blob; metadata: any }>> {
+  async getUnuploadedPhotos(): Promise<PendingPhoto[]> {
     await this.init();
     const photos = await this.db!.getAll('photos');
-    return photos
-      .filter(p => !p.uploaded)
-      .map(p => ({ id: p.id, blob: p.blob, metadata: p.metadata }));
+    return photos.filter(p => !p.uploaded);
+  }
+
+  async isPhotoUploaded(id: string): Promise<boolean> {
+    await this.init();
+    const photo = await this.db!.get('photos', id);
+    return Boolean(photo?.uploaded);
+  }
+
+  async updatePhotoUploadState(id: string, upload: ResumableUploadState | null): Promise<void> {
+    await this.init();
+    const photo = await this.db!.get('photos', id);
+    if (photo) {
+      photo.upload = upload;
+      await this.db!.put('photos', photo);
+    }
   }
 
   async markPhotoAsUploaded(id: string): Promise<void> {
@@ -166,14 +453,16 @@ class OfflineStorage {
     const photo = await this.db!.get('photos', id);
     if (photo) {
       photo.uploaded = true;
+      photo.upload = null;
       await this.db!.put('photos', photo);
     }
   }
 
   async addToSyncQueue(
     table: string,
-    operation: 'insert' | 'update' | 'delete',
-    data: any
+    operation: SyncOperation,
+    data: any,
+    baseRecord: Record<string, unknown> | null = null
   ): Promise<void> {
     await this.init();
     await this.db!.add('syncQueue', {
@@ -182,19 +471,46 @@ class OfflineStorage {
       data,
       timestamp: Date.now(),
       retries: 0,
+      baseRecord,
     });
   }
 
-  async getSyncQueue(): Promise<Array<{
-    id: number;
-    table: string;
-    operation: string;
-    data: any;
-    timestamp: number;
-    retries: number;
-  }>> {
+  async mergeIntoSyncQueue(
+    table: string,
+    operation: SyncOperation,
+    data: { id: string },
+    baseRecord: Record<string, unknown> | null
+  ): Promise<void> {
     await this.init();
-    return await this.db!.getAll('syncQueue');
+    const queue = await this.db!.getAll('syncQueue');
+    const pending = queue.find(
+      (item) => item.table === table && item.data?.id === data.id && item.operation !== 'delete'
+    );
+
+    if (pending && operation !== 'delete') {
+      pending.data = { ...pending.data, ...data };
+      await this.db!.put('syncQueue', pending);
+      return;
+    }
+
+    await this.addToSyncQueue(table, operation, data, baseRecord);
+  }
+
+  async getPendingRecordIds(): Promise<Set<string>> {
+    await this.init();
+    const queue = await this.db!.getAll('syncQueue');
+    return new Set(queue.map((item) => item.data?.id).filter(Boolean));
+  }
+
+  async getSyncQueue(): Promise<Array<SyncQueueItem & { id: number }>> {
+    await this.init();
+    const items = await this.db!.getAllFromIndex('syncQueue', 'by-timestamp');
+    return items as Array<SyncQueueItem & { id: number }>;
+  }
+
+  async updateSyncQueueItem(item: SyncQueueItem & { id: number }): Promise<void> {
+    await this.init();
+    await this.db!.put('syncQueue', item);
   }
 
   async removeSyncQueueItem(id: number): Promise<void> {
@@ -202,22 +518,114 @@ class OfflineStorage {
     await this.db!.delete('syncQueue', id);
   }
 
-  async incrementSyncRetries(id: number): Promise<void> {
+  async incrementSyncRetries(id: number, attempt: SyncAttempt): Promise<SyncQueueItem | undefined> {
     await this.init();
     const item = await this.db!.get('syncQueue', id);
     if (item) {
       item.retries += 1;
+      item.attempts = [...(item.attempts || []), attempt];
       await this.db!.put('syncQueue', item);
     }
+    return item;
+  }
+
+  async moveToDeadLetter(item: SyncQueueItem & { id: number }): Promise<void> {
+    await this.init();
+    const attempts = item.attempts || [];
+    const lastAttempt = attempts[attempts.length - 1];
+
+    const tx = this.db!.transaction(['syncQueue', 'deadLetters'], 'readwrite');
+    await tx.objectStore('deadLetters').add({
+      table: item.table,
+      operation: item.operation,
+      data: item.data,
+      baseRecord: item.baseRecord ?? null,
+      queuedAt: item.timestamp,
+      failedAt: Date.now(),
+      errorCode: lastAttempt?.code ?? null,
+      errorMessage: lastAttempt?.message ?? 'Retry limit reached',
+      attempts,
+    });
+    await tx.objectStore('syncQueue').delete(item.id);
+    await tx.done;
+  }
+
+  async getDeadLetters(): Promise<Array<DeadLetter & { id: number }>> {
+    await this.init();
+    const letters = await this.db!.getAllFromIndex('deadLetters', 'by-failed-at');
+    return letters as Array<DeadLetter & { id: number }>;
+  }
+
+  async requeueDeadLetter(id: number, data?: Record<string, unknown>): Promise<void> {
+    await this.init();
+    const tx = this.db!.transaction(['syncQueue', 'deadLetters'], 'readwrite');
+    const letter = await tx.objectStore('deadLetters').get(id);
+    if (letter) {
+      await tx.objectStore('syncQueue').add({
+        table: letter.table,
+        operation: letter.operation,
+        data: data ?? letter.data,
+        timestamp: Date.now(),
+        retries: 0,
+        baseRecord: letter.baseRecord,
+        attempts: letter.attempts,
+      });
+      await tx.objectStore('deadLetters').delete(id);
+    }
+    await tx.done;
+  }
+
+  async removeDeadLetter(id: number): Promise<void> {
+    await this.init();
+    await this.db!.delete('deadLetters', id);
+  }
+
+  async addSyncConflict(conflict: Omit<SyncConflict, 'id'>): Promise<void> {
+    await this.init();
+    const existing = await this.db!.getAllFromIndex('syncConflicts', 'by-record', conflict.recordId);
+    for (const item of existing) {
+      if (item.table === conflict.table) {
+        await this.db!.delete('syncConflicts', item.id!);
+      }
+    }
+    await this.db!.add('syncConflicts', conflict);
+  }
+
+  async getSyncConflicts(): Promise<Array<SyncConflict & { id: number }>> {
+    await this.init();
+    const conflicts = await this.db!.getAll('syncConflicts');
+    return conflicts as Array<SyncConflict & { id: number }>;
+  }
+
+  async removeSyncConflict(id: number): Promise<void> {
+    await this.init();
+    await this.db!.delete('syncConflicts', id);
+  }
+
+  async saveSyncCredentials(credentials: Omit<SyncCredentials, 'id'>): Promise<void> {
+    await this.init();
+    await this.db!.put('syncCredentials', { id: 'current', ...credentials });
+  }
+
+  async clearSyncCredentials(): Promise<void> {
+    await this.init();
+    await this.db!.delete('syncCredentials', 'current');
   }
 
   async clearAllData(): Promise<void> {
     await this.init();
     await this.db!.clear('workOrders');
     await this.db!.clear('workSessions');
+    await this.db!.clear('stepCompletions');
+    await this.db!.clear('safetyAcknowledgments');
     await this.db!.clear('procedures');
     await this.db!.clear('photos');
     await this.db!.clear('syncQueue');
+    await this.db!.clear('syncConflicts');
+    await this.db!.clear('deadLetters');
+    await this.db!.clear('workOrderPackets');
+    await this.db!.clear('cachedFiles');
+    await this.db!.clear('syncCredentials');
   }
 
   async getStorageSize(): Promise<{ used: number; available: number }> {
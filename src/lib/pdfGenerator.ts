@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { annotatedPhotoHtml } from './photoAnnotations';
+import type { Photo } from '../types/database';
 
 interface ReportData {
   workOrderNumber: string;
@@ -20,6 +22,7 @@ interface ReportData {
   photos: Array<{
     url: string;
     caption: string;
+    annotations: Record<string, unknown>;
   }>;
   summary: string;
   recommendations: string[];
@@ -135,7 +138,13 @@ export class PDFGenerator {
       technician: workOrder.assigned_user?.full_name || 'N/A',
       findings: [],
       measurements: [],
-      photos: [],
+      photos: (workOrder.work_sessions || []).flatMap((session: { photos?: Photo[] }) =>
+        (session.photos || []).map((photo) => ({
+          url: supabase.storage.from('photos').getPublicUrl(photo.storage_path).data.publicUrl,
+          caption: photo.caption || '',
+          annotations: photo.annotations || {},
+        }))
+      ),
       summary: workOrder.reported_issue || '',
       recommendations: [],
     };
@@ -342,7 +351,9 @@ export class PDFGenerator {
             <div class="photo-grid">
               ${data.photos.map(p => `
                 <div class="photo-item">
-                  <img src="${p.url}" alt="${p.caption}" />
+                  <div style="position: relative;">
+                    ${annotatedPhotoHtml(p.url, p.caption, p.annotations)}
+                  </div>
                   <div class="photo-caption">${p.caption}</div>
                 </div>
               `).join('')}
@@ -0,0 +1,89 @@
+import { supabase } from './supabase';
+import type { PhaseGuard, PhaseTransition, WorkOrder, WorkOrderPhase, WorkType } from '../types/database';
+
+export const GUARD_MESSAGES: Record<PhaseGuard | 'no_transition' | 'children_open', string> = {
+  report_submitted: 'The phase report has not been submitted',
+  approval_requested: 'Approval has not been requested for this phase',
+  approval_granted: 'The approval has not been granted',
+  qc_signoff: 'QC has not signed off',
+  no_transition: 'The workflow does not allow this phase change',
+  children_open: 'Child work orders are still open',
+};
+
+export function nextTransition(
+  transitions: PhaseTransition[],
+  workType: WorkType,
+  phase: WorkOrderPhase
+): PhaseTransition | null {
+  return (
+    transitions
+      .filter((t) => t.work_type === workType && t.from_phase === phase)
+      .sort((a, b) => a.sort_order - b.sort_order)[0] || null
+  );
+}
+
+export function previousPhase(
+  transitions: PhaseTransition[],
+  workType: WorkType,
+  phase: WorkOrderPhase
+): WorkOrderPhase | null {
+  return transitions.find((t) => t.work_type === workType && t.to_phase === phase)?.from_phase || null;
+}
+
+// The workflow is defined in the database, which enforces it on every phase
+// change; the client reads the same definition to show what comes next and
+// checks guards up front so users get a readable reason rather than a trigger error.
+class PhaseWorkflow {
+  private transitions: PhaseTransition[] | null = null;
+
+  async load(): Promise<PhaseTransition[]> {
+    if (this.transitions) return this.transitions;
+
+    const { data, error } = await supabase
+      .from('work_order_phase_transitions')
+      .select('*')
+      .order('sort_order');
+
+    if (error) throw error;
+    this.transitions = data || [];
+    return this.transitions;
+  }
+
+  async unmetGuards(workOrderId: string, toPhase: WorkOrderPhase): Promise<string[]> {
+    return (await this.unmetGuardKeys(workOrderId, toPhase)).map((guard) => GUARD_MESSAGES[guard] || guard);
+  }
+
+  // A QC sign-off in `changes` is written by the same update as the phase
+  // change, so a blocked move doesn't leave the sign-off behind
+  async transition(
+    workOrderId: string,
+    toPhase: WorkOrderPhase,
+    changes: Partial<WorkOrder> = {}
+  ): Promise<void> {
+    const unmet = (await this.unmetGuardKeys(workOrderId, toPhase))
+      .filter((guard) => !(guard === 'qc_signoff' && changes.qc_signed_off_at))
+      .map((guard) => GUARD_MESSAGES[guard] || guard);
+    if (unmet.length > 0) {
+      throw new Error(unmet.join('. '));
+    }
+
+    const { error } = await supabase
+      .from('work_orders')
+      .update({ ...changes, current_phase: toPhase })
+      .eq('id', workOrderId);
+
+    if (error) throw error;
+  }
+
+  private async unmetGuardKeys(workOrderId: string, toPhase: WorkOrderPhase): Promise<Array<keyof typeof GUARD_MESSAGES>> {
+    const { data, error } = await supabase.rpc('check_phase_transition', {
+      p_work_order_id: workOrderId,
+      p_to_phase: toPhase,
+    });
+
+    if (error) throw error;
+    return (data || []) as Array<keyof typeof GUARD_MESSAGES>;
+  }
+}
+
+export const phaseWorkflow = new PhaseWorkflow();
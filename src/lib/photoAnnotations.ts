@@ -0,0 +1,168 @@
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type AnnotationTool = 'arrow' | 'circle' | 'measurement' | 'text';
+
+export type PhotoAnnotation =
+  | { id: string; type: 'arrow'; from: AnnotationPoint; to: AnnotationPoint; color: string }
+  | { id: string; type: 'circle'; center: AnnotationPoint; radius: number; color: string }
+  | {
+      id: string;
+      type: 'measurement';
+      from: AnnotationPoint;
+      to: AnnotationPoint;
+      label: string;
+      color: string;
+    }
+  | { id: string; type: 'text'; at: AnnotationPoint; text: string; color: string };
+
+// Stored in photos.annotations. Coordinates are in the pixel space of the
+// uploaded image, which is never modified.
+export interface PhotoAnnotations {
+  version: 1;
+  width: number;
+  height: number;
+  items: PhotoAnnotation[];
+  updated_at?: string;
+}
+
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+export function hasAnnotations(value: unknown): value is PhotoAnnotations {
+  const annotations = value as PhotoAnnotations | null | undefined;
+  return Boolean(
+    annotations &&
+      annotations.version === 1 &&
+      annotations.width > 0 &&
+      annotations.height > 0 &&
+      Array.isArray(annotations.items) &&
+      annotations.items.length > 0
+  );
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Annotations are read back from photos.annotations, which any client that can
+// write a photo row controls, and the markup is injected as HTML. Only palette
+// colors and finite numbers make it into an attribute.
+const safeColor = (color: unknown) =>
+  ANNOTATION_COLORS.includes(color as string) ? (color as string) : ANNOTATION_COLORS[0];
+
+const safeNumber = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const safePoint = (point: AnnotationPoint | null | undefined): AnnotationPoint => ({
+  x: safeNumber(point?.x),
+  y: safeNumber(point?.y),
+});
+
+function sanitizeItem(item: PhotoAnnotation): PhotoAnnotation | null {
+  if (!item || typeof item !== 'object') return null;
+  const color = safeColor(item.color);
+
+  switch (item.type) {
+    case 'arrow':
+      return { id: '', type: 'arrow', from: safePoint(item.from), to: safePoint(item.to), color };
+    case 'circle':
+      return { id: '', type: 'circle', center: safePoint(item.center), radius: Math.abs(safeNumber(item.radius)), color };
+    case 'measurement':
+      return {
+        id: '',
+        type: 'measurement',
+        from: safePoint(item.from),
+        to: safePoint(item.to),
+        label: String(item.label ?? ''),
+        color,
+      };
+    case 'text':
+      return { id: '', type: 'text', at: safePoint(item.at), text: String(item.text ?? ''), color };
+    default:
+      return null;
+  }
+}
+
+function arrowHead(from: AnnotationPoint, to: AnnotationPoint, size: number): string {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const left = {
+    x: to.x - size * Math.cos(angle - Math.PI / 6),
+    y: to.y - size * Math.sin(angle - Math.PI / 6),
+  };
+  const right = {
+    x: to.x - size * Math.cos(angle + Math.PI / 6),
+    y: to.y - size * Math.sin(angle + Math.PI / 6),
+  };
+  return `${to.x},${to.y} ${left.x},${left.y} ${right.x},${right.y}`;
+}
+
+function endTicks(from: AnnotationPoint, to: AnnotationPoint, size: number): string {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x) + Math.PI / 2;
+  const dx = (size / 2) * Math.cos(angle);
+  const dy = (size / 2) * Math.sin(angle);
+  return [from, to]
+    .map((p) => `M${p.x - dx},${p.y - dy} L${p.x + dx},${p.y + dy}`)
+    .join(' ');
+}
+
+function renderItem(item: PhotoAnnotation, stroke: number): string {
+  const fontSize = stroke * 6;
+  const label = (at: AnnotationPoint, text: string, color: string) =>
+    `<text x="${at.x}" y="${at.y}" fill="${color}" font-size="${fontSize}" font-family="sans-serif" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#000" stroke-width="${stroke / 2}" paint-order="stroke">${escapeXml(text)}</text>`;
+
+  switch (item.type) {
+    case 'arrow':
+      return (
+        `<line x1="${item.from.x}" y1="${item.from.y}" x2="${item.to.x}" y2="${item.to.y}" stroke="${item.color}" stroke-width="${stroke}" stroke-linecap="round" />` +
+        `<polygon points="${arrowHead(item.from, item.to, stroke * 5)}" fill="${item.color}" />`
+      );
+    case 'circle':
+      return `<circle cx="${item.center.x}" cy="${item.center.y}" r="${item.radius}" fill="none" stroke="${item.color}" stroke-width="${stroke}" />`;
+    case 'measurement': {
+      const mid = { x: (item.from.x + item.to.x) / 2, y: (item.from.y + item.to.y) / 2 - fontSize * 0.8 };
+      return (
+        `<line x1="${item.from.x}" y1="${item.from.y}" x2="${item.to.x}" y2="${item.to.y}" stroke="${item.color}" stroke-width="${stroke}" />` +
+        `<path d="${endTicks(item.from, item.to, stroke * 6)}" stroke="${item.color}" stroke-width="${stroke}" />` +
+        label(mid, item.label, item.color)
+      );
+    }
+    case 'text':
+      return label(item.at, item.text, item.color);
+  }
+}
+
+// Renders the annotations as an SVG overlay sized to cover its positioned
+// container. Use 'slice' when the photo underneath is shown with object-fit: cover.
+export function annotationSvg(
+  annotations: PhotoAnnotations,
+  fit: 'meet' | 'slice' = 'meet'
+): string {
+  const width = safeNumber(annotations.width);
+  const height = safeNumber(annotations.height);
+  const stroke = Math.max(width, height) / 250;
+  const body = (Array.isArray(annotations.items) ? annotations.items : [])
+    .map(sanitizeItem)
+    .map((item) => (item ? renderItem(item, stroke) : ''))
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" preserveAspectRatio="xMidYMid ${fit === 'slice' ? 'slice' : 'meet'}" style="position:absolute;top:0;left:0;width:100%;height:100%;pointer-events:none">${body}</svg>`;
+}
+
+// Image plus overlay for the HTML reports; the caller's container must be
+// positioned so the overlay lines up with the image.
+export function annotatedPhotoHtml(
+  url: string,
+  alt: string,
+  annotations: unknown,
+  fit: 'meet' | 'slice' = 'meet'
+): string {
+  const img = `<img src="${escapeXml(url)}" alt="${escapeXml(alt)}" />`;
+  return hasAnnotations(annotations) ? img + annotationSvg(annotations, fit) : img;
+}
@@ -0,0 +1,241 @@
+export interface PhotoExif {
+  make?: string;
+  model?: string;
+  orientation?: number;
+  capturedAt?: string;
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+}
+
+export interface ProcessedPhoto {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  metadata: {
+    original_name: string;
+    original_size: number;
+    original_type: string;
+    width: number;
+    height: number;
+    size: number;
+    exif: PhotoExif;
+  };
+}
+
+const MAX_IMAGE_EDGE = 2048;
+const IMAGE_QUALITY = 0.85;
+const THUMBNAIL_EDGE = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+type IfdEntries = Map<number, string | number | number[]>;
+
+export function photoStoragePaths(workSessionId: string, photoId: string) {
+  return {
+    storagePath: `${workSessionId}/${photoId}.jpg`,
+    thumbnailPath: `${workSessionId}/${photoId}_thumb.jpg`,
+  };
+}
+
+export async function processPhoto(file: File): Promise<ProcessedPhoto> {
+  const exif = await readExif(file);
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const { blob: image, width, height } = await renderJpeg(bitmap, MAX_IMAGE_EDGE, IMAGE_QUALITY);
+    const { blob: thumbnail } = await renderJpeg(bitmap, THUMBNAIL_EDGE, THUMBNAIL_QUALITY);
+
+    return {
+      image,
+      thumbnail,
+      width,
+      height,
+      metadata: {
+        original_name: file.name,
+        original_size: file.size,
+        original_type: file.type,
+        width,
+        height,
+        size: image.size,
+        exif,
+      },
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function renderJpeg(
+  bitmap: ImageBitmap,
+  maxEdge: number,
+  quality: number
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported on this device');
+
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/jpeg', quality)
+  );
+  if (!blob) throw new Error('Could not compress photo');
+
+  return { blob, width, height };
+}
+
+// Canvas re-encoding drops EXIF, so the fields worth keeping are read up front.
+export async function readExif(file: Blob): Promise<PhotoExif> {
+  try {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        return parseTiff(view, offset + 10);
+      }
+      if ((marker & 0xff00) !== 0xff00) break;
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.error('Error reading photo EXIF:', error);
+  }
+
+  return {};
+}
+
+function parseTiff(view: DataView, tiffStart: number): PhotoExif {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifd0 = readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+
+  const exif: PhotoExif = {};
+  const make = ifd0.get(TAG_MAKE);
+  const model = ifd0.get(TAG_MODEL);
+  const orientation = ifd0.get(TAG_ORIENTATION);
+  if (typeof make === 'string') exif.make = make;
+  if (typeof model === 'string') exif.model = model;
+  if (typeof orientation === 'number') exif.orientation = orientation;
+
+  const exifOffset = ifd0.get(TAG_EXIF_IFD);
+  if (typeof exifOffset === 'number') {
+    const exifIfd = readIfd(view, tiffStart, tiffStart + exifOffset, littleEndian);
+    const original = exifIfd.get(TAG_DATE_TIME_ORIGINAL);
+    if (typeof original === 'string') {
+      // EXIF dates look like "2024:05:01 13:45:10" with no timezone
+      exif.capturedAt = original.replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T');
+    }
+  }
+
+  const gpsOffset = ifd0.get(TAG_GPS_IFD);
+  if (typeof gpsOffset === 'number') {
+    const gps = readIfd(view, tiffStart, tiffStart + gpsOffset, littleEndian);
+    const latitude = toDegrees(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF), 'S');
+    const longitude = toDegrees(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF), 'W');
+
+    if (latitude !== null && longitude !== null) {
+      exif.gps = { latitude, longitude };
+      const altitude = gps.get(TAG_GPS_ALTITUDE);
+      if (typeof altitude === 'number') {
+        exif.gps.altitude = gps.get(TAG_GPS_ALTITUDE_REF) === 1 ? -altitude : altitude;
+      }
+    }
+  }
+
+  return exif;
+}
+
+function toDegrees(
+  value: string | number | number[] | undefined,
+  ref: string | number | number[] | undefined,
+  negativeRef: string
+): number | null {
+  if (!Array.isArray(value) || value.length < 3) return null;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+}
+
+function readIfd(view: DataView, tiffStart: number, ifdStart: number, littleEndian: boolean): IfdEntries {
+  const entries: IfdEntries = new Map();
+  const count = view.getUint16(ifdStart, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const components = view.getUint32(entry + 4, littleEndian);
+    const value = readValue(view, tiffStart, entry + 8, type, components, littleEndian);
+    if (value !== undefined) entries.set(tag, value);
+  }
+
+  return entries;
+}
+
+function readValue(
+  view: DataView,
+  tiffStart: number,
+  valueOffset: number,
+  type: number,
+  components: number,
+  littleEndian: boolean
+): string | number | number[] | undefined {
+  const pointer = () => tiffStart + view.getUint32(valueOffset, littleEndian);
+
+  switch (type) {
+    case 1: // BYTE
+      return view.getUint8(valueOffset);
+    case 2: {
+      // ASCII
+      const start = components > 4 ? pointer() : valueOffset;
+      let text = '';
+      for (let i = 0; i < components - 1 && start + i < view.byteLength; i++) {
+        text += String.fromCharCode(view.getUint8(start + i));
+      }
+      return text.trim();
+    }
+    case 3: // SHORT
+      return view.getUint16(valueOffset, littleEndian);
+    case 4: // LONG
+      return view.getUint32(valueOffset, littleEndian);
+    case 5: {
+      // RATIONAL
+      const start = pointer();
+      const values: number[] = [];
+      for (let i = 0; i < components && start + i * 8 + 8 <= view.byteLength; i++) {
+        const numerator = view.getUint32(start + i * 8, littleEndian);
+        const denominator = view.getUint32(start + i * 8 + 4, littleEndian);
+        values.push(denominator ? numerator / denominator : 0);
+      }
+      return components === 1 ? values[0] : values;
+    }
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,156 @@
+import type { DecisionOutcome, ProcedureStep, SkipCondition, StepCompletion } from '../types/database';
+import { isMeasurementReading, parseReading } from './measurements';
+
+export interface ProcedureRoute {
+  // Steps already done on the path taken, in the order they were reached
+  taken: ProcedureStep[];
+  // The step to work on next, or null when the path has reached its end
+  current: ProcedureStep | null;
+  // Steps the skip rules pass over before `current` that have no completion yet
+  pendingSkips: Array<{ step: ProcedureStep; reason: string }>;
+  // Steps still expected after `current`, assuming undecided decisions take the default route
+  remaining: ProcedureStep[];
+  // Steps that are not on the path as it stands
+  bypassed: Set<string>;
+  progress: number;
+}
+
+const DONE_STATUSES = ['completed', 'skipped', 'failed'];
+
+const byStepNumber = (steps: ProcedureStep[]) => [...steps].sort((a, b) => a.step_number - b.step_number);
+
+export function decisionOutcomes(step: Pick<ProcedureStep, 'step_type' | 'routing'>): DecisionOutcome[] {
+  return step.step_type === 'decision' ? step.routing?.outcomes || [] : [];
+}
+
+function conditionValue(condition: SkipCondition, completion: StepCompletion): string | number | null {
+  if (condition.field === 'result') return completion.result;
+  if (condition.field === 'outcome') return completion.outcome;
+
+  const reading = condition.parameter ? completion.measurements?.[condition.parameter] : undefined;
+  if (isMeasurementReading(reading)) return reading.value;
+  return typeof reading === 'string' ? parseReading(reading) : null;
+}
+
+function conditionHolds(condition: SkipCondition, completions: Map<string, StepCompletion>): boolean {
+  const completion = completions.get(condition.step_id);
+  if (!completion) return false;
+
+  const actual = conditionValue(condition, completion);
+  if (actual === null || actual === undefined) return false;
+
+  switch (condition.operator) {
+    case 'equals':
+      return String(actual) === String(condition.value);
+    case 'not_equals':
+      return String(actual) !== String(condition.value);
+    case 'greater_than':
+      return Number(actual) > Number(condition.value);
+    case 'less_than':
+      return Number(actual) < Number(condition.value);
+  }
+}
+
+export function describeCondition(condition: SkipCondition, steps: ProcedureStep[]): string {
+  const source = steps.find((s) => s.id === condition.step_id);
+  const subject =
+    condition.field === 'measurement' ? condition.parameter || 'measurement' : condition.field;
+  const operator = {
+    equals: '=',
+    not_equals: '≠',
+    greater_than: '>',
+    less_than: '<',
+  }[condition.operator];
+
+  return `${source ? `step ${source.step_number} ` : ''}${subject} ${operator} ${condition.value}`;
+}
+
+// Any matching condition skips the step
+export function skipReason(
+  step: ProcedureStep,
+  completions: Map<string, StepCompletion>,
+  steps: ProcedureStep[]
+): string | null {
+  const condition = (step.routing?.skip_if || []).find((c) => conditionHolds(c, completions));
+  return condition ? `Skipped: ${describeCondition(condition, steps)}` : null;
+}
+
+// Where the procedure goes after `step`. Routes only ever point forward, which
+// the editor enforces, so following them always terminates.
+function nextAfter(
+  step: ProcedureStep,
+  completion: StepCompletion | undefined,
+  ordered: ProcedureStep[]
+): ProcedureStep | null {
+  const outcome = decisionOutcomes(step).find((o) => o.id === completion?.outcome);
+  if (outcome?.ends_procedure) return null;
+
+  const index = ordered.findIndex((s) => s.id === step.id);
+  if (outcome?.next_step_id) {
+    const target = ordered.findIndex((s) => s.id === outcome.next_step_id);
+    if (target > index) return ordered[target];
+  }
+
+  return ordered[index + 1] || null;
+}
+
+// Walks the procedure from its first step following recorded decisions and
+// skip rules, so progress reflects the path actually being taken rather than
+// every step in the template.
+export function resolveRoute(steps: ProcedureStep[], completions: StepCompletion[]): ProcedureRoute {
+  const ordered = byStepNumber(steps);
+  const done = new Map(
+    completions.filter((c) => DONE_STATUSES.includes(c.status)).map((c) => [c.step_id, c])
+  );
+
+  const taken: ProcedureStep[] = [];
+  const pendingSkips: ProcedureRoute['pendingSkips'] = [];
+  let current: ProcedureStep | null = null;
+  let step: ProcedureStep | null = ordered[0] || null;
+
+  while (step) {
+    const completion = done.get(step.id);
+    // A step skipped by a rule comes back if a changed answer means the rule no longer holds
+    const staleSkip = completion?.status === 'skipped' && !skipReason(step, done, ordered);
+    if (completion && !staleSkip) {
+      taken.push(step);
+      step = nextAfter(step, completion, ordered);
+      continue;
+    }
+
+    const reason = skipReason(step, done, ordered);
+    if (reason) {
+      pendingSkips.push({ step, reason });
+      step = nextAfter(step, undefined, ordered);
+      continue;
+    }
+
+    current = step;
+    break;
+  }
+
+  // Project the rest of the path, skipping what the rules already rule out
+  const remaining: ProcedureStep[] = [];
+  let next = current ? nextAfter(current, undefined, ordered) : null;
+  while (next) {
+    if (!skipReason(next, done, ordered)) remaining.push(next);
+    next = nextAfter(next, undefined, ordered);
+  }
+
+  const onPath = new Set(
+    [...taken, ...pendingSkips.map((p) => p.step), ...(current ? [current] : []), ...remaining].map((s) => s.id)
+  );
+  const bypassed = new Set(ordered.filter((s) => !onPath.has(s.id)).map((s) => s.id));
+
+  const completedCount = taken.length + pendingSkips.length;
+  const total = completedCount + (current ? 1 : 0) + remaining.length;
+
+  return {
+    taken,
+    current,
+    pendingSkips,
+    remaining,
+    bypassed,
+    progress: total === 0 ? 100 : Math.round((completedCount / total) * 100),
+  };
+}
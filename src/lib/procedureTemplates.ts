@@ -0,0 +1,160 @@
+import { supabase } from './supabase';
+import type { ProcedureStep, ProcedureTemplate } from '../types/database';
+
+// All versions of one procedure, newest first
+export interface ProcedureFamily {
+  family_id: string;
+  name: string;
+  current: ProcedureTemplate | null;
+  draft: ProcedureTemplate | null;
+  versions: ProcedureTemplate[];
+}
+
+export type DraftTemplateFields = Pick<
+  ProcedureTemplate,
+  | 'name'
+  | 'equipment_type_id'
+  | 'procedure_type'
+  | 'phase'
+  | 'estimated_duration'
+  | 'required_tools'
+  | 'safety_requirements'
+>;
+
+export type DraftStep = Omit<ProcedureStep, 'procedure_template_id'>;
+
+class ProcedureTemplateService {
+  async listFamilies(): Promise<ProcedureFamily[]> {
+    const { data, error } = await supabase
+      .from('procedure_templates')
+      .select('*, equipment_type:equipment_types (id, name)')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const families = new Map<string, ProcedureFamily>();
+    for (const template of (data || []) as ProcedureTemplate[]) {
+      const familyId = template.family_id || template.id;
+      const family = families.get(familyId) || {
+        family_id: familyId,
+        name: template.name,
+        current: null,
+        draft: null,
+        versions: [],
+      };
+
+      if (template.status === 'draft') family.draft = template;
+      else family.versions.push(template);
+      if (template.status === 'published' && !family.current) family.current = template;
+
+      family.name = (family.draft || family.current || template).name;
+      families.set(familyId, family);
+    }
+
+    return [...families.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async loadTemplate(templateId: string): Promise<ProcedureTemplate> {
+    const { data, error } = await supabase
+      .from('procedure_templates')
+      .select('*, steps:procedure_steps (*)')
+      .eq('id', templateId)
+      .single();
+
+    if (error) throw error;
+    return {
+      ...data,
+      steps: [...(data.steps || [])].sort((a: ProcedureStep, b: ProcedureStep) => a.step_number - b.step_number),
+    };
+  }
+
+  // Full templates with their steps and equipment type, for export
+  async loadTemplates(templateIds: string[]): Promise<ProcedureTemplate[]> {
+    if (templateIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('procedure_templates')
+      .select('*, equipment_type:equipment_types (id, name), steps:procedure_steps (*)')
+      .in('id', templateIds)
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createTemplate(fields: DraftTemplateFields, createdBy: string | null): Promise<string> {
+    const { data, error } = await supabase
+      .from('procedure_templates')
+      .insert({ ...fields, status: 'draft', is_active: false, created_by: createdBy })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  // Returns the family's open draft, copying `templateId` into one if needed
+  async createDraft(templateId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('create_procedure_draft', { p_template_id: templateId });
+    if (error) throw error;
+    return data;
+  }
+
+  async saveDraft(templateId: string, fields: DraftTemplateFields, steps: DraftStep[]): Promise<void> {
+    const { error } = await supabase.rpc('save_procedure_draft', {
+      p_template_id: templateId,
+      p_template: fields,
+      p_steps: steps.map((step, index) => ({ ...step, step_number: index + 1 })),
+    });
+
+    if (error) throw error;
+  }
+
+  async publish(templateId: string): Promise<ProcedureTemplate> {
+    const { data, error } = await supabase.rpc('publish_procedure_template', { p_template_id: templateId });
+    if (error) throw error;
+    return data;
+  }
+
+  async discardDraft(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('procedure_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+  }
+
+  // Retires the published version so new sessions can't start on it;
+  // sessions already pinned to it are unaffected
+  async archive(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('procedure_templates')
+      .update({ status: 'archived', is_active: false })
+      .eq('id', templateId)
+      .eq('status', 'published');
+
+    if (error) throw error;
+  }
+
+  async countSessions(templateIds: string[]): Promise<Record<string, number>> {
+    if (templateIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('work_sessions')
+      .select('procedure_template_id, status')
+      .in('procedure_template_id', templateIds)
+      .neq('status', 'completed');
+
+    if (error) throw error;
+
+    const counts: Record<string, number> = {};
+    for (const session of data || []) {
+      counts[session.procedure_template_id] = (counts[session.procedure_template_id] || 0) + 1;
+    }
+    return counts;
+  }
+}
+
+export const procedureTemplateService = new ProcedureTemplateService();
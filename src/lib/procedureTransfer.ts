@@ -0,0 +1,749 @@
+import { normalizeMeasurementSpecs } from './measurements';
+import { supabase } from './supabase';
+import { DraftStep, DraftTemplateFields, ProcedureFamily } from './procedureTemplates';
+import type {
+  DecisionOutcome,
+  MeasurementSpec,
+  ProcedureTemplate,
+  ProcedureType,
+  SkipCondition,
+  StepResult,
+  StepType,
+  ToleranceLimit,
+  WorkOrderPhase,
+} from '../types/database';
+
+/*
+  Portable procedure format
+
+  JSON: { format: "procedure-templates", version: 1, procedures: PortableProcedure[] }
+  Steps refer to each other by step_number (in decision outcomes and skip
+  conditions) so a file carries no database ids. Equipment types are matched by
+  name, case-insensitively; leave `equipment_type` empty for all equipment.
+
+  CSV: one row per step, with the procedure's columns repeated on each of its
+  rows (rows with the same procedure_name form one procedure). List cells are
+  separated by ";" and the parts of each entry by "|":
+    required_tools, safety_requirements   tool; tool
+    measurements                          parameter|unit|nominal|min|max|instrument; ...
+    acceptance_criteria                   parameter|unit|nominal|min|max; ...
+    outcomes                              label|pass/fail/na|step number or END; ...
+    skip_if                               step number|result/outcome/measurement|parameter|operator|value; ...
+  Outcomes in skip_if conditions are referred to by label.
+*/
+
+export const PORTABLE_FORMAT = 'procedure-templates';
+export const PORTABLE_VERSION = 1;
+
+const PROCEDURE_TYPES: ProcedureType[] = ['inspection', 'teardown', 'cleaning', 'rebuild', 'test'];
+const STEP_TYPES: StepType[] = ['action', 'inspection', 'measurement', 'decision'];
+const STEP_RESULTS: StepResult[] = ['pass', 'fail', 'na'];
+const PHASES: WorkOrderPhase[] = [
+  'initial_testing',
+  'teardown',
+  'repair_scope',
+  'inspection',
+  'rebuild',
+  'final_testing',
+  'qc_review',
+];
+const SKIP_FIELDS: SkipCondition['field'][] = ['result', 'outcome', 'measurement'];
+const SKIP_OPERATORS: SkipCondition['operator'][] = ['equals', 'not_equals', 'greater_than', 'less_than'];
+
+export const CSV_COLUMNS = [
+  'procedure_name',
+  'equipment_type',
+  'procedure_type',
+  'phase',
+  'estimated_duration',
+  'required_tools',
+  'safety_requirements',
+  'step_number',
+  'step_title',
+  'step_type',
+  'description',
+  'instructions',
+  'safety_notes',
+  'photo_required',
+  'estimated_time',
+  'measurements',
+  'acceptance_criteria',
+  'outcomes',
+  'skip_if',
+] as const;
+
+export interface PortableOutcome {
+  label: string;
+  result: StepResult;
+  next_step: number | null;
+  ends_procedure?: boolean;
+}
+
+export interface PortableSkipCondition {
+  step: number;
+  field: SkipCondition['field'];
+  parameter?: string | null;
+  operator: SkipCondition['operator'];
+  value: string | number;
+}
+
+export interface PortableStep {
+  step_number: number;
+  title: string;
+  step_type: StepType;
+  description: string | null;
+  instructions: string;
+  safety_notes: string | null;
+  photo_required: boolean;
+  estimated_time: string | null;
+  measurements: MeasurementSpec[];
+  acceptance_criteria: Record<string, ToleranceLimit>;
+  outcomes?: PortableOutcome[];
+  skip_if?: PortableSkipCondition[];
+}
+
+export interface PortableProcedure {
+  name: string;
+  equipment_type: string | null;
+  procedure_type: ProcedureType;
+  phase: WorkOrderPhase | null;
+  estimated_duration: string | null;
+  required_tools: string[];
+  safety_requirements: string[];
+  steps: PortableStep[];
+}
+
+export interface PortableDocument {
+  format: typeof PORTABLE_FORMAT;
+  version: number;
+  exported_at: string;
+  procedures: PortableProcedure[];
+}
+
+// `row` is a CSV line number or a JSON path such as procedures[2].steps[0]
+export interface ImportError {
+  row: string;
+  message: string;
+}
+
+export interface ParsedProcedure {
+  row: string;
+  procedure: PortableProcedure;
+}
+
+export interface ImportPlanItem {
+  procedure: PortableProcedure;
+  equipmentTypeId: string | null;
+  // The existing family a new draft will be opened in, matched by name and equipment type
+  family: ProcedureFamily | null;
+}
+
+export interface ImportPlan {
+  items: ImportPlanItem[];
+  errors: ImportError[];
+}
+
+// ---- Export ----
+
+const asStrings = (values: unknown[] | null | undefined): string[] =>
+  (values || [])
+    .map((value) => (typeof value === 'string' ? value : String((value as Record<string, unknown>)?.name ?? value)))
+    .filter((value) => value.trim());
+
+export function toPortable(template: ProcedureTemplate): PortableProcedure {
+  const steps = [...(template.steps || [])].sort((a, b) => a.step_number - b.step_number);
+  const numberOf = (stepId: string | null | undefined) => steps.find((s) => s.id === stepId)?.step_number ?? null;
+
+  return {
+    name: template.name,
+    equipment_type: template.equipment_type?.name || null,
+    procedure_type: template.procedure_type,
+    phase: template.phase,
+    estimated_duration: template.estimated_duration,
+    required_tools: asStrings(template.required_tools),
+    safety_requirements: asStrings(template.safety_requirements),
+    steps: steps.map((step) => {
+      const outcomes = step.step_type === 'decision' ? step.routing?.outcomes || [] : [];
+      const skipIf = step.routing?.skip_if || [];
+
+      return {
+        step_number: step.step_number,
+        title: step.title,
+        step_type: step.step_type,
+        description: step.description,
+        instructions: step.instructions,
+        safety_notes: step.safety_notes,
+        photo_required: step.photo_required,
+        estimated_time: step.estimated_time,
+        measurements: normalizeMeasurementSpecs(step),
+        acceptance_criteria: step.acceptance_criteria || {},
+        ...(outcomes.length > 0 && {
+          outcomes: outcomes.map((outcome) => ({
+            label: outcome.label,
+            result: outcome.result,
+            next_step: numberOf(outcome.next_step_id),
+            ...(outcome.ends_procedure && { ends_procedure: true }),
+          })),
+        }),
+        ...(skipIf.length > 0 && {
+          skip_if: skipIf.map((condition) => {
+            const source = steps.find((s) => s.id === condition.step_id);
+            const outcomeLabel = source?.routing?.outcomes?.find((o) => o.id === condition.value)?.label;
+            return {
+              step: source?.step_number ?? 0,
+              field: condition.field,
+              parameter: condition.parameter ?? null,
+              operator: condition.operator,
+              value: condition.field === 'outcome' && outcomeLabel ? outcomeLabel : condition.value,
+            };
+          }),
+        }),
+      };
+    }),
+  };
+}
+
+export function exportJson(templates: ProcedureTemplate[]): string {
+  const document: PortableDocument = {
+    format: PORTABLE_FORMAT,
+    version: PORTABLE_VERSION,
+    exported_at: new Date().toISOString(),
+    procedures: templates.map(toPortable),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const joinList = (entries: Array<Array<unknown>>) =>
+  entries.map((parts) => parts.map((part) => (part === null || part === undefined ? '' : String(part))).join('|')).join('; ');
+
+export function exportCsv(templates: ProcedureTemplate[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+
+  for (const procedure of templates.map(toPortable)) {
+    for (const step of procedure.steps) {
+      const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+        procedure_name: procedure.name,
+        equipment_type: procedure.equipment_type,
+        procedure_type: procedure.procedure_type,
+        phase: procedure.phase,
+        estimated_duration: procedure.estimated_duration,
+        required_tools: procedure.required_tools.join('; '),
+        safety_requirements: procedure.safety_requirements.join('; '),
+        step_number: step.step_number,
+        step_title: step.title,
+        step_type: step.step_type,
+        description: step.description,
+        instructions: step.instructions,
+        safety_notes: step.safety_notes,
+        photo_required: step.photo_required ? 'yes' : 'no',
+        estimated_time: step.estimated_time,
+        measurements: joinList(step.measurements.map((s) => [s.parameter, s.unit, s.nominal, s.min, s.max, s.instrument])),
+        acceptance_criteria: joinList(
+          Object.entries(step.acceptance_criteria).map(([parameter, l]) => [parameter, l.unit, l.nominal, l.min, l.max])
+        ),
+        outcomes: joinList(
+          (step.outcomes || []).map((o) => [o.label, o.result, o.ends_procedure ? 'END' : o.next_step])
+        ),
+        skip_if: joinList((step.skip_if || []).map((c) => [c.step, c.field, c.parameter, c.operator, c.value])),
+      };
+      lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(','));
+    }
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+// ---- Parsing ----
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks.
+// Each row carries the line it started on so errors can point at it.
+export function parseCsvRows(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+  return rows;
+}
+
+const blankToNull = (value: string | undefined | null) => {
+  const trimmed = (value ?? '').trim();
+  return trimmed === '' ? null : trimmed;
+};
+
+const splitList = (value: string | undefined) =>
+  (value || '')
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+class RowErrors {
+  readonly errors: ImportError[] = [];
+
+  constructor(private readonly row: string) {}
+
+  add(message: string) {
+    this.errors.push({ row: this.row, message });
+  }
+
+  number(value: string | number | null | undefined, field: string): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isFinite(parsed)) {
+      this.add(`${field}: "${value}" is not a number`);
+      return null;
+    }
+    return parsed;
+  }
+
+  oneOf<T extends string>(value: unknown, allowed: readonly T[], field: string, fallback: T | null = null): T | null {
+    const text = typeof value === 'string' ? value.trim().toLowerCase() : value;
+    if (text === null || text === undefined || text === '') return fallback;
+    if (allowed.includes(text as T)) return text as T;
+    this.add(`${field}: "${value}" must be one of ${allowed.join(', ')}`);
+    return fallback;
+  }
+}
+
+function csvStep(cells: Record<string, string>, errors: RowErrors): PortableStep {
+  const measurements = splitList(cells.measurements).map((entry) => {
+    const [parameter, unit, nominal, min, max, instrument] = entry.split('|');
+    return {
+      parameter: (parameter || '').trim(),
+      unit: blankToNull(unit),
+      nominal: errors.number(blankToNull(nominal), 'measurements nominal'),
+      min: errors.number(blankToNull(min), 'measurements min'),
+      max: errors.number(blankToNull(max), 'measurements max'),
+      instrument: blankToNull(instrument),
+    };
+  });
+
+  const acceptance: Record<string, ToleranceLimit> = {};
+  for (const entry of splitList(cells.acceptance_criteria)) {
+    const [parameter, unit, nominal, min, max] = entry.split('|');
+    acceptance[(parameter || '').trim()] = {
+      unit: blankToNull(unit),
+      nominal: errors.number(blankToNull(nominal), 'acceptance_criteria nominal'),
+      min: errors.number(blankToNull(min), 'acceptance_criteria min'),
+      max: errors.number(blankToNull(max), 'acceptance_criteria max'),
+    };
+  }
+
+  const outcomes = splitList(cells.outcomes).map((entry) => {
+    const [label, result, target] = entry.split('|').map((part) => part.trim());
+    const ends = target?.toUpperCase() === 'END';
+    return {
+      label: label || '',
+      result: errors.oneOf(result, STEP_RESULTS, 'outcomes result', 'pass') as StepResult,
+      next_step: ends ? null : errors.number(blankToNull(target), 'outcomes step'),
+      ...(ends && { ends_procedure: true }),
+    };
+  });
+
+  const skipIf = splitList(cells.skip_if).map((entry) => {
+    const [step, field, parameter, operator, value] = entry.split('|').map((part) => part.trim());
+    return {
+      step: errors.number(step, 'skip_if step') ?? 0,
+      field: errors.oneOf(field, SKIP_FIELDS, 'skip_if field', 'result') as SkipCondition['field'],
+      parameter: blankToNull(parameter),
+      operator: errors.oneOf(operator, SKIP_OPERATORS, 'skip_if operator', 'equals') as SkipCondition['operator'],
+      value: value ?? '',
+    };
+  });
+
+  const photo = (cells.photo_required || '').trim().toLowerCase();
+  if (photo && !['yes', 'no', 'true', 'false', '1', '0'].includes(photo)) {
+    errors.add(`photo_required: "${cells.photo_required}" must be yes or no`);
+  }
+
+  return {
+    step_number: errors.number(cells.step_number, 'step_number') ?? 0,
+    title: (cells.step_title || '').trim(),
+    step_type: errors.oneOf(cells.step_type, STEP_TYPES, 'step_type', 'action') as StepType,
+    description: blankToNull(cells.description),
+    instructions: (cells.instructions || '').trim(),
+    safety_notes: blankToNull(cells.safety_notes),
+    photo_required: ['yes', 'true', '1'].includes(photo),
+    estimated_time: blankToNull(cells.estimated_time),
+    measurements,
+    acceptance_criteria: acceptance,
+    ...(outcomes.length > 0 && { outcomes }),
+    ...(skipIf.length > 0 && { skip_if: skipIf }),
+  };
+}
+
+export function parseCsv(text: string): { procedures: ParsedProcedure[]; errors: ImportError[] } {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const errors: ImportError[] = [];
+  if (rows.length === 0) return { procedures: [], errors: [{ row: 'file', message: 'The file is empty' }] };
+
+  const header = rows[0].cells.map((cell) => cell.trim().toLowerCase());
+  const missing = ['procedure_name', 'step_title', 'instructions'].filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    return { procedures: [], errors: [{ row: `line ${rows[0].line}`, message: `Missing columns: ${missing.join(', ')}` }] };
+  }
+
+  const byName = new Map<string, ParsedProcedure>();
+  for (const { line, cells: values } of rows.slice(1)) {
+    const rowErrors = new RowErrors(`line ${line}`);
+    const cells = Object.fromEntries(header.map((column, index) => [column, values[index] ?? '']));
+    const name = (cells.procedure_name || '').trim();
+
+    if (!name) {
+      rowErrors.add('procedure_name is required');
+      errors.push(...rowErrors.errors);
+      continue;
+    }
+
+    let parsed = byName.get(name.toLowerCase());
+    if (!parsed) {
+      parsed = {
+        row: `line ${line}`,
+        procedure: {
+          name,
+          equipment_type: blankToNull(cells.equipment_type),
+          procedure_type: rowErrors.oneOf(cells.procedure_type, PROCEDURE_TYPES, 'procedure_type', 'inspection') as ProcedureType,
+          phase: rowErrors.oneOf(cells.phase, PHASES, 'phase'),
+          estimated_duration: blankToNull(cells.estimated_duration),
+          required_tools: splitList(cells.required_tools),
+          safety_requirements: splitList(cells.safety_requirements),
+          steps: [],
+        },
+      };
+      byName.set(name.toLowerCase(), parsed);
+    }
+
+    const step = csvStep(cells, rowErrors);
+    if (!cells.step_number?.trim()) step.step_number = parsed.procedure.steps.length + 1;
+    parsed.procedure.steps.push(step);
+
+    validateStep(step, rowErrors);
+    errors.push(...rowErrors.errors);
+  }
+
+  const procedures = [...byName.values()];
+  for (const parsed of procedures) {
+    errors.push(...validateProcedure(parsed.procedure, parsed.row));
+  }
+  return { procedures, errors };
+}
+
+export function parseJson(text: string): { procedures: ParsedProcedure[]; errors: ImportError[] } {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (err: unknown) {
+    return { procedures: [], errors: [{ row: 'file', message: `Invalid JSON: ${err instanceof Error ? err.message : err}` }] };
+  }
+
+  const raw = Array.isArray(document) ? document : (document as Partial<PortableDocument>)?.procedures;
+  if (!Array.isArray(raw)) {
+    return { procedures: [], errors: [{ row: 'file', message: 'Expected a "procedures" array' }] };
+  }
+  const version = (document as Partial<PortableDocument>)?.version;
+  if (version !== undefined && version > PORTABLE_VERSION) {
+    return { procedures: [], errors: [{ row: 'file', message: `Format version ${version} is newer than this app supports` }] };
+  }
+
+  const errors: ImportError[] = [];
+  const procedures: ParsedProcedure[] = [];
+
+  raw.forEach((entry: unknown, index) => {
+    const row = `procedures[${index}]`;
+    const rowErrors = new RowErrors(row);
+    if (!isRecord(entry)) {
+      rowErrors.add('must be an object');
+      errors.push(...rowErrors.errors);
+      return;
+    }
+
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    if (!name) rowErrors.add('name is required');
+
+    const steps = recordList(entry.steps, 'steps', rowErrors);
+    const procedure: PortableProcedure = {
+      name,
+      equipment_type: typeof entry.equipment_type === 'string' ? blankToNull(entry.equipment_type) : null,
+      procedure_type: rowErrors.oneOf(entry.procedure_type, PROCEDURE_TYPES, 'procedure_type', 'inspection') as ProcedureType,
+      phase: rowErrors.oneOf(entry.phase, PHASES, 'phase'),
+      estimated_duration: typeof entry.estimated_duration === 'string' ? blankToNull(entry.estimated_duration) : null,
+      required_tools: asStrings(Array.isArray(entry.required_tools) ? entry.required_tools : []),
+      safety_requirements: asStrings(Array.isArray(entry.safety_requirements) ? entry.safety_requirements : []),
+      steps: steps.map(({ index: stepIndex, value: step }) => {
+        const stepErrors = new RowErrors(`${row}.steps[${stepIndex}]`);
+        const acceptance = step.acceptance_criteria ?? {};
+        if (!isRecord(acceptance) || !Object.values(acceptance).every(isRecord)) {
+          stepErrors.add('acceptance_criteria must map each parameter to its limits');
+        }
+        const parsed: PortableStep = {
+          step_number: stepErrors.number(step.step_number as number, 'step_number') ?? stepIndex + 1,
+          title: typeof step.title === 'string' ? step.title.trim() : '',
+          step_type: stepErrors.oneOf(step.step_type, STEP_TYPES, 'step_type', 'action') as StepType,
+          description: typeof step.description === 'string' ? blankToNull(step.description) : null,
+          instructions: typeof step.instructions === 'string' ? step.instructions.trim() : '',
+          safety_notes: typeof step.safety_notes === 'string' ? blankToNull(step.safety_notes) : null,
+          photo_required: step.photo_required === true,
+          estimated_time: typeof step.estimated_time === 'string' ? blankToNull(step.estimated_time) : null,
+          measurements: normalizeMeasurementSpecs({
+            measurements_required: recordList(step.measurements, 'measurements', stepErrors).map(
+              ({ value }) => value as unknown as MeasurementSpec
+            ),
+          }),
+          acceptance_criteria: isRecord(acceptance) ? (acceptance as Record<string, ToleranceLimit>) : {},
+          ...(step.outcomes != null && {
+            outcomes: recordList(step.outcomes, 'outcomes', stepErrors).map(({ value }) => value as unknown as PortableOutcome),
+          }),
+          ...(step.skip_if != null && {
+            skip_if: recordList(step.skip_if, 'skip_if', stepErrors).map(
+              ({ value }) => value as unknown as PortableSkipCondition
+            ),
+          }),
+        };
+        validateStep(parsed, stepErrors);
+        errors.push(...stepErrors.errors);
+        return parsed;
+      }),
+    };
+
+    errors.push(...rowErrors.errors, ...validateProcedure(procedure, row));
+    procedures.push({ row, procedure });
+  });
+
+  return { procedures, errors };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The objects in a JSON list, with their positions for error paths; anything
+// else in the list is reported rather than read
+function recordList(
+  value: unknown,
+  field: string,
+  errors: RowErrors
+): Array<{ index: number; value: Record<string, unknown> }> {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.add(`${field} must be a list`);
+    return [];
+  }
+
+  const records: Array<{ index: number; value: Record<string, unknown> }> = [];
+  value.forEach((item, index) => {
+    if (isRecord(item)) records.push({ index, value: item });
+    else errors.add(`${field}[${index}] must be an object`);
+  });
+  return records;
+}
+
+function validateStep(step: PortableStep, errors: RowErrors) {
+  if (!step.title) errors.add('Step title is required');
+  if (!step.instructions) errors.add('Step instructions are required');
+  if (step.measurements.some((spec) => !spec.parameter)) errors.add('Every measurement needs a parameter name');
+
+  for (const outcome of step.outcomes || []) {
+    if (typeof outcome.label !== 'string' || !outcome.label.trim()) errors.add('Every outcome needs a label');
+    if (!STEP_RESULTS.includes(outcome.result)) errors.add(`Outcome "${outcome.label}" has an invalid result`);
+  }
+  for (const condition of step.skip_if || []) {
+    if (!SKIP_FIELDS.includes(condition.field)) errors.add(`skip_if field "${condition.field}" is invalid`);
+    if (!SKIP_OPERATORS.includes(condition.operator)) errors.add(`skip_if operator "${condition.operator}" is invalid`);
+    if (condition.field === 'measurement' && !condition.parameter) errors.add('Measurement skip conditions need a parameter');
+  }
+}
+
+// Checks that need the whole procedure: numbering and step references
+function validateProcedure(procedure: PortableProcedure, row: string): ImportError[] {
+  const errors = new RowErrors(row);
+  if (procedure.steps.length === 0) errors.add(`"${procedure.name}" has no steps`);
+
+  const numbers = procedure.steps.map((step) => step.step_number);
+  const duplicate = numbers.find((number, index) => numbers.indexOf(number) !== index);
+  if (duplicate !== undefined) errors.add(`"${procedure.name}" has more than one step ${duplicate}`);
+
+  for (const step of procedure.steps) {
+    for (const outcome of step.outcomes || []) {
+      if (outcome.next_step === null || outcome.next_step === undefined) continue;
+      if (!numbers.includes(outcome.next_step)) {
+        errors.add(`Step ${step.step_number}: outcome "${outcome.label}" leads to missing step ${outcome.next_step}`);
+      } else if (outcome.next_step <= step.step_number) {
+        errors.add(`Step ${step.step_number}: outcome "${outcome.label}" must lead to a later step`);
+      }
+    }
+    for (const condition of step.skip_if || []) {
+      if (!numbers.includes(condition.step) || condition.step >= step.step_number) {
+        errors.add(`Step ${step.step_number}: skip condition must refer to an earlier step`);
+      }
+    }
+  }
+
+  return errors.errors;
+}
+
+// ---- Import ----
+
+export function planImport(
+  parsed: ParsedProcedure[],
+  equipmentTypes: Array<{ id: string; name: string }>,
+  families: ProcedureFamily[]
+): ImportPlan {
+  const errors: ImportError[] = [];
+  const items: ImportPlanItem[] = [];
+
+  for (const { row, procedure } of parsed) {
+    let equipmentTypeId: string | null = null;
+    if (procedure.equipment_type) {
+      const match = equipmentTypes.find(
+        (type) => type.name.trim().toLowerCase() === procedure.equipment_type!.toLowerCase()
+      );
+      if (!match) {
+        errors.push({ row, message: `Unknown equipment type "${procedure.equipment_type}"` });
+        continue;
+      }
+      equipmentTypeId = match.id;
+    }
+
+    const family =
+      families.find((f) => {
+        const latest = f.draft || f.current || f.versions[0];
+        return f.name.toLowerCase() === procedure.name.toLowerCase() && (latest?.equipment_type_id ?? null) === equipmentTypeId;
+      }) || null;
+
+    // An import never writes over work in progress
+    if (family?.draft) {
+      errors.push({ row, message: `"${procedure.name}" already has an open draft; publish or discard it first` });
+      continue;
+    }
+
+    items.push({ procedure, equipmentTypeId, family });
+  }
+
+  return { items, errors };
+}
+
+function draftSteps(procedure: PortableProcedure): DraftStep[] {
+  const ordered = [...procedure.steps].sort((a, b) => a.step_number - b.step_number);
+  const ids = new Map(ordered.map((step) => [step.step_number, crypto.randomUUID()]));
+  const outcomeIds = new Map<string, string>();
+
+  const outcomesFor = (step: PortableStep): DecisionOutcome[] =>
+    (step.outcomes || []).map((outcome) => {
+      const id = crypto.randomUUID();
+      outcomeIds.set(`${step.step_number}:${outcome.label.toLowerCase()}`, id);
+      return {
+        id,
+        label: outcome.label,
+        result: outcome.result,
+        next_step_id: outcome.next_step ? ids.get(outcome.next_step) || null : null,
+        ...(outcome.ends_procedure && { ends_procedure: true }),
+      };
+    });
+
+  // Outcomes first so skip conditions can refer to them by label
+  const outcomes = new Map(ordered.map((step) => [step.step_number, outcomesFor(step)]));
+
+  return ordered.map((step) => {
+    const stepOutcomes = step.step_type === 'decision' ? outcomes.get(step.step_number) || [] : [];
+    const skipIf: SkipCondition[] = (step.skip_if || []).map((condition) => ({
+      step_id: ids.get(condition.step)!,
+      field: condition.field,
+      parameter: condition.parameter ?? null,
+      operator: condition.operator,
+      value:
+        condition.field === 'outcome'
+          ? outcomeIds.get(`${condition.step}:${String(condition.value).toLowerCase()}`) || condition.value
+          : condition.value,
+    }));
+
+    return {
+      id: ids.get(step.step_number)!,
+      step_number: step.step_number,
+      title: step.title,
+      description: step.description,
+      instructions: step.instructions,
+      step_type: step.step_type,
+      acceptance_criteria: step.acceptance_criteria,
+      measurements_required: step.measurements,
+      photo_required: step.photo_required,
+      estimated_time: step.estimated_time,
+      safety_notes: step.safety_notes,
+      reference_documents: [],
+      routing:
+        stepOutcomes.length > 0 || skipIf.length > 0
+          ? {
+              ...(stepOutcomes.length > 0 && { outcomes: stepOutcomes }),
+              ...(skipIf.length > 0 && { skip_if: skipIf }),
+            }
+          : null,
+    };
+  });
+}
+
+// Imported procedures land as drafts for review; nothing is published. The
+// whole file is written in one transaction, so a failure imports nothing.
+export async function runImport(plan: ImportPlan): Promise<string[]> {
+  const procedures = plan.items.map(({ procedure, equipmentTypeId, family }) => {
+    const template: DraftTemplateFields = {
+      name: procedure.name,
+      equipment_type_id: equipmentTypeId,
+      procedure_type: procedure.procedure_type,
+      phase: procedure.phase,
+      estimated_duration: procedure.estimated_duration,
+      required_tools: procedure.required_tools,
+      safety_requirements: procedure.safety_requirements,
+    };
+
+    return {
+      source_template_id: (family?.current || family?.versions[0])?.id ?? null,
+      template,
+      steps: draftSteps(procedure).map((step, index) => ({ ...step, step_number: index + 1 })),
+    };
+  });
+
+  const { data, error } = await supabase.rpc('import_procedure_drafts', { p_procedures: procedures });
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,411 @@
+import { supabase } from './supabase';
+import { QuoteLineInput, defaultValidUntil, quotes, toCents } from './quotes';
+import { convert, isQuantity } from './units';
+import type {
+  InventoryCategory,
+  LaborRate,
+  PartMarkupRule,
+  RewindRate,
+  WorkOrderApproval,
+  WorkType,
+} from '../types/database';
+
+export type MarkupRuleInput = Omit<PartMarkupRule, 'id' | 'created_at' | 'updated_at'>;
+export type LaborRateInput = Omit<LaborRate, 'id' | 'created_at' | 'updated_at'>;
+export type RewindRateInput = Omit<RewindRate, 'id' | 'created_at' | 'updated_at'>;
+
+export interface PricingSetup {
+  markupRules: PartMarkupRule[];
+  laborRates: LaborRate[];
+  rewindRates: RewindRate[];
+  shopSuppliesPercent: number;
+  taxRate: number;
+}
+
+// One entry of WorkOrderApproval.required_parts
+export interface RequiredPart {
+  part_number: string;
+  description: string;
+  quantity: number;
+  estimated_cost: number;
+}
+
+export interface InventoryPrice {
+  id: string;
+  part_number: string;
+  category: InventoryCategory;
+  unit_cost: number;
+}
+
+export interface PricingChoices {
+  laborRateId: string | null;
+  horsepower: number | null;
+  frame: string;
+  includeRewind: boolean;
+}
+
+export interface PricedLines {
+  lines: QuoteLineInput[];
+  warnings: string[];
+}
+
+// Everything needed to price one approval request
+export interface ApprovalPricingContext {
+  approval: WorkOrderApproval;
+  workOrder: {
+    id: string;
+    work_order_number: string;
+    work_type: WorkType;
+    customer_id: string | null;
+    equipment: string | null;
+  };
+  inventory: InventoryPrice[];
+  horsepower: number | null;
+  existingQuoteId: string | null;
+}
+
+const byName = (a: string, b: string) => a.localeCompare(b);
+const sameText = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+// A category with rules of its own uses those instead of the catch-alls,
+// ordered by cost threshold
+export function markupTiersFor(rules: PartMarkupRule[], category: InventoryCategory | null): PartMarkupRule[] {
+  const active = rules.filter((rule) => rule.is_active);
+  const own = active.filter((rule) => category !== null && rule.category === category);
+  return (own.length > 0 ? own : active.filter((rule) => rule.category === null)).sort(
+    (a, b) => Number(a.min_unit_cost) - Number(b.min_unit_cost)
+  );
+}
+
+// Each tier marks up only the share of the cost between its threshold and the
+// next tier's, like tax brackets, so a dearer part never sells for less.
+// Cost below the first threshold is passed on as is.
+export function markedUpPrice(tiers: PartMarkupRule[], unitCost: number): { price: number; applied: PartMarkupRule[] } {
+  let price = tiers.length > 0 ? Math.min(unitCost, Number(tiers[0].min_unit_cost)) : unitCost;
+  const applied: PartMarkupRule[] = [];
+
+  tiers.forEach((tier, index) => {
+    const next = tiers[index + 1];
+    const portion = Math.min(unitCost, next ? Number(next.min_unit_cost) : Infinity) - Number(tier.min_unit_cost);
+    if (portion <= 0) return;
+
+    price += portion * (1 + Number(tier.markup_percent) / 100);
+    applied.push(tier);
+  });
+
+  return { price: toCents(price), applied };
+}
+
+function describeMarkup(applied: PartMarkupRule[]): string {
+  return applied
+    .map(
+      (tier) =>
+        `${Number(tier.markup_percent)}%${Number(tier.min_unit_cost) > 0 ? ` over $${Number(tier.min_unit_cost).toFixed(2)}` : ''} (${tier.name})`
+    )
+    .join(', ');
+}
+
+// Rates offered for a work type: its own first, then the catch-alls
+export function laborRatesFor(rates: LaborRate[], workType: WorkType): LaborRate[] {
+  return rates
+    .filter((rate) => rate.is_active && (rate.work_type === null || rate.work_type === workType))
+    .sort((a, b) => Number(b.work_type !== null) - Number(a.work_type !== null) || byName(a.skill, b.skill));
+}
+
+// A rate for the exact frame wins over one for any frame
+export function rewindRateFor(rates: RewindRate[], horsepower: number, frame: string): RewindRate | null {
+  return (
+    rates
+      .filter(
+        (rate) =>
+          rate.is_active &&
+          Number(rate.min_hp) <= horsepower &&
+          horsepower <= Number(rate.max_hp) &&
+          (rate.frame === null || sameText(rate.frame, frame))
+      )
+      .sort((a, b) => Number(b.frame !== null) - Number(a.frame !== null))[0] || null
+  );
+}
+
+// Horsepower from the nameplate captured at equipment identification
+export function horsepowerFrom(equipmentDetails: Record<string, unknown> | null | undefined): number | null {
+  const nameplate = (equipmentDetails?.nameplate || {}) as Record<string, unknown>;
+  const power = nameplate.hp_kw;
+  if (!isQuantity(power) || power.dimension !== 'power') return null;
+
+  const horsepower = convert(power.canonical_value, power.canonical_unit, 'HP');
+  return horsepower === null ? null : Math.round(horsepower * 100) / 100;
+}
+
+export function describeRewindRate(rate: Pick<RewindRate, 'min_hp' | 'max_hp' | 'frame'>): string {
+  return `${Number(rate.min_hp)}–${Number(rate.max_hp)} HP${rate.frame ? `, ${rate.frame} frame` : ''}`;
+}
+
+// Turns a tech's findings into quote lines: parts at cost plus markup, the
+// estimated hours at the chosen rate, an optional flat-rate rewind, and shop
+// supplies as a share of labor. Anything that could not be priced is listed
+// in `warnings` so the line can be fixed in the draft.
+export function priceApproval(
+  approval: Pick<WorkOrderApproval, 'required_parts' | 'estimated_hours'>,
+  inventory: InventoryPrice[],
+  setup: PricingSetup,
+  choices: PricingChoices
+): PricedLines {
+  const lines: QuoteLineInput[] = [];
+  const warnings: string[] = [];
+
+  for (const part of (approval.required_parts || []) as RequiredPart[]) {
+    const item = inventory.find((candidate) => sameText(candidate.part_number, part.part_number));
+    // Inventory cost when the shop has one, else what the tech estimated
+    const unitCost = Number(item?.unit_cost) || Number(part.estimated_cost) || 0;
+    const { price, applied } = markedUpPrice(markupTiersFor(setup.markupRules, item?.category ?? null), unitCost);
+    const label = [part.part_number, part.description].filter(Boolean).join(' ').trim() || 'Part';
+
+    if (!item) warnings.push(`${label} is not in inventory; priced from the technician's estimate`);
+    if (unitCost === 0) warnings.push(`${label} has no cost; set its price`);
+
+    lines.push({
+      item_type: 'part',
+      inventory_item_id: item?.id ?? null,
+      description: label,
+      quantity: Number(part.quantity) || 1,
+      unit_price: price,
+      discount_percent: 0,
+      notes: applied.length > 0 ? `Cost $${unitCost.toFixed(2)} + ${describeMarkup(applied)}` : `Cost $${unitCost.toFixed(2)}`,
+    });
+  }
+
+  const hours = Number(approval.estimated_hours) || 0;
+  const laborRate = setup.laborRates.find((rate) => rate.id === choices.laborRateId) || null;
+  let laborTotal = 0;
+  if (hours > 0) {
+    if (!laborRate) warnings.push('No labor rate chosen; labor is priced at $0');
+    laborTotal = toCents(hours * Number(laborRate?.hourly_rate || 0));
+    lines.push({
+      item_type: 'labor',
+      inventory_item_id: null,
+      description: `${laborRate?.skill || 'Shop'} labor`,
+      quantity: hours,
+      unit_price: Number(laborRate?.hourly_rate || 0),
+      discount_percent: 0,
+      notes: null,
+    });
+  }
+
+  if (choices.includeRewind) {
+    const rate = choices.horsepower ? rewindRateFor(setup.rewindRates, choices.horsepower, choices.frame) : null;
+    if (!choices.horsepower) {
+      warnings.push('Enter the horsepower to price the rewind');
+    } else if (!rate) {
+      warnings.push(`No rewind rate covers ${choices.horsepower} HP${choices.frame ? ` in a ${choices.frame} frame` : ''}`);
+    }
+    lines.push({
+      item_type: 'service',
+      inventory_item_id: null,
+      description: `Rewind${choices.horsepower ? ` – ${choices.horsepower} HP` : ''}${choices.frame ? `, ${choices.frame} frame` : ''}`,
+      quantity: 1,
+      unit_price: Number(rate?.price || 0),
+      discount_percent: 0,
+      notes: rate ? `Flat rate ${describeRewindRate(rate)}` : null,
+    });
+  }
+
+  if (setup.shopSuppliesPercent > 0 && laborTotal > 0) {
+    lines.push({
+      item_type: 'other',
+      inventory_item_id: null,
+      description: `Shop supplies (${setup.shopSuppliesPercent}% of labor)`,
+      quantity: 1,
+      unit_price: toCents((laborTotal * setup.shopSuppliesPercent) / 100),
+      discount_percent: 0,
+      notes: null,
+    });
+  }
+
+  return { lines, warnings };
+}
+
+class QuotePricingService {
+  async loadSetup(): Promise<PricingSetup> {
+    const [markupRes, laborRes, rewindRes, settingsRes] = await Promise.all([
+      supabase.from('part_markup_rules').select('*').order('min_unit_cost'),
+      supabase.from('labor_rates').select('*').order('skill'),
+      supabase.from('rewind_rates').select('*').order('min_hp'),
+      supabase.from('company_settings').select('shop_supplies_percent, default_tax_rate').limit(1).maybeSingle(),
+    ]);
+    if (markupRes.error) throw markupRes.error;
+    if (laborRes.error) throw laborRes.error;
+    if (rewindRes.error) throw rewindRes.error;
+    if (settingsRes.error) throw settingsRes.error;
+
+    return {
+      markupRules: markupRes.data || [],
+      laborRates: laborRes.data || [],
+      rewindRates: rewindRes.data || [],
+      shopSuppliesPercent: Number(settingsRes.data?.shop_supplies_percent || 0),
+      taxRate: Number(settingsRes.data?.default_tax_rate || 0),
+    };
+  }
+
+  async loadApprovalContext(approvalId: string): Promise<ApprovalPricingContext> {
+    const { data: approval, error } = await supabase
+      .from('work_order_approvals')
+      .select('*')
+      .eq('id', approvalId)
+      .single();
+
+    if (error) throw error;
+
+    const partNumbers = ((approval.required_parts || []) as RequiredPart[])
+      .map((part) => part.part_number.trim())
+      .filter(Boolean);
+
+    const [workOrderRes, inventoryRes, sessionRes, quoteRes] = await Promise.all([
+      supabase
+        .from('work_orders')
+        .select(
+          `
+          id, work_order_number, work_type, customer_id,
+          equipment_unit:equipment_units (
+            equipment_model:equipment_models (
+              model_number,
+              manufacturer:manufacturers (name)
+            )
+          )
+        `
+        )
+        .eq('id', approval.work_order_id)
+        .single(),
+      supabase
+        .from('inventory_items')
+        .select('id, part_number, category, unit_cost')
+        .in('part_number', partNumbers.length > 0 ? partNumbers : ['']),
+      supabase
+        .from('work_sessions')
+        .select('equipment_details')
+        .eq('work_order_id', approval.work_order_id)
+        .order('started_at', { ascending: false }),
+      supabase
+        .from('quotes')
+        .select('id')
+        .eq('approval_id', approvalId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    if (workOrderRes.error) throw workOrderRes.error;
+    if (inventoryRes.error) throw inventoryRes.error;
+    if (sessionRes.error) throw sessionRes.error;
+    if (quoteRes.error) throw quoteRes.error;
+
+    const workOrder = workOrderRes.data as unknown as {
+      id: string;
+      work_order_number: string;
+      work_type: WorkType;
+      customer_id: string;
+      equipment_unit: {
+        equipment_model: { model_number: string; manufacturer: { name: string } | null } | null;
+      } | null;
+    };
+    const model = workOrder.equipment_unit?.equipment_model;
+
+    return {
+      approval,
+      workOrder: {
+        id: workOrder.id,
+        work_order_number: workOrder.work_order_number,
+        work_type: workOrder.work_type,
+        customer_id: workOrder.customer_id,
+        equipment: [model?.manufacturer?.name, model?.model_number].filter(Boolean).join(' ') || null,
+      },
+      inventory: inventoryRes.data || [],
+      // The most recent session that recorded a nameplate
+      horsepower:
+        (sessionRes.data || [])
+          .map((session) => horsepowerFrom(session.equipment_details))
+          .find((horsepower) => horsepower !== null) ?? null,
+      existingQuoteId: quoteRes.data?.id || null,
+    };
+  }
+
+  // Saves the priced lines as a draft quote for the approval's work order and
+  // returns its id
+  async createDraft(context: ApprovalPricingContext, setup: PricingSetup, priced: PricedLines): Promise<string> {
+    return quotes.create(
+      {
+        customer_id: context.workOrder.customer_id,
+        work_order_id: context.workOrder.id,
+        approval_id: context.approval.id,
+        equipment_type: context.workOrder.equipment,
+        description: context.approval.findings_summary,
+        valid_until: defaultValidUntil(),
+        tax_rate: setup.taxRate,
+        discount_amount: 0,
+        terms: null,
+        notes: null,
+      },
+      priced.lines
+    );
+  }
+
+  async saveMarkupRule(rule: MarkupRuleInput, id?: string): Promise<void> {
+    if (!rule.name.trim()) throw new Error('Give the rule a name');
+    if (!(rule.markup_percent >= 0)) throw new Error('Markup cannot be negative');
+
+    const { error } = id
+      ? await supabase
+          .from('part_markup_rules')
+          .update({ ...rule, updated_at: new Date().toISOString() })
+          .eq('id', id)
+      : await supabase.from('part_markup_rules').insert(rule);
+
+    if (error) throw error;
+  }
+
+  async deleteMarkupRule(id: string): Promise<void> {
+    const { error } = await supabase.from('part_markup_rules').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async saveLaborRate(rate: LaborRateInput, id?: string): Promise<void> {
+    if (!rate.skill.trim()) throw new Error('Name the skill');
+    if (!(rate.hourly_rate >= 0)) throw new Error('The hourly rate cannot be negative');
+
+    const { error } = id
+      ? await supabase
+          .from('labor_rates')
+          .update({ ...rate, updated_at: new Date().toISOString() })
+          .eq('id', id)
+      : await supabase.from('labor_rates').insert(rate);
+
+    if (error) throw error;
+  }
+
+  async deleteLaborRate(id: string): Promise<void> {
+    const { error } = await supabase.from('labor_rates').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async saveRewindRate(rate: RewindRateInput, id?: string): Promise<void> {
+    if (!(rate.min_hp >= 0) || !(rate.max_hp >= rate.min_hp)) throw new Error('Check the horsepower range');
+    if (!(rate.price >= 0)) throw new Error('The price cannot be negative');
+
+    const cleaned = { ...rate, frame: rate.frame?.trim() || null };
+    const { error } = id
+      ? await supabase
+          .from('rewind_rates')
+          .update({ ...cleaned, updated_at: new Date().toISOString() })
+          .eq('id', id)
+      : await supabase.from('rewind_rates').insert(cleaned);
+
+    if (error) throw error;
+  }
+
+  async deleteRewindRate(id: string): Promise<void> {
+    const { error } = await supabase.from('rewind_rates').delete().eq('id', id);
+    if (error) throw error;
+  }
+}
+
+export const quotePricing = new QuotePricingService();
@@ -0,0 +1,255 @@
+import { supabase } from './supabase';
+import type {
+  PriorityLevel,
+  Quote,
+  QuoteItemType,
+  QuoteLineItem,
+  QuoteRevision,
+  QuoteStatus,
+  WorkType,
+} from '../types/database';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  viewed: 'Viewed',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  converted: 'Converted',
+};
+
+export const QUOTE_ITEM_TYPE_LABELS: Record<QuoteItemType, string> = {
+  part: 'Part',
+  labor: 'Labor',
+  service: 'Service',
+  other: 'Other',
+};
+
+// Mirrors enforce_quote_lifecycle(); going back to draft only happens through
+// revise(), which keeps a copy of what the customer saw
+export const QUOTE_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['sent'],
+  sent: ['viewed', 'accepted', 'rejected', 'expired'],
+  viewed: ['accepted', 'rejected', 'expired'],
+  accepted: ['converted'],
+  rejected: [],
+  expired: [],
+  converted: [],
+};
+
+const REVISABLE_STATUSES: QuoteStatus[] = ['sent', 'viewed', 'rejected', 'expired'];
+
+// convert() accepts a sent or viewed quote on the way
+const CONVERTIBLE_STATUSES: QuoteStatus[] = ['sent', 'viewed', 'accepted'];
+
+export type QuoteHeaderInput = Pick<
+  Quote,
+  | 'customer_id'
+  | 'work_order_id'
+  | 'approval_id'
+  | 'equipment_type'
+  | 'description'
+  | 'valid_until'
+  | 'tax_rate'
+  | 'discount_amount'
+  | 'terms'
+  | 'notes'
+>;
+
+export type QuoteLineInput = Pick<
+  QuoteLineItem,
+  'item_type' | 'inventory_item_id' | 'description' | 'quantity' | 'unit_price' | 'discount_percent' | 'notes'
+>;
+
+// Leave work_order_id empty to open a new work order for the quote's customer;
+// the other fields only apply to a new one, apart from the customer PO
+export interface QuoteConversionInput {
+  work_order_id: string | null;
+  work_type: WorkType;
+  priority: PriorityLevel;
+  equipment_unit_id: string | null;
+  customer_po: string;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  tax: number;
+  discount: number;
+  total: number;
+}
+
+export function canTransition(from: QuoteStatus, to: QuoteStatus): boolean {
+  return QUOTE_TRANSITIONS[from].includes(to);
+}
+
+export function canRevise(status: QuoteStatus): boolean {
+  return REVISABLE_STATUSES.includes(status);
+}
+
+export function canConvert(status: QuoteStatus): boolean {
+  return CONVERTIBLE_STATUSES.includes(status);
+}
+
+export const toCents = (value: number) => Math.round(value * 100) / 100;
+
+export function defaultValidUntil(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 30);
+  return date.toISOString().split('T')[0];
+}
+
+export function lineTotal(line: Pick<QuoteLineInput, 'quantity' | 'unit_price' | 'discount_percent'>): number {
+  return toCents(line.quantity * line.unit_price * (1 - (line.discount_percent || 0) / 100));
+}
+
+// Mirrors the generated tax_amount and total_amount columns so the builder
+// shows what will be stored
+export function quoteTotals(lines: QuoteLineInput[], taxRate: number, discountAmount: number): QuoteTotals {
+  const subtotal = toCents(lines.reduce((sum, line) => sum + lineTotal(line), 0));
+  const tax = toCents((subtotal * (taxRate || 0)) / 100);
+  const discount = discountAmount || 0;
+  return { subtotal, tax, discount, total: toCents(subtotal + tax - discount) };
+}
+
+export function validateQuote(header: QuoteHeaderInput, lines: QuoteLineInput[]): string | null {
+  if (lines.length === 0) return 'Add at least one line item';
+  if (lines.some((line) => !line.description.trim())) return 'Every line item needs a description';
+  if (lines.some((line) => !(line.quantity > 0))) return 'Quantities must be more than zero';
+  if (lines.some((line) => !(line.unit_price >= 0))) return 'Prices cannot be negative';
+  if (lines.some((line) => !(line.discount_percent >= 0 && line.discount_percent <= 100))) {
+    return 'Line discounts must be between 0 and 100%';
+  }
+  if (!(header.tax_rate >= 0 && header.tax_rate <= 100)) return 'Tax rate must be between 0 and 100%';
+  if (!(header.discount_amount >= 0)) return 'The discount cannot be negative';
+  return null;
+}
+
+class QuoteService {
+  async list(status?: QuoteStatus): Promise<Quote[]> {
+    let query = supabase
+      .from('quotes')
+      .select(
+        `
+        *,
+        customer:customers (company_name, contact_person),
+        converted_work_order:work_orders!converted_to_work_order_id (id, work_order_number, status)
+      `
+      )
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async load(id: string): Promise<Quote> {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select(
+        `
+        *,
+        customer:customers (*),
+        line_items:quote_line_items (*),
+        converted_work_order:work_orders!converted_to_work_order_id (id, work_order_number, status)
+      `
+      )
+      .eq('id', id)
+      .order('created_at', { referencedTable: 'quote_line_items' })
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listForWorkOrder(workOrderId: string): Promise<Quote[]> {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('*')
+      .eq('work_order_id', workOrderId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // The quote number comes from the document numbering trigger
+  async create(header: QuoteHeaderInput, lines: QuoteLineInput[]): Promise<string> {
+    return this.save(null, header, lines);
+  }
+
+  async saveDraft(id: string, header: QuoteHeaderInput, lines: QuoteLineInput[]): Promise<void> {
+    await this.save(id, header, lines);
+  }
+
+  async transition(id: string, status: QuoteStatus): Promise<void> {
+    const { error } = await supabase.from('quotes').update({ status }).eq('id', id);
+    if (error) throw error;
+  }
+
+  // Keeps a copy of the current version and reopens the quote as a draft;
+  // returns the new version number
+  async revise(id: string, reason: string): Promise<number> {
+    const { data, error } = await supabase.rpc('revise_quote', {
+      p_quote_id: id,
+      p_reason: reason || null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Accepts the quote if needed, creates or links the work order with the
+  // quote's lines as its approved scope, and returns the work order id
+  async convert(id: string, input: QuoteConversionInput): Promise<string> {
+    const { data, error } = await supabase.rpc('convert_quote', {
+      p_quote_id: id,
+      p_work_order_id: input.work_order_id,
+      p_work_type: input.work_type,
+      p_priority: input.priority,
+      p_equipment_unit_id: input.equipment_unit_id,
+      p_customer_po: input.customer_po || null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listRevisions(quoteId: string): Promise<QuoteRevision[]> {
+    const { data, error } = await supabase
+      .from('quote_revisions')
+      .select(
+        `
+        *,
+        creator:users!quote_revisions_created_by_fkey (full_name)
+      `
+      )
+      .eq('quote_id', quoteId)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // The header and lines are written in one transaction, so a failed line
+  // neither loses the others nor leaves an empty quote behind
+  private async save(id: string | null, header: QuoteHeaderInput, lines: QuoteLineInput[]): Promise<string> {
+    const problem = validateQuote(header, lines);
+    if (problem) throw new Error(problem);
+
+    const { data, error } = await supabase.rpc('save_quote_draft', {
+      p_quote_id: id,
+      p_header: header,
+      p_lines: lines,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const quotes = new QuoteService();
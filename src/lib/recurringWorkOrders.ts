@@ -0,0 +1,202 @@
+import { supabase } from './supabase';
+import type { RecurrenceFrequency, RecurrenceRule, TemplatePart, WorkOrderTemplate } from '../types/database';
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  days: 'Every N days',
+  monthly: 'Monthly',
+  operating_hours: 'By operating hours',
+};
+
+export type TemplateInput = Omit<
+  WorkOrderTemplate,
+  'id' | 'created_by' | 'created_at' | 'updated_at' | 'equipment_unit' | 'recurrence_rules'
+>;
+
+// What a generated work order was planned with, resolved for display
+export interface WorkOrderPlan {
+  templateName: string;
+  procedures: string[];
+  parts: Array<{ part_number: string; description: string; quantity: number }>;
+}
+
+export type RuleInput = Omit<RecurrenceRule, 'id' | 'template_id' | 'last_generated_at' | 'created_at'>;
+
+// Occurrences are plain YYYY-MM-DD dates, handled in UTC like the calendar's
+// date keys so they never drift across a timezone boundary
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Mirrors next_monthly_occurrence(): the following month on `day`, clamped
+// to that month's last day
+export function nextMonthlyOccurrence(date: string, day: number): string {
+  const current = parseDate(date);
+  const year = current.getUTCFullYear();
+  const month = current.getUTCMonth() + 1;
+  return formatDate(new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month)))));
+}
+
+// The first date on or after `from` that falls on `day` of its month
+export function firstMonthlyOccurrence(from: string, day: number): string {
+  const start = parseDate(from);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const candidate = formatDate(new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month)))));
+  return candidate >= from ? candidate : nextMonthlyOccurrence(candidate, day);
+}
+
+export function describeRule(rule: Pick<RecurrenceRule, 'frequency' | 'interval_days' | 'day_of_month' | 'interval_hours'>): string {
+  switch (rule.frequency) {
+    case 'days':
+      return rule.interval_days === 1 ? 'Every day' : `Every ${rule.interval_days} days`;
+    case 'monthly':
+      return `Monthly on day ${rule.day_of_month}`;
+    case 'operating_hours':
+      return `Every ${rule.interval_hours?.toLocaleString()} operating hours`;
+  }
+}
+
+export function validateRule(rule: RuleInput): string | null {
+  if (rule.frequency === 'days' && !(rule.interval_days && rule.interval_days > 0)) {
+    return 'Enter how many days between work orders';
+  }
+  if (rule.frequency === 'monthly' && !(rule.day_of_month && rule.day_of_month >= 1 && rule.day_of_month <= 31)) {
+    return 'Day of month must be between 1 and 31';
+  }
+  if (rule.frequency === 'operating_hours') {
+    if (!(rule.interval_hours && rule.interval_hours > 0)) return 'Enter the operating hours between work orders';
+    if (rule.next_due_hours === null) return 'Enter the operating hours the first work order is due at';
+  } else if (!rule.next_due_date) {
+    return 'Choose when the first work order is due';
+  }
+  return null;
+}
+
+// Dates a rule will generate within [from, to] that don't have a work order
+// yet. Operating-hours rules have no dates to forecast.
+export function projectedOccurrences(rule: RecurrenceRule, from: string, to: string): string[] {
+  if (rule.frequency === 'operating_hours' || !rule.next_due_date) return [];
+
+  const dates: string[] = [];
+  let date = rule.next_due_date;
+  while (date <= to) {
+    if (date >= from) dates.push(date);
+    date =
+      rule.frequency === 'days'
+        ? formatDate(new Date(parseDate(date).getTime() + (rule.interval_days || 1) * 86400000))
+        : nextMonthlyOccurrence(date, rule.day_of_month || 1);
+  }
+  return dates;
+}
+
+class RecurringWorkOrderService {
+  async listTemplates(): Promise<WorkOrderTemplate[]> {
+    const { data, error } = await supabase
+      .from('work_order_templates')
+      .select(
+        `
+        *,
+        equipment_unit:equipment_units (id, serial_number, operational_hours),
+        recurrence_rules:work_order_recurrence_rules (*)
+      `
+      )
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async saveTemplate(template: TemplateInput, id?: string): Promise<string> {
+    if (id) {
+      const { error } = await supabase
+        .from('work_order_templates')
+        .update({ ...template, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      return id;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('work_order_templates')
+      .insert({ ...template, created_by: user?.id })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const { error } = await supabase.from('work_order_templates').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async saveRule(templateId: string, rule: RuleInput, id?: string): Promise<void> {
+    const problem = validateRule(rule);
+    if (problem) throw new Error(problem);
+
+    const { error } = id
+      ? await supabase.from('work_order_recurrence_rules').update(rule).eq('id', id)
+      : await supabase.from('work_order_recurrence_rules').insert({ ...rule, template_id: templateId });
+
+    if (error) throw error;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase.from('work_order_recurrence_rules').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  async loadPlan(templateId: string): Promise<WorkOrderPlan | null> {
+    const { data: template, error } = await supabase
+      .from('work_order_templates')
+      .select('name, procedure_template_ids, parts')
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!template) return null;
+
+    const parts = (template.parts || []) as TemplatePart[];
+    const [proceduresRes, itemsRes] = await Promise.all([
+      supabase.from('procedure_templates').select('id, name').in('id', template.procedure_template_ids || []),
+      supabase
+        .from('inventory_items')
+        .select('id, part_number, description')
+        .in('id', parts.map((part) => part.inventory_item_id)),
+    ]);
+
+    if (proceduresRes.error) throw proceduresRes.error;
+    if (itemsRes.error) throw itemsRes.error;
+
+    const items = new Map((itemsRes.data || []).map((item) => [item.id, item]));
+    return {
+      templateName: template.name,
+      procedures: (proceduresRes.data || []).map((procedure) => procedure.name),
+      parts: parts.map((part) => ({
+        part_number: items.get(part.inventory_item_id)?.part_number || 'Unknown part',
+        description: items.get(part.inventory_item_id)?.description || '',
+        quantity: part.quantity,
+      })),
+    };
+  }
+
+  // Creates any work orders that have come within their lead window; returns how many
+  async generate(): Promise<number> {
+    const { data, error } = await supabase.rpc('generate_recurring_work_orders');
+    if (error) throw error;
+    return data || 0;
+  }
+}
+
+export const recurringWorkOrders = new RecurringWorkOrderService();
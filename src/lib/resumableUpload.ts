@@ -0,0 +1,119 @@
+import { supabase } from './supabase';
+
+// Supabase Storage's TUS endpoint only accepts 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const TUS_VERSION = '1.0.0';
+
+export interface ResumableUploadState {
+  uploadUrl: string;
+  offset: number;
+}
+
+interface ResumableUploadOptions {
+  bucket: string;
+  path: string;
+  blob: Blob;
+  state?: ResumableUploadState | null;
+  onStateChange?: (state: ResumableUploadState) => Promise<void> | void;
+  onProgress?: (uploaded: number, total: number) => void;
+}
+
+export async function uploadResumable({
+  bucket,
+  path,
+  blob,
+  state,
+  onStateChange,
+  onProgress,
+}: ResumableUploadOptions): Promise<void> {
+  const headers = await authHeaders();
+
+  let uploadUrl = state?.uploadUrl || null;
+  let offset = uploadUrl ? await fetchOffset(uploadUrl, headers) : null;
+
+  // An expired or unknown upload is restarted from scratch
+  if (offset === null) {
+    uploadUrl = await createUpload(bucket, path, blob, headers);
+    offset = 0;
+    await onStateChange?.({ uploadUrl, offset });
+  }
+
+  while (offset < blob.size) {
+    const chunk = blob.slice(offset, offset + CHUNK_SIZE);
+    const response: Response = await fetch(uploadUrl!, {
+      method: 'PATCH',
+      headers: {
+        ...headers,
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Offset': String(offset),
+        'Content-Type': 'application/offset+octet-stream',
+      },
+      body: chunk,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Upload of ${path} failed at byte ${offset} (${response.status})`);
+    }
+
+    offset = Number(response.headers.get('Upload-Offset'));
+    await onStateChange?.({ uploadUrl: uploadUrl!, offset });
+    onProgress?.(offset, blob.size);
+  }
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error('You must be signed in to upload photos');
+
+  return {
+    apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+    Authorization: `Bearer ${session.access_token}`,
+  };
+}
+
+async function fetchOffset(uploadUrl: string, headers: Record<string, string>): Promise<number | null> {
+  const response = await fetch(uploadUrl, {
+    method: 'HEAD',
+    headers: { ...headers, 'Tus-Resumable': TUS_VERSION },
+  });
+  if (!response.ok) return null;
+
+  const offset = response.headers.get('Upload-Offset');
+  return offset === null ? null : Number(offset);
+}
+
+async function createUpload(
+  bucket: string,
+  path: string,
+  blob: Blob,
+  headers: Record<string, string>
+): Promise<string> {
+  const metadata = {
+    bucketName: bucket,
+    objectName: path,
+    contentType: blob.type || 'image/jpeg',
+    cacheControl: '3600',
+  };
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Length': String(blob.size),
+      'Upload-Metadata': Object.entries(metadata)
+        .map(([key, value]) => `${key} ${btoa(value)}`)
+        .join(','),
+      'x-upsert': 'true',
+    },
+  });
+
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new Error(`Could not start upload of ${path} (${response.status})`);
+  }
+
+  return new URL(location, response.url).toString();
+}
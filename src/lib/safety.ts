@@ -0,0 +1,66 @@
+import type { ProcedureStep, ProcedureTemplate, SafetyAcknowledgment } from '../types/database';
+
+// Confirmed for every session before work starts, ahead of the procedure's own requirements
+export const LOTO_CHECKLIST = [
+  'All energy sources identified (electrical, stored, mechanical, pneumatic, hydraulic)',
+  'Equipment shut down and disconnected from its power source',
+  'Personal lock and tag applied to every isolation point',
+  'Stored energy released and capacitors discharged',
+  'Zero energy state verified with a tested meter and a start attempt',
+];
+
+export const STEP_ACKNOWLEDGMENTS = [
+  'I have read the safety note for this step',
+  'Required PPE is worn',
+  'Energy isolation is still in place and verified for this step',
+];
+
+const requirementText = (requirement: unknown): string => {
+  if (typeof requirement === 'string') return requirement;
+  if (requirement && typeof requirement === 'object') {
+    const { requirement: text, description, name } = requirement as Record<string, unknown>;
+    return String(text ?? description ?? name ?? '');
+  }
+  return String(requirement ?? '');
+};
+
+export function lotoChecklist(template: Pick<ProcedureTemplate, 'safety_requirements'> | null | undefined): string[] {
+  const requirements = (template?.safety_requirements || []).map(requirementText).filter((text) => text.trim());
+  return [...LOTO_CHECKLIST, ...requirements];
+}
+
+export function requiresAcknowledgment(step: Pick<ProcedureStep, 'safety_notes'>): boolean {
+  return !!step.safety_notes?.trim();
+}
+
+export function findAcknowledgment(
+  acknowledgments: SafetyAcknowledgment[],
+  stepId: string | null
+): SafetyAcknowledgment | undefined {
+  return acknowledgments.find((ack) => (stepId ? ack.kind === 'step' && ack.step_id === stepId : ack.kind === 'loto'));
+}
+
+// Acknowledgments as copied into a phase report, readable without the procedure
+export interface SafetyReportEntry {
+  label: string;
+  items: string[];
+  acknowledged_by: string;
+  acknowledged_at: string;
+}
+
+export function safetyReportEntries(
+  acknowledgments: Array<SafetyAcknowledgment & { acknowledged_by_user?: { full_name: string } | null }>,
+  steps: Pick<ProcedureStep, 'id' | 'step_number' | 'title'>[]
+): SafetyReportEntry[] {
+  return [...acknowledgments]
+    .sort((a, b) => a.acknowledged_at.localeCompare(b.acknowledged_at))
+    .map((ack) => {
+      const step = steps.find((s) => s.id === ack.step_id);
+      return {
+        label: ack.kind === 'loto' ? 'Lockout/Tagout' : step ? `${step.step_number}. ${step.title}` : 'Step',
+        items: ack.items || [],
+        acknowledged_by: ack.acknowledged_by_user?.full_name || 'Unknown',
+        acknowledged_at: ack.acknowledged_at,
+      };
+    });
+}
@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+import { offlineStorage } from './offlineStorage';
+import { syncManager } from './syncManager';
+
+export type BackgroundSyncTag = 'sync-queue' | 'sync-photos';
+
+type UpdateListener = (available: boolean) => void;
+
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+class ServiceWorkerManager {
+  private registration: SyncCapableRegistration | null = null;
+  private waiting: ServiceWorker | null = null;
+  private listeners: UpdateListener[] = [];
+
+  async register(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    this.registration = await navigator.serviceWorker.register('/sw.js');
+
+    if (this.registration.waiting && navigator.serviceWorker.controller) {
+      this.setWaiting(this.registration.waiting);
+    }
+
+    this.registration.addEventListener('updatefound', () => {
+      const installing = this.registration?.installing;
+      if (!installing) return;
+
+      installing.addEventListener('statechange', () => {
+        // The first install has nothing to replace, so only prompt for real updates
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+          this.setWaiting(installing);
+        }
+      });
+    });
+
+    navigator.serviceWorker.addEventListener('message', (event) => {
+      if (event.data?.type === 'FLUSH_SYNC') {
+        syncManager.syncAll().catch((error) => {
+          console.error('Error running background sync:', error);
+        });
+      }
+    });
+
+    this.shareSyncCredentials();
+  }
+
+  onUpdateAvailable(listener: UpdateListener): () => void {
+    this.listeners.push(listener);
+    listener(this.waiting !== null);
+
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  applyUpdate(): void {
+    if (!this.waiting) return;
+
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), {
+      once: true,
+    });
+    this.waiting.postMessage({ type: 'SKIP_WAITING' });
+  }
+
+  async requestBackgroundSync(tag: BackgroundSyncTag): Promise<void> {
+    if (!this.registration?.sync) return;
+
+    try {
+      await this.registration.sync.register(tag);
+    } catch (error) {
+      console.error('Error registering background sync:', error);
+    }
+  }
+
+  private setWaiting(worker: ServiceWorker): void {
+    this.waiting = worker;
+    this.listeners.forEach((listener) => listener(true));
+  }
+
+  private shareSyncCredentials(): void {
+    supabase.auth.getSession().then(({ data: { session } }) => this.storeCredentials(session));
+    supabase.auth.onAuthStateChange((event, session) => {
+      this.storeCredentials(session);
+      if (event === 'SIGNED_OUT') {
+        navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_REFERENCE_CACHE' });
+      }
+    });
+  }
+
+  private async storeCredentials(
+    session: { access_token: string; expires_at?: number } | null
+  ): Promise<void> {
+    try {
+      if (!session) {
+        await offlineStorage.clearSyncCredentials();
+        return;
+      }
+
+      await offlineStorage.saveSyncCredentials({
+        supabaseUrl: import.meta.env.VITE_SUPABASE_URL,
+        anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+        accessToken: session.access_token,
+        expiresAt: session.expires_at || 0,
+      });
+    } catch (error) {
+      console.error('Error sharing credentials with service worker:', error);
+    }
+  }
+}
+
+export const serviceWorkerManager = new ServiceWorkerManager();
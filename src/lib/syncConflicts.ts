@@ -0,0 +1,133 @@
+export type ConflictStrategy = 'review' | 'client';
+
+type FieldResolver = (local: unknown, server: unknown, base: unknown) => unknown;
+
+interface MergePolicy {
+  defaultStrategy: ConflictStrategy;
+  resolvers: Record<string, FieldResolver>;
+}
+
+export interface MergeResult {
+  merged: Record<string, unknown>;
+  conflicts: string[];
+}
+
+const UNRESOLVED = Symbol('unresolved');
+
+const IGNORED_FIELDS = ['id', 'updated_at', 'last_synced_at'];
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || a === undefined || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+const mergeObjectKeys: FieldResolver = (local, server, base) => {
+  const l = asObject(local);
+  const s = asObject(server);
+  const b = asObject(base);
+  const merged: Record<string, unknown> = { ...s };
+
+  for (const key of new Set([...Object.keys(l), ...Object.keys(s)])) {
+    if (valuesEqual(l[key], s[key]) || valuesEqual(l[key], b[key])) continue;
+    if (valuesEqual(s[key], b[key])) {
+      merged[key] = l[key];
+      continue;
+    }
+    return UNRESOLVED;
+  }
+
+  return merged;
+};
+
+const mergeText: FieldResolver = (local, server) => {
+  const l = typeof local === 'string' ? local : '';
+  const s = typeof server === 'string' ? server : '';
+  if (s.includes(l)) return s;
+  if (l.includes(s)) return l;
+  return UNRESOLVED;
+};
+
+const takeMax: FieldResolver = (local, server) => Math.max(Number(local) || 0, Number(server) || 0);
+
+const preferCompleted: FieldResolver = (local, server) =>
+  local === 'completed' || server === 'completed' ? 'completed' : local;
+
+export const MERGE_POLICIES: Record<string, MergePolicy> = {
+  step_completions: {
+    defaultStrategy: 'review',
+    resolvers: {
+      measurements: mergeObjectKeys,
+      observations: mergeText,
+      issues_found: mergeText,
+    },
+  },
+  work_sessions: {
+    defaultStrategy: 'client',
+    resolvers: {
+      progress_percentage: takeMax,
+      status: preferCompleted,
+      step_timers: mergeObjectKeys,
+    },
+  },
+  work_orders: {
+    defaultStrategy: 'review',
+    resolvers: {
+      actual_hours: takeMax,
+    },
+  },
+};
+
+export function isConflictAware(table: string): boolean {
+  return table in MERGE_POLICIES;
+}
+
+export function mergeRecords(
+  table: string,
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+  base: Record<string, unknown> | null
+): MergeResult {
+  const policy = MERGE_POLICIES[table];
+  const merged: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+
+  for (const field of Object.keys(local)) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const localValue = local[field];
+    const serverValue = server[field];
+
+    if (valuesEqual(localValue, serverValue)) continue;
+
+    if (base) {
+      if (valuesEqual(serverValue, base[field])) {
+        merged[field] = localValue;
+        continue;
+      }
+      if (valuesEqual(localValue, base[field])) continue;
+    }
+
+    const resolver = policy?.resolvers[field];
+    const resolved = resolver ? resolver(localValue, serverValue, base?.[field]) : UNRESOLVED;
+
+    if (resolved !== UNRESOLVED) {
+      merged[field] = resolved;
+    } else if (policy?.defaultStrategy === 'client') {
+      merged[field] = localValue;
+    } else {
+      conflicts.push(field);
+    }
+  }
+
+  return { merged, conflicts };
+}
@@ -1,8 +1,38 @@
 import { supabase } from './supabase';
-import { offlineStorage } from './offlineStorage';
+import {
+  offlineStorage,
+  SyncAttempt,
+  SyncOperation,
+  SyncQueueItem,
+  WorkOrderPacket,
+} from './offlineStorage';
+import { isConflictAware, mergeRecords } from './syncConflicts';
+import { photoStoragePaths } from './photoProcessing';
+import { uploadResumable } from './resumableUpload';
+import type { Photo, StepCompletion, WorkOrder } from '../types/database';
+
+const MAX_SYNC_RETRIES = 5;
+
+export interface OfflineDownloadEstimate {
+  documentCount: number;
+  documentBytes: number;
+  photoCount: number;
+}
+
+export interface OfflineDownloadProgress {
+  stage: string;
+  completed: number;
+  total: number;
+  bytesDownloaded: number;
+}
+
+interface ApplyResult {
+  status: 'applied' | 'conflict';
+  record: Record<string, unknown> | null;
+}
 
 class SyncManager {
-  private isSyncing = false;
+  private currentSync: Promise<{ success: boolean; errors: string[] }> | null = null;
   private syncInterval: number | null = null;
 
   async startAutoSync(intervalMs: number = 30000): Promise<void> {
@@ -23,7 +53,7 @@ class SyncManager {
   }
 
   async syncAll(): Promise<{ success: boolean; errors: string[] }> {
-    if (this.isSyncing) {
+    if (this.currentSync) {
       return { success: false, errors: ['Sync already in progress'] };
     }
 
@@ -31,7 +61,24 @@ class SyncManager {
       return { success: false, errors: ['No internet connection'] };
     }
 
-    this.isSyncing = true;
+    this.currentSync = this.runSync();
+    try {
+      return await this.currentSync;
+    } finally {
+      this.currentSync = null;
+    }
+  }
+
+  // Waits out a sync in progress, which may have read the outbox before the
+  // caller's change was saved, then runs a sync that includes it
+  async syncAfterCurrent(): Promise<{ success: boolean; errors: string[] }> {
+    while (this.currentSync) {
+      await this.currentSync;
+    }
+    return this.syncAll();
+  }
+
+  private async runSync(): Promise<{ success: boolean; errors: string[] }> {
     const errors: string[] = [];
 
     try {
@@ -42,8 +89,6 @@ class SyncManager {
     } catch (error) {
       errors.push(`Sync error: ${error}`);
       return { success: false, errors };
-    } finally {
-      this.isSyncing = false;
     }
   }
 
@@ -52,27 +97,49 @@ class SyncManager {
 
     for (const photo of photos) {
       try {
-        const fileName = `${photo.id}-${Date.now()}.jpg`;
-        const { error } = await supabase.storage
-          .from('photos')
-          .upload(fileName, photo.blob);
+        const { storagePath, thumbnailPath } = photo.metadata.storage_path
+          ? { storagePath: photo.metadata.storage_path, thumbnailPath: photo.metadata.thumbnail_path }
+          : photoStoragePaths(photo.metadata.work_session_id, photo.id);
 
-        if (!error) {
-          await offlineStorage.markPhotoAsUploaded(photo.id);
+        // Paths are derived from the photo id, so a retried upload overwrites rather than duplicates
+        await uploadResumable({
+          bucket: 'photos',
+          path: storagePath,
+          blob: photo.blob,
+          state: photo.upload,
+          onStateChange: (state) => offlineStorage.updatePhotoUploadState(photo.id, state),
+        });
 
-          if (photo.metadata.work_session_id) {
-            await supabase.from('photos').insert({
+        if (photo.thumbnail) {
+          const { error: thumbnailError } = await supabase.storage
+            .from('photos')
+            .upload(thumbnailPath, photo.thumbnail, { upsert: true, contentType: 'image/jpeg' });
+
+          if (thumbnailError) throw thumbnailError;
+        }
+
+        if (photo.metadata.work_session_id) {
+          const { error } = await supabase.from('photos').upsert(
+            {
               id: photo.id,
               work_session_id: photo.metadata.work_session_id,
               step_completion_id: photo.metadata.step_completion_id,
-              storage_path: fileName,
+              storage_path: storagePath,
+              thumbnail_path: photo.thumbnail ? thumbnailPath : null,
               photo_type: photo.metadata.photo_type || 'during',
               caption: photo.metadata.caption,
+              annotations: photo.metadata.annotations || {},
+              metadata: photo.metadata.details || {},
               taken_by: photo.metadata.taken_by,
               taken_at: photo.metadata.taken_at,
-            });
-          }
+            },
+            { onConflict: 'id', ignoreDuplicates: true }
+          );
+
+          if (error) throw error;
         }
+
+        await offlineStorage.markPhotoAsUploaded(photo.id);
       } catch (error) {
         console.error('Error syncing photo:', error);
       }
@@ -83,30 +150,222 @@ class SyncManager {
     const queue = await offlineStorage.getSyncQueue();
 
     for (const item of queue) {
-      if (item.retries >= 5) {
-        await offlineStorage.removeSyncQueueItem(item.id);
+      if (item.retries >= MAX_SYNC_RETRIES) {
+        await offlineStorage.moveToDeadLetter(item);
         continue;
       }
 
       try {
-        if (item.operation === 'insert') {
-          await supabase.from(item.table).insert(item.data);
-        } else if (item.operation === 'update') {
-          await supabase.from(item.table).update(item.data).eq('id', item.data.id);
-        } else if (item.operation === 'delete') {
-          await supabase.from(item.table).delete().eq('id', item.data.id);
+        if (isConflictAware(item.table)) {
+          await this.replayWithConflictDetection(item);
+        } else {
+          await this.replayBlind(item);
         }
 
         await offlineStorage.removeSyncQueueItem(item.id);
       } catch (error) {
         console.error('Error syncing queue item:', error);
-        await offlineStorage.incrementSyncRetries(item.id);
+        const updated = await offlineStorage.incrementSyncRetries(item.id, this.describeError(error));
+        if (updated && updated.retries >= MAX_SYNC_RETRIES) {
+          await offlineStorage.moveToDeadLetter({ ...updated, id: item.id });
+        }
       }
     }
   }
 
-  async downloadWorkOrderData(workOrderId: string): Promise<void> {
-    const { data: workOrder } = await supabase
+  private describeError(error: unknown): SyncAttempt {
+    const err = error as { code?: string; message?: string; details?: string } | null;
+    return {
+      at: Date.now(),
+      code: err?.code ?? null,
+      message: [err?.message ?? String(error), err?.details].filter(Boolean).join(' — '),
+    };
+  }
+
+  async retryDeadLetter(id: number, data?: Record<string, unknown>): Promise<void> {
+    await offlineStorage.requeueDeadLetter(id, data);
+
+    if (navigator.onLine) {
+      await this.syncAll();
+    }
+  }
+
+  async discardDeadLetter(id: number): Promise<void> {
+    await offlineStorage.removeDeadLetter(id);
+  }
+
+  private async replayBlind(item: SyncQueueItem): Promise<void> {
+    let result;
+    if (item.operation === 'insert') {
+      result = await supabase.from(item.table).insert(item.data);
+    } else if (item.operation === 'update') {
+      result = await supabase.from(item.table).update(item.data).eq('id', item.data.id);
+    } else {
+      result = await supabase.from(item.table).delete().eq('id', item.data.id);
+    }
+
+    if (result.error) throw result.error;
+  }
+
+  private async replayWithConflictDetection(item: SyncQueueItem): Promise<void> {
+    const base = item.baseRecord ?? null;
+    const outcome = await this.applyChange(
+      item.table,
+      item.operation,
+      item.data,
+      (base?.updated_at as string | undefined) ?? null
+    );
+
+    if (outcome.status === 'applied') {
+      if (outcome.record) await offlineStorage.recordServerCopy(item.table, outcome.record);
+      return;
+    }
+
+    const server = outcome.record;
+    if (!server || item.operation === 'delete') {
+      await offlineStorage.addSyncConflict({
+        table: item.table,
+        operation: item.operation,
+        recordId: item.data.id,
+        local: item.data,
+        server,
+        base,
+        fields: server ? ['id'] : Object.keys(item.data).filter((key) => key !== 'id'),
+        detectedAt: Date.now(),
+      });
+      return;
+    }
+
+    const { merged, conflicts } = mergeRecords(item.table, item.data, server, base);
+    let latest = server;
+
+    if (Object.keys(merged).length > 0) {
+      const retry = await this.applyChange(
+        item.table,
+        'update',
+        { ...merged, id: item.data.id },
+        server.updated_at as string
+      );
+      if (retry.status === 'conflict') {
+        throw new Error(`Record ${item.data.id} in ${item.table} changed again during merge`);
+      }
+      latest = retry.record ?? server;
+    }
+
+    await offlineStorage.recordServerCopy(item.table, latest);
+
+    if (conflicts.length > 0) {
+      await offlineStorage.addSyncConflict({
+        table: item.table,
+        operation: item.operation,
+        recordId: item.data.id,
+        local: item.data,
+        server: latest,
+        base,
+        fields: conflicts,
+        detectedAt: Date.now(),
+      });
+    }
+  }
+
+  private async applyChange(
+    table: string,
+    operation: SyncOperation,
+    record: Record<string, unknown>,
+    baseVersion: string | null
+  ): Promise<ApplyResult> {
+    const { data, error } = await supabase.rpc('apply_offline_change', {
+      p_table: table,
+      p_operation: operation,
+      p_record: record,
+      p_base_version: baseVersion,
+    });
+
+    if (error) throw error;
+    return data as ApplyResult;
+  }
+
+  async resolveConflict(conflictId: number, keepLocalFields: string[]): Promise<void> {
+    const conflicts = await offlineStorage.getSyncConflicts();
+    const conflict = conflicts.find((c) => c.id === conflictId);
+    if (!conflict) return;
+
+    if (conflict.operation === 'delete' && keepLocalFields.length > 0) {
+      await offlineStorage.addToSyncQueue(
+        conflict.table,
+        'delete',
+        { id: conflict.recordId },
+        conflict.server
+      );
+    } else if (keepLocalFields.length > 0) {
+      const patch: Record<string, unknown> = { id: conflict.recordId };
+      for (const field of keepLocalFields) {
+        patch[field] = conflict.local[field];
+      }
+
+      await offlineStorage.addToSyncQueue(
+        conflict.table,
+        conflict.server ? 'update' : 'insert',
+        conflict.server ? patch : conflict.local,
+        conflict.server
+      );
+    }
+
+    await offlineStorage.removeSyncConflict(conflictId);
+
+    if (navigator.onLine) {
+      await this.syncAll();
+    }
+  }
+
+  async estimateWorkOrderDownload(workOrderId: string): Promise<OfflineDownloadEstimate> {
+    const { data: documents, error: documentsError } = await supabase
+      .from('work_order_documents')
+      .select('file_size')
+      .eq('work_order_id', workOrderId);
+
+    if (documentsError) throw documentsError;
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('work_sessions')
+      .select('id')
+      .eq('work_order_id', workOrderId);
+
+    if (sessionsError) throw sessionsError;
+
+    let photoCount = 0;
+    if (sessions && sessions.length > 0) {
+      const { count, error: photosError } = await supabase
+        .from('photos')
+        .select('id', { count: 'exact', head: true })
+        .in('work_session_id', sessions.map((s) => s.id));
+
+      if (photosError) throw photosError;
+      photoCount = count || 0;
+    }
+
+    return {
+      documentCount: documents?.length || 0,
+      documentBytes: (documents || []).reduce((sum, d) => sum + (d.file_size || 0), 0),
+      photoCount,
+    };
+  }
+
+  async downloadWorkOrderData(
+    workOrderId: string,
+    onProgress?: (progress: OfflineDownloadProgress) => void
+  ): Promise<WorkOrderPacket> {
+    const DATA_STAGES = 8;
+    let completed = 0;
+    let total = DATA_STAGES;
+    let bytesDownloaded = 0;
+
+    const report = (stage: string) => {
+      completed += 1;
+      onProgress?.({ stage, completed, total, bytesDownloaded });
+    };
+
+    const { data: workOrder, error: workOrderError } = await supabase
       .from('work_orders')
       .select(`
         *,
@@ -123,35 +382,197 @@ class SyncManager {
       .eq('id', workOrderId)
       .maybeSingle();
 
-    if (workOrder) {
-      await offlineStorage.saveWorkOrder(workOrderId, workOrder);
-    }
+    if (workOrderError) throw workOrderError;
+    if (!workOrder) throw new Error('Work order not found');
+
+    await offlineStorage.saveWorkOrder(workOrderId, workOrder);
+    report('Work order');
 
-    const { data: sessions } = await supabase
+    const { data: sessions, error: sessionsError } = await supabase
       .from('work_sessions')
       .select('*')
       .eq('work_order_id', workOrderId);
 
-    if (sessions) {
-      for (const session of sessions) {
-        await offlineStorage.saveWorkSession(session.id, session);
-      }
+    if (sessionsError) throw sessionsError;
+
+    for (const session of sessions || []) {
+      await offlineStorage.saveWorkSession(session.id, session);
     }
+    const sessionIds = (sessions || []).map((s) => s.id);
+    report('Work sessions');
 
-    if (workOrder?.equipment_unit?.equipment_model?.equipment_type_id) {
-      const { data: procedures } = await supabase
+    const procedureFilters = [];
+    if (workOrder.equipment_unit?.equipment_model?.equipment_type_id) {
+      procedureFilters.push(
+        `and(equipment_type_id.eq.${workOrder.equipment_unit.equipment_model.equipment_type_id},status.eq.published)`
+      );
+    }
+    const sessionTemplateIds = (sessions || [])
+      .map((s) => s.procedure_template_id)
+      .filter(Boolean);
+    if (sessionTemplateIds.length > 0) {
+      procedureFilters.push(`id.in.(${sessionTemplateIds.join(',')})`);
+    }
+
+    let procedureIds: string[] = [];
+    if (procedureFilters.length > 0) {
+      const { data: procedures, error: proceduresError } = await supabase
         .from('procedure_templates')
         .select(`
           *,
           steps:procedure_steps(*)
         `)
-        .eq('equipment_type_id', workOrder.equipment_unit.equipment_model.equipment_type_id);
+        .or(procedureFilters.join(','));
 
-      if (procedures) {
-        for (const procedure of procedures) {
-          await offlineStorage.saveProcedure(procedure.id, procedure);
-        }
+      if (proceduresError) throw proceduresError;
+
+      for (const procedure of procedures || []) {
+        await offlineStorage.saveProcedure(procedure.id, procedure);
       }
+      procedureIds = (procedures || []).map((p) => p.id);
+    }
+    report('Procedures');
+
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('work_order_assignments')
+      .select(`
+        *,
+        technician:users!work_order_assignments_assigned_to_fkey(id, full_name, employee_id)
+      `)
+      .eq('work_order_id', workOrderId)
+      .order('created_at', { ascending: false });
+
+    if (assignmentsError) throw assignmentsError;
+
+    const { data: approvals, error: approvalsError } = await supabase
+      .from('work_order_approvals')
+      .select('*')
+      .eq('work_order_id', workOrderId)
+      .order('created_at', { ascending: false });
+
+    if (approvalsError) throw approvalsError;
+    report('Assignments and approvals');
+
+    let stepCompletions: StepCompletion[] = [];
+    let photos: Photo[] = [];
+    if (sessionIds.length > 0) {
+      const { data: completionData, error: completionError } = await supabase
+        .from('step_completions')
+        .select('*')
+        .in('work_session_id', sessionIds);
+
+      if (completionError) throw completionError;
+      stepCompletions = completionData || [];
+
+      const { data: photoData, error: photoError } = await supabase
+        .from('photos')
+        .select('*')
+        .in('work_session_id', sessionIds);
+
+      if (photoError) throw photoError;
+      photos = photoData || [];
+    }
+    report('Step completions and photos');
+
+    const { data: phaseReports, error: phaseReportsError } = await supabase
+      .from('phase_reports')
+      .select('*')
+      .eq('work_order_id', workOrderId)
+      .order('created_at', { ascending: true });
+
+    if (phaseReportsError) throw phaseReportsError;
+
+    const { data: documents, error: documentsError } = await supabase
+      .from('work_order_documents')
+      .select('*')
+      .eq('work_order_id', workOrderId);
+
+    if (documentsError) throw documentsError;
+    report('Phase reports and documents');
+
+    const { data: customForms, error: customFormsError } = await supabase
+      .from('custom_forms')
+      .select('*')
+      .order('name');
+
+    if (customFormsError) throw customFormsError;
+    report('Custom forms');
+
+    let equipmentHistory: WorkOrder[] = [];
+    if (workOrder.equipment_unit_id) {
+      const { data: historyData, error: historyError } = await supabase
+        .from('work_orders')
+        .select(`
+          *,
+          work_sessions (
+            id,
+            status,
+            completed_at,
+            procedure_template:procedure_templates (name, phase)
+          )
+        `)
+        .eq('equipment_unit_id', workOrder.equipment_unit_id)
+        .neq('id', workOrderId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (historyError) throw historyError;
+      equipmentHistory = historyData || [];
+    }
+    report('Equipment history');
+
+    const files = [
+      ...(documents || []).map((doc) => ({ id: doc.file_url as string, label: doc.name as string })),
+      ...photos.map((photo) => ({ id: `photos/${photo.storage_path}`, label: photo.storage_path })),
+    ];
+    total += files.length;
+
+    for (const file of files) {
+      const blob = await this.downloadFile(file.id);
+      if (blob) {
+        await offlineStorage.saveCachedFile(file.id, workOrderId, blob);
+        bytesDownloaded += blob.size;
+      }
+      report(file.label);
+    }
+
+    const packet: WorkOrderPacket = {
+      workOrderId,
+      assignments: assignments || [],
+      approvals: approvals || [],
+      stepCompletions,
+      photos,
+      phaseReports: phaseReports || [],
+      documents: documents || [],
+      customForms: customForms || [],
+      equipmentHistory,
+      procedureIds,
+      sessionIds,
+      fileCount: files.length,
+      totalBytes: bytesDownloaded,
+      preparedAt: Date.now(),
+    };
+
+    await offlineStorage.saveWorkOrderPacket(packet);
+    return packet;
+  }
+
+  private async downloadFile(id: string): Promise<Blob | null> {
+    try {
+      if (id.startsWith('photos/')) {
+        const { data, error } = await supabase.storage
+          .from('photos')
+          .download(id.slice('photos/'.length));
+        if (error) throw error;
+        return data;
+      }
+
+      const response = await fetch(id);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await response.blob();
+    } catch (error) {
+      console.error('Error caching file for offline use:', id, error);
+      return null;
     }
   }
 
@@ -159,17 +580,23 @@ class SyncManager {
     isOnline: boolean;
     pendingPhotos: number;
     pendingSync: number;
+    conflicts: number;
+    failedSync: number;
     storageUsed: number;
     storageAvailable: number;
   }> {
     const photos = await offlineStorage.getUnuploadedPhotos();
     const queue = await offlineStorage.getSyncQueue();
+    const conflicts = await offlineStorage.getSyncConflicts();
+    const deadLetters = await offlineStorage.getDeadLetters();
     const storage = await offlineStorage.getStorageSize();
 
     return {
       isOnline: navigator.onLine,
       pendingPhotos: photos.length,
       pendingSync: queue.length,
+      conflicts: conflicts.length,
+      failedSync: deadLetters.length,
       storageUsed: storage.used,
       storageAvailable: storage.available,
     };
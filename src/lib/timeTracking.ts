@@ -0,0 +1,122 @@
+import type { StepTimerInterval } from '../types/database';
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  sec: 1,
+  secs: 1,
+  second: 1,
+  seconds: 1,
+  m: 60,
+  min: 60,
+  mins: 60,
+  minute: 60,
+  minutes: 60,
+  h: 3600,
+  hr: 3600,
+  hrs: 3600,
+  hour: 3600,
+  hours: 3600,
+  day: 86400,
+  days: 86400,
+};
+
+// Reads a Postgres interval as it comes back from the database ("01:30:00",
+// "1 day 02:00:00") or as typed into the editor ("15 minutes", "1h 30m").
+// Returns null when the text isn't a duration.
+export function parseDuration(value: string | null | undefined): number | null {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+
+  let seconds = 0;
+  let matched = false;
+  let rest = text.replace(/(\d+):(\d{2})(?::(\d{2}(?:\.\d+)?))?/, (_, h, m, s) => {
+    seconds += Number(h) * 3600 + Number(m) * 60 + Number(s || 0);
+    matched = true;
+    return ' ';
+  });
+
+  rest = rest.replace(/(\d+(?:\.\d+)?)\s*([a-z]+)/g, (whole, amount, unit) => {
+    if (!(unit in UNIT_SECONDS)) return whole;
+    seconds += Number(amount) * UNIT_SECONDS[unit];
+    matched = true;
+    return ' ';
+  });
+
+  if (!matched || rest.trim()) return null;
+  return Math.round(seconds);
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(secs).padStart(2, '0')}s`;
+  return `${secs}s`;
+}
+
+// Written into interval columns, which accept this form directly
+export function toInterval(seconds: number): string {
+  return `${Math.round(seconds)} seconds`;
+}
+
+export function isRunning(intervals: StepTimerInterval[] | undefined): boolean {
+  return !!intervals?.some((interval) => !interval.ended_at);
+}
+
+export function startTimer(intervals: StepTimerInterval[] | undefined, at = new Date()): StepTimerInterval[] {
+  if (isRunning(intervals)) return intervals!;
+  return [...(intervals || []), { started_at: at.toISOString(), ended_at: null }];
+}
+
+export function pauseTimer(intervals: StepTimerInterval[] | undefined, at = new Date()): StepTimerInterval[] {
+  return (intervals || []).map((interval) =>
+    interval.ended_at ? interval : { ...interval, ended_at: at.toISOString() }
+  );
+}
+
+export function elapsedSeconds(intervals: StepTimerInterval[] | undefined, now = new Date()): number {
+  const ms = (intervals || []).reduce((sum, interval) => {
+    const end = interval.ended_at ? new Date(interval.ended_at) : now;
+    return sum + Math.max(0, end.getTime() - new Date(interval.started_at).getTime());
+  }, 0);
+  return Math.round(ms / 1000);
+}
+
+export interface LaborTotals {
+  actualSeconds: number;
+  estimatedSeconds: number;
+  // Performed steps that have no estimate, so the comparison is incomplete
+  unestimatedSteps: number;
+}
+
+// Time spent on the steps actually performed against those steps' estimates.
+// Skipped steps take no time and are left out of both sides.
+export function laborTotals(
+  completions: Array<{ step_id: string; status: string; time_spent: string | null }>,
+  steps: Array<{ id: string; estimated_time: string | null }>
+): LaborTotals {
+  const totals: LaborTotals = { actualSeconds: 0, estimatedSeconds: 0, unestimatedSteps: 0 };
+
+  for (const completion of completions) {
+    if (completion.status !== 'completed' && completion.status !== 'failed') continue;
+    totals.actualSeconds += parseDuration(completion.time_spent) || 0;
+
+    const estimate = parseDuration(steps.find((s) => s.id === completion.step_id)?.estimated_time);
+    if (estimate === null) totals.unestimatedSteps++;
+    else totals.estimatedSeconds += estimate;
+  }
+
+  return totals;
+}
+
+// Positive when over the estimate
+export function varianceText(actualSeconds: number, estimatedSeconds: number): string {
+  if (!estimatedSeconds) return 'No estimate';
+  const difference = actualSeconds - estimatedSeconds;
+  const percent = Math.round((Math.abs(difference) / estimatedSeconds) * 100);
+  if (percent === 0) return 'On estimate';
+  return `${formatDuration(Math.abs(difference))} ${difference > 0 ? 'over' : 'under'} (${percent}%)`;
+}
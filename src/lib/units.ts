@@ -0,0 +1,287 @@
+export type Dimension =
+  | 'power'
+  | 'length'
+  | 'temperature'
+  | 'torque'
+  | 'resistance'
+  | 'voltage'
+  | 'current'
+  | 'speed';
+
+// Values are stored in the canonical unit of their dimension alongside the
+// unit they were entered in, so they can be compared and re-displayed.
+export interface Quantity {
+  value: number;
+  unit: string;
+  canonical_value: number;
+  canonical_unit: string;
+  dimension: Dimension;
+}
+
+export type DisplayUnits = Record<Dimension, string>;
+
+interface UnitDefinition {
+  symbol: string;
+  dimension: Dimension;
+  aliases: string[];
+  toCanonical: (value: number) => number;
+  fromCanonical: (value: number) => number;
+}
+
+const linear = (
+  symbol: string,
+  dimension: Dimension,
+  factor: number,
+  aliases: string[]
+): UnitDefinition => ({
+  symbol,
+  dimension,
+  aliases,
+  toCanonical: (value) => value * factor,
+  fromCanonical: (value) => value / factor,
+});
+
+const UNITS: UnitDefinition[] = [
+  linear('kW', 'power', 1, ['kw', 'kilowatt', 'kilowatts']),
+  linear('W', 'power', 0.001, ['w', 'watt', 'watts']),
+  linear('HP', 'power', 0.745699872, ['hp', 'bhp', 'horsepower']),
+
+  linear('mm', 'length', 1, ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres']),
+  linear('µm', 'length', 0.001, ['µm', 'um', 'micron', 'microns']),
+  linear('cm', 'length', 10, ['cm']),
+  linear('m', 'length', 1000, ['m', 'meter', 'meters', 'metre', 'metres']),
+  linear('in', 'length', 25.4, ['in', 'inch', 'inches', '"', '″']),
+  linear('mil', 'length', 0.0254, ['mil', 'mils', 'thou']),
+  linear('ft', 'length', 304.8, ['ft', 'foot', 'feet', "'"]),
+
+  {
+    symbol: '°C',
+    dimension: 'temperature',
+    aliases: ['°c', 'c', 'degc', 'celsius', 'ºc'],
+    toCanonical: (value) => value,
+    fromCanonical: (value) => value,
+  },
+  {
+    symbol: '°F',
+    dimension: 'temperature',
+    aliases: ['°f', 'f', 'degf', 'fahrenheit', 'ºf'],
+    toCanonical: (value) => ((value - 32) * 5) / 9,
+    fromCanonical: (value) => (value * 9) / 5 + 32,
+  },
+  {
+    symbol: 'K',
+    dimension: 'temperature',
+    aliases: ['k', 'kelvin'],
+    toCanonical: (value) => value - 273.15,
+    fromCanonical: (value) => value + 273.15,
+  },
+
+  linear('N·m', 'torque', 1, ['n·m', 'nm', 'n-m', 'n.m', 'n m', 'newton-meter', 'newton-meters']),
+  linear('lbf·ft', 'torque', 1.3558179483, ['lbf·ft', 'lbf-ft', 'lbfft', 'lb-ft', 'lbft', 'ft-lb', 'ft-lbs', 'ftlb', 'ft·lbf', 'ft-lbf', 'lb·ft']),
+  linear('lbf·in', 'torque', 0.112984829, ['lbf·in', 'lbf-in', 'lb-in', 'in-lb', 'in-lbs', 'inlb']),
+
+  linear('MΩ', 'resistance', 1, ['megohm', 'megohms', 'meg', 'megs']),
+  linear('GΩ', 'resistance', 1000, ['gω', 'gohm', 'gigohm', 'gigohms']),
+  linear('kΩ', 'resistance', 0.001, ['kω', 'kohm', 'kilohm', 'kilohms']),
+  linear('Ω', 'resistance', 0.000001, ['ω', 'ohm', 'ohms']),
+  linear('mΩ', 'resistance', 0.000000001, ['milliohm', 'milliohms']),
+
+  linear('V', 'voltage', 1, ['v', 'volt', 'volts', 'vac', 'vdc']),
+  linear('kV', 'voltage', 1000, ['kv', 'kilovolt', 'kilovolts']),
+
+  linear('A', 'current', 1, ['a', 'amp', 'amps', 'ampere', 'amperes']),
+  linear('mA', 'current', 0.001, ['ma', 'milliamp', 'milliamps']),
+
+  linear('RPM', 'speed', 1, ['rpm', 'r/min']),
+];
+
+export const CANONICAL_UNITS: DisplayUnits = {
+  power: 'kW',
+  length: 'mm',
+  temperature: '°C',
+  torque: 'N·m',
+  resistance: 'MΩ',
+  voltage: 'V',
+  current: 'A',
+  speed: 'RPM',
+};
+
+export const DEFAULT_DISPLAY_UNITS: DisplayUnits = {
+  ...CANONICAL_UNITS,
+  power: 'HP',
+  length: 'in',
+  temperature: '°F',
+  torque: 'lbf·ft',
+};
+
+// The dimensions a user can choose a display unit for, and the choices offered
+export const DISPLAY_UNIT_CHOICES: Array<{ dimension: Dimension; label: string; units: string[] }> = [
+  { dimension: 'power', label: 'Power', units: ['HP', 'kW'] },
+  { dimension: 'length', label: 'Length', units: ['in', 'mm', 'mil'] },
+  { dimension: 'temperature', label: 'Temperature', units: ['°F', '°C'] },
+  { dimension: 'torque', label: 'Torque', units: ['lbf·ft', 'N·m', 'lbf·in'] },
+  { dimension: 'resistance', label: 'Insulation Resistance', units: ['MΩ', 'GΩ'] },
+];
+
+const bySymbol = new Map(UNITS.map((unit) => [unit.symbol, unit]));
+const byAlias = new Map<string, UnitDefinition | null>();
+for (const unit of UNITS) {
+  // An alias two units share is ambiguous and matches neither, so a lowercase
+  // "mω" has to be written as MΩ/megohm or mΩ/milliohm
+  [unit.symbol.toLowerCase(), ...unit.aliases].forEach((alias) => {
+    byAlias.set(alias, byAlias.has(alias) && byAlias.get(alias) !== unit ? null : unit);
+  });
+}
+
+// "MΩ" and "mΩ" only differ by case, so symbols are matched before the
+// case-insensitive aliases.
+export function findUnit(text: string | null | undefined): UnitDefinition | null {
+  if (!text) return null;
+  const trimmed = text.trim();
+  return bySymbol.get(trimmed) || byAlias.get(trimmed.toLowerCase().replace(/^deg\s*/, 'deg')) || null;
+}
+
+export function normalizeUnit(text: string | null | undefined): string | null {
+  return findUnit(text)?.symbol ?? (text?.trim() || null);
+}
+
+export function convert(value: number, from: string, to: string): number | null {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (!source || !target || source.dimension !== target.dimension) return null;
+  return target.fromCanonical(source.toCanonical(value));
+}
+
+export function toQuantity(value: number, unit: string): Quantity | null {
+  const definition = findUnit(unit);
+  if (!definition) return null;
+
+  return {
+    value,
+    unit: definition.symbol,
+    canonical_value: definition.toCanonical(value),
+    canonical_unit: CANONICAL_UNITS[definition.dimension],
+    dimension: definition.dimension,
+  };
+}
+
+// Only a small denominator makes a fraction ("1/2", "1-1/2", "3/4 HP"); any
+// other slash separates alternative ratings, as in "230/460 V"
+const FRACTION = String.raw`(?:\d+[ -])?\d+\/(?:64|32|16|8|4|3|2)(?![\d.])`;
+const NUMBER = String.raw`\d[\d,]*\.?\d*|\.\d+`;
+const UNIT = String.raw`°\s*[cf]|º\s*[cf]|[a-zµΩω°·"″'./\- ]*[a-zΩω"″']`;
+
+// Alternative and ranged ratings ("230/460 V", "208-230 V") read as the first
+const QUANTITY_PATTERN = new RegExp(
+  `(-?(?:${FRACTION}|${NUMBER}))(?:\\s*[/-]\\s*(?:${FRACTION}|${NUMBER}))*\\s*(${UNIT})?`,
+  'gi'
+);
+
+function parseNumber(text: string): number {
+  const fraction = text.match(/^(-?)(?:(\d+)[ -])?(\d+)\/(\d+)$/);
+  if (!fraction) return Number(text.replace(/,/g, ''));
+
+  const [, sign, whole, numerator, denominator] = fraction;
+  const value = Number(whole || 0) + Number(numerator) / Number(denominator);
+  return sign ? -value : value;
+}
+
+// Pulls every number-with-unit out of free text such as "50 HP or 37 kW",
+// "460V 3-phase", "230/460V" or "1/2 in". Numbers without a recognised unit take
+// `defaultUnit`.
+export function parseQuantities(text: string, defaultUnit?: string | null): Quantity[] {
+  const quantities: Quantity[] = [];
+
+  for (const match of text.matchAll(QUANTITY_PATTERN)) {
+    const value = parseNumber(match[1]);
+    if (!Number.isFinite(value)) continue;
+
+    const unitText = (match[2] || '').trim();
+    // Try the longest prefix of the trailing words that is a known unit
+    const words = unitText.split(/\s+/);
+    let quantity: Quantity | null = null;
+    for (let i = words.length; i > 0 && !quantity; i--) {
+      quantity = toQuantity(value, words.slice(0, i).join(' '));
+    }
+
+    if (!quantity && defaultUnit) quantity = toQuantity(value, defaultUnit);
+    if (quantity) quantities.push(quantity);
+  }
+
+  return quantities;
+}
+
+export function parseQuantity(text: string, defaultUnit?: string | null): Quantity | null {
+  return parseQuantities(text, defaultUnit)[0] || null;
+}
+
+const round = (value: number) => {
+  const abs = Math.abs(value);
+  const digits = abs >= 100 ? 1 : abs >= 1 ? 3 : 4;
+  return Number(value.toFixed(digits));
+};
+
+export function displayUnitFor(dimension: Dimension, displayUnits?: Partial<DisplayUnits> | null): string {
+  return displayUnits?.[dimension] || DEFAULT_DISPLAY_UNITS[dimension];
+}
+
+export function formatQuantity(quantity: Quantity, displayUnits?: Partial<DisplayUnits> | null): string {
+  const unit = findUnit(displayUnitFor(quantity.dimension, displayUnits));
+  if (!unit) return `${round(quantity.value)} ${quantity.unit}`;
+  return `${round(unit.fromCanonical(quantity.canonical_value))} ${unit.symbol}`;
+}
+
+export function isQuantity(value: unknown): value is Quantity {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'canonical_value' in value &&
+    'dimension' in value
+  );
+}
+
+// Nameplate fields captured during equipment identification, and the unit a
+// bare number in each is assumed to be in
+export const NAMEPLATE_UNITS: Record<string, string> = {
+  hp_kw: 'HP',
+  voltage: 'V',
+  speed: 'RPM',
+};
+
+export function parseNameplate(details: object): Record<string, Quantity> {
+  const nameplate: Record<string, Quantity> = {};
+
+  for (const [key, defaultUnit] of Object.entries(NAMEPLATE_UNITS)) {
+    const text = (details as Record<string, unknown>)[key];
+    if (typeof text !== 'string') continue;
+
+    const quantity = parseQuantity(text, defaultUnit);
+    if (quantity) nameplate[key] = quantity;
+  }
+
+  return nameplate;
+}
+
+// Equipment details as label/text pairs for reports, with parsed nameplate
+// values also shown in the reader's display unit when it differs.
+export function equipmentDetailEntries(
+  details: Record<string, unknown> | null | undefined,
+  displayUnits?: Partial<DisplayUnits> | null
+): Array<[string, string]> {
+  if (!details) return [];
+
+  const nameplate = (details.nameplate || {}) as Record<string, Quantity>;
+  const entries: Array<[string, string]> = [];
+
+  for (const [key, value] of Object.entries(details)) {
+    if (key === 'nameplate' || !value || value === 'N/A' || typeof value === 'object') continue;
+
+    const quantity = nameplate[key];
+    const converted = isQuantity(quantity) ? formatQuantity(quantity, displayUnits) : null;
+    const showConverted = converted && findUnit(displayUnitFor(quantity.dimension, displayUnits))?.symbol !== quantity.unit;
+
+    entries.push([key.replace(/_/g, ' '), showConverted ? `${value} (= ${converted})` : String(value)]);
+  }
+
+  return entries;
+}
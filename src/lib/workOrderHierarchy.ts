@@ -0,0 +1,109 @@
+import { supabase } from './supabase';
+import type { WorkOrder, WorkOrderRollup, WorkOrderStatus, WorkType } from '../types/database';
+
+// Outside services only move between these, shown in vendor terms
+export const OUTSIDE_SERVICE_STATUS_LABELS: Partial<Record<WorkOrderStatus, string>> = {
+  pending: 'Not sent',
+  in_progress: 'At vendor',
+  completed: 'Returned',
+  cancelled: 'Cancelled',
+};
+
+export interface ChildWorkOrderInput {
+  equipment_unit_id: string | null;
+  work_type: WorkType;
+  reported_issue: string;
+  estimated_hours: number | null;
+  outside_service: boolean;
+  vendor_id: string | null;
+  vendor_reference: string | null;
+  outside_service_cost: number | null;
+}
+
+export type OutsideServiceChanges = Partial<Pick<WorkOrder, 'status' | 'vendor_reference' | 'outside_service_cost'>>;
+
+class WorkOrderHierarchyService {
+  async loadChildren(parentId: string): Promise<WorkOrder[]> {
+    const { data, error } = await supabase
+      .from('work_orders')
+      .select(
+        `
+        *,
+        equipment_unit:equipment_units (
+          serial_number,
+          equipment_model:equipment_models (model_number)
+        ),
+        vendor:suppliers (name)
+      `
+      )
+      .eq('parent_work_order_id', parentId)
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async loadRollups(workOrderIds?: string[]): Promise<Map<string, WorkOrderRollup>> {
+    let query = supabase.from('work_order_rollups').select('*');
+    if (workOrderIds) query = query.in('work_order_id', workOrderIds);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return new Map((data || []).map((rollup: WorkOrderRollup) => [rollup.work_order_id, rollup]));
+  }
+
+  async loadParentNumber(parentId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('work_orders')
+      .select('work_order_number')
+      .eq('id', parentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.work_order_number || null;
+  }
+
+  async loadVendors(): Promise<Array<{ id: string; name: string }>> {
+    const { data, error } = await supabase.from('suppliers').select('id, name').eq('is_active', true).order('name');
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Children share the parent's customer and priority
+  async createChild(parent: WorkOrder, input: ChildWorkOrderInput): Promise<void> {
+    if (parent.parent_work_order_id) throw new Error('A child work order cannot have children of its own');
+    if (input.outside_service && !input.vendor_id) throw new Error('Choose the vendor doing the outside service');
+    if (!input.outside_service && !input.equipment_unit_id) throw new Error('Choose the equipment unit');
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const { error } = await supabase.from('work_orders').insert({
+      ...input,
+      parent_work_order_id: parent.id,
+      customer_id: parent.customer_id,
+      priority: parent.priority,
+      status: 'pending',
+      created_by: user?.id,
+    });
+
+    if (error) throw error;
+  }
+
+  async updateOutsideService(workOrderId: string, changes: OutsideServiceChanges): Promise<void> {
+    const completing = changes.status === 'completed';
+    const { error } = await supabase
+      .from('work_orders')
+      .update({
+        ...changes,
+        ...(completing ? { completed_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', workOrderId)
+      .eq('outside_service', true);
+
+    if (error) throw error;
+  }
+}
+
+export const workOrderHierarchy = new WorkOrderHierarchyService();
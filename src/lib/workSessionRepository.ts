@@ -0,0 +1,436 @@
+import { supabase } from './supabase';
+import { offlineStorage } from './offlineStorage';
+import { syncManager } from './syncManager';
+import { serviceWorkerManager } from './serviceWorker';
+import { formatMeasurement, isMeasurementReading, outOfSpecSeverity } from './measurements';
+import { ProcedureRoute, resolveRoute } from './procedureRouting';
+import { findAcknowledgment, requiresAcknowledgment } from './safety';
+import { elapsedSeconds, isRunning, pauseTimer, startTimer, toInterval } from './timeTracking';
+import type {
+  MeasurementReading,
+  ProcedureStep,
+  ProcedureTemplate,
+  SafetyAcknowledgment,
+  SafetyAcknowledgmentKind,
+  StepCompletion,
+  StepTimerInterval,
+  WorkOrder,
+  WorkSession,
+} from '../types/database';
+
+export interface SessionSnapshot {
+  session: WorkSession;
+  steps: ProcedureStep[];
+  completions: StepCompletion[];
+  acknowledgments: SafetyAcknowledgment[];
+}
+
+export type StepCompletionInput = Pick<
+  StepCompletion,
+  'status' | 'result' | 'measurements' | 'observations' | 'completed_by'
+> &
+  Partial<Pick<StepCompletion, 'issues_found' | 'time_spent' | 'outcome'>>;
+
+interface NewSession {
+  workOrderId: string;
+  procedureTemplateId: string;
+  technicianId: string;
+  assignmentId: string;
+  // Lockout/tagout checklist the technician confirmed before starting
+  lotoItems: string[];
+}
+
+class WorkSessionRepository {
+  async loadSession(sessionId: string): Promise<SessionSnapshot> {
+    if (navigator.onLine) {
+      try {
+        await this.refreshFromServer(sessionId);
+      } catch (error) {
+        console.error('Error refreshing work session, using offline copy:', error);
+      }
+    }
+
+    const session: WorkSession | undefined = await offlineStorage.getWorkSession(sessionId);
+    if (!session) {
+      throw new Error('This work session is not available offline');
+    }
+
+    const procedure = session.procedure_template_id
+      ? await this.getProcedure(session.procedure_template_id)
+      : null;
+    const steps: ProcedureStep[] = [...(procedure?.steps || [])].sort(
+      (a: ProcedureStep, b: ProcedureStep) => a.step_number - b.step_number
+    );
+    const completions: StepCompletion[] = await offlineStorage.getStepCompletionsForSession(sessionId);
+    const acknowledgments = await offlineStorage.getSafetyAcknowledgmentsForSession(sessionId);
+
+    return {
+      session: { ...session, procedure_template: procedure || undefined },
+      steps,
+      completions,
+      acknowledgments,
+    };
+  }
+
+  async loadWorkOrder(workOrderId: string): Promise<WorkOrder | null> {
+    if (navigator.onLine) {
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select(
+          `
+          *,
+          equipment_unit:equipment_units (
+            *,
+            equipment_model:equipment_models (
+              *,
+              manufacturer:manufacturers (name)
+            )
+          ),
+          customer:customers (company_name)
+        `
+        )
+        .eq('id', workOrderId)
+        .maybeSingle();
+
+      if (!error && data) return data;
+    }
+
+    return (await offlineStorage.getWorkOrder(workOrderId)) || null;
+  }
+
+  async loadProcedures(phase: string): Promise<ProcedureTemplate[]> {
+    if (navigator.onLine) {
+      const { data, error } = await supabase
+        .from('procedure_templates')
+        .select('*')
+        .eq('phase', phase)
+        .eq('status', 'published')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    }
+
+    const cached = await offlineStorage.getAllProcedures();
+    return cached
+      .filter((p) => p.phase === phase && p.is_active && (p.status ?? 'published') === 'published')
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createSession({
+    workOrderId,
+    procedureTemplateId,
+    technicianId,
+    assignmentId,
+    lotoItems,
+  }: NewSession): Promise<string> {
+    const now = new Date().toISOString();
+    const session = {
+      id: crypto.randomUUID(),
+      work_order_id: workOrderId,
+      procedure_template_id: procedureTemplateId,
+      technician_id: technicianId,
+      status: 'in_progress',
+      progress_percentage: 0,
+      started_at: now,
+    };
+
+    await offlineStorage.saveWorkSession(session.id, session, null);
+    await offlineStorage.mergeIntoSyncQueue('work_sessions', 'insert', session, null);
+    await offlineStorage.addToSyncQueue('work_order_assignments', 'update', {
+      id: assignmentId,
+      status: 'in_progress',
+      started_at: now,
+    });
+    await this.queueAcknowledgment(session.id, null, 'loto', lotoItems, technicianId);
+
+    this.flush();
+    return session.id;
+  }
+
+  async acknowledgeSafety(
+    sessionId: string,
+    stepId: string,
+    items: string[],
+    userId: string
+  ): Promise<SafetyAcknowledgment> {
+    const acknowledgment = await this.queueAcknowledgment(sessionId, stepId, 'step', items, userId);
+    this.flush();
+    return acknowledgment;
+  }
+
+  // Acknowledgments are append-only, so they queue as plain inserts
+  private async queueAcknowledgment(
+    sessionId: string,
+    stepId: string | null,
+    kind: SafetyAcknowledgmentKind,
+    items: string[],
+    userId: string
+  ): Promise<SafetyAcknowledgment> {
+    const acknowledgment: SafetyAcknowledgment = {
+      id: crypto.randomUUID(),
+      work_session_id: sessionId,
+      step_id: stepId,
+      kind,
+      items,
+      acknowledged_by: userId,
+      acknowledged_at: new Date().toISOString(),
+    };
+
+    await offlineStorage.saveSafetyAcknowledgment(acknowledgment);
+    await offlineStorage.addToSyncQueue('safety_acknowledgments', 'insert', acknowledgment);
+    return acknowledgment;
+  }
+
+  async completeStep(
+    sessionId: string,
+    stepId: string,
+    input: StepCompletionInput
+  ): Promise<StepCompletion> {
+    const existing = (await offlineStorage.getStepCompletionsForSession(sessionId)).find(
+      (c: StepCompletion) => c.step_id === stepId
+    );
+
+    const now = new Date().toISOString();
+    const completion: StepCompletion = {
+      issues_found: null,
+      time_spent: null,
+      outcome: null,
+      ...existing,
+      ...input,
+      id: existing?.id || crypto.randomUUID(),
+      work_session_id: sessionId,
+      step_id: stepId,
+      completed_at: now,
+      updated_at: now,
+    };
+
+    const serverCopy = existing ? await offlineStorage.getStepCompletionServerCopy(existing.id) : null;
+    await offlineStorage.saveStepCompletion(completion.id, completion, serverCopy);
+
+    const change = existing ? { id: completion.id, ...input, completed_at: completion.completed_at } : completion;
+    await offlineStorage.mergeIntoSyncQueue(
+      'step_completions',
+      serverCopy ? 'update' : 'insert',
+      change,
+      serverCopy
+    );
+
+    await this.recordOutOfSpecFindings(completion, existing);
+
+    this.flush();
+    return completion;
+  }
+
+  // Completes a step, records any steps its answer rules out as skipped, and
+  // moves the session on to the next step of the path the procedure now takes
+  async advance(
+    snapshot: Pick<SessionSnapshot, 'steps' | 'completions'> & { sessionId: string },
+    stepId: string,
+    input: StepCompletionInput
+  ): Promise<ProcedureRoute> {
+    const { sessionId, steps } = snapshot;
+
+    const step = steps.find((s) => s.id === stepId);
+    if (step && input.status !== 'skipped' && requiresAcknowledgment(step)) {
+      const acknowledgments = await offlineStorage.getSafetyAcknowledgmentsForSession(sessionId);
+      if (!findAcknowledgment(acknowledgments, stepId)) {
+        throw new Error(`Acknowledge the safety requirements for "${step.title}" before completing it`);
+      }
+    }
+
+    // Time worked on the step comes from its timer; a step never timed keeps
+    // whatever time was recorded before
+    const timers: Record<string, StepTimerInterval[]> = {
+      ...(await offlineStorage.getWorkSession(sessionId))?.step_timers,
+    };
+    const wasTiming = isRunning(timers[stepId]);
+    const timed = !!timers[stepId]?.length && input.time_spent === undefined;
+    if (timed) timers[stepId] = pauseTimer(timers[stepId]);
+
+    const completion = await this.completeStep(
+      sessionId,
+      stepId,
+      timed ? { ...input, time_spent: toInterval(elapsedSeconds(timers[stepId])) } : input
+    );
+    const completions = [...snapshot.completions.filter((c) => c.step_id !== stepId), completion];
+
+    for (const { step, reason } of resolveRoute(steps, completions).pendingSkips) {
+      completions.push(
+        await this.completeStep(sessionId, step.id, {
+          status: 'skipped',
+          result: null,
+          measurements: {},
+          observations: reason,
+          completed_by: input.completed_by,
+        })
+      );
+    }
+
+    const route = resolveRoute(steps, completions);
+    // Keep the clock running onto the next step when the technician was timing this one
+    if (wasTiming && route.current) {
+      timers[route.current.id] = startTimer(timers[route.current.id]);
+    }
+
+    await this.updateSession(sessionId, {
+      progress_percentage: route.progress,
+      current_step_id: route.current?.id || null,
+      step_timers: timers,
+    });
+    return route;
+  }
+
+  // Starts or pauses the timer on a step. Intervals are stored with the
+  // session, so a running timer carries on across reloads and offline.
+  async setStepTimer(sessionId: string, stepId: string, running: boolean): Promise<Record<string, StepTimerInterval[]>> {
+    const session: WorkSession | undefined = await offlineStorage.getWorkSession(sessionId);
+    const timers = { ...(session?.step_timers || {}) };
+    timers[stepId] = running ? startTimer(timers[stepId]) : pauseTimer(timers[stepId]);
+
+    await this.updateSession(sessionId, { step_timers: timers });
+    return timers;
+  }
+
+  async updateSession(sessionId: string, changes: Partial<WorkSession> & Record<string, unknown>): Promise<void> {
+    const current = await offlineStorage.getWorkSession(sessionId);
+    const serverCopy = await offlineStorage.getWorkSessionServerCopy(sessionId);
+
+    await offlineStorage.saveWorkSession(sessionId, { ...current, ...changes }, serverCopy);
+    await offlineStorage.mergeIntoSyncQueue(
+      'work_sessions',
+      serverCopy ? 'update' : 'insert',
+      { id: sessionId, ...changes },
+      serverCopy
+    );
+
+    this.flush();
+  }
+
+  // Raises one out_of_spec finding per reading that has newly gone out of
+  // limits, so re-saving a step doesn't duplicate findings.
+  private async recordOutOfSpecFindings(
+    completion: StepCompletion,
+    previous: StepCompletion | undefined
+  ): Promise<void> {
+    const readings = (measurements: StepCompletion['measurements'] | undefined): MeasurementReading[] =>
+      Object.values(measurements || {}).filter(isMeasurementReading);
+
+    const alreadyFailing = new Set(
+      readings(previous?.measurements)
+        .filter((r) => r.result === 'fail')
+        .map((r) => r.parameter)
+    );
+
+    for (const reading of readings(completion.measurements)) {
+      if (reading.result !== 'fail' || alreadyFailing.has(reading.parameter)) continue;
+
+      await offlineStorage.addToSyncQueue('inspection_findings', 'insert', {
+        id: crypto.randomUUID(),
+        work_session_id: completion.work_session_id,
+        step_completion_id: completion.id,
+        finding_type: 'out_of_spec',
+        severity: outOfSpecSeverity(reading),
+        component: reading.parameter,
+        description: `${reading.parameter} out of tolerance: ${formatMeasurement(reading)}`,
+        recommended_action: null,
+        photo_ids: [],
+      });
+    }
+  }
+
+  private async getProcedure(templateId: string): Promise<ProcedureTemplate | null> {
+    const cached = await offlineStorage.getProcedure(templateId);
+    if (cached || !navigator.onLine) return cached || null;
+
+    const { data, error } = await supabase
+      .from('procedure_templates')
+      .select(
+        `
+        *,
+        steps:procedure_steps (*)
+      `
+      )
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) await offlineStorage.saveProcedure(data.id, data);
+    return data;
+  }
+
+  private async refreshFromServer(sessionId: string): Promise<void> {
+    const { data: session, error: sessionError } = await supabase
+      .from('work_sessions')
+      .select(
+        `
+        *,
+        procedure_template:procedure_templates (
+          *,
+          steps:procedure_steps (*)
+        )
+      `
+      )
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError) throw sessionError;
+    if (!session) return;
+
+    const { data: completions, error: completionsError } = await supabase
+      .from('step_completions')
+      .select('*')
+      .eq('work_session_id', sessionId);
+
+    if (completionsError) throw completionsError;
+
+    const { data: acknowledgments, error: acknowledgmentsError } = await supabase
+      .from('safety_acknowledgments')
+      .select('*')
+      .eq('work_session_id', sessionId);
+
+    if (acknowledgmentsError) throw acknowledgmentsError;
+
+    const pending = await offlineStorage.getPendingRecordIds();
+    const { procedure_template: procedure, ...sessionRow } = session;
+
+    if (procedure) {
+      await offlineStorage.saveProcedure(procedure.id, procedure);
+    }
+
+    if (pending.has(sessionRow.id)) {
+      const local = await offlineStorage.getWorkSession(sessionRow.id);
+      await offlineStorage.saveWorkSession(sessionRow.id, local, sessionRow);
+    } else {
+      await offlineStorage.saveWorkSession(sessionRow.id, sessionRow);
+    }
+
+    const localCompletions = await offlineStorage.getStepCompletionsForSession(sessionId);
+    for (const completion of completions || []) {
+      if (pending.has(completion.id)) {
+        const local = localCompletions.find((c) => c.id === completion.id);
+        await offlineStorage.saveStepCompletion(completion.id, local || completion, completion);
+      } else {
+        await offlineStorage.saveStepCompletion(completion.id, completion);
+      }
+    }
+
+    for (const acknowledgment of acknowledgments || []) {
+      await offlineStorage.saveSafetyAcknowledgment(acknowledgment);
+    }
+  }
+
+  private flush(): void {
+    if (!navigator.onLine) {
+      serviceWorkerManager.requestBackgroundSync('sync-queue');
+      return;
+    }
+
+    syncManager.syncAll().catch((error) => {
+      console.error('Error syncing work session changes:', error);
+    });
+  }
+}
+
+export const workSessionRepository = new WorkSessionRepository();
@@ -3,13 +3,13 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
 import { syncManager } from './lib/syncManager';
+import { serviceWorkerManager } from './lib/serviceWorker';
 
 if ('serviceWorker' in navigator) {
   window.addEventListener('load', () => {
-    navigator.serviceWorker
-      .register('/sw.js')
-      .then((registration) => {
-        console.log('Service Worker registered:', registration);
+    serviceWorkerManager
+      .register()
+      .then(() => {
         syncManager.startAutoSync();
       })
       .catch((error) => {
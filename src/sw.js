@@ -0,0 +1,281 @@
+/* global self, caches, indexedDB, fetch */
+
+// Replaced at build time by the service worker plugin in vite.config.ts
+const SW_VERSION = __SW_VERSION__;
+const PRECACHE_URLS = __PRECACHE_MANIFEST__;
+
+const PRECACHE = `field-ops-precache-${SW_VERSION}`;
+const REFERENCE_CACHE = 'field-ops-reference-v2';
+const CURRENT_CACHES = [PRECACHE, REFERENCE_CACHE];
+
+const REFERENCE_TABLES = ['equipment_models', 'equipment_types', 'manufacturers'];
+
+// Procedures are edited in the app, so only reads of published versions, which
+// can't change, are cached; draft reads always go to the network
+const PUBLISHED_TABLES = ['procedure_templates'];
+
+const SYNC_TAGS = ['sync-queue', 'sync-photos'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((cacheNames) =>
+        Promise.all(
+          cacheNames
+            .filter((cacheName) => !CURRENT_CACHES.includes(cacheName))
+            .map((cacheName) => caches.delete(cacheName))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+
+  // Sent on sign-out so the next user doesn't read the last one's responses
+  if (event.data?.type === 'CLEAR_REFERENCE_CACHE') {
+    event.waitUntil(caches.delete(REFERENCE_CACHE));
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html', { cacheName: PRECACHE }))
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin && PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request, { cacheName: PRECACHE }).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (isReferenceRequest(url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+function isReferenceRequest(url) {
+  const match = url.pathname.match(/\/rest\/v1\/([a-z_]+)$/);
+  if (!match) return false;
+  if (PUBLISHED_TABLES.includes(match[1])) {
+    return url.searchParams.get('status') === 'eq.published';
+  }
+  return REFERENCE_TABLES.includes(match[1]);
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(REFERENCE_CACHE);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached);
+
+  return cached || network;
+}
+
+self.addEventListener('sync', (event) => {
+  if (SYNC_TAGS.includes(event.tag)) {
+    event.waitUntil(handleBackgroundSync(event.tag));
+  }
+});
+
+async function handleBackgroundSync(tag) {
+  const windows = await self.clients.matchAll({ type: 'window' });
+
+  // An open tab runs the full SyncManager, including conflict merging
+  if (windows.length > 0) {
+    windows.forEach((client) => client.postMessage({ type: 'FLUSH_SYNC', tag }));
+    return;
+  }
+
+  const db = await openOfflineDB();
+  try {
+    const credentials = await idbGet(db, 'syncCredentials', 'current');
+    if (!credentials || credentials.expiresAt * 1000 < Date.now()) return;
+
+    if (tag === 'sync-photos') {
+      await flushPhotos(db, credentials);
+    } else {
+      await flushQueue(db, credentials);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+async function flushQueue(db, credentials) {
+  const items = await idbGetAll(db, 'syncQueue');
+  items.sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const item of items) {
+    const response = await replayQueueItem(item, credentials);
+    if (!response) return;
+
+    // Anything other than a clean apply waits for the app, which can merge or dead-letter it
+    if (response.ok) {
+      await idbDelete(db, 'syncQueue', item.id);
+    } else {
+      return;
+    }
+  }
+}
+
+async function replayQueueItem(item, credentials) {
+  const headers = restHeaders(credentials);
+
+  try {
+    if (['step_completions', 'work_sessions', 'work_orders'].includes(item.table)) {
+      const response = await fetch(`${credentials.supabaseUrl}/rest/v1/rpc/apply_offline_change`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          p_table: item.table,
+          p_operation: item.operation,
+          p_record: item.data,
+          p_base_version: item.baseRecord?.updated_at ?? null,
+        }),
+      });
+      if (!response.ok) return response;
+
+      const result = await response.json();
+      return { ok: result.status === 'applied' };
+    }
+
+    const base = `${credentials.supabaseUrl}/rest/v1/${item.table}`;
+    if (item.operation === 'insert') {
+      return await fetch(base, { method: 'POST', headers, body: JSON.stringify(item.data) });
+    }
+    const target = `${base}?id=eq.${encodeURIComponent(item.data.id)}`;
+    if (item.operation === 'update') {
+      return await fetch(target, { method: 'PATCH', headers, body: JSON.stringify(item.data) });
+    }
+    return await fetch(target, { method: 'DELETE', headers });
+  } catch {
+    return null;
+  }
+}
+
+async function flushPhotos(db, credentials) {
+  const photos = await idbGetAll(db, 'photos');
+
+  for (const photo of photos.filter((p) => !p.uploaded)) {
+    try {
+      const { storage_path: path, thumbnail_path: thumbnailPath } = photo.metadata;
+      if (!path) continue;
+
+      // Large images wait for the app, which can resume a partial upload
+      if (photo.upload) continue;
+
+      if (!(await uploadObject(credentials, path, photo.blob))) continue;
+      if (photo.thumbnail && !(await uploadObject(credentials, thumbnailPath, photo.thumbnail))) continue;
+
+      if (photo.metadata.work_session_id) {
+        const insert = await fetch(`${credentials.supabaseUrl}/rest/v1/photos`, {
+          method: 'POST',
+          headers: { ...restHeaders(credentials), Prefer: 'resolution=ignore-duplicates' },
+          body: JSON.stringify({
+            id: photo.id,
+            work_session_id: photo.metadata.work_session_id,
+            step_completion_id: photo.metadata.step_completion_id,
+            storage_path: path,
+            thumbnail_path: photo.thumbnail ? thumbnailPath : null,
+            photo_type: photo.metadata.photo_type || 'during',
+            caption: photo.metadata.caption,
+            annotations: photo.metadata.annotations || {},
+            metadata: photo.metadata.details || {},
+            taken_by: photo.metadata.taken_by,
+            taken_at: photo.metadata.taken_at,
+          }),
+        });
+        if (!insert.ok) continue;
+      }
+
+      await idbPut(db, 'photos', { ...photo, uploaded: true, upload: null });
+    } catch {
+      return;
+    }
+  }
+}
+
+async function uploadObject(credentials, path, blob) {
+  const response = await fetch(`${credentials.supabaseUrl}/storage/v1/object/photos/${path}`, {
+    method: 'POST',
+    headers: {
+      apikey: credentials.anonKey,
+      Authorization: `Bearer ${credentials.accessToken}`,
+      'x-upsert': 'true',
+      'Content-Type': blob.type || 'image/jpeg',
+    },
+    body: blob,
+  });
+  return response.ok;
+}
+
+function restHeaders(credentials) {
+  return {
+    apikey: credentials.anonKey,
+    Authorization: `Bearer ${credentials.accessToken}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function openOfflineDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('FieldOpsOffline');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbRequest(db, storeName, mode, run) {
+  return new Promise((resolve, reject) => {
+    if (!db.objectStoreNames.contains(storeName)) {
+      resolve(undefined);
+      return;
+    }
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbGet(db, storeName, key) {
+  return idbRequest(db, storeName, 'readonly', (store) => store.get(key));
+}
+
+function idbGetAll(db, storeName) {
+  return idbRequest(db, storeName, 'readonly', (store) => store.getAll()).then((rows) => rows || []);
+}
+
+function idbPut(db, storeName, value) {
+  return idbRequest(db, storeName, 'readwrite', (store) => store.put(value));
+}
+
+function idbDelete(db, storeName, key) {
+  return idbRequest(db, storeName, 'readwrite', (store) => store.delete(key));
+}
@@ -2,7 +2,8 @@ export type UserRole = 'admin' | 'manager' | 'technician' | 'salesperson';
 export type EquipmentCategory = 'motor' | 'pump' | 'gearbox' | 'other';
 export type EquipmentStatus = 'active' | 'in_repair' | 'retired';
 export type PartType = 'bearing' | 'seal' | 'gasket' | 'winding' | 'impeller' | 'other';
-export type ProcedureType = 'teardown' | 'inspection' | 'rebuild' | 'test';
+export type ProcedureType = 'teardown' | 'inspection' | 'rebuild' | 'test' | 'cleaning';
+export type ProcedureTemplateStatus = 'draft' | 'published' | 'archived';
 export type StepType = 'action' | 'inspection' | 'measurement' | 'decision';
 export type WorkType = 'repair' | 'inspection' | 'rebuild' | 'pm';
 export type PriorityLevel = 'low' | 'medium' | 'high' | 'emergency';
@@ -38,6 +39,48 @@ export type SeverityLevel = 'minor' | 'moderate' | 'major' | 'critical';
 export type ReportType = 'inspection' | 'repair' | 'rebuild' | 'test';
 export type ReportStatus = 'draft' | 'pending_approval' | 'approved' | 'sent';
 
+export type MeasurementResult = 'pass' | 'fail';
+
+// One entry of ProcedureStep.measurements_required
+export interface MeasurementSpec {
+  parameter: string;
+  unit: string | null;
+  nominal: number | null;
+  min: number | null;
+  max: number | null;
+  instrument: string | null;
+}
+
+// Limits for a parameter, keyed by parameter name in EquipmentModel.tolerances
+// and ProcedureStep.acceptance_criteria
+export interface ToleranceLimit {
+  nominal?: number | null;
+  min?: number | null;
+  max?: number | null;
+  unit?: string | null;
+}
+
+// One entry of StepCompletion.measurements, with the limits it was judged
+// against. `value` is in the spec's `unit`; the reading as entered is kept in
+// `raw`/`original_unit` and its canonical form in `canonical_value`/`canonical_unit`.
+export interface MeasurementReading {
+  parameter: string;
+  value: number | null;
+  raw: string;
+  unit: string | null;
+  original_unit: string | null;
+  canonical_value: number | null;
+  canonical_unit: string | null;
+  nominal: number | null;
+  min: number | null;
+  max: number | null;
+  instrument: string | null;
+  result: MeasurementResult | null;
+  recorded_at: string;
+  // Derived from other readings, e.g. voltage imbalance
+  calculated?: boolean;
+}
+
 export interface User {
   id: string;
   full_name: string;
@@ -82,7 +125,7 @@ export interface EquipmentModel {
   model_number: string;
   specifications: Record<string, any>;
   torque_specs: Record<string, any>;
-  tolerances: Record<string, any>;
+  tolerances: Record<string, ToleranceLimit>;
   documentation_links: Record<string, any>;
   created_at: string;
   updated_at: string;
@@ -113,10 +156,16 @@ export interface ProcedureTemplate {
   name: string;
   version: string;
   procedure_type: ProcedureType;
+  phase: WorkOrderPhase | null;
   estimated_duration: string | null;
   required_tools: any[];
   safety_requirements: any[];
   is_active: boolean;
+  // Every version of a procedure shares a family; only drafts can be edited
+  family_id: string;
+  status: ProcedureTemplateStatus;
+  published_at: string | null;
+  published_by: string | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -124,6 +173,30 @@ export interface ProcedureTemplate {
   steps?: ProcedureStep[];
 }
 
+// One answer to a decision step and where the procedure goes from there.
+// A null `next_step_id` continues with the next step in order.
+export interface DecisionOutcome {
+  id: string;
+  label: string;
+  result: StepResult;
+  next_step_id: string | null;
+  ends_procedure?: boolean;
+}
+
+// Skips a step based on what was recorded at an earlier step
+export interface SkipCondition {
+  step_id: string;
+  field: 'result' | 'outcome' | 'measurement';
+  parameter?: string | null;
+  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than';
+  value: string | number;
+}
+
+export interface StepRouting {
+  outcomes?: DecisionOutcome[];
+  skip_if?: SkipCondition[];
+}
+
 export interface ProcedureStep {
   id: string;
   procedure_template_id: string;
@@ -132,12 +205,25 @@ export interface ProcedureStep {
   description: string | null;
   instructions: string;
   step_type: StepType;
-  acceptance_criteria: Record<string, any>;
-  measurements_required: any[];
+  acceptance_criteria: Record<string, ToleranceLimit>;
+  measurements_required: MeasurementSpec[];
   photo_required: boolean;
   estimated_time: string | null;
   safety_notes: string | null;
   reference_documents: any[];
+  routing: StepRouting | null;
+}
+
+export type DocumentNumberType = 'work_order' | 'quote' | 'purchase_order';
+
+export interface DocumentNumberSequence {
+  document_type: DocumentNumberType;
+  prefix: string;
+  padding: number;
+  reset_yearly: boolean;
+  current_year: number;
+  last_value: number;
+  updated_at: string;
 }
 
 export interface WorkOrder {
@@ -157,6 +243,24 @@ export interface WorkOrder {
   customer_po: string | null;
   estimated_hours: number | null;
   actual_hours: number | null;
+  qc_signed_off_by: string | null;
+  qc_signed_off_at: string | null;
+  template_id: string | null;
+  recurrence_rule_id: string | null;
+  // Set on the children of a multi-unit job
+  parent_work_order_id: string | null;
+  outside_service: boolean;
+  vendor_id: string | null;
+  vendor_reference: string | null;
+  outside_service_cost: number | null;
+  // Customer or management sign-off on the whole job
+  approval_status: 'pending' | 'approved' | 'rejected' | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  customer_po_number: string | null;
+  rejection_reason: string | null;
+  // Set when an accepted quote is converted into this work order
+  approved_scope: ApprovedScope | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -166,6 +270,78 @@ export interface WorkOrder {
   work_sessions?: WorkSession[];
   assignments?: WorkOrderAssignment[];
   approvals?: WorkOrderApproval[];
+  vendor?: { name: string };
+}
+
+// Totals over a parent job and its children; only parents have a rollup
+export interface WorkOrderRollup {
+  work_order_id: string;
+  child_count: number;
+  outside_service_count: number;
+  closed_child_count: number;
+  rolled_up_status: WorkOrderStatus;
+  estimated_hours: number;
+  actual_hours: number;
+  parts_cost: number;
+  outside_service_cost: number;
+  total_cost: number;
+}
+
+export interface TemplatePart {
+  inventory_item_id: string;
+  quantity: number;
+}
+
+// A work order to create each time one of its recurrence rules comes due
+export interface WorkOrderTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  equipment_unit_id: string;
+  customer_id: string | null;
+  assigned_to: string | null;
+  work_type: WorkType;
+  priority: PriorityLevel;
+  reported_issue: string | null;
+  procedure_template_ids: string[];
+  estimated_hours: number | null;
+  parts: TemplatePart[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  equipment_unit?: EquipmentUnit;
+  recurrence_rules?: RecurrenceRule[];
+}
+
+export type RecurrenceFrequency = 'days' | 'monthly' | 'operating_hours';
+
+export interface RecurrenceRule {
+  id: string;
+  template_id: string;
+  frequency: RecurrenceFrequency;
+  interval_days: number | null;
+  day_of_month: number | null;
+  interval_hours: number | null;
+  lead_days: number;
+  lead_hours: number;
+  next_due_date: string | null;
+  next_due_hours: number | null;
+  last_generated_at: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type PhaseGuard = 'report_submitted' | 'approval_requested' | 'approval_granted' | 'qc_signoff';
+
+// One allowed move in a work type's phase workflow
+export interface PhaseTransition {
+  id: string;
+  work_type: WorkType;
+  from_phase: WorkOrderPhase;
+  to_phase: WorkOrderPhase;
+  guards: PhaseGuard[];
+  sort_order: number;
 }
 
 export interface WorkOrderAssignment {
@@ -201,8 +377,72 @@ export interface WorkOrderApproval {
   approval_notes: string | null;
   rejection_reason: string | null;
   created_at: string;
+  policy_id: string | null;
+  pre_approved: boolean;
+  reviewed_at: string | null;
+  customer_decision: CustomerDecision | null;
+  customer_comments: string | null;
+  customer_decided_at: string | null;
+  customer_signature_id: string | null;
   requester?: User;
   approver?: User;
+  steps?: WorkOrderApprovalStep[];
+}
+
+export type CustomerDecision = 'approved' | 'rejected' | 'changes_requested';
+
+export interface ApprovalLink {
+  id: string;
+  approval_id: string;
+  customer_email: string | null;
+  expires_at: string;
+  viewed_at: string | null;
+  used_at: string | null;
+  revoked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ApproverRole = 'manager' | 'admin';
+export type ApprovalStepStatus = 'pending' | 'approved' | 'rejected' | 'skipped';
+
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  min_estimated_cost: number;
+  approver_roles: ApproverRole[];
+  emergency_preapproval: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkOrderApprovalStep {
+  id: string;
+  approval_id: string;
+  work_order_id: string;
+  step_order: number;
+  required_role: ApproverRole;
+  status: ApprovalStepStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  on_behalf_of: string | null;
+  notes: string | null;
+  created_at: string;
+  decider?: { full_name: string } | null;
+  delegator?: { full_name: string } | null;
+}
+
+export interface ApprovalDelegation {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  created_at: string;
+  delegator?: { full_name: string };
+  delegate?: { full_name: string };
 }
 
 export interface WorkSession {
@@ -216,25 +456,81 @@ export interface WorkSession {
   started_at: string;
   completed_at: string | null;
   last_synced_at: string;
+  updated_at: string;
+  // Time worked on each step, keyed by step id; an open interval is a running timer
+  step_timers: Record<string, StepTimerInterval[]>;
   procedure_template?: ProcedureTemplate;
   step_completions?: StepCompletion[];
 }
 
+export interface StepTimerInterval {
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface WorkOrderLaborActual {
+  work_order_id: string;
+  phase: WorkOrderPhase;
+  session_count: number;
+  steps_performed: number;
+  actual_seconds: number;
+  estimated_seconds: number;
+}
+
+// Time timed on the work order's steps, kept apart from actual_hours
+export interface WorkOrderStepTime {
+  work_order_id: string;
+  step_time_hours: number;
+}
+
 export interface StepCompletion {
   id: string;
   work_session_id: string;
   step_id: string;
   status: StepStatus;
   result: StepResult | null;
-  measurements: Record<string, any>;
+  // The DecisionOutcome chosen at a decision step
+  outcome: string | null;
+  measurements: Record<string, MeasurementReading | string>;
   observations: string | null;
   issues_found: string | null;
   completed_by: string | null;
   completed_at: string | null;
   time_spent: string | null;
+  updated_at: string;
   step?: ProcedureStep;
 }
 
+export type SafetyAcknowledgmentKind = 'loto' | 'step';
+
+export interface SafetyAcknowledgment {
+  id: string;
+  work_session_id: string;
+  // Null for the lockout/tagout checklist confirmed at session start
+  step_id: string | null;
+  kind: SafetyAcknowledgmentKind;
+  items: string[];
+  acknowledged_by: string;
+  acknowledged_at: string;
+}
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// One change recorded by the audit triggers; old/new values hold only the changed fields
+export interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  work_order_id: string | null;
+  action: AuditAction;
+  changed_fields: string[];
+  old_values: Record<string, unknown>;
+  new_values: Record<string, unknown>;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  changed_at: string;
+}
+
 export interface Photo {
   id: string;
   work_session_id: string;
@@ -263,6 +559,37 @@ export interface InspectionFinding {
   created_at: string;
 }
 
+export interface WorkOrderDocument {
+  id: string;
+  work_order_id: string;
+  name: string;
+  file_url: string;
+  file_type: string;
+  file_size: number;
+  description: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PhaseReport {
+  id: string;
+  work_order_id: string;
+  work_session_id: string;
+  phase: string;
+  equipment_details: Record<string, unknown>;
+  step_completions: unknown[];
+  photos: unknown[];
+  safety_acknowledgments: unknown[];
+  summary: string | null;
+  technician_notes: string | null;
+  status: 'draft' | 'submitted' | 'approved';
+  created_by: string | null;
+  approved_by: string | null;
+  created_at: string;
+  approved_at: string | null;
+}
+
 export interface Report {
   id: string;
   work_order_id: string;
@@ -280,6 +607,121 @@ export interface Report {
   sent_at: string | null;
 }
 
+export type QuoteItemType = 'part' | 'labor' | 'service' | 'other';
+
+export interface Quote {
+  id: string;
+  quote_number: string;
+  lead_id: string | null;
+  customer_id: string | null;
+  work_order_id: string | null;
+  approval_id: string | null;
+  equipment_type: string | null;
+  description: string | null;
+  status: QuoteStatus;
+  version: number;
+  valid_until: string | null;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  discount_amount: number;
+  total_amount: number;
+  terms: string | null;
+  notes: string | null;
+  created_by: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  sent_at: string | null;
+  viewed_at: string | null;
+  accepted_at: string | null;
+  rejected_at: string | null;
+  converted_to_work_order_id: string | null;
+  converted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  customer?: Customer;
+  line_items?: QuoteLineItem[];
+  converted_work_order?: { id: string; work_order_number: string; status: WorkOrderStatus } | null;
+}
+
+// The accepted quote's lines, frozen on the work order it was converted into
+export interface ApprovedScope {
+  quote_id: string;
+  quote_number: string;
+  version: number;
+  accepted_at: string;
+  subtotal: number;
+  tax_amount: number;
+  discount_amount: number;
+  total_amount: number;
+  lines: Array<
+    Pick<
+      QuoteLineItem,
+      'item_type' | 'inventory_item_id' | 'description' | 'quantity' | 'unit_price' | 'discount_percent' | 'line_total'
+    >
+  >;
+}
+
+export interface QuoteLineItem {
+  id: string;
+  quote_id: string;
+  item_type: QuoteItemType;
+  inventory_item_id: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  line_subtotal: number;
+  line_discount: number;
+  line_total: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuoteRevision {
+  id: string;
+  quote_id: string;
+  version: number;
+  snapshot: Quote & { line_items: QuoteLineItem[] };
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  creator?: { full_name: string };
+}
+
+export interface PartMarkupRule {
+  id: string;
+  name: string;
+  category: InventoryCategory | null;
+  min_unit_cost: number;
+  markup_percent: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LaborRate {
+  id: string;
+  skill: string;
+  work_type: WorkType | null;
+  hourly_rate: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RewindRate {
+  id: string;
+  min_hp: number;
+  max_hp: number;
+  frame: string | null;
+  price: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface PartsCatalog {
   id: string;
   equipment_model_id: string;
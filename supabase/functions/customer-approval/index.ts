@@ -0,0 +1,104 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface DecisionBody {
+  token: string;
+  decision: 'approved' | 'rejected' | 'changes_requested';
+  signerName: string;
+  signerEmail?: string;
+  signatureData?: string;
+  comments?: string;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+// Customers have no account, so the link's token is the only credential; the
+// database functions check it and are callable with the service role alone
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    return json({ error: "Approval service not configured" }, 503);
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    if (req.method === "GET") {
+      const token = new URL(req.url).searchParams.get("token");
+      if (!token) {
+        return json({ error: "Approval link is missing its token" }, 400);
+      }
+
+      const { data, error } = await supabase.rpc("approval_link_details", { p_token: token });
+      if (error) {
+        return json({ error: error.message }, 400);
+      }
+
+      const { photo_paths, ...details } = data;
+      const photos = (photo_paths || []).map((photo: { path: string; caption: string | null }) => ({
+        url: supabase.storage.from("photos").getPublicUrl(photo.path).data.publicUrl,
+        caption: photo.caption,
+      }));
+
+      return json({ ...details, photos });
+    }
+
+    if (req.method === "POST") {
+      const body = await req.json() as DecisionBody;
+      if (!body.token || !body.decision) {
+        return json({ error: "Token and decision are required" }, 400);
+      }
+
+      const { data, error } = await supabase.rpc("record_customer_decision", {
+        p_token: body.token,
+        p_decision: body.decision,
+        p_signer_name: body.signerName || "",
+        p_signer_email: body.signerEmail || null,
+        p_signature_data: body.signatureData || null,
+        p_comments: body.comments || null,
+        p_ip_address: req.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+        p_user_agent: req.headers.get("user-agent"),
+      });
+
+      if (error) {
+        return json({ error: error.message }, 400);
+      }
+
+      return json({ status: data });
+    }
+
+    return json({ error: "Method not allowed" }, 405);
+  } catch (error) {
+    console.error("Error in customer-approval function:", error);
+
+    return json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    }, 500);
+  }
+});
@@ -0,0 +1,130 @@
+/*
+  # Add Offline Sync Conflict Detection
+
+  1. Changes to existing tables
+    - `step_completions`: add `updated_at` (timestamptz) version stamp
+    - `work_sessions`: add `updated_at` (timestamptz) version stamp
+    - Both get the standard `update_updated_at` trigger so every write bumps the version
+
+  2. New Functions
+    - `apply_offline_change(p_table, p_operation, p_record, p_base_version)`
+      - Applies a change replayed from a device's offline sync queue
+      - Compares the row's current `updated_at` with the version the device edited from
+      - Returns `{ "status": "applied", "record": ... }` when the write went through
+      - Returns `{ "status": "conflict", "record": ... }` with the current server row when
+        someone else changed it in the meantime, so the client can merge or queue it for review
+      - Only `step_completions`, `work_sessions` and `work_orders` are accepted
+
+  3. Security
+    - Function runs as SECURITY INVOKER so existing RLS policies still apply
+    - `work_sessions.last_synced_at` is stamped whenever a change is applied through sync
+
+  4. Notes
+    - A NULL `p_base_version` means the device never saw a server copy; any existing row is a conflict
+*/
+
+-- Add version stamps
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'step_completions' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE step_completions ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_sessions' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE work_sessions ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS step_completions_updated_at ON step_completions;
+CREATE TRIGGER step_completions_updated_at
+  BEFORE UPDATE ON step_completions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS work_sessions_updated_at ON work_sessions;
+CREATE TRIGGER work_sessions_updated_at
+  BEFORE UPDATE ON work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Apply a queued offline change with optimistic concurrency
+CREATE OR REPLACE FUNCTION apply_offline_change(
+  p_table text,
+  p_operation text,
+  p_record jsonb,
+  p_base_version timestamptz
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_id uuid := (p_record->>'id')::uuid;
+  v_current jsonb;
+  v_columns text;
+  v_values text;
+  v_result jsonb;
+BEGIN
+  IF p_table NOT IN ('step_completions', 'work_sessions', 'work_orders') THEN
+    RAISE EXCEPTION 'Table % is not synced offline', p_table;
+  END IF;
+
+  IF p_operation NOT IN ('insert', 'update', 'delete') THEN
+    RAISE EXCEPTION 'Unknown sync operation %', p_operation;
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 FOR UPDATE', p_table)
+    INTO v_current
+    USING v_id;
+
+  IF v_current IS NOT NULL AND (
+    p_base_version IS NULL OR
+    (v_current->>'updated_at')::timestamptz > p_base_version
+  ) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'record', v_current);
+  END IF;
+
+  IF p_operation = 'delete' THEN
+    EXECUTE format('DELETE FROM %I WHERE id = $1', p_table) USING v_id;
+    RETURN jsonb_build_object('status', 'applied', 'record', NULL);
+  END IF;
+
+  IF p_table = 'work_sessions' THEN
+    p_record := p_record || jsonb_build_object('last_synced_at', now());
+  END IF;
+
+  -- Only touch columns the device actually sent, ignoring keys the table doesn't have
+  SELECT
+    string_agg(quote_ident(c.column_name), ', '),
+    string_agg('r.' || quote_ident(c.column_name), ', ')
+  INTO v_columns, v_values
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = p_table
+    AND c.column_name <> 'updated_at'
+    AND p_record ? c.column_name;
+
+  IF v_current IS NULL THEN
+    IF p_operation = 'update' THEN
+      RETURN jsonb_build_object('status', 'conflict', 'record', NULL);
+    END IF;
+
+    EXECUTE format(
+      'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1) r RETURNING to_jsonb(%I.*)',
+      p_table, v_columns, v_values, p_table, p_table
+    ) INTO v_result USING p_record;
+  ELSE
+    EXECUTE format(
+      'UPDATE %I t SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1) r) WHERE t.id = $2 RETURNING to_jsonb(t.*)',
+      p_table, v_columns, v_values, p_table
+    ) INTO v_result USING p_record, v_id;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'applied', 'record', v_result);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION apply_offline_change(text, text, jsonb, timestamptz) TO authenticated;
@@ -0,0 +1,37 @@
+/*
+  # Normalize Procedure Step Measurement Specs
+
+  1. Changes to existing data
+    - `procedure_steps.measurements_required` entries are rewritten to the typed shape
+      `{ parameter, unit, nominal, min, max, instrument }`
+      - `name` becomes `parameter`
+      - `target` becomes `nominal`
+      - Missing keys are filled with null so every entry has the same fields
+
+  2. Notes
+    - `equipment_models.tolerances` and `procedure_steps.acceptance_criteria` are keyed by
+      parameter name, e.g. `{ "IR Reading": { "min": 100, "unit": "MΩ" } }`, and override the
+      step's own limits in that order of precedence when readings are judged
+    - Entries that are already in the typed shape are left as they are
+*/
+
+UPDATE procedure_steps
+SET measurements_required = (
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'parameter', COALESCE(spec->>'parameter', spec->>'name'),
+      'unit', spec->'unit',
+      'nominal', COALESCE(spec->'nominal', spec->'target'),
+      'min', spec->'min',
+      'max', spec->'max',
+      'instrument', spec->'instrument'
+    )
+    ORDER BY ordinality
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(measurements_required) WITH ORDINALITY AS specs(spec, ordinality)
+)
+WHERE jsonb_typeof(measurements_required) = 'array'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(measurements_required) AS spec
+    WHERE NOT spec ? 'parameter'
+  );
@@ -0,0 +1,24 @@
+/*
+  # Add Per-User Display Units
+
+  1. Changes to existing tables
+    - `users`: add `display_units` (jsonb) holding the unit each user prefers to see per
+      dimension, e.g. `{ "power": "kW", "temperature": "°C" }`
+      - Dimensions that are not set fall back to the application defaults (HP, in, °F, lbf·ft, MΩ)
+
+  2. Notes
+    - Measurements and nameplate values are stored with both the unit they were entered in
+      and a canonical value (kW, mm, °C, N·m, MΩ, V, A, RPM); display units only affect
+      how they are shown
+    - The existing "Users can update own profile" policy already lets users change this column
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'display_units'
+  ) THEN
+    ALTER TABLE users ADD COLUMN display_units jsonb DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
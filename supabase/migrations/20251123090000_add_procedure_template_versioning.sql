@@ -0,0 +1,281 @@
+/*
+  # Add Procedure Template Versioning and Publish Workflow
+
+  1. Changes to existing tables
+    - `procedure_templates`
+      - `family_id` (uuid): shared by every version of the same procedure
+      - `status` (text): `draft`, `published` or `archived`
+      - `published_at` (timestamptz), `published_by` (uuid, FK users)
+      - Existing templates become their own family; active ones are `published`, the rest `archived`
+
+  2. Immutability
+    - Published and archived templates cannot be edited or deleted; only `is_active`/`status`
+      may change so an old version can be retired
+    - Steps can only be inserted, changed or removed while their template is a draft
+    - A work session references the exact template row it started on, so in-flight sessions
+      stay pinned to that version after a newer one is published
+
+  3. New Functions
+    - `create_procedure_draft(p_template_id)`: copies a published version and its steps into a
+      new draft in the same family, or returns the family's existing draft
+    - `save_procedure_draft(p_template_id, p_template, p_steps)`: replaces a draft's fields and
+      steps in one transaction so steps can be reordered without tripping the
+      (template, step_number) unique constraint
+    - `publish_procedure_template(p_template_id)`: publishes a draft as the family's next
+      version and retires the previously published version
+
+  4. Security
+    - The functions run as SECURITY INVOKER and additionally require an admin or manager
+*/
+
+-- Version columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'procedure_templates' AND column_name = 'family_id'
+  ) THEN
+    ALTER TABLE procedure_templates ADD COLUMN family_id uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'procedure_templates' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE procedure_templates ADD COLUMN status text NOT NULL DEFAULT 'draft'
+      CHECK (status IN ('draft', 'published', 'archived'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'procedure_templates' AND column_name = 'published_at'
+  ) THEN
+    ALTER TABLE procedure_templates ADD COLUMN published_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'procedure_templates' AND column_name = 'published_by'
+  ) THEN
+    ALTER TABLE procedure_templates ADD COLUMN published_by uuid REFERENCES users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Existing templates were all authored by migrations and are already in use
+UPDATE procedure_templates
+SET
+  family_id = COALESCE(family_id, id),
+  status = CASE WHEN is_active THEN 'published' ELSE 'archived' END,
+  published_at = COALESCE(published_at, created_at)
+WHERE status = 'draft' AND family_id IS NULL;
+
+ALTER TABLE procedure_templates ALTER COLUMN family_id SET DEFAULT gen_random_uuid();
+ALTER TABLE procedure_templates ALTER COLUMN family_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_procedure_templates_family ON procedure_templates(family_id, status);
+
+-- Only one draft per family at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_procedure_templates_one_draft
+  ON procedure_templates(family_id) WHERE status = 'draft';
+
+-- Published versions are immutable
+CREATE OR REPLACE FUNCTION protect_published_procedure_template()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.status = 'draft' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Procedure version % of "%" is published and cannot be deleted; archive it instead',
+      OLD.version, OLD.name;
+  END IF;
+
+  IF NEW.status = 'draft' OR (
+    NEW.name, NEW.version, NEW.equipment_type_id, NEW.procedure_type, NEW.phase,
+    NEW.estimated_duration, NEW.required_tools, NEW.safety_requirements, NEW.family_id
+  ) IS DISTINCT FROM (
+    OLD.name, OLD.version, OLD.equipment_type_id, OLD.procedure_type, OLD.phase,
+    OLD.estimated_duration, OLD.required_tools, OLD.safety_requirements, OLD.family_id
+  ) THEN
+    RAISE EXCEPTION 'Procedure version % of "%" is published and cannot be edited; create a new draft',
+      OLD.version, OLD.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS procedure_templates_protect_published ON procedure_templates;
+CREATE TRIGGER procedure_templates_protect_published
+  BEFORE UPDATE OR DELETE ON procedure_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_published_procedure_template();
+
+CREATE OR REPLACE FUNCTION protect_published_procedure_steps()
+RETURNS trigger AS $$
+DECLARE
+  v_status text;
+BEGIN
+  SELECT status INTO v_status
+  FROM procedure_templates
+  WHERE id = COALESCE(NEW.procedure_template_id, OLD.procedure_template_id);
+
+  -- The template itself is being deleted (a draft, since published ones can't be)
+  IF v_status IS NULL OR v_status = 'draft' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  RAISE EXCEPTION 'Steps of a published procedure version cannot be changed; create a new draft';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS procedure_steps_protect_published ON procedure_steps;
+CREATE TRIGGER procedure_steps_protect_published
+  BEFORE INSERT OR UPDATE OR DELETE ON procedure_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_published_procedure_steps();
+
+CREATE OR REPLACE FUNCTION require_procedure_author()
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only admins and managers can edit procedures';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION create_procedure_draft(p_template_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_source procedure_templates%ROWTYPE;
+  v_draft_id uuid;
+BEGIN
+  PERFORM require_procedure_author();
+
+  SELECT * INTO v_source FROM procedure_templates WHERE id = p_template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Procedure template % not found', p_template_id;
+  END IF;
+
+  SELECT id INTO v_draft_id
+  FROM procedure_templates
+  WHERE family_id = v_source.family_id AND status = 'draft';
+
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  INSERT INTO procedure_templates (
+    family_id, equipment_type_id, name, version, procedure_type, phase, estimated_duration,
+    required_tools, safety_requirements, is_active, status, created_by
+  )
+  VALUES (
+    v_source.family_id, v_source.equipment_type_id, v_source.name, v_source.version,
+    v_source.procedure_type, v_source.phase, v_source.estimated_duration, v_source.required_tools,
+    v_source.safety_requirements, false, 'draft', auth.uid()
+  )
+  RETURNING id INTO v_draft_id;
+
+  INSERT INTO procedure_steps (
+    procedure_template_id, step_number, title, description, instructions, step_type,
+    acceptance_criteria, measurements_required, photo_required, estimated_time, safety_notes,
+    reference_documents
+  )
+  SELECT
+    v_draft_id, step_number, title, description, instructions, step_type, acceptance_criteria,
+    measurements_required, photo_required, estimated_time, safety_notes, reference_documents
+  FROM procedure_steps
+  WHERE procedure_template_id = p_template_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION save_procedure_draft(p_template_id uuid, p_template jsonb, p_steps jsonb)
+RETURNS void AS $$
+BEGIN
+  PERFORM require_procedure_author();
+
+  IF NOT EXISTS (SELECT 1 FROM procedure_templates WHERE id = p_template_id AND status = 'draft') THEN
+    RAISE EXCEPTION 'Only drafts can be saved; create a new draft first';
+  END IF;
+
+  UPDATE procedure_templates t
+  SET
+    name = r.name,
+    equipment_type_id = r.equipment_type_id,
+    procedure_type = r.procedure_type,
+    phase = r.phase,
+    estimated_duration = r.estimated_duration,
+    required_tools = COALESCE(r.required_tools, '[]'::jsonb),
+    safety_requirements = COALESCE(r.safety_requirements, '[]'::jsonb)
+  FROM jsonb_populate_record(NULL::procedure_templates, p_template) r
+  WHERE t.id = p_template_id;
+
+  -- Steps keep their ids so anything referring to them survives a save
+  DELETE FROM procedure_steps WHERE procedure_template_id = p_template_id;
+
+  INSERT INTO procedure_steps (
+    id, procedure_template_id, step_number, title, description, instructions, step_type,
+    acceptance_criteria, measurements_required, photo_required, estimated_time, safety_notes,
+    reference_documents
+  )
+  SELECT
+    COALESCE(r.id, gen_random_uuid()), p_template_id, r.step_number, r.title, r.description,
+    COALESCE(r.instructions, ''), COALESCE(r.step_type, 'action'),
+    COALESCE(r.acceptance_criteria, '{}'::jsonb), COALESCE(r.measurements_required, '[]'::jsonb),
+    COALESCE(r.photo_required, false), r.estimated_time, r.safety_notes,
+    COALESCE(r.reference_documents, '[]'::jsonb)
+  FROM jsonb_populate_recordset(NULL::procedure_steps, p_steps) r;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION publish_procedure_template(p_template_id uuid)
+RETURNS procedure_templates AS $$
+DECLARE
+  v_draft procedure_templates%ROWTYPE;
+  v_latest numeric;
+  v_published procedure_templates%ROWTYPE;
+BEGIN
+  PERFORM require_procedure_author();
+
+  SELECT * INTO v_draft FROM procedure_templates WHERE id = p_template_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only drafts can be published';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM procedure_steps WHERE procedure_template_id = p_template_id) THEN
+    RAISE EXCEPTION 'A procedure needs at least one step before it can be published';
+  END IF;
+
+  -- Versions are numbered 1.0, 2.0, ... within a family
+  SELECT MAX(NULLIF(regexp_replace(version, '[^0-9.]', '', 'g'), '')::numeric) INTO v_latest
+  FROM procedure_templates
+  WHERE family_id = v_draft.family_id AND status <> 'draft';
+
+  UPDATE procedure_templates
+  SET status = 'archived', is_active = false
+  WHERE family_id = v_draft.family_id AND status = 'published';
+
+  UPDATE procedure_templates
+  SET
+    status = 'published',
+    is_active = true,
+    version = CASE WHEN v_latest IS NULL THEN '1.0' ELSE (floor(v_latest) + 1)::text || '.0' END,
+    published_at = now(),
+    published_by = auth.uid()
+  WHERE id = p_template_id
+  RETURNING * INTO v_published;
+
+  RETURN v_published;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION create_procedure_draft(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_procedure_draft(uuid, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION publish_procedure_template(uuid) TO authenticated;
@@ -0,0 +1,137 @@
+/*
+  # Add Branching Decision Steps and Skip Logic
+
+  1. Changes to existing tables
+    - `procedure_steps`
+      - `routing` (jsonb): `{ outcomes: [...], skip_if: [...] }`
+        - `outcomes`: choices offered at a `decision` step, each with a result and the step it
+          leads to (`next_step_id`) or `ends_procedure`
+        - `skip_if`: conditions on an earlier step's result, chosen outcome or a measurement
+          that cause this step to be skipped
+      - Routes only point to later steps so a procedure can never loop
+    - `step_completions`
+      - `outcome` (text): id of the decision outcome the technician chose
+
+  2. Updated Functions
+    - `create_procedure_draft` copies routing and rewrites step references in it to the ids of
+      the copied steps
+    - `save_procedure_draft` saves routing with the rest of each step
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'procedure_steps' AND column_name = 'routing'
+  ) THEN
+    ALTER TABLE procedure_steps ADD COLUMN routing jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'step_completions' AND column_name = 'outcome'
+  ) THEN
+    ALTER TABLE step_completions ADD COLUMN outcome text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION create_procedure_draft(p_template_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_source procedure_templates%ROWTYPE;
+  v_draft_id uuid;
+  v_step record;
+BEGIN
+  PERFORM require_procedure_author();
+
+  SELECT * INTO v_source FROM procedure_templates WHERE id = p_template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Procedure template % not found', p_template_id;
+  END IF;
+
+  SELECT id INTO v_draft_id
+  FROM procedure_templates
+  WHERE family_id = v_source.family_id AND status = 'draft';
+
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  INSERT INTO procedure_templates (
+    family_id, equipment_type_id, name, version, procedure_type, phase, estimated_duration,
+    required_tools, safety_requirements, is_active, status, created_by
+  )
+  VALUES (
+    v_source.family_id, v_source.equipment_type_id, v_source.name, v_source.version,
+    v_source.procedure_type, v_source.phase, v_source.estimated_duration, v_source.required_tools,
+    v_source.safety_requirements, false, 'draft', auth.uid()
+  )
+  RETURNING id INTO v_draft_id;
+
+  INSERT INTO procedure_steps (
+    procedure_template_id, step_number, title, description, instructions, step_type,
+    acceptance_criteria, measurements_required, photo_required, estimated_time, safety_notes,
+    reference_documents, routing
+  )
+  SELECT
+    v_draft_id, step_number, title, description, instructions, step_type, acceptance_criteria,
+    measurements_required, photo_required, estimated_time, safety_notes, reference_documents, routing
+  FROM procedure_steps
+  WHERE procedure_template_id = p_template_id;
+
+  -- Routing refers to steps by id; point it at the copies. Step numbers are
+  -- unique within a template so they pair each original with its copy.
+  FOR v_step IN
+    SELECT src.id AS old_id, dst.id AS new_id
+    FROM procedure_steps src
+    JOIN procedure_steps dst
+      ON dst.procedure_template_id = v_draft_id AND dst.step_number = src.step_number
+    WHERE src.procedure_template_id = p_template_id
+  LOOP
+    UPDATE procedure_steps
+    SET routing = replace(routing::text, v_step.old_id::text, v_step.new_id::text)::jsonb
+    WHERE procedure_template_id = v_draft_id AND routing IS NOT NULL;
+  END LOOP;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION save_procedure_draft(p_template_id uuid, p_template jsonb, p_steps jsonb)
+RETURNS void AS $$
+BEGIN
+  PERFORM require_procedure_author();
+
+  IF NOT EXISTS (SELECT 1 FROM procedure_templates WHERE id = p_template_id AND status = 'draft') THEN
+    RAISE EXCEPTION 'Only drafts can be saved; create a new draft first';
+  END IF;
+
+  UPDATE procedure_templates t
+  SET
+    name = r.name,
+    equipment_type_id = r.equipment_type_id,
+    procedure_type = r.procedure_type,
+    phase = r.phase,
+    estimated_duration = r.estimated_duration,
+    required_tools = COALESCE(r.required_tools, '[]'::jsonb),
+    safety_requirements = COALESCE(r.safety_requirements, '[]'::jsonb)
+  FROM jsonb_populate_record(NULL::procedure_templates, p_template) r
+  WHERE t.id = p_template_id;
+
+  -- Steps keep their ids so anything referring to them survives a save
+  DELETE FROM procedure_steps WHERE procedure_template_id = p_template_id;
+
+  INSERT INTO procedure_steps (
+    id, procedure_template_id, step_number, title, description, instructions, step_type,
+    acceptance_criteria, measurements_required, photo_required, estimated_time, safety_notes,
+    reference_documents, routing
+  )
+  SELECT
+    COALESCE(r.id, gen_random_uuid()), p_template_id, r.step_number, r.title, r.description,
+    COALESCE(r.instructions, ''), COALESCE(r.step_type, 'action'),
+    COALESCE(r.acceptance_criteria, '{}'::jsonb), COALESCE(r.measurements_required, '[]'::jsonb),
+    COALESCE(r.photo_required, false), r.estimated_time, r.safety_notes,
+    COALESCE(r.reference_documents, '[]'::jsonb), r.routing
+  FROM jsonb_populate_recordset(NULL::procedure_steps, p_steps) r;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,76 @@
+/*
+  # Add Lockout/Tagout and Safety Acknowledgments
+
+  1. New Tables
+    - `safety_acknowledgments`
+      - `id` (uuid, primary key)
+      - `work_session_id` (uuid, FK work_sessions)
+      - `step_id` (uuid, FK procedure_steps): null for the lockout/tagout checklist confirmed
+        when the session starts
+      - `kind` (text): `loto` for the session checklist, `step` for a step's PPE and energy
+        isolation confirmation
+      - `items` (jsonb): the checklist lines the technician confirmed, as shown to them
+      - `acknowledged_by` (uuid, FK users), `acknowledged_at` (timestamptz)
+
+  2. Changes to existing tables
+    - `phase_reports.safety_acknowledgments` (jsonb): acknowledgments copied into the report
+      when it is submitted
+
+  3. Security
+    - Acknowledgments are append-only: technicians record their own, nobody edits or deletes them
+    - Visible to the session's technician, admins and managers
+*/
+
+CREATE TABLE IF NOT EXISTS safety_acknowledgments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_session_id uuid NOT NULL REFERENCES work_sessions(id) ON DELETE CASCADE,
+  step_id uuid REFERENCES procedure_steps(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('loto', 'step')),
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  acknowledged_by uuid NOT NULL REFERENCES users(id),
+  acknowledged_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safety_acknowledgments_session
+  ON safety_acknowledgments(work_session_id);
+
+ALTER TABLE safety_acknowledgments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view safety acknowledgments from their sessions"
+  ON safety_acknowledgments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_sessions ws
+      WHERE ws.id = safety_acknowledgments.work_session_id
+      AND ws.technician_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Technicians can record own safety acknowledgments"
+  ON safety_acknowledgments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    acknowledged_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM work_sessions ws
+      WHERE ws.id = safety_acknowledgments.work_session_id
+      AND ws.technician_id = auth.uid()
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'phase_reports' AND column_name = 'safety_acknowledgments'
+  ) THEN
+    ALTER TABLE phase_reports ADD COLUMN safety_acknowledgments jsonb DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
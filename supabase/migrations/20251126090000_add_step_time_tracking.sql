@@ -0,0 +1,60 @@
+/*
+  # Add Step Time Tracking
+
+  1. Changes to existing tables
+    - `work_sessions`: add `step_timers` (jsonb) holding the start/pause intervals timed
+      against each step, keyed by step id, so a running timer survives reloads and
+      offline use
+    - `step_completions.time_spent` (existing interval) is now filled from those timers
+
+  2. New Views
+    - `work_order_labor_actuals`: per work order and phase, the time spent on performed
+      steps against the sum of those steps' `estimated_time`
+    - `work_order_step_time`: per work order, `step_time_hours`, the total time timed
+      on its performed steps. `work_orders.actual_hours` stays as entered by the
+      office or from the time clock.
+
+  3. Security
+    - The views run with the caller's permissions, so existing RLS policies apply
+
+  4. Notes
+    - Skipped steps take no time and are left out of both actuals and estimates
+    - Step time is not stored on `work_orders`: writing it there would bump
+      `updated_at`, which offline edits are checked against
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_sessions' AND column_name = 'step_timers'
+  ) THEN
+    ALTER TABLE work_sessions ADD COLUMN step_timers jsonb DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+-- Labor actuals against estimates per work order phase
+CREATE OR REPLACE VIEW work_order_labor_actuals
+WITH (security_invoker = true) AS
+SELECT
+  ws.work_order_id,
+  pt.phase,
+  COUNT(DISTINCT ws.id) as session_count,
+  COUNT(sc.id) as steps_performed,
+  COALESCE(SUM(EXTRACT(EPOCH FROM sc.time_spent)), 0)::bigint as actual_seconds,
+  COALESCE(SUM(EXTRACT(EPOCH FROM ps.estimated_time)), 0)::bigint as estimated_seconds
+FROM work_sessions ws
+JOIN procedure_templates pt ON pt.id = ws.procedure_template_id
+LEFT JOIN step_completions sc ON sc.work_session_id = ws.id AND sc.status IN ('completed', 'failed')
+LEFT JOIN procedure_steps ps ON ps.id = sc.step_id
+GROUP BY ws.work_order_id, pt.phase;
+
+-- Total step time per work order, counting the same steps as the labor actuals
+CREATE OR REPLACE VIEW work_order_step_time
+WITH (security_invoker = true) AS
+SELECT
+  ws.work_order_id,
+  ROUND((COALESCE(SUM(EXTRACT(EPOCH FROM sc.time_spent)), 0) / 3600.0)::numeric, 2) as step_time_hours
+FROM work_sessions ws
+JOIN step_completions sc ON sc.work_session_id = ws.id AND sc.status IN ('completed', 'failed')
+GROUP BY ws.work_order_id;
@@ -0,0 +1,220 @@
+/*
+  # Add Configurable Work Order Phase Workflow
+
+  1. New Tables
+    - `work_order_phase_transitions`: the phase state machine, one row per allowed move
+      - `work_type` (work_type) - the kind of work order the move applies to
+      - `from_phase` / `to_phase` (work_order_phase)
+      - `guards` (text[]) - conditions that must hold before the move:
+        - `report_submitted`: a submitted phase report exists for `from_phase`
+        - `approval_requested`: an approval has been requested on completing `from_phase`
+        - `approval_granted`: an approval into `to_phase` has been approved
+        - `qc_signoff`: QC has signed the work order off
+      - `sort_order` (integer) - order of the default path
+    - Seeded with the repair, rebuild, inspection and pm workflows
+
+  2. Changes to existing tables
+    - `work_orders`: add `qc_signed_off_by` (uuid) and `qc_signed_off_at` (timestamptz)
+
+  3. New Functions
+    - `unmet_phase_guards(...)` - guards not yet satisfied for a move, or
+      `no_transition` when the workflow has no such move
+    - `check_phase_transition(p_work_order_id, p_to_phase)` - the same check for the
+      client, against the work order as it stands
+    - `enforce_phase_transition()` trigger rejects any `current_phase` change the
+      workflow does not allow
+
+  4. Security
+    - Everyone signed in can read the workflow; only admins and managers can change it
+    - Guard checks run as SECURITY DEFINER so they see every report and approval on
+      the work order, not just the caller's own
+
+  5. Notes
+    - Moving to `cancelled` is allowed from any phase
+    - `repair_scope` now leads to `awaiting_approval` instead of straight to `rebuild`,
+      and `inspection` and `qc_review` are reachable
+*/
+
+CREATE TABLE IF NOT EXISTS work_order_phase_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_type work_type NOT NULL,
+  from_phase work_order_phase NOT NULL,
+  to_phase work_order_phase NOT NULL,
+  guards text[] NOT NULL DEFAULT '{}'
+    CHECK (guards <@ ARRAY['report_submitted', 'approval_requested', 'approval_granted', 'qc_signoff']),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (work_type, from_phase, to_phase)
+);
+
+CREATE INDEX IF NOT EXISTS idx_phase_transitions_from ON work_order_phase_transitions(work_type, from_phase);
+
+ALTER TABLE work_order_phase_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view phase workflow"
+  ON work_order_phase_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage phase workflow"
+  ON work_order_phase_transitions FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+INSERT INTO work_order_phase_transitions (work_type, from_phase, to_phase, guards, sort_order) VALUES
+  ('repair', 'pending_assignment', 'initial_testing', '{}', 1),
+  ('repair', 'initial_testing', 'teardown', '{report_submitted}', 2),
+  ('repair', 'teardown', 'repair_scope', '{report_submitted}', 3),
+  ('repair', 'repair_scope', 'awaiting_approval', '{approval_requested}', 4),
+  ('repair', 'awaiting_approval', 'rebuild', '{approval_granted}', 5),
+  ('repair', 'rebuild', 'final_testing', '{report_submitted}', 6),
+  ('repair', 'final_testing', 'qc_review', '{report_submitted}', 7),
+  ('repair', 'qc_review', 'completed', '{qc_signoff}', 8),
+
+  ('rebuild', 'pending_assignment', 'initial_testing', '{}', 1),
+  ('rebuild', 'initial_testing', 'teardown', '{report_submitted}', 2),
+  ('rebuild', 'teardown', 'inspection', '{report_submitted}', 3),
+  ('rebuild', 'inspection', 'awaiting_approval', '{approval_requested}', 4),
+  ('rebuild', 'awaiting_approval', 'rebuild', '{approval_granted}', 5),
+  ('rebuild', 'rebuild', 'final_testing', '{report_submitted}', 6),
+  ('rebuild', 'final_testing', 'qc_review', '{report_submitted}', 7),
+  ('rebuild', 'qc_review', 'completed', '{qc_signoff}', 8),
+
+  ('inspection', 'pending_assignment', 'initial_testing', '{}', 1),
+  ('inspection', 'initial_testing', 'inspection', '{report_submitted}', 2),
+  ('inspection', 'inspection', 'qc_review', '{report_submitted}', 3),
+  ('inspection', 'qc_review', 'completed', '{qc_signoff}', 4),
+
+  ('pm', 'pending_assignment', 'inspection', '{}', 1),
+  ('pm', 'inspection', 'completed', '{report_submitted}', 2)
+ON CONFLICT (work_type, from_phase, to_phase) DO NOTHING;
+
+-- QC sign-off
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'qc_signed_off_by'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN qc_signed_off_by uuid REFERENCES users(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'qc_signed_off_at'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN qc_signed_off_at timestamptz;
+  END IF;
+END $$;
+
+-- Guards a move still has to satisfy
+CREATE OR REPLACE FUNCTION unmet_phase_guards(
+  p_work_order_id uuid,
+  p_work_type work_type,
+  p_from work_order_phase,
+  p_to work_order_phase,
+  p_qc_signed_off boolean
+)
+RETURNS text[] AS $$
+DECLARE
+  v_guards text[];
+  v_guard text;
+  v_unmet text[] := '{}';
+BEGIN
+  IF p_from = p_to THEN
+    RETURN v_unmet;
+  END IF;
+
+  SELECT guards INTO v_guards
+  FROM work_order_phase_transitions
+  WHERE work_type = p_work_type AND from_phase = p_from AND to_phase = p_to;
+
+  IF NOT FOUND THEN
+    RETURN ARRAY['no_transition'];
+  END IF;
+
+  FOREACH v_guard IN ARRAY v_guards LOOP
+    IF v_guard = 'report_submitted' AND NOT EXISTS (
+      SELECT 1 FROM phase_reports
+      WHERE work_order_id = p_work_order_id
+      AND phase = p_from::text
+      AND status IN ('submitted', 'approved')
+    ) THEN
+      v_unmet := v_unmet || v_guard;
+    ELSIF v_guard = 'approval_requested' AND NOT EXISTS (
+      SELECT 1 FROM work_order_approvals
+      WHERE work_order_id = p_work_order_id
+      AND phase_completed = p_from
+      AND status IN ('pending', 'approved')
+    ) THEN
+      v_unmet := v_unmet || v_guard;
+    ELSIF v_guard = 'approval_granted' AND NOT EXISTS (
+      SELECT 1 FROM work_order_approvals
+      WHERE work_order_id = p_work_order_id
+      AND next_phase = p_to
+      AND status = 'approved'
+    ) THEN
+      v_unmet := v_unmet || v_guard;
+    ELSIF v_guard = 'qc_signoff' AND NOT p_qc_signed_off THEN
+      v_unmet := v_unmet || v_guard;
+    END IF;
+  END LOOP;
+
+  RETURN v_unmet;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_phase_transition(p_work_order_id uuid, p_to_phase work_order_phase)
+RETURNS text[] AS $$
+  SELECT unmet_phase_guards(wo.id, wo.work_type, wo.current_phase, p_to_phase, wo.qc_signed_off_at IS NOT NULL)
+  FROM work_orders wo
+  WHERE wo.id = p_work_order_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION check_phase_transition(uuid, work_order_phase) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_phase_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_unmet text[];
+BEGIN
+  IF NEW.current_phase IS NOT DISTINCT FROM OLD.current_phase OR NEW.current_phase = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  v_unmet := unmet_phase_guards(
+    NEW.id,
+    NEW.work_type,
+    OLD.current_phase,
+    NEW.current_phase,
+    NEW.qc_signed_off_at IS NOT NULL
+  );
+
+  IF v_unmet = ARRAY['no_transition'] THEN
+    RAISE EXCEPTION 'A % work order cannot move from % to %', NEW.work_type, OLD.current_phase, NEW.current_phase;
+  ELSIF array_length(v_unmet, 1) > 0 THEN
+    RAISE EXCEPTION 'Cannot move work order to %: % not met', NEW.current_phase, array_to_string(v_unmet, ', ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS work_orders_enforce_phase_transition ON work_orders;
+CREATE TRIGGER work_orders_enforce_phase_transition
+  BEFORE UPDATE OF current_phase ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_phase_transition();
@@ -0,0 +1,178 @@
+/*
+  # Add Audit Log
+
+  1. New Tables
+    - `audit_log`: one row per tracked change, never edited or removed
+      - `table_name` (text) / `record_id` (uuid) - the row that changed
+      - `work_order_id` (uuid) - the work order the change belongs to, for its timeline
+      - `action` (text) - insert, update or delete
+      - `changed_fields` (text[]) - tracked columns whose value changed
+      - `old_values` / `new_values` (jsonb) - those columns before and after
+      - `changed_by` (uuid) - the signed-in user who made the change, when there is one
+      - `changed_by_name` (text) - that user's name when the change was made
+      - `changed_at` (timestamptz)
+
+  2. New Functions / Triggers
+    - `record_audit_entry()` - generic AFTER trigger; its arguments list the columns
+      to track, and updates that touch none of them are not logged
+    - Attached to:
+      - `work_orders`: status, current_phase, assigned_to, priority, scheduled_date,
+        approval_status, qc sign-off
+      - `work_order_approvals`: status, approver, notes, rejection reason, costs
+      - `work_order_assignments`: technician, phase, status
+      - `step_completions`: status, result, outcome, measurements, observations, issues
+    - `prevent_audit_log_changes()` rejects any UPDATE or DELETE on `audit_log`
+
+  3. Notes
+    - `work_order_id` and `changed_by` are deliberately not foreign keys so
+      history outlives the work order it describes, and the users who changed it
+      can still be deleted
+
+  4. Security
+    - Admins and managers can read the whole log
+    - Other users can read entries for work orders they can see
+    - No insert, update or delete policies: entries are only written by the
+      SECURITY DEFINER trigger
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  work_order_id uuid,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  old_values jsonb DEFAULT '{}'::jsonb,
+  new_values jsonb DEFAULT '{}'::jsonb,
+  changed_by uuid,
+  changed_by_name text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_work_order ON audit_log(work_order_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_at ON audit_log(changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_by ON audit_log(changed_by);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Users can view audit entries for visible work orders"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (
+    work_order_id IS NOT NULL AND
+    EXISTS (SELECT 1 FROM work_orders WHERE work_orders.id = audit_log.work_order_id)
+  );
+
+-- Entries are immutable, even for roles that bypass RLS
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be changed or removed';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_immutable ON audit_log;
+CREATE TRIGGER audit_log_immutable
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Records the tracked columns (trigger arguments) that a change touched
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  v_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  v_fields text[] := '{}';
+  v_old_values jsonb := '{}'::jsonb;
+  v_new_values jsonb := '{}'::jsonb;
+  v_column text;
+  v_work_order_id uuid;
+  v_changed_by_name text;
+BEGIN
+  FOREACH v_column IN ARRAY TG_ARGV LOOP
+    IF v_old->v_column IS DISTINCT FROM v_new->v_column AND NOT (
+      TG_OP = 'INSERT' AND v_new->v_column = 'null'::jsonb
+    ) THEN
+      v_fields := v_fields || v_column;
+      IF TG_OP <> 'INSERT' THEN
+        v_old_values := v_old_values || jsonb_build_object(v_column, v_old->v_column);
+      END IF;
+      IF TG_OP <> 'DELETE' THEN
+        v_new_values := v_new_values || jsonb_build_object(v_column, v_new->v_column);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND array_length(v_fields, 1) IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'work_orders' THEN
+    v_work_order_id := (v_row->>'id')::uuid;
+  ELSIF TG_TABLE_NAME = 'step_completions' THEN
+    SELECT work_order_id INTO v_work_order_id
+    FROM work_sessions
+    WHERE id = (v_row->>'work_session_id')::uuid;
+  ELSE
+    v_work_order_id := (v_row->>'work_order_id')::uuid;
+  END IF;
+
+  SELECT full_name INTO v_changed_by_name FROM users WHERE id = auth.uid();
+
+  INSERT INTO audit_log (
+    table_name, record_id, work_order_id, action,
+    changed_fields, old_values, new_values, changed_by, changed_by_name
+  ) VALUES (
+    TG_TABLE_NAME, (v_row->>'id')::uuid, v_work_order_id, lower(TG_OP),
+    v_fields, v_old_values, v_new_values, auth.uid(), v_changed_by_name
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS work_orders_audit ON work_orders;
+CREATE TRIGGER work_orders_audit
+  AFTER INSERT OR UPDATE OR DELETE ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry(
+    'status', 'current_phase', 'assigned_to', 'priority', 'scheduled_date',
+    'approval_status', 'rejection_reason', 'qc_signed_off_by', 'qc_signed_off_at'
+  );
+
+DROP TRIGGER IF EXISTS work_order_approvals_audit ON work_order_approvals;
+CREATE TRIGGER work_order_approvals_audit
+  AFTER INSERT OR UPDATE OR DELETE ON work_order_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry(
+    'status', 'phase_completed', 'next_phase', 'approved_by', 'approval_notes',
+    'rejection_reason', 'estimated_cost', 'estimated_hours'
+  );
+
+DROP TRIGGER IF EXISTS work_order_assignments_audit ON work_order_assignments;
+CREATE TRIGGER work_order_assignments_audit
+  AFTER INSERT OR UPDATE OR DELETE ON work_order_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry('assigned_to', 'phase', 'status');
+
+DROP TRIGGER IF EXISTS step_completions_audit ON step_completions;
+CREATE TRIGGER step_completions_audit
+  AFTER INSERT OR UPDATE OR DELETE ON step_completions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry(
+    'status', 'result', 'outcome', 'measurements', 'observations', 'issues_found'
+  );
@@ -0,0 +1,134 @@
+/*
+  # Add Document Numbering
+
+  1. New Tables
+    - `document_number_sequences`: one row per numbered document type
+      - `document_type` (text, primary key) - work_order, quote or purchase_order
+      - `prefix` (text) - e.g. WO, Q, PO
+      - `padding` (integer) - minimum digits in the sequence part
+      - `reset_yearly` (boolean) - restart at 1 each January; the year is then part
+        of the number (WO-2025-00001), otherwise numbers look like WO-00001
+      - `current_year` (integer) - the year `last_value` belongs to
+      - `last_value` (integer) - the last number handed out
+
+  2. New Functions / Triggers
+    - `next_document_number(p_document_type)` - claims the next number, locking the
+      sequence row until the calling transaction ends
+    - `assign_document_number()` - BEFORE INSERT trigger on `work_orders`, `quotes`
+      and `purchase_orders` that fills the number column when it is left empty
+
+  3. Notes
+    - Numbers are claimed inside the inserting transaction, so a failed insert
+      rolls its number back and the sequence stays gap-free. Concurrent inserts
+      queue on the sequence row instead of racing
+    - Existing numbers are left as they are
+
+  4. Security
+    - Authenticated users can read the sequences
+    - Only admins can change prefixes, padding and yearly reset
+    - `next_document_number` is not callable by clients
+*/
+
+CREATE TABLE IF NOT EXISTS document_number_sequences (
+  document_type text PRIMARY KEY CHECK (document_type IN ('work_order', 'quote', 'purchase_order')),
+  prefix text NOT NULL CHECK (prefix ~ '^[A-Za-z0-9]+$'),
+  padding integer NOT NULL DEFAULT 5 CHECK (padding BETWEEN 1 AND 10),
+  reset_yearly boolean NOT NULL DEFAULT true,
+  current_year integer NOT NULL DEFAULT EXTRACT(YEAR FROM now())::integer,
+  last_value integer NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO document_number_sequences (document_type, prefix) VALUES
+  ('work_order', 'WO'),
+  ('quote', 'Q'),
+  ('purchase_order', 'PO')
+ON CONFLICT (document_type) DO NOTHING;
+
+ALTER TABLE document_number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view document numbering"
+  ON document_number_sequences FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update document numbering"
+  ON document_number_sequences FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION next_document_number(p_document_type text)
+RETURNS text AS $$
+DECLARE
+  v_year integer := EXTRACT(YEAR FROM now())::integer;
+  v_sequence document_number_sequences%ROWTYPE;
+BEGIN
+  UPDATE document_number_sequences
+  SET
+    last_value = CASE
+      WHEN reset_yearly AND current_year <> v_year THEN 1
+      ELSE last_value + 1
+    END,
+    current_year = v_year,
+    updated_at = now()
+  WHERE document_type = p_document_type
+  RETURNING * INTO v_sequence;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No numbering sequence for document type %', p_document_type;
+  END IF;
+
+  IF v_sequence.reset_yearly THEN
+    RETURN v_sequence.prefix || '-' || v_year || '-' || lpad(v_sequence.last_value::text, v_sequence.padding, '0');
+  END IF;
+
+  RETURN v_sequence.prefix || '-' || lpad(v_sequence.last_value::text, v_sequence.padding, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the insert trigger may claim numbers; a direct call would leave a gap
+REVOKE EXECUTE ON FUNCTION next_document_number(text) FROM PUBLIC, anon, authenticated;
+
+-- Trigger arguments: document type, number column
+CREATE OR REPLACE FUNCTION assign_document_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_column text := TG_ARGV[1];
+BEGIN
+  IF COALESCE(to_jsonb(NEW)->>v_column, '') = '' THEN
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(v_column, next_document_number(TG_ARGV[0])));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS work_orders_assign_number ON work_orders;
+CREATE TRIGGER work_orders_assign_number
+  BEFORE INSERT ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number('work_order', 'work_order_number');
+
+DROP TRIGGER IF EXISTS quotes_assign_number ON quotes;
+CREATE TRIGGER quotes_assign_number
+  BEFORE INSERT ON quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number('quote', 'quote_number');
+
+DROP TRIGGER IF EXISTS purchase_orders_assign_number ON purchase_orders;
+CREATE TRIGGER purchase_orders_assign_number
+  BEFORE INSERT ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_number('purchase_order', 'po_number');
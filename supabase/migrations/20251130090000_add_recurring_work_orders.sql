@@ -0,0 +1,320 @@
+/*
+  # Add Recurring Work Orders
+
+  1. New Tables
+    - `work_order_templates`: the work order to create each time a rule comes due
+      - `name`, `description`
+      - `equipment_unit_id`, `customer_id`, `assigned_to`
+      - `work_type` (default pm), `priority`, `reported_issue` (work summary)
+      - `procedure_template_ids` (uuid[]) - procedures to run
+      - `estimated_hours` (numeric)
+      - `parts` (jsonb) - planned parts, [{ inventory_item_id, quantity }]
+      - `is_active` (boolean)
+    - `work_order_recurrence_rules`: when a template's work orders come due
+      - `frequency` - days (every `interval_days`), monthly (on `day_of_month`,
+        clamped to the month's last day) or operating_hours (every
+        `interval_hours` of the unit's `operational_hours`)
+      - `lead_days` / `lead_hours` - how far ahead of the due point to create the
+        work order
+      - `next_due_date` / `next_due_hours` - the next occurrence to generate
+      - `last_generated_at`, `is_active`
+
+  2. Modified Tables
+    - `work_orders`: `template_id` and `recurrence_rule_id` record where a
+      generated work order came from; one work order per rule and date
+
+  3. New Functions / Triggers
+    - `generate_recurring_work_orders()` - creates the latest occurrence that has
+      come within each rule's lead window and advances the rule past it; missed
+      earlier occurrences are skipped; safe to call repeatedly
+    - `generate_unit_hours_work_orders(unit)` - the operating-hours part of
+      generation, for a single unit
+    - `equipment_hours_generate_work_orders` - runs that unit's operating-hours
+      rules when its operating hours are updated
+    - A daily pg_cron job is scheduled when the extension is installed
+
+  4. Security
+    - Authenticated users can view templates and rules
+    - Admins and managers can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS work_order_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  equipment_unit_id uuid NOT NULL REFERENCES equipment_units(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  assigned_to uuid REFERENCES users(id) ON DELETE SET NULL,
+  work_type work_type NOT NULL DEFAULT 'pm',
+  priority priority_level NOT NULL DEFAULT 'low',
+  reported_issue text,
+  procedure_template_ids uuid[] NOT NULL DEFAULT '{}',
+  estimated_hours numeric,
+  parts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS work_order_recurrence_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES work_order_templates(id) ON DELETE CASCADE,
+  frequency text NOT NULL CHECK (frequency IN ('days', 'monthly', 'operating_hours')),
+  interval_days integer CHECK (interval_days > 0),
+  day_of_month integer CHECK (day_of_month BETWEEN 1 AND 31),
+  interval_hours numeric CHECK (interval_hours > 0),
+  lead_days integer NOT NULL DEFAULT 14 CHECK (lead_days >= 0),
+  lead_hours numeric NOT NULL DEFAULT 0 CHECK (lead_hours >= 0),
+  next_due_date date,
+  next_due_hours numeric,
+  last_generated_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (frequency = 'days' AND interval_days IS NOT NULL AND next_due_date IS NOT NULL) OR
+    (frequency = 'monthly' AND day_of_month IS NOT NULL AND next_due_date IS NOT NULL) OR
+    (frequency = 'operating_hours' AND interval_hours IS NOT NULL AND next_due_hours IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_templates_equipment ON work_order_templates(equipment_unit_id);
+CREATE INDEX IF NOT EXISTS idx_recurrence_rules_template ON work_order_recurrence_rules(template_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'template_id'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN template_id uuid REFERENCES work_order_templates(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'recurrence_rule_id'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN recurrence_rule_id uuid REFERENCES work_order_recurrence_rules(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_orders_recurrence_occurrence
+  ON work_orders(recurrence_rule_id, scheduled_date)
+  WHERE recurrence_rule_id IS NOT NULL AND scheduled_date IS NOT NULL;
+
+ALTER TABLE work_order_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_order_recurrence_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view work order templates"
+  ON work_order_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage work order templates"
+  ON work_order_templates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view recurrence rules"
+  ON work_order_recurrence_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage recurrence rules"
+  ON work_order_recurrence_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+-- The occurrence after p_date for a monthly rule, clamped to shorter months
+CREATE OR REPLACE FUNCTION next_monthly_occurrence(p_date date, p_day integer)
+RETURNS date AS $$
+DECLARE
+  v_month date := (date_trunc('month', p_date) + interval '1 month')::date;
+  v_last_day integer := EXTRACT(DAY FROM (v_month + interval '1 month' - interval '1 day'))::integer;
+BEGIN
+  RETURN v_month + (LEAST(p_day, v_last_day) - 1);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Returns false when the occurrence already has a work order
+CREATE OR REPLACE FUNCTION create_work_order_from_template(
+  p_template work_order_templates,
+  p_rule_id uuid,
+  p_scheduled_date date
+)
+RETURNS boolean AS $$
+DECLARE
+  v_rows integer;
+BEGIN
+  INSERT INTO work_orders (
+    equipment_unit_id, customer_id, assigned_to, work_type, priority, status,
+    scheduled_date, reported_issue, estimated_hours, created_by,
+    template_id, recurrence_rule_id
+  ) VALUES (
+    p_template.equipment_unit_id, p_template.customer_id, p_template.assigned_to,
+    p_template.work_type, p_template.priority, 'pending',
+    p_scheduled_date, COALESCE(p_template.reported_issue, p_template.name),
+    p_template.estimated_hours, p_template.created_by,
+    p_template.id, p_rule_id
+  )
+  ON CONFLICT (recurrence_rule_id, scheduled_date)
+    WHERE recurrence_rule_id IS NOT NULL AND scheduled_date IS NOT NULL
+    DO NOTHING;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_work_order_from_template(work_order_templates, uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Generates the operating-hours work orders for one unit; returns the number created
+CREATE OR REPLACE FUNCTION generate_unit_hours_work_orders(p_equipment_unit_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_rule work_order_recurrence_rules%ROWTYPE;
+  v_template work_order_templates%ROWTYPE;
+  v_hours numeric;
+  v_created integer := 0;
+BEGIN
+  SELECT operational_hours INTO v_hours FROM equipment_units WHERE id = p_equipment_unit_id;
+
+  -- Rules are locked so concurrent callers can't generate the same occurrence
+  FOR v_rule IN
+    SELECT r.* FROM work_order_recurrence_rules r
+    JOIN work_order_templates t ON t.id = r.template_id
+    WHERE r.is_active AND t.is_active
+      AND r.frequency = 'operating_hours'
+      AND t.equipment_unit_id = p_equipment_unit_id
+    FOR UPDATE OF r
+  LOOP
+    SELECT * INTO v_template FROM work_order_templates WHERE id = v_rule.template_id;
+
+    -- One work order per run even if several intervals have passed
+    IF COALESCE(v_hours, 0) >= v_rule.next_due_hours - v_rule.lead_hours THEN
+      IF create_work_order_from_template(v_template, v_rule.id, NULL) THEN
+        v_created := v_created + 1;
+      END IF;
+
+      WHILE v_rule.next_due_hours - v_rule.lead_hours <= COALESCE(v_hours, 0) LOOP
+        v_rule.next_due_hours := v_rule.next_due_hours + v_rule.interval_hours;
+      END LOOP;
+
+      UPDATE work_order_recurrence_rules
+      SET next_due_hours = v_rule.next_due_hours, last_generated_at = now()
+      WHERE id = v_rule.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_unit_hours_work_orders(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Returns the number of work orders created
+CREATE OR REPLACE FUNCTION generate_recurring_work_orders()
+RETURNS integer AS $$
+DECLARE
+  v_rule work_order_recurrence_rules%ROWTYPE;
+  v_template work_order_templates%ROWTYPE;
+  v_unit_id uuid;
+  v_due_date date;
+  v_created integer := 0;
+BEGIN
+  -- Rules are locked so concurrent callers can't generate the same occurrence
+  FOR v_rule IN
+    SELECT r.* FROM work_order_recurrence_rules r
+    JOIN work_order_templates t ON t.id = r.template_id
+    WHERE r.is_active AND t.is_active AND r.frequency <> 'operating_hours'
+    FOR UPDATE OF r
+  LOOP
+    SELECT * INTO v_template FROM work_order_templates WHERE id = v_rule.template_id;
+
+    -- Only the latest occurrence in the lead window is created, so a rule that
+    -- fell behind doesn't produce a work order for every missed date
+    IF v_rule.next_due_date <= CURRENT_DATE + v_rule.lead_days THEN
+      WHILE v_rule.next_due_date <= CURRENT_DATE + v_rule.lead_days LOOP
+        v_due_date := v_rule.next_due_date;
+        v_rule.next_due_date := CASE v_rule.frequency
+          WHEN 'days' THEN v_rule.next_due_date + v_rule.interval_days
+          ELSE next_monthly_occurrence(v_rule.next_due_date, v_rule.day_of_month)
+        END;
+      END LOOP;
+
+      IF create_work_order_from_template(v_template, v_rule.id, v_due_date) THEN
+        v_created := v_created + 1;
+      END IF;
+
+      UPDATE work_order_recurrence_rules
+      SET next_due_date = v_rule.next_due_date, last_generated_at = now()
+      WHERE id = v_rule.id;
+    END IF;
+  END LOOP;
+
+  FOR v_unit_id IN
+    SELECT DISTINCT t.equipment_unit_id FROM work_order_recurrence_rules r
+    JOIN work_order_templates t ON t.id = r.template_id
+    WHERE r.is_active AND t.is_active AND r.frequency = 'operating_hours'
+  LOOP
+    v_created := v_created + generate_unit_hours_work_orders(v_unit_id);
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION generate_recurring_work_orders() TO authenticated;
+
+-- Only the updated unit's operating-hours rules are checked
+CREATE OR REPLACE FUNCTION generate_work_orders_on_hours_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM generate_unit_hours_work_orders(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS equipment_hours_generate_work_orders ON equipment_units;
+CREATE TRIGGER equipment_hours_generate_work_orders
+  AFTER UPDATE OF operational_hours ON equipment_units
+  FOR EACH ROW
+  WHEN (NEW.operational_hours IS DISTINCT FROM OLD.operational_hours)
+  EXECUTE FUNCTION generate_work_orders_on_hours_change();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'generate-recurring-work-orders',
+      '0 2 * * *',
+      'SELECT generate_recurring_work_orders()'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,200 @@
+/*
+  # Add Parent/Child Work Orders
+
+  1. Modified Tables
+    - `work_orders`
+      - `parent_work_order_id` (uuid) - the job this work order belongs to; one
+        level deep, so a child cannot have children of its own
+      - `outside_service` (boolean) - work sent to a vendor, e.g. machining or balancing
+      - `vendor_id` (uuid) - the supplier doing an outside service
+      - `vendor_reference` (text) - the vendor's quote or job number
+      - `outside_service_cost` (numeric) - what the vendor charges
+
+  2. New Views
+    - `work_order_rollups`: per parent job, child counts, rolled-up status and
+      hours and cost summed over the parent and its children. Cost is parts
+      used plus outside service charges.
+
+  3. Modified Functions
+    - `unmet_phase_guards` also reports `children_open` when a parent is moved to
+      completed while any child is still open
+
+  4. New Triggers
+    - `enforce_work_order_hierarchy` keeps jobs one level deep and requires a
+      vendor on outside services
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'parent_work_order_id'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN parent_work_order_id uuid REFERENCES work_orders(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'outside_service'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN outside_service boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'vendor_id'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN vendor_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'vendor_reference'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN vendor_reference text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'outside_service_cost'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN outside_service_cost numeric(10,2);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_parent ON work_orders(parent_work_order_id);
+
+CREATE OR REPLACE FUNCTION enforce_work_order_hierarchy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.outside_service AND NEW.vendor_id IS NULL THEN
+    RAISE EXCEPTION 'An outside service work order needs a vendor';
+  END IF;
+
+  IF NEW.parent_work_order_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_work_order_id = NEW.id THEN
+    RAISE EXCEPTION 'A work order cannot be its own parent';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM work_orders
+    WHERE id = NEW.parent_work_order_id AND parent_work_order_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'A child work order cannot have children of its own';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM work_orders WHERE parent_work_order_id = NEW.id) THEN
+    RAISE EXCEPTION 'A work order with children cannot become a child';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS work_orders_enforce_hierarchy ON work_orders;
+CREATE TRIGGER work_orders_enforce_hierarchy
+  BEFORE INSERT OR UPDATE OF parent_work_order_id, outside_service, vendor_id ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_work_order_hierarchy();
+
+-- Rolled-up figures for every work order that has children
+CREATE OR REPLACE VIEW work_order_rollups
+WITH (security_invoker = true) AS
+WITH family AS (
+  SELECT parent.id AS work_order_id, member.*
+  FROM work_orders parent
+  JOIN work_orders member ON member.id = parent.id OR member.parent_work_order_id = parent.id
+  WHERE EXISTS (SELECT 1 FROM work_orders c WHERE c.parent_work_order_id = parent.id)
+),
+parts AS (
+  SELECT work_order_id, SUM(quantity_used * COALESCE(unit_cost, 0)) AS parts_cost
+  FROM work_order_parts
+  GROUP BY work_order_id
+)
+SELECT
+  f.work_order_id,
+  COUNT(*) FILTER (WHERE f.id <> f.work_order_id) AS child_count,
+  COUNT(*) FILTER (WHERE f.id <> f.work_order_id AND f.outside_service) AS outside_service_count,
+  COUNT(*) FILTER (WHERE f.id <> f.work_order_id AND f.status IN ('completed', 'invoiced', 'cancelled')) AS closed_child_count,
+  CASE
+    WHEN bool_and(f.status IN ('completed', 'invoiced', 'cancelled')) FILTER (WHERE f.id <> f.work_order_id) THEN 'completed'
+    WHEN bool_or(f.status = 'on_hold') FILTER (WHERE f.id <> f.work_order_id) THEN 'on_hold'
+    WHEN bool_or(f.status NOT IN ('pending')) THEN 'in_progress'
+    ELSE 'pending'
+  END AS rolled_up_status,
+  COALESCE(SUM(f.estimated_hours), 0) AS estimated_hours,
+  COALESCE(SUM(f.actual_hours), 0) AS actual_hours,
+  COALESCE(SUM(p.parts_cost), 0) AS parts_cost,
+  COALESCE(SUM(f.outside_service_cost), 0) AS outside_service_cost,
+  COALESCE(SUM(p.parts_cost), 0) + COALESCE(SUM(f.outside_service_cost), 0) AS total_cost
+FROM family f
+LEFT JOIN parts p ON p.work_order_id = f.id
+GROUP BY f.work_order_id;
+
+-- Same as before, plus a parent job can't complete while a child is open
+CREATE OR REPLACE FUNCTION unmet_phase_guards(
+  p_work_order_id uuid,
+  p_work_type work_type,
+  p_from work_order_phase,
+  p_to work_order_phase,
+  p_qc_signed_off boolean
+)
+RETURNS text[] AS $$
+DECLARE
+  v_guards text[];
+  v_guard text;
+  v_unmet text[] := '{}';
+BEGIN
+  IF p_from = p_to THEN
+    RETURN v_unmet;
+  END IF;
+
+  SELECT guards INTO v_guards
+  FROM work_order_phase_transitions
+  WHERE work_type = p_work_type AND from_phase = p_from AND to_phase = p_to;
+
+  IF NOT FOUND THEN
+    RETURN ARRAY['no_transition'];
+  END IF;
+
+  FOREACH v_guard IN ARRAY v_guards LOOP
+    IF v_guard = 'report_submitted' AND NOT EXISTS (
+      SELECT 1 FROM phase_reports
+      WHERE work_order_id = p_work_order_id
+      AND phase = p_from::text
+      AND status IN ('submitted', 'approved')
+    ) THEN
+      v_unmet := v_unmet || v_guard;
+    ELSIF v_guard = 'approval_requested' AND NOT EXISTS (
+      SELECT 1 FROM work_order_approvals
+      WHERE work_order_id = p_work_order_id
+      AND phase_completed = p_from
+      AND status IN ('pending', 'approved')
+    ) THEN
+      v_unmet := v_unmet || v_guard;
+    ELSIF v_guard = 'approval_granted' AND NOT EXISTS (
+      SELECT 1 FROM work_order_approvals
+      WHERE work_order_id = p_work_order_id
+      AND next_phase = p_to
+      AND status = 'approved'
+    ) THEN
+      v_unmet := v_unmet || v_guard;
+    ELSIF v_guard = 'qc_signoff' AND NOT p_qc_signed_off THEN
+      v_unmet := v_unmet || v_guard;
+    END IF;
+  END LOOP;
+
+  IF p_to = 'completed' AND EXISTS (
+    SELECT 1 FROM work_orders
+    WHERE parent_work_order_id = p_work_order_id
+    AND status NOT IN ('completed', 'invoiced', 'cancelled')
+  ) THEN
+    v_unmet := v_unmet || 'children_open'::text;
+  END IF;
+
+  RETURN v_unmet;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
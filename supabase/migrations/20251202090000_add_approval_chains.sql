@@ -0,0 +1,425 @@
+/*
+  # Add Multi-Level Approval Chains
+
+  1. New Tables
+    - `approval_policies`: which approvers a request needs, by estimated cost
+      - `name` (text)
+      - `min_estimated_cost` (numeric) - the policy applies from this cost up; the
+        active policy with the highest threshold at or below a request's cost wins
+      - `approver_roles` (text[]) - roles that must sign off, in order, e.g.
+        `{manager,admin}`
+      - `emergency_preapproval` (boolean) - emergency priority work is approved
+        straight away and the chain becomes an after-the-fact review
+      - `is_active` (boolean)
+    - `work_order_approval_steps`: one row per approver in a request's chain
+      - `approval_id` (uuid) / `work_order_id` (uuid)
+      - `step_order` (integer) / `required_role` (text)
+      - `status` (text) - pending, approved, rejected or skipped
+      - `decided_by` (uuid) / `decided_at` (timestamptz) / `notes` (text)
+      - `on_behalf_of` (uuid) - the approver a delegate signed off for
+    - `approval_delegations`: an approver's sign-off handed to someone else while out
+      - `delegator_id` / `delegate_id` (uuid)
+      - `starts_on` / `ends_on` (date) - inclusive
+      - `reason` (text)
+
+  2. Modified Tables
+    - `work_order_approvals`
+      - `policy_id` (uuid) - the policy the chain was built from
+      - `pre_approved` (boolean) - approved on request as emergency work
+      - `reviewed_at` (timestamptz) - when the after-the-fact review finished
+
+  3. New Functions / Triggers
+    - `prepare_approval_request()` - BEFORE INSERT on `work_order_approvals`; picks
+      the policy and pre-approves emergency work. Requests always start pending
+      otherwise, whatever the client sent.
+    - `build_approval_chain()` - AFTER INSERT; creates the steps
+    - `enforce_approval_chain()` - an approval can't be marked approved while any
+      step is still waiting
+    - `decide_approval_step(approval, approve, notes)` - signs off or rejects the
+      current step as its role, an admin, or an active delegate of that role.
+      Nobody signs two steps of one request, whether for themselves or for the
+      approver they cover.
+      When the last step approves, the request is approved; a rejection skips the
+      remaining steps and rejects the request. Pre-approved requests stay
+      approved and only record the review.
+
+  4. Security
+    - Everyone signed in can read policies, steps and delegations
+    - Admins manage policies
+    - Admins and managers add and remove their own delegations; admins any
+    - Steps are only written by the SECURITY DEFINER functions
+*/
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  min_estimated_cost numeric(10,2) NOT NULL DEFAULT 0 CHECK (min_estimated_cost >= 0),
+  approver_roles text[] NOT NULL CHECK (
+    array_length(approver_roles, 1) > 0 AND approver_roles <@ ARRAY['manager', 'admin']
+  ),
+  emergency_preapproval boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS approval_delegations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delegator_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  delegate_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (delegator_id <> delegate_id),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_delegations_delegate ON approval_delegations(delegate_id, starts_on, ends_on);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_order_approvals' AND column_name = 'policy_id'
+  ) THEN
+    ALTER TABLE work_order_approvals ADD COLUMN policy_id uuid REFERENCES approval_policies(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_order_approvals' AND column_name = 'pre_approved'
+  ) THEN
+    ALTER TABLE work_order_approvals ADD COLUMN pre_approved boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_order_approvals' AND column_name = 'reviewed_at'
+  ) THEN
+    ALTER TABLE work_order_approvals ADD COLUMN reviewed_at timestamptz;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS work_order_approval_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  approval_id uuid NOT NULL REFERENCES work_order_approvals(id) ON DELETE CASCADE,
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  step_order integer NOT NULL,
+  required_role text NOT NULL CHECK (required_role IN ('manager', 'admin')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'skipped')),
+  decided_by uuid REFERENCES users(id),
+  decided_at timestamptz,
+  on_behalf_of uuid REFERENCES users(id),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (approval_id, step_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_steps_work_order ON work_order_approval_steps(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_approval_steps_pending ON work_order_approval_steps(required_role) WHERE status = 'pending';
+
+-- Manager sign-off for everyday repairs, manager then admin for big ones
+INSERT INTO approval_policies (name, min_estimated_cost, approver_roles, emergency_preapproval)
+SELECT * FROM (VALUES
+  ('Standard repair', 0::numeric, ARRAY['manager'], true),
+  ('High-cost repair', 5000::numeric, ARRAY['manager', 'admin'], true)
+) AS seed(name, min_estimated_cost, approver_roles, emergency_preapproval)
+WHERE NOT EXISTS (SELECT 1 FROM approval_policies);
+
+CREATE OR REPLACE FUNCTION prepare_approval_request()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_policy approval_policies;
+  v_priority text;
+BEGIN
+  NEW.status := 'pending';
+  NEW.pre_approved := false;
+  NEW.approved_by := NULL;
+  NEW.approved_at := NULL;
+  NEW.reviewed_at := NULL;
+
+  SELECT * INTO v_policy
+  FROM approval_policies
+  WHERE is_active AND min_estimated_cost <= COALESCE(NEW.estimated_cost, 0)
+  ORDER BY min_estimated_cost DESC
+  LIMIT 1;
+
+  -- No policy configured: the request goes to any manager as before
+  IF NOT FOUND THEN
+    NEW.policy_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.policy_id := v_policy.id;
+
+  SELECT priority INTO v_priority FROM work_orders WHERE id = NEW.work_order_id;
+
+  IF v_policy.emergency_preapproval AND v_priority = 'emergency' THEN
+    NEW.status := 'approved';
+    NEW.pre_approved := true;
+    NEW.approved_at := now();
+    NEW.approval_notes := COALESCE(NEW.approval_notes, 'Pre-approved as emergency work; pending review');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS work_order_approvals_prepare ON work_order_approvals;
+CREATE TRIGGER work_order_approvals_prepare
+  BEFORE INSERT ON work_order_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_approval_request();
+
+CREATE OR REPLACE FUNCTION build_approval_chain()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.policy_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO work_order_approval_steps (approval_id, work_order_id, step_order, required_role)
+  SELECT NEW.id, NEW.work_order_id, role.ordinality, role.required_role
+  FROM approval_policies p,
+    unnest(p.approver_roles) WITH ORDINALITY AS role(required_role, ordinality)
+  WHERE p.id = NEW.policy_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS work_order_approvals_build_chain ON work_order_approvals;
+CREATE TRIGGER work_order_approvals_build_chain
+  AFTER INSERT ON work_order_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION build_approval_chain();
+
+CREATE OR REPLACE FUNCTION enforce_approval_chain()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' AND EXISTS (
+    SELECT 1 FROM work_order_approval_steps
+    WHERE approval_id = NEW.id AND status <> 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Every approver in the chain must sign off first';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS work_order_approvals_enforce_chain ON work_order_approvals;
+CREATE TRIGGER work_order_approvals_enforce_chain
+  BEFORE UPDATE OF status ON work_order_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_approval_chain();
+
+CREATE OR REPLACE FUNCTION decide_approval_step(
+  p_approval_id uuid,
+  p_approve boolean,
+  p_notes text DEFAULT NULL
+)
+RETURNS text AS $$
+DECLARE
+  v_approval work_order_approvals;
+  v_step work_order_approval_steps;
+  v_role text;
+  v_on_behalf_of uuid;
+BEGIN
+  SELECT * INTO v_approval FROM work_order_approvals WHERE id = p_approval_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+
+  IF v_approval.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'This request has already been decided';
+  END IF;
+
+  SELECT * INTO v_step
+  FROM work_order_approval_steps
+  WHERE approval_id = p_approval_id AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request has no sign-off waiting';
+  END IF;
+
+  IF NOT p_approve AND COALESCE(trim(p_notes), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for rejecting';
+  END IF;
+
+  IF v_approval.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot sign off your own request';
+  END IF;
+
+  SELECT role INTO v_role FROM users WHERE id = auth.uid();
+
+  -- Admins can stand in for any step; otherwise the role has to match, or the
+  -- caller is covering for someone with that role today
+  IF v_role IS DISTINCT FROM 'admin' AND v_role IS DISTINCT FROM v_step.required_role THEN
+    SELECT d.delegator_id INTO v_on_behalf_of
+    FROM approval_delegations d
+    JOIN users u ON u.id = d.delegator_id
+    WHERE d.delegate_id = auth.uid()
+    AND CURRENT_DATE BETWEEN d.starts_on AND d.ends_on
+    AND (u.role = v_step.required_role OR u.role = 'admin')
+    AND d.delegator_id <> v_approval.requested_by
+    AND NOT EXISTS (
+      SELECT 1 FROM work_order_approval_steps s
+      WHERE s.approval_id = p_approval_id
+      AND s.status IN ('approved', 'rejected')
+      AND d.delegator_id IN (s.decided_by, s.on_behalf_of)
+    )
+    ORDER BY d.created_at
+    LIMIT 1;
+
+    IF v_on_behalf_of IS NULL THEN
+      RAISE EXCEPTION 'Waiting on % sign-off', v_step.required_role;
+    END IF;
+  END IF;
+
+  -- A multi-step chain needs as many different people, so an admin standing in
+  -- or a delegate can't satisfy it alone
+  IF EXISTS (
+    SELECT 1 FROM work_order_approval_steps
+    WHERE approval_id = p_approval_id
+    AND status IN ('approved', 'rejected')
+    AND (
+      auth.uid() IN (decided_by, on_behalf_of)
+      OR v_on_behalf_of IN (decided_by, on_behalf_of)
+    )
+  ) THEN
+    RAISE EXCEPTION 'You have already signed off an earlier step of this request';
+  END IF;
+
+  UPDATE work_order_approval_steps
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      on_behalf_of = v_on_behalf_of,
+      notes = NULLIF(trim(p_notes), '')
+  WHERE id = v_step.id;
+
+  IF NOT p_approve THEN
+    UPDATE work_order_approval_steps
+    SET status = 'skipped'
+    WHERE approval_id = p_approval_id AND status = 'pending';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM work_order_approval_steps
+    WHERE approval_id = p_approval_id AND status = 'pending'
+  ) THEN
+    RETURN v_approval.status;
+  END IF;
+
+  -- Chain finished
+  IF v_approval.pre_approved THEN
+    UPDATE work_order_approvals
+    SET reviewed_at = now(),
+        rejection_reason = CASE WHEN p_approve THEN rejection_reason ELSE p_notes END
+    WHERE id = p_approval_id;
+    RETURN 'approved';
+  END IF;
+
+  IF p_approve THEN
+    UPDATE work_order_approvals
+    SET status = 'approved',
+        approved_by = auth.uid(),
+        approved_at = now(),
+        approval_notes = COALESCE(NULLIF(trim(p_notes), ''), approval_notes)
+    WHERE id = p_approval_id;
+    RETURN 'approved';
+  END IF;
+
+  UPDATE work_order_approvals
+  SET status = 'rejected',
+      approved_by = auth.uid(),
+      approved_at = now(),
+      rejection_reason = p_notes
+  WHERE id = p_approval_id;
+  RETURN 'rejected';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION decide_approval_step(uuid, boolean, text) TO authenticated;
+
+DROP TRIGGER IF EXISTS work_order_approvals_audit ON work_order_approvals;
+CREATE TRIGGER work_order_approvals_audit
+  AFTER INSERT OR UPDATE OR DELETE ON work_order_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry(
+    'status', 'phase_completed', 'next_phase', 'approved_by', 'approval_notes',
+    'rejection_reason', 'estimated_cost', 'estimated_hours', 'pre_approved', 'reviewed_at'
+  );
+
+DROP TRIGGER IF EXISTS work_order_approval_steps_audit ON work_order_approval_steps;
+CREATE TRIGGER work_order_approval_steps_audit
+  AFTER UPDATE ON work_order_approval_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry('status', 'decided_by', 'on_behalf_of', 'notes');
+
+ALTER TABLE approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_delegations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_order_approval_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view approval policies"
+  ON approval_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage approval policies"
+  ON approval_policies FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view approval steps"
+  ON work_order_approval_steps FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view delegations"
+  ON approval_delegations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Approvers can add own delegations"
+  ON approval_delegations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND (
+        users.role = 'admin' OR
+        (users.role = 'manager' AND approval_delegations.delegator_id = auth.uid())
+      )
+    )
+  );
+
+CREATE POLICY "Approvers can remove own delegations"
+  ON approval_delegations FOR DELETE
+  TO authenticated
+  USING (
+    delegator_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
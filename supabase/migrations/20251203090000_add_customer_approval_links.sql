@@ -0,0 +1,363 @@
+/*
+  # Add Customer Approval Links
+
+  1. New Tables
+    - `approval_links`: an expiring link a customer uses to approve a repair
+      scope without an account
+      - `approval_id` (uuid) - the request the customer is deciding
+      - `token_hash` (text) - SHA-256 of the token in the link; the token itself
+        is only ever returned once, to the person who created it
+      - `customer_email` (text) - who the link was sent to
+      - `expires_at` (timestamptz)
+      - `viewed_at` / `used_at` / `revoked_at` (timestamptz)
+      - `created_by` (uuid)
+
+  2. Modified Tables
+    - `work_order_approvals`
+      - `customer_decision` (text) - approved, rejected or changes_requested
+      - `customer_comments` (text)
+      - `customer_decided_at` (timestamptz)
+      - `customer_signature_id` (uuid) - the customer's signature
+    - `signature_document_type` gains `work_order_approval`
+
+  3. New Functions
+    - `create_approval_link(approval, email, valid_days)` - managers and admins;
+      revokes any open link for the request and returns the new token
+    - `revoke_approval_link(link)` - managers and admins; revokes a link that
+      has not been answered
+    - `approval_link_details(token)` - what the public page shows; marks the
+      link viewed
+    - `record_customer_decision(token, ...)` - stores the signature and the
+      decision. An approval approves the request once no internal sign-off is
+      still waiting and moves the work order on; a rejection rejects it; a
+      change request cancels it so the shop can revise and request again.
+    - The last two are only callable with the service role, from the
+      `customer-approval` edge function
+
+  4. Security
+    - Admins and managers can view links; they are only changed through the
+      functions above
+*/
+
+ALTER TYPE signature_document_type ADD VALUE IF NOT EXISTS 'work_order_approval';
+
+CREATE TABLE IF NOT EXISTS approval_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  approval_id uuid NOT NULL REFERENCES work_order_approvals(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  customer_email text,
+  expires_at timestamptz NOT NULL,
+  viewed_at timestamptz,
+  used_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_links_approval ON approval_links(approval_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_order_approvals' AND column_name = 'customer_decision'
+  ) THEN
+    ALTER TABLE work_order_approvals ADD COLUMN customer_decision text
+      CHECK (customer_decision IN ('approved', 'rejected', 'changes_requested'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_order_approvals' AND column_name = 'customer_comments'
+  ) THEN
+    ALTER TABLE work_order_approvals ADD COLUMN customer_comments text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_order_approvals' AND column_name = 'customer_decided_at'
+  ) THEN
+    ALTER TABLE work_order_approvals ADD COLUMN customer_decided_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_order_approvals' AND column_name = 'customer_signature_id'
+  ) THEN
+    ALTER TABLE work_order_approvals ADD COLUMN customer_signature_id uuid REFERENCES signatures(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION hash_approval_token(p_token text)
+RETURNS text AS $$
+  SELECT encode(extensions.digest(p_token, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION create_approval_link(
+  p_approval_id uuid,
+  p_customer_email text DEFAULT NULL,
+  p_valid_days integer DEFAULT 7
+)
+RETURNS text AS $$
+DECLARE
+  v_token text := encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only managers can send approval links';
+  END IF;
+
+  IF p_valid_days IS NULL OR p_valid_days < 1 OR p_valid_days > 30 THEN
+    RAISE EXCEPTION 'Links can be valid for 1 to 30 days';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM work_order_approvals
+    WHERE id = p_approval_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Only a pending request can be sent to the customer';
+  END IF;
+
+  UPDATE approval_links
+  SET revoked_at = now()
+  WHERE approval_id = p_approval_id AND used_at IS NULL AND revoked_at IS NULL;
+
+  INSERT INTO approval_links (approval_id, token_hash, customer_email, expires_at, created_by)
+  VALUES (
+    p_approval_id,
+    hash_approval_token(v_token),
+    NULLIF(trim(p_customer_email), ''),
+    now() + make_interval(days => p_valid_days),
+    auth.uid()
+  );
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_approval_link(uuid, text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_approval_link(p_link_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only managers can revoke approval links';
+  END IF;
+
+  UPDATE approval_links
+  SET revoked_at = now()
+  WHERE id = p_link_id AND used_at IS NULL AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The link has already been answered or revoked';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION revoke_approval_link(uuid) TO authenticated;
+
+-- The link row for a token, if it can still be used
+CREATE OR REPLACE FUNCTION open_approval_link(p_token text)
+RETURNS approval_links AS $$
+DECLARE
+  v_link approval_links;
+BEGIN
+  SELECT * INTO v_link
+  FROM approval_links
+  WHERE token_hash = hash_approval_token(p_token)
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This approval link is not valid';
+  END IF;
+
+  IF v_link.expires_at < now() THEN
+    RAISE EXCEPTION 'This approval link has expired';
+  END IF;
+
+  RETURN v_link;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION approval_link_details(p_token text)
+RETURNS jsonb AS $$
+DECLARE
+  v_link approval_links := open_approval_link(p_token);
+  v_details jsonb;
+BEGIN
+  UPDATE approval_links SET viewed_at = COALESCE(viewed_at, now()) WHERE id = v_link.id;
+
+  SELECT jsonb_build_object(
+    'work_order_number', wo.work_order_number,
+    'customer_name', c.name,
+    'equipment', NULLIF(trim(concat_ws(' ', em.model_number, CASE WHEN eu.serial_number IS NOT NULL THEN 'S/N ' || eu.serial_number END)), ''),
+    'reported_issue', wo.reported_issue,
+    'findings_summary', a.findings_summary,
+    'required_parts', COALESCE(a.required_parts, '[]'::jsonb),
+    'estimated_cost', a.estimated_cost,
+    'estimated_hours', a.estimated_hours,
+    'requested_at', a.requested_at,
+    'expires_at', v_link.expires_at,
+    'status', a.status,
+    'customer_decision', a.customer_decision,
+    'customer_decided_at', a.customer_decided_at,
+    'photo_paths', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('path', p.storage_path, 'caption', p.caption) ORDER BY p.taken_at)
+      FROM photos p
+      JOIN work_sessions ws ON ws.id = p.work_session_id
+      WHERE ws.work_order_id = wo.id
+    ), '[]'::jsonb)
+  )
+  INTO v_details
+  FROM work_order_approvals a
+  JOIN work_orders wo ON wo.id = a.work_order_id
+  LEFT JOIN customers c ON c.id = wo.customer_id
+  LEFT JOIN equipment_units eu ON eu.id = wo.equipment_unit_id
+  LEFT JOIN equipment_models em ON em.id = eu.equipment_model_id
+  WHERE a.id = v_link.approval_id;
+
+  RETURN v_details;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_customer_decision(
+  p_token text,
+  p_decision text,
+  p_signer_name text,
+  p_signer_email text,
+  p_signature_data text,
+  p_comments text,
+  p_ip_address text,
+  p_user_agent text
+)
+RETURNS text AS $$
+DECLARE
+  v_link approval_links := open_approval_link(p_token);
+  v_approval work_order_approvals;
+  v_work_order work_orders;
+  v_signature_id uuid;
+  v_comments text := NULLIF(trim(p_comments), '');
+BEGIN
+  IF v_link.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This request has already been answered';
+  END IF;
+
+  IF p_decision NOT IN ('approved', 'rejected', 'changes_requested') THEN
+    RAISE EXCEPTION 'Unknown decision';
+  END IF;
+
+  IF COALESCE(trim(p_signer_name), '') = '' THEN
+    RAISE EXCEPTION 'Enter your name';
+  END IF;
+
+  IF p_decision <> 'changes_requested' AND COALESCE(p_signature_data, '') = '' THEN
+    RAISE EXCEPTION 'Sign to confirm your decision';
+  END IF;
+
+  IF p_decision <> 'approved' AND v_comments IS NULL THEN
+    RAISE EXCEPTION 'Tell us what you would like changed or why you are declining';
+  END IF;
+
+  SELECT * INTO v_approval FROM work_order_approvals WHERE id = v_link.approval_id FOR UPDATE;
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been decided';
+  END IF;
+
+  IF COALESCE(p_signature_data, '') <> '' THEN
+    INSERT INTO signatures (document_type, document_id, signer_name, signer_email, signature_data, ip_address, user_agent)
+    VALUES (
+      'work_order_approval', v_approval.id, trim(p_signer_name), NULLIF(trim(p_signer_email), ''),
+      p_signature_data, p_ip_address, p_user_agent
+    )
+    RETURNING id INTO v_signature_id;
+  END IF;
+
+  UPDATE approval_links SET used_at = now() WHERE id = v_link.id;
+
+  UPDATE work_order_approvals
+  SET customer_decision = p_decision,
+      customer_comments = v_comments,
+      customer_decided_at = now(),
+      customer_signature_id = v_signature_id
+  WHERE id = v_approval.id;
+
+  IF p_decision <> 'approved' THEN
+    UPDATE work_order_approval_steps
+    SET status = 'skipped'
+    WHERE approval_id = v_approval.id AND status = 'pending';
+
+    UPDATE work_order_approvals
+    SET status = CASE WHEN p_decision = 'rejected' THEN 'rejected' ELSE 'cancelled' END,
+        approved_at = now(),
+        rejection_reason = CASE
+          WHEN p_decision = 'rejected' THEN 'Declined by customer: ' || v_comments
+          ELSE 'Customer requested changes: ' || v_comments
+        END
+    WHERE id = v_approval.id;
+
+    RETURN p_decision;
+  END IF;
+
+  -- Internal sign-offs still waiting finish the request from ApprovalReview
+  IF EXISTS (
+    SELECT 1 FROM work_order_approval_steps
+    WHERE approval_id = v_approval.id AND status = 'pending'
+  ) THEN
+    RETURN 'pending';
+  END IF;
+
+  UPDATE work_order_approvals
+  SET status = 'approved',
+      approved_at = now(),
+      approval_notes = COALESCE(approval_notes, 'Approved by customer: ' || trim(p_signer_name))
+  WHERE id = v_approval.id;
+
+  SELECT * INTO v_work_order FROM work_orders WHERE id = v_approval.work_order_id;
+  IF v_work_order.current_phase = 'awaiting_approval' AND cardinality(unmet_phase_guards(
+    v_work_order.id, v_work_order.work_type, v_work_order.current_phase, v_approval.next_phase,
+    v_work_order.qc_signed_off_by IS NOT NULL
+  )) = 0 THEN
+    UPDATE work_orders
+    SET current_phase = v_approval.next_phase, status = 'in_progress'
+    WHERE id = v_work_order.id;
+  END IF;
+
+  RETURN 'approved';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION open_approval_link(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION approval_link_details(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_customer_decision(text, text, text, text, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION approval_link_details(text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_customer_decision(text, text, text, text, text, text, text, text) TO service_role;
+
+DROP TRIGGER IF EXISTS work_order_approvals_audit ON work_order_approvals;
+CREATE TRIGGER work_order_approvals_audit
+  AFTER INSERT OR UPDATE OR DELETE ON work_order_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry(
+    'status', 'phase_completed', 'next_phase', 'approved_by', 'approval_notes',
+    'rejection_reason', 'estimated_cost', 'estimated_hours', 'pre_approved', 'reviewed_at',
+    'customer_decision', 'customer_comments'
+  );
+
+ALTER TABLE approval_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view approval links"
+  ON approval_links FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
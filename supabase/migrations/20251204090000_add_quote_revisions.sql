@@ -0,0 +1,324 @@
+/*
+  # Persist Quotes with Revisions and a Status Lifecycle
+
+  1. New Tables
+    - `quote_revisions`: a frozen copy of a quote each time it is revised
+      - `quote_id` (uuid)
+      - `version` (integer) - the version the snapshot was taken of
+      - `snapshot` (jsonb) - the quote row plus its `line_items`
+      - `reason` (text) - why the quote was reopened
+      - `created_by` (uuid) / `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `quotes`
+      - `work_order_id` (uuid) - the work order the quote prices, if any
+      - `version` (integer) - starts at 1, bumped by each revision
+      - `rejected_at` (timestamptz)
+    - `company_settings`
+      - `default_tax_rate` (numeric) - percent applied to new quotes
+
+  3. New Functions / Triggers
+    - `enforce_quote_lifecycle()` - BEFORE UPDATE on `quotes`. Allowed moves:
+      draft → sent; sent → viewed; sent/viewed → accepted, rejected or expired;
+      accepted → converted. Going back to draft is only allowed while
+      `revise_quote` has set `app.revising_quote` to the quote's id.
+      Stamps `sent_at`, `viewed_at`, `accepted_at` and `rejected_at`, and refuses
+      content changes unless the quote is a draft.
+    - `guard_quote_line_items()` - refuses line changes unless the quote is a draft
+    - `sync_quote_subtotal()` - keeps `quotes.subtotal` equal to the sum of its
+      line totals
+    - `revise_quote(quote, reason)` - snapshots a sent, viewed, rejected or
+      expired quote, reopens it as a draft and returns the new version
+    - `save_quote_draft(quote, header, lines)` - creates a draft quote (when
+      `quote` is null) or updates one, replacing its line items, in a single
+      transaction; returns the quote id
+
+  4. Security
+    - Revisions are readable by whoever can read the quote and are only written
+      by `revise_quote`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quotes' AND column_name = 'work_order_id'
+  ) THEN
+    ALTER TABLE quotes ADD COLUMN work_order_id uuid REFERENCES work_orders(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quotes' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE quotes ADD COLUMN version integer NOT NULL DEFAULT 1;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quotes' AND column_name = 'rejected_at'
+  ) THEN
+    ALTER TABLE quotes ADD COLUMN rejected_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'company_settings' AND column_name = 'default_tax_rate'
+  ) THEN
+    ALTER TABLE company_settings ADD COLUMN default_tax_rate numeric(5,2) NOT NULL DEFAULT 0
+      CHECK (default_tax_rate >= 0 AND default_tax_rate <= 100);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_work_order ON quotes(work_order_id);
+
+CREATE TABLE IF NOT EXISTS quote_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  reason text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (quote_id, version)
+);
+
+ALTER TABLE quote_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of accessible quotes"
+  ON quote_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_revisions.quote_id
+      AND (
+        quotes.created_by = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM users
+          WHERE users.id = auth.uid()
+          AND users.role IN ('admin', 'manager')
+        )
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION enforce_quote_lifecycle()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Set by revise_quote() for the quote it is reopening
+  v_revising boolean := COALESCE(current_setting('app.revising_quote', true) = OLD.id::text, false);
+BEGIN
+  IF NEW.version IS DISTINCT FROM OLD.version
+    AND NOT (v_revising AND NEW.status = 'draft' AND NEW.version = OLD.version + 1)
+  THEN
+    RAISE EXCEPTION 'A quote''s version only changes when it is revised';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status = 'sent')
+      OR (OLD.status = 'sent' AND NEW.status = 'viewed')
+      OR (OLD.status IN ('sent', 'viewed') AND NEW.status IN ('accepted', 'rejected', 'expired'))
+      OR (OLD.status = 'accepted' AND NEW.status = 'converted')
+      OR (v_revising AND OLD.status IN ('sent', 'viewed', 'rejected', 'expired') AND NEW.status = 'draft' AND NEW.version = OLD.version + 1)
+    ) THEN
+      RAISE EXCEPTION 'A % quote cannot be marked %', OLD.status, NEW.status;
+    END IF;
+
+    CASE NEW.status
+      WHEN 'draft' THEN
+        NEW.sent_at := NULL;
+        NEW.viewed_at := NULL;
+        NEW.accepted_at := NULL;
+        NEW.rejected_at := NULL;
+      WHEN 'sent' THEN
+        NEW.sent_at := now();
+      WHEN 'viewed' THEN
+        NEW.viewed_at := COALESCE(NEW.viewed_at, now());
+      WHEN 'accepted' THEN
+        NEW.accepted_at := now();
+      WHEN 'rejected' THEN
+        NEW.rejected_at := now();
+      ELSE
+        NULL;
+    END CASE;
+  ELSIF OLD.status <> 'draft' AND (
+    NEW.customer_id IS DISTINCT FROM OLD.customer_id
+    OR NEW.work_order_id IS DISTINCT FROM OLD.work_order_id
+    OR NEW.equipment_type IS DISTINCT FROM OLD.equipment_type
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.valid_until IS DISTINCT FROM OLD.valid_until
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.tax_rate IS DISTINCT FROM OLD.tax_rate
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.terms IS DISTINCT FROM OLD.terms
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+  ) THEN
+    RAISE EXCEPTION 'Only a draft quote can be edited; revise it first';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quotes_enforce_lifecycle ON quotes;
+CREATE TRIGGER quotes_enforce_lifecycle
+  BEFORE UPDATE ON quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_quote_lifecycle();
+
+CREATE OR REPLACE FUNCTION guard_quote_line_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status quote_status;
+BEGIN
+  SELECT status INTO v_status
+  FROM quotes
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.quote_id ELSE NEW.quote_id END;
+
+  -- No quote means the quote itself is being deleted and the lines cascade
+  IF FOUND AND v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only a draft quote can be edited; revise it first';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quote_line_items_guard ON quote_line_items;
+CREATE TRIGGER quote_line_items_guard
+  BEFORE INSERT OR UPDATE OR DELETE ON quote_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_quote_line_items();
+
+CREATE OR REPLACE FUNCTION sync_quote_subtotal()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_quote_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.quote_id ELSE NEW.quote_id END;
+BEGIN
+  UPDATE quotes
+  SET subtotal = COALESCE((
+    SELECT sum(line_total) FROM quote_line_items WHERE quote_id = v_quote_id
+  ), 0)
+  WHERE id = v_quote_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quote_line_items_sync_subtotal ON quote_line_items;
+CREATE TRIGGER quote_line_items_sync_subtotal
+  AFTER INSERT OR UPDATE OR DELETE ON quote_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_quote_subtotal();
+
+CREATE OR REPLACE FUNCTION revise_quote(p_quote_id uuid, p_reason text DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_quote quotes;
+  v_role text;
+BEGIN
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  SELECT role INTO v_role FROM users WHERE id = auth.uid();
+  IF v_quote.created_by IS DISTINCT FROM auth.uid() AND COALESCE(v_role, '') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only the quote''s author or a manager can revise it';
+  END IF;
+
+  IF v_quote.status NOT IN ('sent', 'viewed', 'rejected', 'expired') THEN
+    RAISE EXCEPTION 'A % quote cannot be revised', v_quote.status;
+  END IF;
+
+  INSERT INTO quote_revisions (quote_id, version, snapshot, reason, created_by)
+  VALUES (
+    v_quote.id,
+    v_quote.version,
+    to_jsonb(v_quote) || jsonb_build_object(
+      'line_items',
+      COALESCE((
+        SELECT jsonb_agg(to_jsonb(li) ORDER BY li.created_at)
+        FROM quote_line_items li
+        WHERE li.quote_id = v_quote.id
+      ), '[]'::jsonb)
+    ),
+    NULLIF(trim(p_reason), ''),
+    auth.uid()
+  );
+
+  PERFORM set_config('app.revising_quote', v_quote.id::text, true);
+
+  UPDATE quotes
+  SET status = 'draft',
+      version = v_quote.version + 1
+  WHERE id = v_quote.id;
+
+  PERFORM set_config('app.revising_quote', '', true);
+
+  RETURN v_quote.version + 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION revise_quote(uuid, text) TO authenticated;
+
+-- Runs as the caller so the quote and line item policies still apply. A failed
+-- line rolls back the header too, so no empty quote claims a number.
+CREATE OR REPLACE FUNCTION save_quote_draft(p_quote_id uuid, p_header jsonb, p_lines jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_header quotes := jsonb_populate_record(NULL::quotes, p_header);
+  v_quote_id uuid := p_quote_id;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one line item';
+  END IF;
+
+  IF v_quote_id IS NULL THEN
+    INSERT INTO quotes (
+      customer_id, work_order_id, equipment_type, description, valid_until,
+      tax_rate, discount_amount, terms, notes, status, created_by
+    )
+    VALUES (
+      v_header.customer_id, v_header.work_order_id, v_header.equipment_type,
+      v_header.description, v_header.valid_until, v_header.tax_rate,
+      v_header.discount_amount, v_header.terms, v_header.notes, 'draft', auth.uid()
+    )
+    RETURNING id INTO v_quote_id;
+  ELSE
+    UPDATE quotes
+    SET customer_id = v_header.customer_id,
+        work_order_id = v_header.work_order_id,
+        equipment_type = v_header.equipment_type,
+        description = v_header.description,
+        valid_until = v_header.valid_until,
+        tax_rate = v_header.tax_rate,
+        discount_amount = v_header.discount_amount,
+        terms = v_header.terms,
+        notes = v_header.notes
+    WHERE id = v_quote_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quote not found';
+    END IF;
+
+    DELETE FROM quote_line_items WHERE quote_id = v_quote_id;
+  END IF;
+
+  INSERT INTO quote_line_items (
+    quote_id, item_type, inventory_item_id, description, quantity, unit_price,
+    discount_percent, notes
+  )
+  SELECT
+    v_quote_id, l.item_type, l.inventory_item_id, l.description, l.quantity,
+    l.unit_price, COALESCE(l.discount_percent, 0), l.notes
+  FROM jsonb_populate_recordset(NULL::quote_line_items, p_lines) l;
+
+  RETURN v_quote_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_quote_draft(uuid, jsonb, jsonb) TO authenticated;
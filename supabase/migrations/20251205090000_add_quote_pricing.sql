@@ -0,0 +1,246 @@
+/*
+  # Add Quote Pricing Rules
+
+  1. New Tables
+    - `part_markup_rules`: how far above cost parts are sold
+      - `name` (text)
+      - `category` (inventory_category) - null applies to every category
+      - `min_unit_cost` (numeric) - the rule applies from this unit cost up
+      - `markup_percent` (numeric)
+      - `is_active` (boolean)
+      A part uses the active rules for its own category if there are any,
+      otherwise the catch-all ones. Each rule marks up only the share of the
+      unit cost from its `min_unit_cost` to the next rule's, so a dearer part
+      never sells for less.
+    - `labor_rates`: hourly rate for a skill, optionally for one work type
+      - `skill` (text) - e.g. Technician, Winder, Machinist
+      - `work_type` (work_type) - null applies to every work type
+      - `hourly_rate` (numeric)
+      - `is_active` (boolean)
+    - `rewind_rates`: flat-rate rewind prices by horsepower and frame
+      - `min_hp` / `max_hp` (numeric) - inclusive range
+      - `frame` (text) - null applies to every frame
+      - `price` (numeric)
+      - `is_active` (boolean)
+
+  2. Modified Tables
+    - `company_settings`
+      - `shop_supplies_percent` (numeric) - added to quotes as a percent of labor
+    - `quotes`
+      - `approval_id` (uuid) - the approval request the quote was priced from
+
+  3. Updated Functions
+    - `save_quote_draft()` also saves the quote's `approval_id`
+
+  4. Seed Data
+    - A 35% catch-all part markup, 20% on cost over $500
+    - A $95/hr technician rate
+    - Flat rewind prices up to 100 HP
+
+  5. Security
+    - Everyone signed in can read the rules so quotes can be priced
+    - Admins and managers maintain them
+*/
+
+CREATE TABLE IF NOT EXISTS part_markup_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  category inventory_category,
+  min_unit_cost numeric(10,2) NOT NULL DEFAULT 0 CHECK (min_unit_cost >= 0),
+  markup_percent numeric(6,2) NOT NULL CHECK (markup_percent >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS labor_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  skill text NOT NULL,
+  work_type work_type,
+  hourly_rate numeric(10,2) NOT NULL CHECK (hourly_rate >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS rewind_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  min_hp numeric(8,2) NOT NULL CHECK (min_hp >= 0),
+  max_hp numeric(8,2) NOT NULL,
+  frame text,
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (max_hp >= min_hp)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'company_settings' AND column_name = 'shop_supplies_percent'
+  ) THEN
+    ALTER TABLE company_settings ADD COLUMN shop_supplies_percent numeric(5,2) NOT NULL DEFAULT 0
+      CHECK (shop_supplies_percent >= 0 AND shop_supplies_percent <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quotes' AND column_name = 'approval_id'
+  ) THEN
+    ALTER TABLE quotes ADD COLUMN approval_id uuid REFERENCES work_order_approvals(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_approval ON quotes(approval_id);
+
+INSERT INTO part_markup_rules (name, category, min_unit_cost, markup_percent)
+SELECT * FROM (VALUES
+  ('Standard parts', NULL::inventory_category, 0::numeric, 35::numeric),
+  ('High-value parts', NULL::inventory_category, 500::numeric, 20::numeric)
+) AS seed(name, category, min_unit_cost, markup_percent)
+WHERE NOT EXISTS (SELECT 1 FROM part_markup_rules);
+
+INSERT INTO labor_rates (skill, work_type, hourly_rate)
+SELECT 'Technician', NULL, 95
+WHERE NOT EXISTS (SELECT 1 FROM labor_rates);
+
+INSERT INTO rewind_rates (min_hp, max_hp, price)
+SELECT * FROM (VALUES
+  (0::numeric, 5::numeric, 650::numeric),
+  (5.01, 20, 1100),
+  (20.01, 50, 2200),
+  (50.01, 100, 3800)
+) AS seed(min_hp, max_hp, price)
+WHERE NOT EXISTS (SELECT 1 FROM rewind_rates);
+
+ALTER TABLE part_markup_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE labor_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rewind_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view part markup rules"
+  ON part_markup_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage part markup rules"
+  ON part_markup_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view labor rates"
+  ON labor_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage labor rates"
+  ON labor_rates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view rewind rates"
+  ON rewind_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can manage rewind rates"
+  ON rewind_rates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'manager')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION save_quote_draft(p_quote_id uuid, p_header jsonb, p_lines jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_header quotes := jsonb_populate_record(NULL::quotes, p_header);
+  v_quote_id uuid := p_quote_id;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one line item';
+  END IF;
+
+  IF v_quote_id IS NULL THEN
+    INSERT INTO quotes (
+      customer_id, work_order_id, approval_id, equipment_type, description,
+      valid_until, tax_rate, discount_amount, terms, notes, status, created_by
+    )
+    VALUES (
+      v_header.customer_id, v_header.work_order_id, v_header.approval_id, v_header.equipment_type,
+      v_header.description, v_header.valid_until, v_header.tax_rate,
+      v_header.discount_amount, v_header.terms, v_header.notes, 'draft', auth.uid()
+    )
+    RETURNING id INTO v_quote_id;
+  ELSE
+    UPDATE quotes
+    SET customer_id = v_header.customer_id,
+        work_order_id = v_header.work_order_id,
+        approval_id = v_header.approval_id,
+        equipment_type = v_header.equipment_type,
+        description = v_header.description,
+        valid_until = v_header.valid_until,
+        tax_rate = v_header.tax_rate,
+        discount_amount = v_header.discount_amount,
+        terms = v_header.terms,
+        notes = v_header.notes
+    WHERE id = v_quote_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quote not found';
+    END IF;
+
+    DELETE FROM quote_line_items WHERE quote_id = v_quote_id;
+  END IF;
+
+  INSERT INTO quote_line_items (
+    quote_id, item_type, inventory_item_id, description, quantity, unit_price,
+    discount_percent, notes
+  )
+  SELECT
+    v_quote_id, l.item_type, l.inventory_item_id, l.description, l.quantity,
+    l.unit_price, COALESCE(l.discount_percent, 0), l.notes
+  FROM jsonb_populate_recordset(NULL::quote_line_items, p_lines) l;
+
+  RETURN v_quote_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_quote_draft(uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,270 @@
+/*
+  # Convert Accepted Quotes into Work Orders
+
+  1. Modified Tables
+    - `quotes`
+      - `converted_at` (timestamptz) - when the quote became a work order
+    - `work_orders`
+      - `approved_scope` (jsonb) - the accepted quote's number, version, totals
+        and `lines`, frozen when the quote was converted
+
+  2. Updated Functions
+    - `enforce_quote_lifecycle()` now also
+      - stamps `viewed_at` on acceptance if the quote was never marked viewed
+      - refuses `converted` without a work order and stamps `converted_at`
+      - locks `converted_to_work_order_id` outside that move
+
+  3. New Functions
+    - `convert_quote(quote, work_order, work_type, priority, equipment_unit,
+      customer_po)` - accepts a sent or viewed quote, then either creates a work
+      order for the quote's customer or links the given open one. The work order
+      is marked approved by the customer with the quote's lines as its
+      `approved_scope`, and the quote is marked converted. Returns the work
+      order id.
+
+  4. Updated Views
+    - `quote_conversion_metrics` counts each stage from its timestamp rather than
+      the current status, and follows converted work orders through to invoicing
+
+  5. Security
+    - Only the quote's author or an admin or manager can convert it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quotes' AND column_name = 'converted_at'
+  ) THEN
+    ALTER TABLE quotes ADD COLUMN converted_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'approved_scope'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN approved_scope jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_converted_work_order ON quotes(converted_to_work_order_id);
+
+CREATE OR REPLACE FUNCTION enforce_quote_lifecycle()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Set by revise_quote() for the quote it is reopening
+  v_revising boolean := COALESCE(current_setting('app.revising_quote', true) = OLD.id::text, false);
+BEGIN
+  IF NEW.version IS DISTINCT FROM OLD.version
+    AND NOT (v_revising AND NEW.status = 'draft' AND NEW.version = OLD.version + 1)
+  THEN
+    RAISE EXCEPTION 'A quote''s version only changes when it is revised';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status = 'sent')
+      OR (OLD.status = 'sent' AND NEW.status = 'viewed')
+      OR (OLD.status IN ('sent', 'viewed') AND NEW.status IN ('accepted', 'rejected', 'expired'))
+      OR (OLD.status = 'accepted' AND NEW.status = 'converted')
+      OR (v_revising AND OLD.status IN ('sent', 'viewed', 'rejected', 'expired') AND NEW.status = 'draft' AND NEW.version = OLD.version + 1)
+    ) THEN
+      RAISE EXCEPTION 'A % quote cannot be marked %', OLD.status, NEW.status;
+    END IF;
+
+    CASE NEW.status
+      WHEN 'draft' THEN
+        NEW.sent_at := NULL;
+        NEW.viewed_at := NULL;
+        NEW.accepted_at := NULL;
+        NEW.rejected_at := NULL;
+      WHEN 'sent' THEN
+        NEW.sent_at := now();
+      WHEN 'viewed' THEN
+        NEW.viewed_at := COALESCE(NEW.viewed_at, now());
+      WHEN 'accepted' THEN
+        -- A customer who accepted has seen the quote
+        NEW.viewed_at := COALESCE(NEW.viewed_at, now());
+        NEW.accepted_at := now();
+      WHEN 'rejected' THEN
+        NEW.rejected_at := now();
+      WHEN 'converted' THEN
+        IF NEW.converted_to_work_order_id IS NULL THEN
+          RAISE EXCEPTION 'A quote is converted into a work order; use convert_quote';
+        END IF;
+        NEW.converted_at := now();
+      ELSE
+        NULL;
+    END CASE;
+  ELSIF NEW.converted_to_work_order_id IS DISTINCT FROM OLD.converted_to_work_order_id THEN
+    RAISE EXCEPTION 'A quote''s work order is only set when it is converted';
+  ELSIF OLD.status <> 'draft' AND (
+    NEW.customer_id IS DISTINCT FROM OLD.customer_id
+    OR NEW.work_order_id IS DISTINCT FROM OLD.work_order_id
+    OR NEW.equipment_type IS DISTINCT FROM OLD.equipment_type
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.valid_until IS DISTINCT FROM OLD.valid_until
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.tax_rate IS DISTINCT FROM OLD.tax_rate
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.terms IS DISTINCT FROM OLD.terms
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+  ) THEN
+    RAISE EXCEPTION 'Only a draft quote can be edited; revise it first';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION convert_quote(
+  p_quote_id uuid,
+  p_work_order_id uuid DEFAULT NULL,
+  p_work_type work_type DEFAULT 'repair',
+  p_priority priority_level DEFAULT 'medium',
+  p_equipment_unit_id uuid DEFAULT NULL,
+  p_customer_po text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_quote quotes;
+  v_role text;
+  v_work_order work_orders;
+  v_work_order_id uuid;
+  v_customer_name text;
+  v_labor_hours numeric;
+  v_scope jsonb;
+BEGIN
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  SELECT role INTO v_role FROM users WHERE id = auth.uid();
+  IF v_quote.created_by IS DISTINCT FROM auth.uid() AND COALESCE(v_role, '') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only the quote''s author or a manager can convert it';
+  END IF;
+
+  IF v_quote.status IN ('sent', 'viewed') THEN
+    UPDATE quotes SET status = 'accepted' WHERE id = v_quote.id
+    RETURNING * INTO v_quote;
+  ELSIF v_quote.status <> 'accepted' THEN
+    RAISE EXCEPTION 'A % quote cannot be converted', v_quote.status;
+  END IF;
+
+  SELECT COALESCE(sum(quantity), 0) INTO v_labor_hours
+  FROM quote_line_items
+  WHERE quote_id = v_quote.id AND item_type = 'labor';
+
+  IF p_work_order_id IS NULL THEN
+    IF v_quote.customer_id IS NULL THEN
+      RAISE EXCEPTION 'The quote has no customer to open a work order for';
+    END IF;
+
+    INSERT INTO work_orders (
+      customer_id, equipment_unit_id, work_type, priority, status,
+      reported_issue, estimated_hours, created_by
+    )
+    VALUES (
+      v_quote.customer_id,
+      p_equipment_unit_id,
+      p_work_type,
+      p_priority,
+      'pending',
+      COALESCE(NULLIF(trim(v_quote.description), ''), v_quote.equipment_type),
+      NULLIF(v_labor_hours, 0),
+      auth.uid()
+    )
+    RETURNING id INTO v_work_order_id;
+  ELSE
+    SELECT * INTO v_work_order FROM work_orders WHERE id = p_work_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Work order not found';
+    END IF;
+
+    IF v_work_order.customer_id IS DISTINCT FROM v_quote.customer_id
+      AND v_work_order.customer_id IS NOT NULL
+      AND v_quote.customer_id IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'Work order % is for a different customer', v_work_order.work_order_number;
+    END IF;
+
+    IF v_work_order.status IN ('completed', 'invoiced', 'cancelled') THEN
+      RAISE EXCEPTION 'Work order % is already %', v_work_order.work_order_number, v_work_order.status;
+    END IF;
+
+    v_work_order_id := v_work_order.id;
+  END IF;
+
+  SELECT COALESCE(NULLIF(trim(contact_person), ''), company_name) INTO v_customer_name
+  FROM customers
+  WHERE id = v_quote.customer_id;
+
+  v_scope := jsonb_build_object(
+    'quote_id', v_quote.id,
+    'quote_number', v_quote.quote_number,
+    'version', v_quote.version,
+    'accepted_at', v_quote.accepted_at,
+    'subtotal', v_quote.subtotal,
+    'tax_amount', v_quote.tax_amount,
+    'discount_amount', v_quote.discount_amount,
+    'total_amount', v_quote.total_amount,
+    'lines', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'item_type', li.item_type,
+          'inventory_item_id', li.inventory_item_id,
+          'description', li.description,
+          'quantity', li.quantity,
+          'unit_price', li.unit_price,
+          'discount_percent', li.discount_percent,
+          'line_total', li.line_total
+        )
+        ORDER BY li.created_at
+      )
+      FROM quote_line_items li
+      WHERE li.quote_id = v_quote.id
+    ), '[]'::jsonb)
+  );
+
+  UPDATE work_orders
+  SET approval_status = 'approved',
+      approved_by = COALESCE(v_customer_name, 'Customer') || ' (quote ' || v_quote.quote_number || ')',
+      approved_at = v_quote.accepted_at,
+      customer_po_number = COALESCE(NULLIF(trim(p_customer_po), ''), customer_po_number),
+      rejection_reason = NULL,
+      estimated_hours = COALESCE(NULLIF(v_labor_hours, 0), estimated_hours),
+      approved_scope = v_scope
+  WHERE id = v_work_order_id;
+
+  UPDATE quotes
+  SET status = 'converted',
+      converted_to_work_order_id = v_work_order_id
+  WHERE id = v_quote.id;
+
+  RETURN v_work_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION convert_quote(uuid, uuid, work_type, priority_level, uuid, text) TO authenticated;
+
+CREATE OR REPLACE VIEW quote_conversion_metrics AS
+SELECT
+  DATE_TRUNC('month', q.created_at) as period,
+  COUNT(*) as total_quotes,
+  COUNT(*) FILTER (WHERE q.sent_at IS NOT NULL) as quotes_sent,
+  COUNT(*) FILTER (WHERE q.accepted_at IS NOT NULL) as quotes_accepted,
+  COUNT(*) FILTER (WHERE q.converted_to_work_order_id IS NOT NULL) as quotes_converted,
+  ROUND((COUNT(*) FILTER (WHERE q.accepted_at IS NOT NULL)::numeric / NULLIF(COUNT(*) FILTER (WHERE q.sent_at IS NOT NULL), 0) * 100), 2) as acceptance_rate,
+  ROUND((COUNT(*) FILTER (WHERE q.converted_to_work_order_id IS NOT NULL)::numeric / NULLIF(COUNT(*) FILTER (WHERE q.accepted_at IS NOT NULL), 0) * 100), 2) as conversion_rate,
+  ROUND(AVG(q.total_amount)::numeric, 2) as avg_quote_value,
+  ROUND(SUM(q.total_amount) FILTER (WHERE q.accepted_at IS NOT NULL)::numeric, 2) as total_accepted_value,
+  COUNT(*) FILTER (WHERE q.viewed_at IS NOT NULL) as quotes_viewed,
+  COUNT(*) FILTER (WHERE wo.status = 'invoiced') as quotes_invoiced,
+  ROUND(SUM(q.total_amount) FILTER (WHERE wo.status = 'invoiced')::numeric, 2) as total_invoiced_value,
+  ROUND(AVG(EXTRACT(EPOCH FROM (q.accepted_at - q.sent_at)) / 86400)::numeric, 1) as avg_days_to_accept,
+  ROUND(AVG(EXTRACT(EPOCH FROM (q.converted_at - q.accepted_at)) / 86400)::numeric, 1) as avg_days_to_convert
+FROM quotes q
+LEFT JOIN work_orders wo ON wo.id = q.converted_to_work_order_id
+GROUP BY DATE_TRUNC('month', q.created_at);
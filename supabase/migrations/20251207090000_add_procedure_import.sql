@@ -0,0 +1,57 @@
+/*
+  # Import Procedures in One Transaction
+
+  1. New Functions
+    - `import_procedure_drafts(p_procedures)`: creates a draft for each entry of
+      `[{ source_template_id, template, steps }]` and returns the draft ids.
+      - With a `source_template_id` the draft opens in that version's family, which
+        must not already have a draft; without one a new procedure is created
+      - `template` and `steps` are saved as by `save_procedure_draft`
+      - Any failure rolls back the whole import
+
+  2. Security
+    - Runs as SECURITY INVOKER and additionally requires an admin or manager
+*/
+
+CREATE OR REPLACE FUNCTION import_procedure_drafts(p_procedures jsonb)
+RETURNS uuid[] AS $$
+DECLARE
+  v_item jsonb;
+  v_source procedure_templates%ROWTYPE;
+  v_draft_id uuid;
+  v_draft_ids uuid[] := '{}';
+BEGIN
+  PERFORM require_procedure_author();
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_procedures, '[]'::jsonb)) LOOP
+    IF v_item->>'source_template_id' IS NULL THEN
+      INSERT INTO procedure_templates (name, procedure_type, status, is_active, created_by)
+      SELECT r.name, r.procedure_type, 'draft', false, auth.uid()
+      FROM jsonb_populate_record(NULL::procedure_templates, v_item->'template') r
+      RETURNING id INTO v_draft_id;
+    ELSE
+      SELECT * INTO v_source FROM procedure_templates WHERE id = (v_item->>'source_template_id')::uuid;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Procedure template % not found', v_item->>'source_template_id';
+      END IF;
+
+      -- create_procedure_draft would hand back the open draft to be overwritten
+      IF EXISTS (
+        SELECT 1 FROM procedure_templates
+        WHERE family_id = v_source.family_id AND status = 'draft'
+      ) THEN
+        RAISE EXCEPTION '"%" already has an open draft; publish or discard it first', v_source.name;
+      END IF;
+
+      v_draft_id := create_procedure_draft(v_source.id);
+    END IF;
+
+    PERFORM save_procedure_draft(v_draft_id, v_item->'template', COALESCE(v_item->'steps', '[]'::jsonb));
+    v_draft_ids := v_draft_ids || v_draft_id;
+  END LOOP;
+
+  RETURN v_draft_ids;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION import_procedure_drafts(jsonb) TO authenticated;
@@ -1,9 +1,46 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const swTemplatePath = fileURLToPath(new URL('./src/sw.js', import.meta.url));
+
+function renderServiceWorker(version: string, precache: string[]) {
+  return readFileSync(swTemplatePath, 'utf-8')
+    .replace('__SW_VERSION__', JSON.stringify(version))
+    .replace('__PRECACHE_MANIFEST__', JSON.stringify(precache));
+}
+
+// Emits /sw.js with the hashed build output as its precache manifest, and
+// serves an empty-manifest copy during development.
+function serviceWorker(): Plugin {
+  return {
+    name: 'field-ops-service-worker',
+    configureServer(server) {
+      server.middlewares.use('/sw.js', (_req, res) => {
+        res.setHeader('Content-Type', 'application/javascript');
+        res.end(renderServiceWorker('dev', []));
+      });
+    },
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((fileName) => fileName !== 'index.html' && !fileName.endsWith('.map'))
+        .sort();
+      const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: renderServiceWorker(version, ['/', '/index.html', ...assets.map((a) => `/${a}`)]),
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },